@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getStorage, type R2Bucket } from '@/lib/storage'
+import type { Globals } from '@/types'
+
+// Edge runtime required for Cloudflare Pages
+export const runtime = 'edge'
+
+// Dynamic import for Cloudflare runtime
+async function getR2Bucket(): Promise<R2Bucket | undefined> {
+  if (process.env.NODE_ENV !== 'production') {
+    return undefined
+  }
+  try {
+    const { getRequestContext } = await import('@cloudflare/next-on-pages')
+    const { env } = getRequestContext()
+    return (env as { R2_BUCKET?: R2Bucket }).R2_BUCKET
+  } catch {
+    return undefined
+  }
+}
+
+// Get user ID from Clerk auth or device ID header
+async function getUserId(request: NextRequest): Promise<string | null> {
+  // Try Clerk auth first
+  const { userId } = await auth()
+  if (userId) return userId
+
+  // Fall back to device ID from header
+  const deviceId = request.headers.get('x-device-id')
+  return deviceId || null
+}
+
+// GET /api/globals - Get the user's global variables
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized - provide auth or device ID' }, { status: 401 })
+    }
+
+    const storage = getStorage(await getR2Bucket())
+    const globals = await storage.getGlobals(userId)
+
+    return NextResponse.json({ globals })
+  } catch (error) {
+    console.error('Failed to get globals:', error)
+    return NextResponse.json(
+      { error: 'Failed to get globals' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/globals - Save the user's global variables
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized - provide auth or device ID' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { globals } = body as { globals: Globals }
+
+    if (!globals || !Array.isArray(globals.variables)) {
+      return NextResponse.json({ error: 'Globals with a variables array are required' }, { status: 400 })
+    }
+
+    const storage = getStorage(await getR2Bucket())
+    await storage.saveGlobals(userId, globals)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to save globals:', error)
+    return NextResponse.json(
+      { error: 'Failed to save globals' },
+      { status: 500 }
+    )
+  }
+}
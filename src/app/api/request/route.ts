@@ -1,27 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { checkUrl, createRateLimiter, getNetworkPolicy, NetworkPolicyError, rateLimitKey } from '@/lib/network-policy'
+import { prepareUpstreamRequest, type UpstreamRequest } from '@/lib/request-body'
+import { ResponseTooLargeError } from '@/lib/response-body'
+import { fetchUpstream, RequestTimeoutError } from '@/lib/upstream-fetch'
+import type { AwsSigV4Config, Cookie, FileAttachment, Redirect, ResponseHeader, ResponseTimings, SendSettings } from '@/types'
 
 export const runtime = 'edge'
 
+// Configured by the PROXY_* environment variables; see the README
+const policy = getNetworkPolicy()
+const rateLimiter = createRateLimiter(policy.rateLimit)
+
 export interface SendRequestBody {
   method: string
   url: string
   headers: Record<string, string>
   body?: string
+  bodyEncoding?: 'base64' // The body is binary data, e.g. an uploaded file
+  formData?: MultipartField[] // Sent as multipart/form-data instead of body
+  awsSigV4?: AwsSigV4Config // Signed here, just before sending, so the signature covers the final request
+  settings?: SendSettings // Timeout and redirect handling; TLS is always verified here
+  cookies?: Cookie[] // The cookie jar; cookies matching each hop are added to its Cookie header
+}
+
+export interface MultipartField {
+  key: string
+  value: string
+  file?: FileAttachment // File fields send the file instead of value
 }
 
 export interface SendRequestResponse {
   status: number
   statusText: string
-  headers: Record<string, string>
+  // The agent and CLI keep these as received. This edge proxy only has fetch's Headers: names
+  // lowercased and sorted, and only Set-Cookie repeats kept as separate entries
+  headers: ResponseHeader[]
   body: string
+  bodyEncoding?: 'base64' // Binary content types are sent as base64
   time: number
-  size: number
+  size: number // Bytes received, not the length of body
+  timings?: ResponseTimings
+  url?: string // Final URL, after redirects
+  redirects?: Redirect[]
+  cookies?: Cookie[] // Parsed Set-Cookie headers, for the caller to store in its jar
+  httpVersion?: string
+  remoteAddress?: string
 }
 
 export async function POST(request: NextRequest) {
   try {
+    // Signed in through Clerk, or anonymous with a device ID
+    const { userId } = await auth()
+    if (!userId && !request.headers.get('x-device-id')) {
+      return NextResponse.json({ error: 'Unauthorized - provide auth or device ID' }, { status: 401 })
+    }
+
+    const { allowed, retryAfter } = rateLimiter.take(rateLimitKey(userId, request.headers))
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests', message: `Rate limit reached, try again in ${retryAfter} seconds` },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
     const body: SendRequestBody = await request.json()
-    const { method, url, headers, body: requestBody } = body
+    const { method, url } = body
 
     if (!url) {
       return NextResponse.json({ error: 'URL is required' }, { status: 400 })
@@ -35,50 +79,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid URL' }, { status: 400 })
     }
 
-    const startTime = Date.now()
-
-    // Prepare fetch options
-    const fetchOptions: RequestInit = {
-      method: method || 'GET',
-      headers: {
-        ...headers,
-      },
-    }
+    // Checked again for each redirect by fetchUpstream; this answers before the body is prepared
+    checkUrl(parsedUrl.toString(), policy)
 
-    // Add body for methods that support it
-    if (requestBody && ['POST', 'PUT', 'PATCH'].includes(method.toUpperCase())) {
-      fetchOptions.body = requestBody
+    // Encode multipart and binary bodies, and sign AWS requests
+    let upstream: UpstreamRequest
+    try {
+      upstream = await prepareUpstreamRequest({ ...body, url: parsedUrl.toString() })
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request', message: error instanceof Error ? error.message : 'Could not prepare the request' },
+        { status: 400 }
+      )
     }
 
-    // Make the request
-    const response = await fetch(parsedUrl.toString(), fetchOptions)
-
-    const endTime = Date.now()
-    const time = endTime - startTime
-
-    // Get response body
-    const responseBody = await response.text()
-    const size = new TextEncoder().encode(responseBody).length
-
-    // Convert headers to plain object
-    const responseHeaders: Record<string, string> = {}
-    response.headers.forEach((value, key) => {
-      responseHeaders[key] = value
-    })
-
-    const result: SendRequestResponse = {
-      status: response.status,
-      statusText: response.statusText,
-      headers: responseHeaders,
-      body: responseBody,
-      time,
-      size,
-    }
+    // Make the request, following and timing redirects. The upstream request
+    // is aborted when the browser gives up on this one.
+    const result: SendRequestResponse = await fetchUpstream(
+      { method: method || 'GET', url: parsedUrl.toString(), ...upstream },
+      { ...body.settings, cookies: body.cookies, policy, signal: request.signal }
+    )
 
     return NextResponse.json(result)
   } catch (error) {
+    // The browser cancelled the request, so nobody is waiting for an answer
+    if (request.signal.aborted) {
+      return new NextResponse(null, { status: 499 })
+    }
+
     console.error('Request error:', error)
 
+    if (error instanceof NetworkPolicyError) {
+      return NextResponse.json({ error: 'Blocked by network policy', message: error.message }, { status: 403 })
+    }
+
+    if (error instanceof ResponseTooLargeError) {
+      return NextResponse.json({ error: 'Response too large', message: error.message }, { status: 502 })
+    }
+
+    if (error instanceof RequestTimeoutError) {
+      return NextResponse.json({ error: 'Timeout', message: error.message }, { status: 504 })
+    }
+
     if (error instanceof TypeError && error.message.includes('fetch')) {
       return NextResponse.json(
         {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getStorage, type R2Bucket } from '@/lib/storage'
+import type { WorkspaceSettings } from '@/types'
+
+// Edge runtime required for Cloudflare Pages
+export const runtime = 'edge'
+
+// Dynamic import for Cloudflare runtime
+async function getR2Bucket(): Promise<R2Bucket | undefined> {
+  if (process.env.NODE_ENV !== 'production') {
+    return undefined
+  }
+  try {
+    const { getRequestContext } = await import('@cloudflare/next-on-pages')
+    const { env } = getRequestContext()
+    return (env as { R2_BUCKET?: R2Bucket }).R2_BUCKET
+  } catch {
+    return undefined
+  }
+}
+
+// Get user ID from Clerk auth or device ID header
+async function getUserId(request: NextRequest): Promise<string | null> {
+  // Try Clerk auth first
+  const { userId } = await auth()
+  if (userId) return userId
+
+  // Fall back to device ID from header
+  const deviceId = request.headers.get('x-device-id')
+  return deviceId || null
+}
+
+// GET /api/settings - Get the user's workspace settings
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized - provide auth or device ID' }, { status: 401 })
+    }
+
+    const storage = getStorage(await getR2Bucket())
+    const settings = await storage.getSettings(userId)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Failed to get settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to get settings' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/settings - Save the user's workspace settings
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserId(request)
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized - provide auth or device ID' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { settings } = body as { settings: WorkspaceSettings }
+
+    if (!settings || typeof settings.transport !== 'string') {
+      return NextResponse.json({ error: 'Settings with a transport are required' }, { status: 400 })
+    }
+
+    const storage = getStorage(await getR2Bucket())
+    await storage.saveSettings(userId, settings)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to save settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to save settings' },
+      { status: 500 }
+    )
+  }
+}
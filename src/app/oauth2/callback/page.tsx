@@ -0,0 +1,18 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// OAuth 2.0 providers redirect here after sign-in; hand the URL back to the window that opened us
+export default function OAuth2Callback() {
+  useEffect(() => {
+    if (!window.opener) return
+    window.opener.postMessage({ type: 'oauth2-callback', url: window.location.href }, window.location.origin)
+    window.close()
+  }, [])
+
+  return (
+    <div className="h-screen flex items-center justify-center text-sm text-muted-foreground">
+      Completing sign-in. If this window stays open, you can close it.
+    </div>
+  )
+}
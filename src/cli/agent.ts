@@ -0,0 +1,62 @@
+import http from 'node:http'
+import { AGENT_USAGE, handleAgentRequest, parseAgentArgs, type AgentOptions } from '@/lib/agent'
+import { createNodeFetch } from './node-fetch'
+import { handleRelayUpgrade } from './websocket-relay'
+
+// Entry point for `npm run agent -- [options]`
+let options: AgentOptions
+try {
+  options = parseAgentArgs(process.argv.slice(2))
+} catch (error) {
+  console.error(`${error instanceof Error ? error.message : error}\n\n${AGENT_USAGE}`)
+  process.exit(2)
+}
+if (options.help) {
+  console.log(AGENT_USAGE)
+  process.exit(0)
+}
+
+// Turn Node's request into a fetch Request for the handler, and write its Response back
+const server = http.createServer(async (req, res) => {
+  // The app gave up on the request, so stop sending it
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort()
+  })
+
+  try {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+
+    const headers = new Headers()
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      headers.append(req.rawHeaders[i], req.rawHeaders[i + 1])
+    }
+
+    const request = new Request(new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`), {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+      signal: controller.signal,
+    })
+    const response = await handleAgentRequest(request, {
+      allowedOrigins: options.allowedOrigins,
+      createFetch: (body, onConnection) => createNodeFetch({ verifyTls: body.settings?.verifyTls !== false, onConnection }),
+    })
+
+    res.writeHead(response.status, Object.fromEntries(response.headers))
+    res.end(Buffer.from(await response.arrayBuffer()))
+  } catch (error) {
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Agent error', message: error instanceof Error ? error.message : 'Unknown error' }))
+  }
+})
+
+// WebSocket connections from the app, relayed to the server they name
+server.on('upgrade', (req, socket, head) => handleRelayUpgrade(req, socket, head, options.allowedOrigins))
+
+// Only this machine can reach the agent
+server.listen(options.port, '127.0.0.1', () => {
+  console.log(`Agent listening on http://127.0.0.1:${options.port}`)
+  console.log(`Accepting requests from ${options.allowedOrigins.join(', ')}`)
+})
@@ -0,0 +1,107 @@
+import http from 'node:http'
+import https from 'node:https'
+import { Readable } from 'node:stream'
+import zlib from 'node:zlib'
+import type { ConnectionInfo } from '@/lib/agent'
+import type { ResponseWithRawHeaders } from '@/lib/response-headers'
+import type { ConnectionTimings, ResponseWithConnectionTimings } from '@/lib/upstream-fetch'
+import type { ResponseHeader } from '@/types'
+
+// Statuses whose responses have no body, which Response refuses to be given one
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+function decompress(response: http.IncomingMessage): Readable {
+  switch (response.headers['content-encoding']) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip())
+    case 'deflate':
+      return response.pipe(zlib.createInflate())
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress())
+    default:
+      return response
+  }
+}
+
+// When each phase of opening a connection ended; missing for kept-alive connections
+interface ConnectionMarks {
+  lookup?: number
+  connect?: number
+  secureConnect?: number
+}
+
+function connectionTimings(start: number, marks: ConnectionMarks): ConnectionTimings {
+  const timings: ConnectionTimings = {}
+  let last = start
+  if (marks.lookup !== undefined) {
+    timings.dns = marks.lookup - last
+    last = marks.lookup
+  }
+  if (marks.connect !== undefined) {
+    timings.connect = marks.connect - last
+    last = marks.connect
+  }
+  if (marks.secureConnect !== undefined) timings.tls = marks.secureConnect - last
+  return timings
+}
+
+export interface NodeFetchOptions {
+  verifyTls?: boolean // Off accepts any server certificate
+  onConnection?: (connection: ConnectionInfo) => void // Called with each response's connection
+}
+
+/**
+ * A fetch on Node's http modules, for what Node's own fetch cannot do: accept any
+ * server certificate, e.g. for local dev servers with self-signed certificates, and
+ * report the HTTP version and address a response came from, time the DNS lookup,
+ * TCP connect and TLS handshake (on connectionTimings), and keep the headers as
+ * received (on rawHeaders), which Headers sorts and merges. Supports what
+ * fetchUpstream uses: manual redirects, string or byte bodies and an abort signal.
+ */
+export function createNodeFetch({ verifyTls = true, onConnection }: NodeFetchOptions = {}): typeof fetch {
+  return (input, init = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input))
+    const client = url.protocol === 'https:' ? https : http
+
+    return new Promise((resolve, reject) => {
+      const start = Date.now()
+      const marks: ConnectionMarks = {}
+      const request = client.request(
+        url,
+        {
+          method: init.method ?? 'GET',
+          headers: init.headers as Record<string, string> | undefined,
+          rejectUnauthorized: verifyTls,
+          signal: init.signal ?? undefined,
+        },
+        (response) => {
+          const headers = new Headers()
+          const rawHeaders: ResponseHeader[] = []
+          for (let i = 0; i < response.rawHeaders.length; i += 2) {
+            headers.append(response.rawHeaders[i], response.rawHeaders[i + 1])
+            rawHeaders.push({ key: response.rawHeaders[i], value: response.rawHeaders[i + 1] })
+          }
+          onConnection?.({ httpVersion: response.httpVersion, remoteAddress: response.socket.remoteAddress })
+          const status = response.statusCode ?? 0
+          const body = NULL_BODY_STATUSES.includes(status) ? null : (Readable.toWeb(decompress(response)) as ReadableStream)
+          const result: ResponseWithRawHeaders & ResponseWithConnectionTimings = new Response(body, { status, statusText: response.statusMessage, headers })
+          result.rawHeaders = rawHeaders
+          result.connectionTimings = connectionTimings(start, marks)
+          resolve(result)
+        }
+      )
+      request.on('socket', (socket) => {
+        if (!socket.connecting) return // A kept-alive connection, already open
+        socket.once('lookup', () => (marks.lookup = Date.now()))
+        socket.once('connect', () => (marks.connect = Date.now()))
+        socket.once('secureConnect', () => (marks.secureConnect = Date.now()))
+      })
+      request.on('error', reject)
+      request.end(init.body as string | Uint8Array | undefined)
+    })
+  }
+}
+
+// For requests with TLS verification turned off
+export const insecureFetch = createNodeFetch({ verifyTls: false })
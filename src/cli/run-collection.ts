@@ -0,0 +1,24 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { runCli } from '@/lib/runner/cli'
+import { sendDirect } from '@/lib/request-sender'
+import { createNodeExecutor } from '@/lib/scripting/node-executor'
+import { createNodeFetch, insecureFetch } from './node-fetch'
+
+const nodeFetch = createNodeFetch()
+
+// Entry point for `npm run runner -- <collection.json> [options]`
+runCli(process.argv.slice(2), {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: async (path, content) => {
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, content, 'utf8')
+  },
+  write: (text) => console.log(text),
+  // Node's http modules keep response headers as received; requests with TLS verification turned off accept any certificate
+  transport: (request, signal) => sendDirect(request, signal, request.settings?.verifyTls === false ? insecureFetch : nodeFetch),
+  // Collection scripts are untrusted: each runs in its own worker thread and is stopped after the timeout
+  createScriptExecutor: (timeout) => createNodeExecutor({ timeout }),
+}).then((code) => {
+  process.exitCode = code
+})
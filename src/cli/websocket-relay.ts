@@ -0,0 +1,213 @@
+import crypto from 'node:crypto'
+import http from 'node:http'
+import https from 'node:https'
+import type { Duplex } from 'node:stream'
+import { isAllowedOrigin } from '@/lib/agent'
+import { base64ToBytes, bytesToBase64 } from '@/lib/request-body'
+import {
+  OPCODES,
+  RELAY_PATH,
+  WebSocketFrameReader,
+  WebSocketProtocolError,
+  encodeCloseFrame,
+  encodeFrame,
+  encodeRelayMessage,
+  parseRelayMessage,
+  parseRelayTarget,
+  type RelayMessage,
+  type WebSocketTarget,
+} from '@/lib/websocket'
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+// Set by the agent for the handshake; extensions like compression are not supported
+const HANDSHAKE_HEADERS = ['connection', 'upgrade', 'sec-websocket-key', 'sec-websocket-version', 'sec-websocket-protocol', 'sec-websocket-extensions']
+
+// How long the other side has to answer a close frame before the connection is dropped
+const CLOSE_TIMEOUT = 5000
+
+function acceptKey(key: string): string {
+  return crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64')
+}
+
+function refuse(socket: Duplex, status: number, statusText: string, message: string) {
+  socket.end(`HTTP/1.1 ${status} ${statusText}\r\nContent-Type: text/plain\r\nConnection: close\r\n\r\n${message}`)
+}
+
+interface Peer {
+  send: (data: string | Uint8Array) => void
+  close: (code?: number, reason?: string) => void
+}
+
+interface PeerHandlers {
+  onMessage: (data: string | Uint8Array) => void
+  // Called once, with the code of the close frame: 1005 when it had none, 1006 when the connection was lost
+  onClose: (code: number, reason: string) => void
+}
+
+/**
+ * One end of a WebSocket connection on an upgraded socket. Pings are answered
+ * and the closing handshake completed here. Clients mask what they send.
+ */
+function createPeer(socket: Duplex, head: Buffer, mask: boolean, handlers: PeerHandlers): Peer {
+  const reader = new WebSocketFrameReader()
+  let closeSent = false
+  let closed = false
+
+  const write = (frame: Uint8Array) => {
+    if (socket.writable) socket.write(frame)
+  }
+  const finish = (code: number, reason: string) => {
+    if (closed) return
+    closed = true
+    handlers.onClose(code, reason)
+  }
+  const close = (code?: number, reason = '') => {
+    if (closeSent) return
+    closeSent = true
+    write(encodeCloseFrame(code, reason, mask))
+    setTimeout(() => socket.destroy(), CLOSE_TIMEOUT).unref()
+  }
+
+  const receive = (chunk: Uint8Array) => {
+    let events
+    try {
+      events = reader.push(chunk)
+    } catch (error) {
+      const code = error instanceof WebSocketProtocolError ? error.code : 1002
+      const reason = error instanceof Error ? error.message : 'Protocol error'
+      close(code, reason)
+      finish(code, reason)
+      return
+    }
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'text':
+        case 'binary':
+          if (!closeSent) handlers.onMessage(event.data)
+          break
+        case 'ping':
+          write(encodeFrame(OPCODES.pong, event.data, mask))
+          break
+        case 'close':
+          close(event.code, event.reason)
+          socket.end()
+          finish(event.code ?? 1005, event.reason)
+          return
+      }
+    }
+  }
+
+  // Bytes that came with the handshake are read once the caller has the peer
+  if (head.length > 0) queueMicrotask(() => receive(head))
+  socket.on('data', receive)
+  socket.on('close', () => finish(1006, ''))
+  socket.on('error', () => {}) // Followed by close
+
+  return {
+    send: (data) => write(encodeFrame(typeof data === 'string' ? OPCODES.text : OPCODES.binary, data, mask)),
+    close,
+  }
+}
+
+function connectUpstream(target: WebSocketTarget, key: string): http.ClientRequest {
+  const headers = Object.fromEntries(Object.entries(target.headers).filter(([name]) => !HANDSHAKE_HEADERS.includes(name.toLowerCase())))
+  const client = target.url.startsWith('wss:') ? https : http
+
+  return client.request(target.url.replace(/^ws/, 'http'), {
+    headers: {
+      ...headers,
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Version': '13',
+      'Sec-WebSocket-Key': key,
+      ...(target.protocols.length > 0 && { 'Sec-WebSocket-Protocol': target.protocols.join(', ') }),
+    },
+    rejectUnauthorized: target.verifyTls !== false,
+  })
+}
+
+/**
+ * Answer a page's WebSocket handshake on the agent's /websocket: connect to the
+ * target it names and relay messages both ways, wrapped in RelayMessages on
+ * the page's side. Pages from origins that are not allowed are refused.
+ */
+export function handleRelayUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer, allowedOrigins: string[]) {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+  if (pathname !== RELAY_PATH) return refuse(socket, 404, 'Not Found', 'Not found')
+  if (!isAllowedOrigin(req.headers.origin, allowedOrigins)) {
+    return refuse(socket, 403, 'Forbidden', `Start the agent with --origin ${req.headers.origin} to use it from this page`)
+  }
+
+  const pageKey = req.headers['sec-websocket-key']
+  let target: WebSocketTarget
+  try {
+    if (!pageKey) throw new Error('Expected a WebSocket handshake')
+    target = parseRelayTarget(req.url ?? '')
+  } catch (error) {
+    return refuse(socket, 400, 'Bad Request', error instanceof Error ? error.message : 'Invalid target')
+  }
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${acceptKey(pageKey)}\r\n\r\n`
+  )
+
+  const key = crypto.randomBytes(16).toString('base64')
+  const request = connectUpstream(target, key)
+  let upstream: Peer | undefined
+  let pageClosed = false
+
+  const page = createPeer(socket, head, false, {
+    onMessage: (data) => {
+      const message = typeof data === 'string' ? parseRelayMessage(data) : null
+      if (message?.type !== 'message') return
+      upstream?.send(message.binary ? base64ToBytes(message.data) : message.data)
+    },
+    onClose: (code, reason) => {
+      pageClosed = true
+      // A page that went away without closing is "going away" to the server
+      if (upstream) upstream.close(code === 1006 ? 1001 : code, reason)
+      else request.destroy()
+    },
+  })
+  const toPage = (message: RelayMessage) => page.send(encodeRelayMessage(message))
+  const fail = (message: string) => {
+    if (pageClosed) return
+    toPage({ type: 'error', message })
+    toPage({ type: 'close', code: 1006, reason: '' })
+    page.close(1011)
+  }
+
+  request.on('upgrade', (response: http.IncomingMessage, upstreamSocket: Duplex, upstreamHead: Buffer) => {
+    if (pageClosed) return upstreamSocket.destroy()
+    if (response.headers['sec-websocket-accept'] !== acceptKey(key)) {
+      upstreamSocket.destroy()
+      return fail('The server answered the handshake with an invalid Sec-WebSocket-Accept header')
+    }
+
+    upstream = createPeer(upstreamSocket, upstreamHead, true, {
+      onMessage: (data) => toPage(typeof data === 'string'
+        ? { type: 'message', data }
+        : { type: 'message', data: bytesToBase64(data), binary: true }),
+      onClose: (code, reason) => {
+        if (pageClosed) return
+        toPage({ type: 'close', code, reason })
+        page.close(code, reason)
+      },
+    })
+
+    const headers = []
+    for (let i = 0; i < response.rawHeaders.length; i += 2) {
+      headers.push({ key: response.rawHeaders[i], value: response.rawHeaders[i + 1] })
+    }
+    toPage({ type: 'open', protocol: response.headers['sec-websocket-protocol'] ?? '', headers })
+  })
+  request.on('response', (response) => {
+    response.resume()
+    fail(`The server answered with HTTP ${response.statusCode} ${response.statusMessage} instead of accepting the WebSocket connection`)
+  })
+  request.on('error', (error) => fail(error.message))
+  request.end()
+}
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { Cookie as CookieIcon, Plus, Trash2, Edit2, Check, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useCookies } from '@/store/store-context'
+import { formatSetCookie, mergeCookies, parseSetCookie } from '@/lib/cookies'
+import type { Cookie } from '@/types'
+
+// Parse a cookie typed as a Set-Cookie value, as if the domain had sent it
+function parseCookieText(text: string, domain: string): Cookie | null {
+  try {
+    return parseSetCookie(text, `https://${domain}/`)
+  } catch {
+    return null
+  }
+}
+
+interface CookieRowProps {
+  cookie: Cookie
+  domain: string
+  onSave: (cookie: Cookie) => void
+  onDelete: () => void
+}
+
+function CookieRow({ cookie, domain, onSave, onDelete }: CookieRowProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [text, setText] = useState('')
+  const parsed = isEditing ? parseCookieText(text, domain) : null
+
+  const handleSave = () => {
+    if (!parsed) return
+    onSave(parsed)
+    setIsEditing(false)
+  }
+
+  if (isEditing) {
+    return (
+      <tr className="border-b">
+        <td colSpan={4} className="py-2 pr-2">
+          <Input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            className="h-8 font-mono"
+            aria-label="Cookie"
+            aria-invalid={!parsed}
+          />
+        </td>
+        <td className="py-2">
+          <div className="flex gap-1">
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleSave} disabled={!parsed}>
+              <Check className="h-4 w-4 text-green-600" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setIsEditing(false)}>
+              <X className="h-4 w-4 text-red-600" />
+            </Button>
+          </div>
+        </td>
+      </tr>
+    )
+  }
+
+  const flags = [cookie.secure && 'Secure', cookie.httpOnly && 'HttpOnly', cookie.sameSite].filter(Boolean).join(', ')
+
+  return (
+    <tr className="border-b group">
+      <td className="py-2 pr-2 font-mono">{cookie.name}</td>
+      <td className="py-2 pr-2 font-mono text-muted-foreground break-all">{cookie.value}</td>
+      <td className="py-2 pr-2 font-mono">{cookie.path}</td>
+      <td className="py-2 pr-2 text-muted-foreground">
+        {cookie.expires ? new Date(cookie.expires).toLocaleString() : 'Session'}
+        {flags && <div className="text-xs">{flags}</div>}
+      </td>
+      <td className="py-2">
+        <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => {
+              setText(formatSetCookie(cookie))
+              setIsEditing(true)
+            }}
+            aria-label={`Edit ${cookie.name}`}
+          >
+            <Edit2 className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onDelete} aria-label={`Delete ${cookie.name}`}>
+            <Trash2 className="h-4 w-4 text-red-600" />
+          </Button>
+        </div>
+      </td>
+    </tr>
+  )
+}
+
+export function CookieManager() {
+  const { cookies, setCookies } = useCookies()
+  const [isOpen, setIsOpen] = useState(false)
+  const [selectedDomain, setSelectedDomain] = useState<string | null>(null)
+  const [addedDomains, setAddedDomains] = useState<string[]>([])
+  const [newDomain, setNewDomain] = useState('')
+  const [newCookie, setNewCookie] = useState('')
+
+  const domains = Array.from(new Set([...cookies.map((c) => c.domain), ...addedDomains])).sort()
+  const domain = selectedDomain && domains.includes(selectedDomain) ? selectedDomain : domains[0] ?? null
+  const domainCookies = cookies.filter((c) => c.domain === domain)
+  const parsedNewCookie = domain && newCookie.trim() ? parseCookieText(newCookie, domain) : null
+
+  const handleAddDomain = () => {
+    const name = newDomain.trim().replace(/^\./, '').toLowerCase()
+    if (!name) return
+    setAddedDomains([...addedDomains, name])
+    setSelectedDomain(name)
+    setNewDomain('')
+  }
+
+  const handleDeleteDomain = (name: string) => {
+    setCookies(cookies.filter((c) => c.domain !== name))
+    setAddedDomains(addedDomains.filter((d) => d !== name))
+  }
+
+  const handleAddCookie = () => {
+    if (!parsedNewCookie) return
+    setCookies(mergeCookies(cookies, [parsedNewCookie]))
+    setNewCookie('')
+  }
+
+  const replaceCookie = (old: Cookie, cookie: Cookie) => {
+    setCookies(mergeCookies(cookies.filter((c) => c !== old), [cookie]))
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Manage cookies" title="Cookies">
+          <CookieIcon className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle>Manage Cookies</DialogTitle>
+          <DialogDescription>
+            Cookies set by responses are kept here and sent with matching requests in this workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 h-[400px]">
+          {/* Domain List */}
+          <div className="w-56 border-r pr-4">
+            <div className="flex gap-1 mb-2">
+              <Input
+                value={newDomain}
+                onChange={(e) => setNewDomain(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddDomain()}
+                placeholder="Add domain"
+                className="h-8"
+              />
+              <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={handleAddDomain} aria-label="Add domain">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <ScrollArea className="h-[310px]">
+              <div className="space-y-1">
+                {domains.map((name) => (
+                  <div
+                    key={name}
+                    className={`flex items-center justify-between px-2 py-1.5 rounded cursor-pointer hover:bg-accent group ${
+                      name === domain ? 'bg-accent' : ''
+                    }`}
+                    onClick={() => setSelectedDomain(name)}
+                  >
+                    <span className="text-sm truncate">{name}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDeleteDomain(name)
+                      }}
+                      aria-label={`Delete cookies for ${name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                {domains.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">No cookies</p>
+                )}
+              </div>
+            </ScrollArea>
+            {cookies.length > 0 && (
+              <Button size="sm" variant="outline" className="w-full mt-2" onClick={() => setCookies([])}>
+                Clear All
+              </Button>
+            )}
+          </div>
+
+          {/* Cookies for the selected domain */}
+          <div className="flex-1 overflow-auto">
+            {domain ? (
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    value={newCookie}
+                    onChange={(e) => setNewCookie(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddCookie()}
+                    placeholder="name=value; Path=/; Expires=Wed, 21 Oct 2026 07:28:00 GMT"
+                    className="font-mono"
+                  />
+                  <Button size="sm" variant="outline" onClick={handleAddCookie} disabled={!parsedNewCookie}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Cookie
+                  </Button>
+                </div>
+
+                <div className="border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/50">
+                        <th className="text-left py-2 px-2">Name</th>
+                        <th className="text-left py-2 px-2">Value</th>
+                        <th className="text-left py-2 px-2">Path</th>
+                        <th className="text-left py-2 px-2">Expires</th>
+                        <th className="w-20"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {domainCookies.length === 0 ? (
+                        <tr>
+                          <td colSpan={5} className="py-4 text-center text-muted-foreground">
+                            No cookies for {domain}
+                          </td>
+                        </tr>
+                      ) : (
+                        domainCookies.map((cookie) => (
+                          <CookieRow
+                            key={`${cookie.name};${cookie.path}`}
+                            cookie={cookie}
+                            domain={domain}
+                            onSave={(updated) => replaceCookie(cookie, updated)}
+                            onDelete={() => setCookies(cookies.filter((c) => c !== cookie))}
+                          />
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-muted-foreground">
+                <p>Add a domain to create cookies for it</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -20,14 +20,15 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Code, Copy, Check } from 'lucide-react'
 import { generateCode, LANGUAGE_LABELS, type CodeLanguage } from '@/lib/code-generators'
-import type { ApiRequest } from '@/types'
+import type { ApiRequest, Auth } from '@/types'
 
 interface CodeSnippetDialogProps {
   request: ApiRequest | null
+  auth?: Auth // Effective auth when the request inherits it
   trigger?: React.ReactNode
 }
 
-export function CodeSnippetDialog({ request, trigger }: CodeSnippetDialogProps) {
+export function CodeSnippetDialog({ request, auth, trigger }: CodeSnippetDialogProps) {
   const [open, setOpen] = useState(false)
   const [language, setLanguage] = useState<CodeLanguage>('curl')
   const [copied, setCopied] = useState(false)
@@ -35,9 +36,9 @@ export function CodeSnippetDialog({ request, trigger }: CodeSnippetDialogProps)
 
   useEffect(() => {
     if (request && open) {
-      setCode(generateCode(request, language))
+      setCode(generateCode(request, language, { auth }))
     }
-  }, [request, language, open])
+  }, [request, auth, language, open])
 
   const handleCopy = async () => {
     try {
@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { KeyValueEditor } from '@/components/request/key-value-editor'
+import { AuthEditor } from '@/components/request/auth-editor'
+import { SendSettingsEditor } from '@/components/request/send-settings-editor'
+import type { Auth, Collection, KeyValue, SendSettings } from '@/types'
+
+interface EditCollectionDialogProps {
+  collection: Collection
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (updates: Partial<Collection>) => void
+}
+
+export function EditCollectionDialog({ collection, open, onOpenChange, onSave }: EditCollectionDialogProps) {
+  const [name, setName] = useState(collection.name)
+  const [description, setDescription] = useState(collection.description || '')
+  const [variables, setVariables] = useState<KeyValue[]>(collection.variables)
+  const [auth, setAuth] = useState<Auth | undefined>(collection.auth)
+  const [preRequestScript, setPreRequestScript] = useState(collection.preRequestScript?.content || '')
+  const [testScript, setTestScript] = useState(collection.testScript?.content || '')
+  const [settings, setSettings] = useState<SendSettings>(collection.settings ?? {})
+
+  const handleSave = () => {
+    if (!name.trim()) return
+
+    onSave({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      variables: variables.filter((v) => v.key),
+      auth: auth?.type === 'none' ? undefined : auth,
+      preRequestScript: preRequestScript.trim()
+        ? { enabled: collection.preRequestScript?.enabled ?? true, content: preRequestScript }
+        : undefined,
+      testScript: testScript.trim()
+        ? { enabled: collection.testScript?.enabled ?? true, content: testScript }
+        : undefined,
+      settings: Object.values(settings).some((value) => value !== undefined) ? settings : undefined,
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Edit Collection</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="general">
+          <TabsList>
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="variables">
+              Variables
+              {variables.length > 0 && (
+                <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">
+                  {variables.filter((v) => v.enabled).length}
+                </span>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="auth">Auth</TabsTrigger>
+            <TabsTrigger value="pre-request">Pre-request Script</TabsTrigger>
+            <TabsTrigger value="tests">Tests</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="general" className="space-y-4 pt-2">
+            <div>
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="My Collection"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Description (optional)</label>
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Description of this collection..."
+                className="mt-1"
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="variables" className="space-y-2 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Available as <code>{'{{variable}}'}</code> in every request of this collection.
+              Environment variables with the same name take precedence.
+            </p>
+            <div className="max-h-[300px] overflow-auto">
+              <KeyValueEditor
+                items={variables}
+                onChange={setVariables}
+                placeholder={{ key: 'Variable', value: 'Value' }}
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="auth" className="space-y-2 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Used by requests and folders in this collection whose auth is set to inherit.
+            </p>
+            <AuthEditor auth={auth} onChange={setAuth} collection={{ ...collection, variables }} />
+          </TabsContent>
+
+          <TabsContent value="pre-request" className="space-y-2 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Runs before every request in this collection, before the request&apos;s own script.
+            </p>
+            <Textarea
+              value={preRequestScript}
+              onChange={(e) => setPreRequestScript(e.target.value)}
+              placeholder="// pm.environment.set('timestamp', Date.now());"
+              className="min-h-[200px] font-mono text-sm"
+            />
+          </TabsContent>
+
+          <TabsContent value="tests" className="space-y-2 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Runs after every request in this collection, before the request&apos;s own tests.
+            </p>
+            <Textarea
+              value={testScript}
+              onChange={(e) => setTestScript(e.target.value)}
+              placeholder="// pm.test('Status is not 5xx', () => pm.expect(pm.response.status).to.be.below(500));"
+              className="min-h-[200px] font-mono text-sm"
+            />
+          </TabsContent>
+
+          <TabsContent value="settings" className="space-y-2 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Used by requests in this collection that do not set their own.
+            </p>
+            <SendSettingsEditor settings={settings} onChange={setSettings} />
+          </TabsContent>
+        </Tabs>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
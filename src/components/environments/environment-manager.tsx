@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Plus, Trash2, Edit2, Check, X, Settings } from 'lucide-react'
+import { Plus, Trash2, Edit2, Check, X, Settings, Globe } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -21,7 +21,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { useEnvironments } from '@/store/store-context'
+import { useEnvironments, useGlobals } from '@/store/store-context'
 import type { KeyValue, Environment } from '@/types'
 import { v4 as uuidv4 } from 'uuid'
 
@@ -112,12 +112,12 @@ function VariableRow({ variable, onUpdate, onDelete }: VariableRowProps) {
   )
 }
 
-interface EnvironmentEditorProps {
-  environment: Environment
-  onUpdate: (updates: Partial<Environment>) => void
+interface VariablesTableProps {
+  variables: KeyValue[]
+  onChange: (variables: KeyValue[]) => void
 }
 
-function EnvironmentEditor({ environment, onUpdate }: EnvironmentEditorProps) {
+function VariablesTable({ variables, onChange }: VariablesTableProps) {
   const addVariable = () => {
     const newVar: KeyValue = {
       id: uuidv4(),
@@ -125,23 +125,67 @@ function EnvironmentEditor({ environment, onUpdate }: EnvironmentEditorProps) {
       value: '',
       enabled: true,
     }
-    onUpdate({ variables: [...environment.variables, newVar] })
+    onChange([...variables, newVar])
   }
 
   const updateVariable = (id: string, updates: Partial<KeyValue>) => {
-    onUpdate({
-      variables: environment.variables.map((v) =>
-        v.id === id ? { ...v, ...updates } : v
-      ),
-    })
+    onChange(variables.map((v) => (v.id === id ? { ...v, ...updates } : v)))
   }
 
   const deleteVariable = (id: string) => {
-    onUpdate({
-      variables: environment.variables.filter((v) => v.id !== id),
-    })
+    onChange(variables.filter((v) => v.id !== id))
   }
 
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium">Variables</label>
+        <Button size="sm" variant="outline" onClick={addVariable}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Variable
+        </Button>
+      </div>
+
+      <div className="border rounded-md">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              <th className="text-left py-2 px-2 w-8"></th>
+              <th className="text-left py-2 px-2">Variable</th>
+              <th className="text-left py-2 px-2">Value</th>
+              <th className="w-20"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {variables.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="py-4 text-center text-muted-foreground">
+                  No variables yet. Add one to get started.
+                </td>
+              </tr>
+            ) : (
+              variables.map((variable) => (
+                <VariableRow
+                  key={variable.id}
+                  variable={variable}
+                  onUpdate={(updates) => updateVariable(variable.id, updates)}
+                  onDelete={() => deleteVariable(variable.id)}
+                />
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+interface EnvironmentEditorProps {
+  environment: Environment
+  onUpdate: (updates: Partial<Environment>) => void
+}
+
+function EnvironmentEditor({ environment, onUpdate }: EnvironmentEditorProps) {
   return (
     <div className="space-y-4">
       <div>
@@ -153,46 +197,10 @@ function EnvironmentEditor({ environment, onUpdate }: EnvironmentEditorProps) {
         />
       </div>
 
-      <div>
-        <div className="flex items-center justify-between mb-2">
-          <label className="text-sm font-medium">Variables</label>
-          <Button size="sm" variant="outline" onClick={addVariable}>
-            <Plus className="h-4 w-4 mr-1" />
-            Add Variable
-          </Button>
-        </div>
-
-        <div className="border rounded-md">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b bg-muted/50">
-                <th className="text-left py-2 px-2 w-8"></th>
-                <th className="text-left py-2 px-2">Variable</th>
-                <th className="text-left py-2 px-2">Value</th>
-                <th className="w-20"></th>
-              </tr>
-            </thead>
-            <tbody>
-              {environment.variables.length === 0 ? (
-                <tr>
-                  <td colSpan={4} className="py-4 text-center text-muted-foreground">
-                    No variables yet. Add one to get started.
-                  </td>
-                </tr>
-              ) : (
-                environment.variables.map((variable) => (
-                  <VariableRow
-                    key={variable.id}
-                    variable={variable}
-                    onUpdate={(updates) => updateVariable(variable.id, updates)}
-                    onDelete={() => deleteVariable(variable.id)}
-                  />
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
-      </div>
+      <VariablesTable
+        variables={environment.variables}
+        onChange={(variables) => onUpdate({ variables })}
+      />
     </div>
   )
 }
@@ -207,8 +215,10 @@ export function EnvironmentManager() {
     deleteEnvironment,
     setActiveEnvironment,
   } = useEnvironments()
+  const { globals, setGlobals } = useGlobals()
 
   const [isOpen, setIsOpen] = useState(false)
+  const [isGlobalsSelected, setIsGlobalsSelected] = useState(false)
   const [isCreateOpen, setIsCreateOpen] = useState(false)
   const [newEnvName, setNewEnvName] = useState('')
   const [selectedEnvId, setSelectedEnvId] = useState<string | null>(null)
@@ -223,6 +233,7 @@ export function EnvironmentManager() {
       setNewEnvName('')
       setIsCreateOpen(false)
       setSelectedEnvId(env.id)
+      setIsGlobalsSelected(false)
     }
   }
 
@@ -279,13 +290,25 @@ export function EnvironmentManager() {
                 </div>
                 <ScrollArea className="h-[350px]">
                   <div className="space-y-1">
+                    <div
+                      className={`flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer hover:bg-accent ${
+                        isGlobalsSelected ? 'bg-accent' : ''
+                      }`}
+                      onClick={() => setIsGlobalsSelected(true)}
+                    >
+                      <Globe className="h-3 w-3 text-muted-foreground" />
+                      <span className="text-sm">Globals</span>
+                    </div>
                     {environments.map((env) => (
                       <div
                         key={env.id}
                         className={`flex items-center justify-between px-2 py-1.5 rounded cursor-pointer hover:bg-accent ${
-                          selectedEnvId === env.id ? 'bg-accent' : ''
+                          !isGlobalsSelected && selectedEnvId === env.id ? 'bg-accent' : ''
                         }`}
-                        onClick={() => setSelectedEnvId(env.id)}
+                        onClick={() => {
+                          setSelectedEnvId(env.id)
+                          setIsGlobalsSelected(false)
+                        }}
                       >
                         <span className="text-sm truncate">{env.name}</span>
                         <Button
@@ -312,7 +335,15 @@ export function EnvironmentManager() {
 
               {/* Environment Editor */}
               <div className="flex-1 overflow-auto">
-                {selectedEnv ? (
+                {isGlobalsSelected ? (
+                  <div className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      Global variables are available in every environment. Environment and collection
+                      variables with the same name take precedence.
+                    </p>
+                    <VariablesTable variables={globals} onChange={setGlobals} />
+                  </div>
+                ) : selectedEnv ? (
                   <EnvironmentEditor
                     environment={selectedEnv}
                     onUpdate={(updates) => updateEnvironment(selectedEnv.id, updates)}
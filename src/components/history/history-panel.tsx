@@ -92,7 +92,9 @@ function HistoryItem({ entry, onSelect }: HistoryItemProps) {
         >
           {entry.request.method}
         </Badge>
-        {entry.response && (
+        {entry.cancelled ? (
+          <span className="text-xs text-muted-foreground">Cancelled</span>
+        ) : entry.response && (
           <span className={cn('text-xs font-mono', getStatusColor(entry.response.status))}>
             {entry.response.status}
           </span>
@@ -0,0 +1,134 @@
+'use client'
+
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ASSERTION_OPERATORS, ASSERTION_TYPE_LABELS, OPERATOR_LABELS } from '@/lib/assertions'
+import type { AssertionOperator, AssertionType, ResponseAssertion } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+const TARGET_PLACEHOLDERS: Partial<Record<AssertionType, string>> = {
+  header: 'Content-Type',
+  jsonPath: '$.data.id',
+}
+
+interface AssertionEditorProps {
+  assertions: ResponseAssertion[]
+  onChange: (assertions: ResponseAssertion[]) => void
+}
+
+export function AssertionEditor({ assertions, onChange }: AssertionEditorProps) {
+  const addAssertion = () => {
+    onChange([...assertions, { id: uuidv4(), enabled: true, type: 'status', target: '', operator: 'equals', expected: '200' }])
+  }
+
+  const updateAssertion = (id: string, updates: Partial<ResponseAssertion>) => {
+    onChange(assertions.map((a) => (a.id === id ? { ...a, ...updates } : a)))
+  }
+
+  const removeAssertion = (id: string) => {
+    onChange(assertions.filter((a) => a.id !== id))
+  }
+
+  // Keep the operator valid for the new type
+  const changeType = (assertion: ResponseAssertion, type: AssertionType) => {
+    const operators = ASSERTION_OPERATORS[type]
+    updateAssertion(assertion.id, {
+      type,
+      operator: operators.includes(assertion.operator) ? assertion.operator : operators[0] ?? 'equals',
+      expected: type === 'jsonSchema' ? '{\n  "type": "object"\n}' : assertion.type === 'jsonSchema' ? '' : assertion.expected,
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      {assertions.map((assertion) => {
+        const operators = ASSERTION_OPERATORS[assertion.type]
+        const hasTarget = assertion.type === 'header' || assertion.type === 'jsonPath'
+
+        return (
+          <div key={assertion.id} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={assertion.enabled}
+                onChange={(e) => updateAssertion(assertion.id, { enabled: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <Select value={assertion.type} onValueChange={(value) => changeType(assertion, value as AssertionType)}>
+                <SelectTrigger className="w-[150px]" aria-label="Check">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ASSERTION_TYPE_LABELS) as AssertionType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {ASSERTION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {hasTarget && (
+                <Input
+                  value={assertion.target}
+                  onChange={(e) => updateAssertion(assertion.id, { target: e.target.value })}
+                  placeholder={TARGET_PLACEHOLDERS[assertion.type]}
+                  className="flex-1 font-mono"
+                />
+              )}
+              {operators.length > 0 ? (
+                <Select
+                  value={assertion.operator}
+                  onValueChange={(value) => updateAssertion(assertion.id, { operator: value as AssertionOperator })}
+                >
+                  <SelectTrigger className="w-[150px]" aria-label="Operator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map((operator) => (
+                      <SelectItem key={operator} value={operator}>
+                        {OPERATOR_LABELS[operator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="flex-1 text-sm text-muted-foreground">validates the response body</span>
+              )}
+              {operators.length > 0 && assertion.operator !== 'exists' && (
+                <Input
+                  value={assertion.expected}
+                  onChange={(e) => updateAssertion(assertion.id, { expected: e.target.value })}
+                  placeholder={assertion.type === 'responseTime' ? 'ms' : 'Expected value'}
+                  className={hasTarget ? 'w-[180px]' : 'flex-1'}
+                />
+              )}
+              <Button variant="ghost" size="icon" onClick={() => removeAssertion(assertion.id)}>
+                <Trash2 className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            </div>
+            {assertion.type === 'jsonSchema' && (
+              <Textarea
+                value={assertion.expected}
+                onChange={(e) => updateAssertion(assertion.id, { expected: e.target.value })}
+                className="ml-6 w-[calc(100%-1.5rem)] min-h-[120px] font-mono text-sm"
+                aria-label="JSON Schema"
+              />
+            )}
+          </div>
+        )
+      })}
+      <Button variant="outline" size="sm" onClick={addAssertion} className="w-full">
+        <Plus className="mr-2 h-4 w-4" />
+        Add Assertion
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { OAuth2Editor } from '@/components/request/oauth2-editor'
+import { AUTH_TYPE_LABELS, DEFAULT_OAUTH2_CONFIG, type ResolvedAuth } from '@/lib/auth'
+import type { Auth, AuthType, AwsSigV4Config, Collection } from '@/types'
+
+type ApiKeyAuth = NonNullable<Auth['apikey']>
+
+const AWS_FIELDS: Array<{ name: keyof AwsSigV4Config; label: string; placeholder: string; secret?: boolean }> = [
+  { name: 'accessKeyId', label: 'Access Key', placeholder: '{{awsAccessKeyId}}' },
+  { name: 'secretAccessKey', label: 'Secret Key', placeholder: '{{awsSecretAccessKey}}', secret: true },
+  { name: 'region', label: 'Region', placeholder: 'us-east-1' },
+  { name: 'service', label: 'Service', placeholder: 'execute-api' },
+  { name: 'sessionToken', label: 'Session Token', placeholder: 'Only for temporary credentials', secret: true },
+]
+
+interface AuthEditorProps {
+  auth?: Auth
+  onChange: (auth: Auth) => void
+  inherited?: ResolvedAuth // What 'inherit' resolves to; omit where there is no parent (collections)
+  collection?: Collection // Whose variables OAuth 2.0 fills in; the active request's collection when omitted
+}
+
+interface CredentialFieldsProps {
+  username: string
+  password: string
+  onChange: (credentials: { username: string; password: string }) => void
+}
+
+function CredentialFields({ username, password, onChange }: CredentialFieldsProps) {
+  return (
+    <>
+      <div>
+        <label className="text-sm font-medium">Username</label>
+        <Input
+          value={username}
+          onChange={(e) => onChange({ username: e.target.value, password })}
+          placeholder="Username"
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium">Password</label>
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => onChange({ username, password: e.target.value })}
+          placeholder="Password"
+          className="mt-1"
+        />
+      </div>
+    </>
+  )
+}
+
+export function AuthEditor({ auth, onChange, inherited, collection }: AuthEditorProps) {
+  const types = (Object.keys(AUTH_TYPE_LABELS) as AuthType[]).filter((type) => inherited || type !== 'inherit')
+  const current: Auth = auth ?? { type: inherited ? 'inherit' : 'none' }
+  const apikey: ApiKeyAuth = current.apikey ?? { key: '', value: '', in: 'header' }
+  const updateApiKey = (updates: Partial<ApiKeyAuth>) => onChange({ ...current, apikey: { ...apikey, ...updates } })
+  const awsv4: AwsSigV4Config = current.awsv4 ?? { accessKeyId: '', secretAccessKey: '', sessionToken: '', region: '', service: '' }
+
+  return (
+    <div className="space-y-4 max-w-md">
+      <div>
+        <label className="text-sm font-medium">Type</label>
+        <Select value={current.type} onValueChange={(value) => onChange({ ...current, type: value as AuthType })}>
+          <SelectTrigger className="mt-1" aria-label="Auth type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {types.map((type) => (
+              <SelectItem key={type} value={type}>
+                {AUTH_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {current.type === 'inherit' && inherited && (
+        <p className="text-sm text-muted-foreground">
+          {inherited.source
+            ? `Uses ${AUTH_TYPE_LABELS[inherited.auth.type]} from "${inherited.source}".`
+            : 'No parent folder or collection sets auth, so none is sent.'}
+        </p>
+      )}
+
+      {current.type === 'none' && (
+        <p className="text-sm text-muted-foreground">No authorization is sent.</p>
+      )}
+
+      {current.type === 'basic' && (
+        <CredentialFields
+          username={current.basic?.username || ''}
+          password={current.basic?.password || ''}
+          onChange={(basic) => onChange({ ...current, basic })}
+        />
+      )}
+
+      {current.type === 'digest' && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Sent after the server answers with a Digest challenge.
+          </p>
+          <CredentialFields
+            username={current.digest?.username || ''}
+            password={current.digest?.password || ''}
+            onChange={(digest) => onChange({ ...current, digest })}
+          />
+        </>
+      )}
+
+      {current.type === 'bearer' && (
+        <div>
+          <label className="text-sm font-medium">Token</label>
+          <Input
+            value={current.bearer?.token || ''}
+            onChange={(e) => onChange({ ...current, bearer: { token: e.target.value } })}
+            placeholder="{{token}}"
+            className="mt-1 font-mono"
+          />
+        </div>
+      )}
+
+      {current.type === 'apikey' && (
+        <>
+          <div>
+            <label className="text-sm font-medium">Key</label>
+            <Input
+              value={apikey.key}
+              onChange={(e) => updateApiKey({ key: e.target.value })}
+              placeholder="X-API-Key"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Value</label>
+            <Input
+              value={apikey.value}
+              onChange={(e) => updateApiKey({ value: e.target.value })}
+              placeholder="{{apiKey}}"
+              className="mt-1 font-mono"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Add to</label>
+            <Select
+              value={apikey.in}
+              onValueChange={(value) => updateApiKey({ in: value as 'header' | 'query' })}
+            >
+              <SelectTrigger className="mt-1" aria-label="Add API key to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="header">Header</SelectItem>
+                <SelectItem value="query">Query Params</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+
+      {current.type === 'awsv4' && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Signed with AWS Signature Version 4 just before sending, over the final URL, headers and body.
+          </p>
+          {AWS_FIELDS.map(({ name, label, placeholder, secret }) => (
+            <div key={name}>
+              <label className="text-sm font-medium">{label}</label>
+              <Input
+                type={secret ? 'password' : 'text'}
+                value={awsv4[name]}
+                onChange={(e) => onChange({ ...current, awsv4: { ...awsv4, [name]: e.target.value } })}
+                placeholder={placeholder}
+                className="mt-1 font-mono"
+              />
+            </div>
+          ))}
+        </>
+      )}
+
+      {current.type === 'oauth2' && (
+        <OAuth2Editor
+          config={current.oauth2 ?? DEFAULT_OAUTH2_CONFIG}
+          onChange={(oauth2) => onChange({ ...current, oauth2 })}
+          collection={collection}
+        />
+      )}
+    </div>
+  )
+}
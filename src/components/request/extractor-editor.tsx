@@ -0,0 +1,93 @@
+'use client'
+
+import { ArrowRight, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Extractor, ExtractorSource } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+const SOURCES: { value: ExtractorSource; label: string; placeholder: string }[] = [
+  { value: 'json', label: 'JSON body', placeholder: '$.data.token' },
+  { value: 'header', label: 'Header', placeholder: 'Location' },
+  { value: 'regex', label: 'Body regex', placeholder: 'id="(\\w+)"' },
+]
+
+interface ExtractorEditorProps {
+  extractors: Extractor[]
+  onChange: (extractors: Extractor[]) => void
+}
+
+export function ExtractorEditor({ extractors, onChange }: ExtractorEditorProps) {
+  const addExtractor = () => {
+    onChange([...extractors, { id: uuidv4(), enabled: true, source: 'json', expression: '', variable: '' }])
+  }
+
+  const updateExtractor = (id: string, updates: Partial<Extractor>) => {
+    onChange(extractors.map((e) => (e.id === id ? { ...e, ...updates } : e)))
+  }
+
+  const removeExtractor = (id: string) => {
+    onChange(extractors.filter((e) => e.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Copy values from the response into environment variables, without writing a script.
+        For regular expressions, the first capture group is used.
+      </p>
+      {extractors.map((extractor) => (
+        <div key={extractor.id} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={extractor.enabled}
+            onChange={(e) => updateExtractor(extractor.id, { enabled: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          <Select
+            value={extractor.source}
+            onValueChange={(value) => updateExtractor(extractor.id, { source: value as ExtractorSource })}
+          >
+            <SelectTrigger className="w-[130px]" aria-label="Extract from">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SOURCES.map((source) => (
+                <SelectItem key={source.value} value={source.value}>
+                  {source.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={extractor.expression}
+            onChange={(e) => updateExtractor(extractor.id, { expression: e.target.value })}
+            placeholder={SOURCES.find((s) => s.value === extractor.source)?.placeholder}
+            className="flex-1 font-mono"
+          />
+          <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+          <Input
+            value={extractor.variable}
+            onChange={(e) => updateExtractor(extractor.id, { variable: e.target.value })}
+            placeholder="Variable"
+            className="w-[180px]"
+          />
+          <Button variant="ghost" size="icon" onClick={() => removeExtractor(extractor.id)}>
+            <Trash2 className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addExtractor} className="w-full">
+        <Plus className="mr-2 h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Paperclip, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { readFileAttachment } from '@/lib/request-body'
+import { formatBytes } from '@/lib/utils'
+import type { FileAttachment } from '@/types'
+
+interface FilePickerProps {
+  file?: FileAttachment
+  onChange: (file: FileAttachment | undefined) => void
+  placeholder?: string
+  className?: string
+}
+
+export function FilePicker({ file, onChange, placeholder = 'Select file', className }: FilePickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (picked: File | undefined) => {
+    if (!picked) return
+    setError(null)
+    try {
+      onChange(await readFileAttachment(picked))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file')
+    }
+    // Allow picking the same file again after it changed on disk
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} className="min-w-0 flex-1 justify-start">
+          <Paperclip className="mr-2 h-4 w-4 shrink-0" />
+          <span className="truncate">
+            {file ? `${file.name} (${formatBytes(file.size)})` : placeholder}
+          </span>
+        </Button>
+        {file && (
+          <Button variant="ghost" size="icon" onClick={() => onChange(undefined)} aria-label="Remove file">
+            <X className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+      {error && <p className="mt-1 text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { FilePicker } from '@/components/request/file-picker'
+import type { FormField } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+interface FormDataEditorProps {
+  fields: FormField[]
+  onChange: (fields: FormField[]) => void
+}
+
+export function FormDataEditor({ fields, onChange }: FormDataEditorProps) {
+  const addField = () => {
+    onChange([...fields, { id: uuidv4(), key: '', value: '', enabled: true, type: 'text' }])
+  }
+
+  const updateField = (id: string, updates: Partial<FormField>) => {
+    onChange(fields.map((field) => (field.id === id ? { ...field, ...updates } : field)))
+  }
+
+  const removeField = (id: string) => {
+    onChange(fields.filter((field) => field.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field) => (
+        <div key={field.id} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={field.enabled}
+            onChange={(e) => updateField(field.id, { enabled: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          <Input
+            value={field.key}
+            onChange={(e) => updateField(field.id, { key: e.target.value })}
+            placeholder="Field name"
+            className="flex-1"
+          />
+          <Select
+            value={field.type ?? 'text'}
+            onValueChange={(value) => updateField(field.id, { type: value as FormField['type'] })}
+          >
+            <SelectTrigger className="w-[90px]" aria-label="Field type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="text">Text</SelectItem>
+              <SelectItem value="file">File</SelectItem>
+            </SelectContent>
+          </Select>
+          {field.type === 'file' ? (
+            <FilePicker
+              file={field.file}
+              onChange={(file) => updateField(field.id, { file })}
+              placeholder={field.description ? `Select ${field.description}` : undefined}
+              className="min-w-0 flex-1"
+            />
+          ) : (
+            <Input
+              value={field.value}
+              onChange={(e) => updateField(field.id, { value: e.target.value })}
+              placeholder="Field value"
+              className="flex-1"
+            />
+          )}
+          <Button variant="ghost" size="icon" onClick={() => removeField(field.id)}>
+            <Trash2 className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addField} className="w-full">
+        <Plus className="mr-2 h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,268 @@
+'use client'
+
+import { useRef, useState, type KeyboardEvent } from 'react'
+import { BookOpen, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { GraphQLSchemaExplorer } from '@/components/request/graphql-schema-explorer'
+import {
+  getCompletions,
+  introspectionRequest,
+  parseIntrospectionResponse,
+  positionAt,
+  validateQuery,
+  validateVariables,
+  type CompletionResult,
+  type GraphQLDiagnostic,
+  type GraphQLSchema,
+} from '@/lib/graphql'
+import { executeRequest } from '@/lib/runner'
+import { cn } from '@/lib/utils'
+import { useRequestCollection, useCookies, useEnvironments, useGlobals, useOAuth2Tokens, useTransport } from '@/store/store-context'
+import type { ApiRequest, GraphQLBody } from '@/types'
+
+// Schemas fetched this session, by request URL, so they survive switching tabs and requests
+const fetchedSchemas = new Map<string, GraphQLSchema>()
+
+const COMPLETION_TRIGGER = /[_A-Za-z0-9$@]/
+
+interface DiagnosticListProps {
+  text: string
+  diagnostics: GraphQLDiagnostic[]
+  onSelect: (diagnostic: GraphQLDiagnostic) => void
+}
+
+function DiagnosticList({ text, diagnostics, onSelect }: DiagnosticListProps) {
+  if (diagnostics.length === 0) return null
+  return (
+    <ul className="space-y-0.5 text-sm">
+      {diagnostics.map((diagnostic, index) => {
+        const { line, column } = positionAt(text, diagnostic.start)
+        return (
+          <li key={index}>
+            <button
+              type="button"
+              onClick={() => onSelect(diagnostic)}
+              className={cn('text-left hover:underline', diagnostic.severity === 'error' ? 'text-red-600' : 'text-yellow-600')}
+            >
+              Line {line}, column {column}: {diagnostic.message}
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+interface QueryEditorProps {
+  value: string
+  onChange: (value: string) => void
+  schema?: GraphQLSchema
+}
+
+function QueryEditor({ value, onChange, schema }: QueryEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [completion, setCompletion] = useState<(CompletionResult & { selected: number }) | null>(null)
+
+  const select = (start: number, end = start) => {
+    // After React has rendered the new value
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(start, end)
+    })
+  }
+
+  const suggest = (text: string, cursor: number) => {
+    const result = getCompletions(text, cursor, schema)
+    setCompletion(result.items.length ? { ...result, selected: 0 } : null)
+  }
+
+  const accept = (label: string) => {
+    if (!completion) return
+    onChange(value.slice(0, completion.from) + label + value.slice(completion.to))
+    select(completion.from + label.length)
+    setCompletion(null)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault()
+      suggest(value, e.currentTarget.selectionStart)
+      return
+    }
+    if (!completion) return
+
+    const count = completion.items.length
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : count - 1
+      setCompletion({ ...completion, selected: (completion.selected + step) % count })
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      accept(completion.items[completion.selected].label)
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setCompletion(null)
+    }
+  }
+
+  const diagnostics = value.trim() ? validateQuery(value, schema) : []
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            const text = e.target.value
+            const cursor = e.target.selectionStart
+            onChange(text)
+            // Suggest while a name, variable or directive is typed
+            if (cursor > 0 && COMPLETION_TRIGGER.test(text[cursor - 1]) && text.length > value.length) suggest(text, cursor)
+            else setCompletion(null)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(null)}
+          onClick={() => setCompletion(null)}
+          placeholder={'query {\n  \n}'}
+          className="min-h-[200px] font-mono text-sm"
+          spellCheck={false}
+          aria-label="GraphQL query"
+        />
+        {completion && (
+          <ul
+            role="listbox"
+            className="absolute left-2 top-full z-10 mt-1 max-h-60 w-96 max-w-full overflow-auto rounded-md border bg-popover p-1 text-sm shadow-md"
+          >
+            {completion.items.map((item, index) => (
+              <li
+                key={`${item.kind}:${item.label}`}
+                role="option"
+                aria-selected={index === completion.selected}
+                // Keep the focus in the editor
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  accept(item.label)
+                }}
+                className={cn(
+                  'flex cursor-pointer items-baseline gap-2 rounded px-2 py-1',
+                  index === completion.selected && 'bg-accent'
+                )}
+                title={item.description}
+              >
+                <span className={cn('font-mono', item.deprecated && 'line-through opacity-60')}>{item.label}</span>
+                <span className="ml-auto truncate font-mono text-xs text-muted-foreground">{item.detail ?? item.kind}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <DiagnosticList text={value} diagnostics={diagnostics} onSelect={(d) => select(d.start, d.end)} />
+    </div>
+  )
+}
+
+interface GraphQLEditorProps {
+  request: ApiRequest
+  body: GraphQLBody
+  onChange: (body: GraphQLBody) => void
+}
+
+export function GraphQLEditor({ request, body, onChange }: GraphQLEditorProps) {
+  const { activeEnvironment } = useEnvironments()
+  const requestCollection = useRequestCollection()
+  const { globals } = useGlobals()
+  const { tokenStore } = useOAuth2Tokens()
+  const { cookieStore } = useCookies()
+  const { transport } = useTransport()
+  const variablesRef = useRef<HTMLTextAreaElement>(null)
+  const [, setFetchedCount] = useState(0)
+  const [fetching, setFetching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showExplorer, setShowExplorer] = useState(false)
+
+  const schema = fetchedSchemas.get(request.url)
+  const variables = body.variables ?? ''
+  const variableDiagnostics = validateVariables(variables, body.query, schema)
+
+  // Sent like the request itself, with its headers, auth and cookies, but without scripts
+  const handleFetchSchema = async () => {
+    setFetching(true)
+    setError(null)
+    try {
+      const result = await executeRequest(introspectionRequest(request), {
+        variables: activeEnvironment?.variables || [],
+        globals,
+        collection: requestCollection ? { ...requestCollection, preRequestScript: undefined, testScript: undefined } : undefined,
+        oauth2Tokens: tokenStore,
+        cookies: cookieStore,
+        transport,
+      })
+      if (result.error) throw new Error(result.error)
+      fetchedSchemas.set(request.url, parseIntrospectionResponse(result.response))
+      setFetchedCount((count) => count + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not fetch the schema')
+    } finally {
+      setFetching(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-4">
+      <div className="min-w-0 flex-1 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleFetchSchema} disabled={fetching || !request.url}>
+            {fetching ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+            {schema ? 'Refresh schema' : 'Fetch schema'}
+          </Button>
+          {schema && (
+            <Button variant={showExplorer ? 'secondary' : 'ghost'} size="sm" onClick={() => setShowExplorer(!showExplorer)}>
+              <BookOpen className="h-4 w-4 mr-1" />
+              Schema
+            </Button>
+          )}
+          <span className="text-sm text-muted-foreground">
+            {schema
+              ? `${Object.keys(schema.types).filter((name) => !name.startsWith('__')).length} types. Press Ctrl+Space for suggestions.`
+              : 'Fetch the schema through introspection to get suggestions and checks.'}
+          </span>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Query</label>
+          <QueryEditor value={body.query} onChange={(query) => onChange({ ...body, query })} schema={schema} />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Variables</label>
+          <Textarea
+            ref={variablesRef}
+            value={variables}
+            onChange={(e) => onChange({ ...body, variables: e.target.value })}
+            placeholder={'{\n  "id": "{{userId}}"\n}'}
+            className="min-h-[100px] font-mono text-sm"
+            spellCheck={false}
+            aria-label="GraphQL variables"
+          />
+          <DiagnosticList
+            text={variables}
+            diagnostics={variableDiagnostics}
+            onSelect={(d) => {
+              variablesRef.current?.focus()
+              variablesRef.current?.setSelectionRange(d.start, d.end)
+            }}
+          />
+        </div>
+      </div>
+
+      {schema && showExplorer && (
+        <div className="w-80 shrink-0 max-h-[600px] overflow-auto rounded-md border p-3">
+          <GraphQLSchemaExplorer schema={schema} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { getNamedType, printType, type GraphQLInputValue, type GraphQLSchema, type GraphQLTypeRef } from '@/lib/graphql'
+
+interface GraphQLSchemaExplorerProps {
+  schema: GraphQLSchema
+}
+
+export function GraphQLSchemaExplorer({ schema }: GraphQLSchemaExplorerProps) {
+  // Types opened so far, so Back returns to the previous one
+  const [path, setPath] = useState<string[]>([])
+  const [search, setSearch] = useState('')
+
+  const typeName = path[path.length - 1]
+  const type = typeName ? schema.types[typeName] : undefined
+  const open = (name: string) => setPath([...path, name])
+
+  const typeLink = (ref: GraphQLTypeRef) => (
+    <button type="button" className="text-blue-600 hover:underline" onClick={() => open(getNamedType(ref))}>
+      {printType(ref)}
+    </button>
+  )
+
+  const argumentList = (args: GraphQLInputValue[]) =>
+    args.length === 0 ? null : (
+      <>
+        (
+        {args.map((arg, index) => (
+          <span key={arg.name}>
+            {index > 0 && ', '}
+            <span className="text-orange-600">{arg.name}</span>: {typeLink(arg.type)}
+            {arg.defaultValue != null && ` = ${arg.defaultValue}`}
+          </span>
+        ))}
+        )
+      </>
+    )
+
+  if (!type) {
+    const roots = [
+      ['query', schema.queryType],
+      ['mutation', schema.mutationType],
+      ['subscription', schema.subscriptionType],
+    ].filter((root): root is [string, string] => !!root[1])
+    const query = search.trim().toLowerCase()
+    const types = Object.values(schema.types)
+      .filter((t) => !t.name.startsWith('__') && t.name.toLowerCase().includes(query))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return (
+      <div className="space-y-3 text-sm">
+        <div className="space-y-1">
+          {roots.map(([operation, name]) => (
+            <div key={operation} className="font-mono">
+              {operation}: {typeLink({ kind: 'OBJECT', name })}
+            </div>
+          ))}
+        </div>
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search types" className="h-8" />
+        <div className="space-y-0.5 font-mono">
+          {types.map((t) => (
+            <div key={t.name}>
+              {typeLink(t)}
+              <span className="ml-2 text-xs text-muted-foreground">{t.kind.toLowerCase().replace('_', ' ')}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <Button variant="ghost" size="sm" className="h-7 px-1" onClick={() => setPath(path.slice(0, -1))}>
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        {path.length > 1 ? path[path.length - 2] : 'Schema'}
+      </Button>
+
+      <div>
+        <div className="font-mono font-medium">{type.name}</div>
+        <div className="text-xs text-muted-foreground">{type.kind.toLowerCase().replace('_', ' ')}</div>
+        {type.description && <p className="mt-1 text-muted-foreground whitespace-pre-wrap">{type.description}</p>}
+      </div>
+
+      {!!type.interfaces?.length && (
+        <div className="font-mono">
+          implements {type.interfaces.map((i, index) => (
+            <span key={i.name}>{index > 0 && ', '}{typeLink(i)}</span>
+          ))}
+        </div>
+      )}
+
+      {type.fields?.map((field) => (
+        <div key={field.name} className={field.isDeprecated ? 'opacity-60' : ''}>
+          <div className="font-mono break-words">
+            <span className={field.isDeprecated ? 'line-through' : ''}>{field.name}</span>
+            {argumentList(field.args)}: {typeLink(field.type)}
+          </div>
+          {field.description && <p className="text-muted-foreground">{field.description}</p>}
+          {field.isDeprecated && <p className="text-xs text-yellow-600">Deprecated{field.deprecationReason ? `: ${field.deprecationReason}` : ''}</p>}
+        </div>
+      ))}
+
+      {type.inputFields?.map((field) => (
+        <div key={field.name}>
+          <div className="font-mono break-words">
+            {field.name}: {typeLink(field.type)}
+            {field.defaultValue != null && ` = ${field.defaultValue}`}
+          </div>
+          {field.description && <p className="text-muted-foreground">{field.description}</p>}
+        </div>
+      ))}
+
+      {type.enumValues?.map((value) => (
+        <div key={value.name} className={value.isDeprecated ? 'opacity-60' : ''}>
+          <div className={`font-mono ${value.isDeprecated ? 'line-through' : ''}`}>{value.name}</div>
+          {value.description && <p className="text-muted-foreground">{value.description}</p>}
+        </div>
+      ))}
+
+      {!!type.possibleTypes?.length && (
+        <div className="space-y-0.5 font-mono">
+          <div className="text-xs text-muted-foreground font-sans">{type.kind === 'UNION' ? 'One of' : 'Implemented by'}</div>
+          {type.possibleTypes.map((t) => (
+            <div key={t.name}>{typeLink(t)}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { KeyValue } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+interface KeyValueEditorProps {
+  items: KeyValue[]
+  onChange: (items: KeyValue[]) => void
+  placeholder?: { key: string; value: string }
+}
+
+export function KeyValueEditor({ items, onChange, placeholder }: KeyValueEditorProps) {
+  const addItem = () => {
+    onChange([...items, { id: uuidv4(), key: '', value: '', enabled: true }])
+  }
+
+  const updateItem = (id: string, updates: Partial<KeyValue>) => {
+    onChange(items.map((item) => (item.id === id ? { ...item, ...updates } : item)))
+  }
+
+  const removeItem = (id: string) => {
+    onChange(items.filter((item) => item.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.id} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={item.enabled}
+            onChange={(e) => updateItem(item.id, { enabled: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          <Input
+            value={item.key}
+            onChange={(e) => updateItem(item.id, { key: e.target.value })}
+            placeholder={placeholder?.key || 'Key'}
+            className="flex-1"
+          />
+          <Input
+            value={item.value}
+            onChange={(e) => updateItem(item.id, { value: e.target.value })}
+            placeholder={placeholder?.value || 'Value'}
+            className="flex-1"
+          />
+          <Button variant="ghost" size="icon" onClick={() => removeItem(item.id)}>
+            <Trash2 className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addItem} className="w-full">
+        <Plus className="mr-2 h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  )
+}
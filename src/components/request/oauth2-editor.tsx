@@ -0,0 +1,196 @@
+'use client'
+
+import { useState } from 'react'
+import { KeyRound, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  authorizeInPopup,
+  fetchToken,
+  GRANT_TYPE_LABELS,
+  OAUTH2_CALLBACK_PATH,
+  oauth2TokenKey,
+  refreshToken,
+  resolveAuthVariables,
+  tokenExpiresIn,
+} from '@/lib/auth'
+import { mergeVariables } from '@/lib/request-sender'
+import { useEnvironments, useGlobals, useOAuth2Tokens, useRequestCollection, useTransport } from '@/store/store-context'
+import type { Collection, OAuth2Config, OAuth2GrantType } from '@/types'
+
+interface OAuth2EditorProps {
+  config: OAuth2Config
+  onChange: (config: OAuth2Config) => void
+  collection?: Collection // Whose variables fill in the config; the active request's collection when omitted
+}
+
+function formatExpiry(ms: number | undefined): string {
+  if (ms === undefined) return 'Token has no expiry'
+  if (ms <= 0) return 'Token expired'
+  const minutes = Math.round(ms / 60_000)
+  if (minutes < 1) return 'Token expires in less than a minute'
+  if (minutes < 120) return `Token expires in ${minutes} min`
+  return `Token expires in ${Math.round(minutes / 60)} h`
+}
+
+export function OAuth2Editor({ config, onChange, collection }: OAuth2EditorProps) {
+  const { activeEnvironment } = useEnvironments()
+  const requestCollection = useRequestCollection()
+  const { globals } = useGlobals()
+  const { tokens, setToken } = useOAuth2Tokens()
+  const { transport } = useTransport()
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Tokens are cached under the config with variables filled in, as it is sent
+  const variables = mergeVariables(globals, (collection ?? requestCollection)?.variables || [], activeEnvironment?.variables || [])
+  const resolved = resolveAuthVariables({ type: 'oauth2', oauth2: config }, variables).oauth2 ?? config
+  const key = oauth2TokenKey(resolved)
+  const token = tokens[key]
+
+  const update = (updates: Partial<OAuth2Config>) => onChange({ ...config, ...updates })
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Token request failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleGetToken = () => run(async () => {
+    const next = resolved.grantType === 'authorization_code'
+      ? await authorizeInPopup(resolved, transport)
+      : await fetchToken(resolved, transport)
+    setToken(key, next)
+  })
+
+  const handleRefresh = () => run(async () => {
+    if (token) setToken(key, await refreshToken(resolved, token, transport))
+  })
+
+  const field = (label: string, name: keyof OAuth2Config, placeholder: string, type: 'text' | 'password' = 'text') => (
+    <div>
+      <label className="text-sm font-medium">{label}</label>
+      <Input
+        type={type}
+        value={config[name] as string}
+        onChange={(e) => update({ [name]: e.target.value })}
+        placeholder={placeholder}
+        className="mt-1"
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium">Grant Type</label>
+        <Select value={config.grantType} onValueChange={(value) => update({ grantType: value as OAuth2GrantType })}>
+          <SelectTrigger className="mt-1" aria-label="Grant type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GRANT_TYPE_LABELS) as OAuth2GrantType[]).map((grantType) => (
+              <SelectItem key={grantType} value={grantType}>
+                {GRANT_TYPE_LABELS[grantType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {config.grantType === 'authorization_code' && (
+        <>
+          {field('Auth URL', 'authUrl', 'https://auth.example.com/authorize')}
+          <p className="text-sm text-muted-foreground">
+            Register <code>{typeof window !== 'undefined' ? window.location.origin : ''}{OAUTH2_CALLBACK_PATH}</code> as
+            a redirect URI with your provider.
+          </p>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={config.usePkce}
+              onChange={(e) => update({ usePkce: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Use PKCE (SHA-256)
+          </label>
+        </>
+      )}
+
+      {field('Access Token URL', 'accessTokenUrl', 'https://auth.example.com/oauth/token')}
+      {field('Client ID', 'clientId', '{{clientId}}')}
+      {field('Client Secret', 'clientSecret', '{{clientSecret}}', 'password')}
+
+      {config.grantType === 'password' && (
+        <>
+          {field('Username', 'username', 'Username')}
+          {field('Password', 'password', 'Password', 'password')}
+        </>
+      )}
+
+      {field('Scope', 'scope', 'read write')}
+
+      <div>
+        <label className="text-sm font-medium">Client Authentication</label>
+        <Select
+          value={config.clientAuthentication}
+          onValueChange={(value) => update({ clientAuthentication: value as OAuth2Config['clientAuthentication'] })}
+        >
+          <SelectTrigger className="mt-1" aria-label="Client authentication">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="header">Send as Basic Auth header</SelectItem>
+            <SelectItem value="body">Send client credentials in body</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-sm">
+            {token ? formatExpiry(tokenExpiresIn(token)) : 'No access token yet'}
+          </span>
+          {token?.refreshToken && (
+            <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={busy}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          )}
+          {token && (
+            <Button variant="ghost" size="icon" onClick={() => setToken(key, null)} disabled={busy} aria-label="Clear token">
+              <Trash2 className="h-4 w-4 text-muted-foreground" />
+            </Button>
+          )}
+          <Button size="sm" onClick={handleGetToken} disabled={busy}>
+            {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+            Get New Access Token
+          </Button>
+        </div>
+        {token && (
+          <p className="text-xs text-muted-foreground font-mono truncate">{token.accessToken}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Tokens are kept per environment until the page is closed.
+          {config.grantType === 'authorization_code'
+            ? ' Expired tokens are refreshed before sending when the provider issued a refresh token.'
+            : ' A new token is fetched, or the old one refreshed, before sending once it expires.'}
+        </p>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Send, Plus, Trash2, Loader2, Code, Upload, Copy, Check, MoreHorizontal } from 'lucide-react'
+import { Send, Loader2, Code, Upload, Copy, Check, MoreHorizontal } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -26,13 +26,21 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
-import { useActiveRequest, useLoading } from '@/store/store-context'
+import { useActiveRequest, useRequestCollection, useLoading } from '@/store/store-context'
 import { cn } from '@/lib/utils'
-import type { KeyValue, BodyType, HttpMethod } from '@/types'
-import { v4 as uuidv4 } from 'uuid'
+import type { ApiRequest, BodyType, FileAttachment, FormField, GraphQLBody, HttpMethod } from '@/types'
 import { CodeSnippetDialog } from '@/components/dialogs/code-snippet-dialog'
 import { ImportCurlDialog } from '@/components/dialogs/import-curl-dialog'
 import { generateCode } from '@/lib/code-generators'
+import { KeyValueEditor } from '@/components/request/key-value-editor'
+import { FormDataEditor } from '@/components/request/form-data-editor'
+import { FilePicker } from '@/components/request/file-picker'
+import { GraphQLEditor } from '@/components/request/graphql-editor'
+import { ExtractorEditor } from '@/components/request/extractor-editor'
+import { AssertionEditor } from '@/components/request/assertion-editor'
+import { AuthEditor } from '@/components/request/auth-editor'
+import { SendSettingsEditor } from '@/components/request/send-settings-editor'
+import { findAncestors, resolveAuth, resolveRequestAuth } from '@/lib/auth'
 
 const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']
 
@@ -46,88 +54,54 @@ const METHOD_COLORS: Record<string, string> = {
   OPTIONS: 'bg-cyan-500/10 text-cyan-600 border-cyan-500/30',
 }
 
-interface KeyValueEditorProps {
-  items: KeyValue[]
-  onChange: (items: KeyValue[]) => void
-  placeholder?: { key: string; value: string }
-}
-
-function KeyValueEditor({ items, onChange, placeholder }: KeyValueEditorProps) {
-  const addItem = () => {
-    onChange([...items, { id: uuidv4(), key: '', value: '', enabled: true }])
-  }
-
-  const updateItem = (id: string, updates: Partial<KeyValue>) => {
-    onChange(items.map((item) => (item.id === id ? { ...item, ...updates } : item)))
-  }
-
-  const removeItem = (id: string) => {
-    onChange(items.filter((item) => item.id !== id))
-  }
-
-  return (
-    <div className="space-y-2">
-      {items.map((item) => (
-        <div key={item.id} className="flex items-center gap-2">
-          <input
-            type="checkbox"
-            checked={item.enabled}
-            onChange={(e) => updateItem(item.id, { enabled: e.target.checked })}
-            className="h-4 w-4 rounded border-gray-300"
-          />
-          <Input
-            value={item.key}
-            onChange={(e) => updateItem(item.id, { key: e.target.value })}
-            placeholder={placeholder?.key || 'Key'}
-            className="flex-1"
-          />
-          <Input
-            value={item.value}
-            onChange={(e) => updateItem(item.id, { value: e.target.value })}
-            placeholder={placeholder?.value || 'Value'}
-            className="flex-1"
-          />
-          <Button variant="ghost" size="icon" onClick={() => removeItem(item.id)}>
-            <Trash2 className="h-4 w-4 text-muted-foreground" />
-          </Button>
-        </div>
-      ))}
-      <Button variant="outline" size="sm" onClick={addItem} className="w-full">
-        <Plus className="mr-2 h-4 w-4" />
-        Add
-      </Button>
-    </div>
-  )
+const BODY_TYPE_LABELS: Record<BodyType, string> = {
+  none: 'None',
+  json: 'JSON',
+  'form-data': 'Form Data',
+  'x-www-form-urlencoded': 'URL Encoded',
+  raw: 'Raw',
+  binary: 'Binary',
+  graphql: 'GraphQL',
 }
 
 interface BodyEditorProps {
+  request: ApiRequest // For fetching a GraphQL schema like the request is sent
   bodyType: BodyType
   content: string
-  formData: KeyValue[]
+  formData: FormField[]
+  file?: FileAttachment
+  graphql?: GraphQLBody
   onTypeChange: (type: BodyType) => void
   onContentChange: (content: string) => void
-  onFormDataChange: (formData: KeyValue[]) => void
+  onFormDataChange: (formData: FormField[]) => void
+  onFileChange: (file: FileAttachment | undefined) => void
+  onGraphQLChange: (graphql: GraphQLBody) => void
 }
 
 function BodyEditor({
+  request,
   bodyType,
   content,
   formData,
+  file,
+  graphql,
   onTypeChange,
   onContentChange,
   onFormDataChange,
+  onFileChange,
+  onGraphQLChange,
 }: BodyEditorProps) {
   return (
     <div className="space-y-4">
-      <div className="flex gap-2">
-        {(['none', 'json', 'form-data', 'x-www-form-urlencoded', 'raw'] as BodyType[]).map((type) => (
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(BODY_TYPE_LABELS) as BodyType[]).map((type) => (
           <Button
             key={type}
             variant={bodyType === type ? 'default' : 'outline'}
             size="sm"
             onClick={() => onTypeChange(type)}
           >
-            {type === 'none' ? 'None' : type === 'json' ? 'JSON' : type === 'form-data' ? 'Form Data' : type === 'x-www-form-urlencoded' ? 'URL Encoded' : 'Raw'}
+            {BODY_TYPE_LABELS[type]}
           </Button>
         ))}
       </div>
@@ -145,32 +119,51 @@ function BodyEditor({
         />
       )}
 
-      {(bodyType === 'form-data' || bodyType === 'x-www-form-urlencoded') && (
+      {bodyType === 'form-data' && (
+        <FormDataEditor fields={formData} onChange={onFormDataChange} />
+      )}
+
+      {bodyType === 'x-www-form-urlencoded' && (
         <KeyValueEditor
           items={formData}
           onChange={onFormDataChange}
           placeholder={{ key: 'Field name', value: 'Field value' }}
         />
       )}
+
+      {bodyType === 'binary' && (
+        <div className="space-y-2 max-w-md">
+          <FilePicker file={file} onChange={onFileChange} />
+          <p className="text-sm text-muted-foreground">
+            Sent as the raw request body, with the file&apos;s type as Content-Type unless you set one.
+          </p>
+        </div>
+      )}
+
+      {bodyType === 'graphql' && (
+        <GraphQLEditor request={request} body={graphql ?? { query: '' }} onChange={onGraphQLChange} />
+      )}
     </div>
   )
 }
 
 interface RequestBuilderProps {
   onSendRequest: () => void
+  onCancelRequest?: () => void
   onImportCurl?: (request: import('@/types').ApiRequest) => void
 }
 
-export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderProps) {
+export function RequestBuilder({ onSendRequest, onCancelRequest, onImportCurl }: RequestBuilderProps) {
   const { activeRequest, updateActiveRequest } = useActiveRequest()
   const { isLoading } = useLoading()
+  const requestCollection = useRequestCollection()
   const [activeTab, setActiveTab] = useState('params')
   const [copied, setCopied] = useState(false)
 
   const handleCopyCurl = async () => {
     if (!activeRequest) return
     try {
-      const curl = generateCode(activeRequest, 'curl')
+      const curl = generateCode(activeRequest, 'curl', { auth: resolveRequestAuth(activeRequest, requestCollection ?? undefined).auth })
       await navigator.clipboard.writeText(curl)
       setCopied(true)
       setTimeout(() => setCopied(false), 2000)
@@ -209,6 +202,9 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
   const bodyType = activeRequest.body?.type || 'none'
   const bodyContent = activeRequest.body?.content || ''
   const bodyFormData = activeRequest.body?.formData || []
+  // What the request gets when its auth is set to inherit
+  const inheritedAuth = resolveAuth(undefined, requestCollection ? [requestCollection, ...findAncestors(requestCollection, activeRequest.id)] : [])
+  const requestAuth = resolveRequestAuth(activeRequest, requestCollection ?? undefined)
 
   return (
     <div className="h-full flex flex-col">
@@ -251,19 +247,26 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
             className="flex-1 font-mono"
           />
 
-          <Button onClick={onSendRequest} disabled={isLoading || !activeRequest.url} className="px-6">
-            {isLoading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Sending
-              </>
-            ) : (
-              <>
-                <Send className="mr-2 h-4 w-4" />
-                Send
-              </>
-            )}
-          </Button>
+          {isLoading && onCancelRequest ? (
+            <Button variant="outline" onClick={onCancelRequest} className="px-6">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={onSendRequest} disabled={isLoading || !activeRequest.url} className="px-6">
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Send
+                </>
+              )}
+            </Button>
+          )}
 
           <TooltipProvider>
             <div className="flex items-center border-l pl-2 ml-2">
@@ -278,6 +281,7 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
 
               <CodeSnippetDialog
                 request={activeRequest}
+                auth={requestAuth.auth}
                 trigger={
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -335,6 +339,12 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
                 </span>
               )}
             </TabsTrigger>
+            <TabsTrigger
+              value="auth"
+              className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+            >
+              Auth
+            </TabsTrigger>
             <TabsTrigger
               value="headers"
               className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
@@ -363,6 +373,28 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
               className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
             >
               Tests
+              {(activeRequest.assertions?.length ?? 0) > 0 && (
+                <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">
+                  {activeRequest.assertions?.filter((a) => a.enabled).length}
+                </span>
+              )}
+            </TabsTrigger>
+            <TabsTrigger
+              value="extract"
+              className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+            >
+              Extract
+              {(activeRequest.extractors?.length ?? 0) > 0 && (
+                <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">
+                  {activeRequest.extractors?.filter((e) => e.enabled).length}
+                </span>
+              )}
+            </TabsTrigger>
+            <TabsTrigger
+              value="settings"
+              className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+            >
+              Settings
             </TabsTrigger>
           </TabsList>
 
@@ -375,6 +407,14 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
               />
             </TabsContent>
 
+            <TabsContent value="auth" className="mt-0 h-full">
+              <AuthEditor
+                auth={activeRequest.auth}
+                onChange={(auth) => updateActiveRequest({ auth })}
+                inherited={inheritedAuth}
+              />
+            </TabsContent>
+
             <TabsContent value="headers" className="mt-0 h-full">
               <KeyValueEditor
                 items={activeRequest.headers}
@@ -385,9 +425,12 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
 
             <TabsContent value="body" className="mt-0 h-full">
               <BodyEditor
+                request={activeRequest}
                 bodyType={bodyType}
                 content={bodyContent}
                 formData={bodyFormData}
+                file={activeRequest.body?.file}
+                graphql={activeRequest.body?.graphql}
                 onTypeChange={(type) =>
                   updateActiveRequest({
                     body: { ...activeRequest.body, type, content: bodyContent, formData: bodyFormData },
@@ -403,13 +446,23 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
                     body: { ...activeRequest.body, type: bodyType, content: bodyContent, formData },
                   })
                 }
+                onFileChange={(file) =>
+                  updateActiveRequest({
+                    body: { ...activeRequest.body, type: bodyType, file },
+                  })
+                }
+                onGraphQLChange={(graphql) =>
+                  updateActiveRequest({
+                    body: { ...activeRequest.body, type: bodyType, graphql },
+                  })
+                }
               />
             </TabsContent>
 
             <TabsContent value="pre-request" className="mt-0 h-full">
               <div className="space-y-2">
                 <p className="text-sm text-muted-foreground">
-                  JavaScript code to run before the request is sent.
+                  JavaScript code to run before the request is sent. Use <code>pm.request</code> to change the URL, headers or body.
                 </p>
                 <Textarea
                   value={activeRequest.preRequestScript?.content || ''}
@@ -418,7 +471,7 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
                       preRequestScript: { enabled: true, content: e.target.value },
                     })
                   }
-                  placeholder="// Pre-request script&#10;// pm.environment.set('token', 'value');"
+                  placeholder="// Pre-request script&#10;// pm.environment.set('timestamp', Date.now());&#10;// pm.request.headers.upsert({ key: 'X-Timestamp', value: '{{timestamp}}' });"
                   className="min-h-[200px] font-mono text-sm"
                 />
               </div>
@@ -426,6 +479,17 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
 
             <TabsContent value="tests" className="mt-0 h-full">
               <div className="space-y-2">
+                <h3 className="text-sm font-medium">Assertions</h3>
+                <p className="text-sm text-muted-foreground">
+                  Checks on the response that run without any code.
+                </p>
+                <AssertionEditor
+                  assertions={activeRequest.assertions || []}
+                  onChange={(assertions) => updateActiveRequest({ assertions })}
+                />
+              </div>
+              <div className="space-y-2 mt-6">
+                <h3 className="text-sm font-medium">Script</h3>
                 <p className="text-sm text-muted-foreground">
                   JavaScript code to run after the response is received.
                 </p>
@@ -441,6 +505,21 @@ export function RequestBuilder({ onSendRequest, onImportCurl }: RequestBuilderPr
                 />
               </div>
             </TabsContent>
+
+            <TabsContent value="extract" className="mt-0 h-full">
+              <ExtractorEditor
+                extractors={activeRequest.extractors || []}
+                onChange={(extractors) => updateActiveRequest({ extractors })}
+              />
+            </TabsContent>
+
+            <TabsContent value="settings" className="mt-0 h-full">
+              <SendSettingsEditor
+                settings={activeRequest.settings}
+                onChange={(settings) => updateActiveRequest({ settings })}
+                inherited={requestCollection ? requestCollection.settings ?? {} : undefined}
+              />
+            </TabsContent>
           </div>
         </Tabs>
       </div>
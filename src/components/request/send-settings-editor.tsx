@@ -0,0 +1,94 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DEFAULT_SEND_SETTINGS } from '@/lib/send-settings'
+import type { SendSettings } from '@/types'
+
+interface SendSettingsEditorProps {
+  settings?: SendSettings
+  onChange: (settings: SendSettings) => void
+  inherited?: SendSettings // The collection's settings, for a request; omit for collections
+}
+
+function onOff(value: boolean): string {
+  return value ? 'On' : 'Off'
+}
+
+export function SendSettingsEditor({ settings = {}, onChange, inherited }: SendSettingsEditorProps) {
+  // What an unset field falls back to, shown as the placeholder or the default option
+  const fallback: Required<SendSettings> = {
+    timeout: inherited?.timeout ?? DEFAULT_SEND_SETTINGS.timeout,
+    followRedirects: inherited?.followRedirects ?? DEFAULT_SEND_SETTINGS.followRedirects,
+    maxRedirects: inherited?.maxRedirects ?? DEFAULT_SEND_SETTINGS.maxRedirects,
+    verifyTls: inherited?.verifyTls ?? DEFAULT_SEND_SETTINGS.verifyTls,
+  }
+  const fallbackLabel = inherited ? 'Inherit' : 'Default'
+
+  const setNumber = (key: 'timeout' | 'maxRedirects', text: string) => {
+    const value = Number.parseInt(text, 10)
+    onChange({ ...settings, [key]: text === '' || Number.isNaN(value) ? undefined : Math.max(0, value) })
+  }
+
+  const toggle = (key: 'followRedirects' | 'verifyTls', label: string) => (
+    <div>
+      <label className="text-sm font-medium">{label}</label>
+      <Select
+        value={settings[key] === undefined ? 'fallback' : onOff(settings[key])}
+        onValueChange={(value) => onChange({ ...settings, [key]: value === 'fallback' ? undefined : value === 'On' })}
+      >
+        <SelectTrigger className="mt-1" aria-label={label}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="fallback">{fallbackLabel} ({onOff(fallback[key])})</SelectItem>
+          <SelectItem value="On">On</SelectItem>
+          <SelectItem value="Off">Off</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4 max-w-md">
+      <div>
+        <label className="text-sm font-medium">Timeout (ms)</label>
+        <Input
+          type="number"
+          min={0}
+          value={settings.timeout ?? ''}
+          onChange={(e) => setNumber('timeout', e.target.value)}
+          placeholder={fallback.timeout ? `${fallbackLabel} (${fallback.timeout})` : `${fallbackLabel} (no timeout)`}
+          className="mt-1"
+        />
+        <p className="mt-1 text-sm text-muted-foreground">Covers redirects and downloading the response. 0 waits indefinitely.</p>
+      </div>
+
+      {toggle('followRedirects', 'Follow redirects')}
+
+      <div>
+        <label className="text-sm font-medium">Maximum redirects</label>
+        <Input
+          type="number"
+          min={0}
+          value={settings.maxRedirects ?? ''}
+          onChange={(e) => setNumber('maxRedirects', e.target.value)}
+          placeholder={`${fallbackLabel} (${fallback.maxRedirects})`}
+          className="mt-1"
+        />
+      </div>
+
+      {toggle('verifyTls', 'Verify TLS certificates')}
+      <p className="text-sm text-muted-foreground">
+        Turning verification off is for local servers with self-signed certificates. It only applies to the CLI
+        runner and the local agent; requests sent through the proxy or the browser are always verified.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { responseBytes, toHexDump } from '@/lib/response-body'
+import { cn, formatBytes } from '@/lib/utils'
+import type { ApiResponse } from '@/types'
+
+// Larger dumps make the page sluggish; the full body is still available through Download
+const HEX_LIMIT = 64 * 1024
+
+interface BinaryBodyProps {
+  response: ApiResponse
+  contentType: string
+}
+
+function PdfPreview({ bytes }: { bytes: Uint8Array<ArrayBuffer> }) {
+  const frameRef = useRef<HTMLIFrameElement>(null)
+
+  // Browsers refuse to show PDFs from data: URLs in frames, so use a blob URL
+  useEffect(() => {
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }))
+    if (frameRef.current) frameRef.current.src = url
+    return () => URL.revokeObjectURL(url)
+  }, [bytes])
+
+  return <iframe ref={frameRef} title="PDF preview" className="h-full w-full border-0" />
+}
+
+export function BinaryBody({ response, contentType }: BinaryBodyProps) {
+  const type = contentType.split(';')[0].trim().toLowerCase()
+  const previewable = type.startsWith('image/') || type === 'application/pdf'
+  const [view, setView] = useState<'preview' | 'hex'>('preview')
+  const bytes = useMemo(() => responseBytes(response), [response])
+  const hexDump = useMemo(() => (view === 'hex' || !previewable ? toHexDump(bytes.subarray(0, HEX_LIMIT)) : ''), [bytes, view, previewable])
+
+  const showPreview = previewable && view === 'preview'
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-2 border-b px-4 py-2 text-sm text-muted-foreground">
+        <span>
+          {type || 'Binary'} · {formatBytes(response.size)}
+        </span>
+        <div className="flex-1" />
+        {previewable && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setView('preview')} className={cn(view === 'preview' && 'bg-muted')}>
+              Preview
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setView('hex')} className={cn(view === 'hex' && 'bg-muted')}>
+              Hex
+            </Button>
+          </>
+        )}
+      </div>
+      <div className="min-h-0 flex-1 overflow-auto">
+        {showPreview && type === 'application/pdf' && <PdfPreview bytes={bytes} />}
+        {showPreview && type !== 'application/pdf' && (
+          <div className="flex min-h-full items-center justify-center bg-muted/20 p-4">
+            {/* eslint-disable-next-line @next/next/no-img-element -- a data URL, nothing for next/image to optimize */}
+            <img src={`data:${type};base64,${response.body}`} alt="Response body" className="max-w-full" />
+          </div>
+        )}
+        {!showPreview && (
+          <>
+            <pre className="min-h-full bg-[#1e1e1e] p-4 font-mono text-sm text-[#abb2bf]">{hexDump}</pre>
+            {bytes.length > HEX_LIMIT && (
+              <p className="p-4 text-sm text-muted-foreground">
+                Showing the first {formatBytes(HEX_LIMIT)} of {formatBytes(bytes.length)}. Download the response to see all of it.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
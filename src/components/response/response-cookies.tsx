@@ -0,0 +1,42 @@
+'use client'
+
+import type { ApiResponse } from '@/types'
+
+interface ResponseCookiesProps {
+  response: ApiResponse
+}
+
+export function ResponseCookies({ response }: ResponseCookiesProps) {
+  const cookies = response.cookies || []
+
+  if (cookies.length === 0) {
+    return <p className="text-sm text-muted-foreground">No cookies were set by this response.</p>
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b">
+          <th className="text-left py-2 pr-4 font-medium">Name</th>
+          <th className="text-left py-2 pr-4 font-medium">Value</th>
+          <th className="text-left py-2 pr-4 font-medium">Domain</th>
+          <th className="text-left py-2 pr-4 font-medium">Path</th>
+          <th className="text-left py-2 font-medium">Expires</th>
+        </tr>
+      </thead>
+      <tbody>
+        {cookies.map((cookie, index) => (
+          <tr key={index} className="border-b">
+            <td className="py-2 pr-4 font-mono">{cookie.name}</td>
+            <td className="py-2 pr-4 font-mono break-all">{cookie.value}</td>
+            <td className="py-2 pr-4 font-mono text-muted-foreground">{cookie.domain}</td>
+            <td className="py-2 pr-4 font-mono text-muted-foreground">{cookie.path}</td>
+            <td className="py-2 text-muted-foreground">
+              {cookie.expires ? new Date(cookie.expires).toLocaleString() : 'Session'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
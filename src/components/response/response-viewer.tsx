@@ -21,8 +21,13 @@ import {
   ResizablePanel,
   ResizablePanelGroup,
 } from '@/components/ui/resizable'
+import { BinaryBody } from '@/components/response/binary-body'
+import { TimingWaterfall } from '@/components/response/timing-waterfall'
+import { ResponseCookies } from '@/components/response/response-cookies'
 import { useResponse, useLoading } from '@/store/store-context'
-import { cn } from '@/lib/utils'
+import { getDownloadFilename, responseBytes } from '@/lib/response-body'
+import { getHeader } from '@/lib/response-headers'
+import { cn, formatBytes } from '@/lib/utils'
 import type { TestResult } from '@/types'
 
 // Register languages
@@ -39,14 +44,6 @@ function getStatusColor(status: number): string {
   return 'bg-gray-500/10 text-gray-600 border-gray-500/30'
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B'
-  const k = 1024
-  const sizes = ['B', 'KB', 'MB', 'GB']
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
-}
-
 function formatTime(ms: number): string {
   if (ms < 1000) return `${ms} ms`
   return `${(ms / 1000).toFixed(2)} s`
@@ -113,9 +110,10 @@ function formatXml(xml: string): string {
 
 interface ResponseViewerProps {
   testResults?: TestResult[]
+  warnings?: string[] // From the request's scripts, shown above the tabs
 }
 
-export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
+export function ResponseViewer({ testResults = [], warnings = [] }: ResponseViewerProps) {
   const { response } = useResponse()
   const { isLoading } = useLoading()
   const [copied, setCopied] = useState(false)
@@ -125,13 +123,14 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
 
   const contentType = useMemo(() => {
     if (!response?.headers) return ''
-    return String(response.headers['content-type'] || response.headers['Content-Type'] || '')
+    return getHeader(response.headers, 'content-type') ?? ''
   }, [response])
 
   const language = useMemo(() => getLanguage(contentType), [contentType])
+  const isBinary = response?.bodyEncoding === 'base64'
 
   const formattedBody = useMemo(() => {
-    if (!response?.body) return ''
+    if (!response?.body || response.bodyEncoding === 'base64') return ''
     if (isJsonContent(contentType)) {
       return formatJson(response.body)
     }
@@ -142,7 +141,7 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
   }, [response, contentType])
 
   const handleCopy = async () => {
-    if (response?.body) {
+    if (formattedBody) {
       try {
         await navigator.clipboard.writeText(formattedBody)
       } catch {
@@ -156,11 +155,11 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
 
   const handleDownload = () => {
     if (response?.body) {
-      const blob = new Blob([response.body], { type: 'text/plain' })
+      const blob = new Blob([responseBytes(response)], { type: isBinary ? contentType || 'application/octet-stream' : 'text/plain' })
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = 'response.txt'
+      a.download = getDownloadFilename(response.headers, isBinary)
       a.click()
       URL.revokeObjectURL(url)
     }
@@ -214,7 +213,7 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
           <WrapText className="h-4 w-4 mr-1" />
           Wrap
         </Button>
-        <Button variant="ghost" size="sm" onClick={handleCopy}>
+        <Button variant="ghost" size="sm" onClick={handleCopy} disabled={isBinary}>
           {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
           {copied ? 'Copied' : 'Copy'}
         </Button>
@@ -228,6 +227,14 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
         </Button>
       </div>
 
+      {warnings.length > 0 && (
+        <div className="px-4 py-2 border-b bg-yellow-500/10 text-sm text-yellow-600 space-y-1">
+          {warnings.map((warning, index) => (
+            <p key={index}>{warning}</p>
+          ))}
+        </div>
+      )}
+
       {/* Response Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
         <TabsList className="w-full justify-start rounded-none border-b bg-transparent h-auto p-0">
@@ -243,9 +250,24 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
           >
             Headers
             <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">
-              {Object.keys(response.headers).length}
+              {response.headers.length}
             </span>
           </TabsTrigger>
+          <TabsTrigger
+            value="cookies"
+            className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+          >
+            Cookies
+            {response.cookies && response.cookies.length > 0 && (
+              <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">{response.cookies.length}</span>
+            )}
+          </TabsTrigger>
+          <TabsTrigger
+            value="timing"
+            className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+          >
+            Timing
+          </TabsTrigger>
           <TabsTrigger
             value="tests"
             className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
@@ -264,7 +286,9 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
 
         <div className="flex-1 min-h-0 relative">
           <TabsContent value="body" className="mt-0 absolute inset-0 overflow-auto">
-            {formattedBody ? (
+            {isBinary ? (
+              <BinaryBody response={response} contentType={contentType} />
+            ) : formattedBody ? (
               <SyntaxHighlighter
                 language={language}
                 style={atomOneDark}
@@ -306,16 +330,24 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
                 </tr>
               </thead>
               <tbody>
-                {Object.entries(response.headers).map(([key, value]) => (
-                  <tr key={key} className="border-b">
+                {response.headers.map(({ key, value }, index) => (
+                  <tr key={index} className="border-b">
                     <td className="py-2 pr-4 font-mono text-muted-foreground">{key}</td>
-                    <td className="py-2 font-mono break-all">{String(value)}</td>
+                    <td className="py-2 font-mono break-all">{value}</td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </TabsContent>
 
+          <TabsContent value="cookies" className="mt-0 absolute inset-0 overflow-auto p-4">
+            <ResponseCookies response={response} />
+          </TabsContent>
+
+          <TabsContent value="timing" className="mt-0 absolute inset-0 overflow-auto p-4">
+            <TimingWaterfall response={response} />
+          </TabsContent>
+
           <TabsContent value="tests" className="mt-0 absolute inset-0 overflow-auto p-4">
             {testResults.length === 0 ? (
               <p className="text-muted-foreground text-sm">No tests have been run.</p>
@@ -375,7 +407,7 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
                   <WrapText className="h-4 w-4 mr-1" />
                   Wrap
                 </Button>
-                <Button variant="ghost" size="sm" onClick={handleCopy}>
+                <Button variant="ghost" size="sm" onClick={handleCopy} disabled={isBinary}>
                   {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
                   {copied ? 'Copied' : 'Copy'}
                 </Button>
@@ -400,9 +432,24 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
               >
                 Headers
                 <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">
-                  {Object.keys(response.headers).length}
+                  {response.headers.length}
                 </span>
               </TabsTrigger>
+              <TabsTrigger
+                value="cookies"
+                className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+              >
+                Cookies
+                {response.cookies && response.cookies.length > 0 && (
+                  <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">{response.cookies.length}</span>
+                )}
+              </TabsTrigger>
+              <TabsTrigger
+                value="timing"
+                className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+              >
+                Timing
+              </TabsTrigger>
               <TabsTrigger
                 value="tests"
                 className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
@@ -421,7 +468,9 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
 
             <div className="flex-1 min-h-0 relative">
               <TabsContent value="body" className="mt-0 absolute inset-0 overflow-auto">
-                {formattedBody ? (
+                {isBinary ? (
+                  <BinaryBody response={response} contentType={contentType} />
+                ) : formattedBody ? (
                   <SyntaxHighlighter
                     language={language}
                     style={atomOneDark}
@@ -463,16 +512,24 @@ export function ResponseViewer({ testResults = [] }: ResponseViewerProps) {
                     </tr>
                   </thead>
                   <tbody>
-                    {Object.entries(response.headers).map(([key, value]) => (
-                      <tr key={key} className="border-b">
+                    {response.headers.map(({ key, value }, index) => (
+                      <tr key={index} className="border-b">
                         <td className="py-2 pr-4 font-mono text-muted-foreground">{key}</td>
-                        <td className="py-2 font-mono break-all">{String(value)}</td>
+                        <td className="py-2 font-mono break-all">{value}</td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </TabsContent>
 
+              <TabsContent value="cookies" className="mt-0 absolute inset-0 overflow-auto p-4">
+                <ResponseCookies response={response} />
+              </TabsContent>
+
+              <TabsContent value="timing" className="mt-0 absolute inset-0 overflow-auto p-4">
+                <TimingWaterfall response={response} />
+              </TabsContent>
+
               <TabsContent value="tests" className="mt-0 absolute inset-0 overflow-auto p-4">
                 {testResults.length === 0 ? (
                   <p className="text-muted-foreground text-sm">No tests have been run.</p>
@@ -0,0 +1,98 @@
+'use client'
+
+import type { ApiResponse, ResponseTimings } from '@/types'
+
+const PHASES: { key: keyof ResponseTimings; label: string; color: string }[] = [
+  { key: 'redirect', label: 'Redirects', color: 'bg-gray-400' },
+  { key: 'dns', label: 'DNS lookup', color: 'bg-teal-500' },
+  { key: 'connect', label: 'TCP connect', color: 'bg-orange-400' },
+  { key: 'tls', label: 'TLS handshake', color: 'bg-purple-500' },
+  { key: 'firstByte', label: 'Waiting (TTFB)', color: 'bg-green-500' },
+  { key: 'download', label: 'Download', color: 'bg-blue-500' },
+]
+
+interface TimingWaterfallProps {
+  response: ApiResponse
+}
+
+function MetaRow({ label, value }: { label: string; value?: string }) {
+  if (!value) return null
+  return (
+    <tr className="border-b">
+      <td className="py-2 pr-4 text-muted-foreground">{label}</td>
+      <td className="py-2 font-mono break-all">{value}</td>
+    </tr>
+  )
+}
+
+// Each measured phase with its start offset, for laying out the bars
+function layoutPhases(response: ApiResponse) {
+  const phases: ((typeof PHASES)[number] & { start: number; duration: number })[] = []
+  let offset = 0
+  PHASES.forEach((phase) => {
+    const duration = response.timings?.[phase.key]
+    // Skip phases the runtime did not measure, and redirects when there were none
+    if (duration === undefined || (phase.key === 'redirect' && !response.redirects?.length)) return
+    phases.push({ ...phase, start: offset, duration })
+    offset += duration
+  })
+  return { phases, total: Math.max(offset, 1) }
+}
+
+export function TimingWaterfall({ response }: TimingWaterfallProps) {
+  const { phases, total } = layoutPhases(response)
+
+  return (
+    <div className="space-y-6 text-sm">
+      {phases.length === 0 ? (
+        <p className="text-muted-foreground">No timing breakdown for this response. It took {response.time} ms.</p>
+      ) : (
+        <div className="space-y-2">
+          {phases.map((phase) => (
+            <div key={phase.key} className="flex items-center gap-4">
+              <span className="w-32 shrink-0 text-muted-foreground">{phase.label}</span>
+              <div className="relative h-3 flex-1 rounded bg-muted">
+                <div
+                  className={`absolute h-3 rounded ${phase.color}`}
+                  style={{ left: `${(phase.start / total) * 100}%`, width: `max(${(phase.duration / total) * 100}%, 2px)` }}
+                />
+              </div>
+              <span className="w-20 shrink-0 text-right font-mono">{phase.duration} ms</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-4 border-t pt-2 font-medium">
+            <span className="w-32 shrink-0">Total</span>
+            <div className="flex-1" />
+            <span className="w-20 shrink-0 text-right font-mono">{response.time} ms</span>
+          </div>
+        </div>
+      )}
+
+      <table className="w-full">
+        <tbody>
+          <MetaRow label="Final URL" value={response.url} />
+          <MetaRow label="HTTP version" value={response.httpVersion} />
+          <MetaRow label="Remote address" value={response.remoteAddress} />
+        </tbody>
+      </table>
+
+      {response.redirects && response.redirects.length > 0 && (
+        <div>
+          <h4 className="mb-2 font-medium">Redirects</h4>
+          <ol className="space-y-1">
+            {response.redirects.map((redirect, index) => (
+              <li key={index} className="flex gap-4 font-mono">
+                <span className="w-10 shrink-0 text-muted-foreground">{redirect.status}</span>
+                <span className="break-all">{redirect.url}</span>
+              </li>
+            ))}
+            <li className="flex gap-4 font-mono">
+              <span className="w-10 shrink-0 text-muted-foreground">{response.status}</span>
+              <span className="break-all">{response.url}</span>
+            </li>
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
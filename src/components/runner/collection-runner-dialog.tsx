@@ -0,0 +1,351 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Play, Square, Loader2, CheckCircle2, XCircle, Download, Upload, X } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useCollections, useEnvironments, useGlobals, useOAuth2Tokens, useCookies, useTransport } from '@/store/store-context'
+import {
+  downloadReport,
+  parseDataFile,
+  runCollection,
+  summarizeRun,
+  REPORT_FORMATS,
+  type CollectionRunResult,
+  type DataRow,
+  type ReportFormat,
+  type RequestRunResult,
+} from '@/lib/runner'
+import { cn } from '@/lib/utils'
+import type { Collection } from '@/types'
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: 'text-green-500',
+  POST: 'text-yellow-500',
+  PUT: 'text-blue-500',
+  PATCH: 'text-purple-500',
+  DELETE: 'text-red-500',
+  HEAD: 'text-gray-500',
+  OPTIONS: 'text-cyan-500',
+}
+
+function getStatusColor(status: number): string {
+  if (status >= 200 && status < 300) return 'bg-green-500/10 text-green-600 border-green-500/30'
+  if (status >= 300 && status < 400) return 'bg-blue-500/10 text-blue-600 border-blue-500/30'
+  if (status >= 400 && status < 500) return 'bg-yellow-500/10 text-yellow-600 border-yellow-500/30'
+  if (status >= 500) return 'bg-red-500/10 text-red-600 border-red-500/30'
+  return 'bg-gray-500/10 text-gray-600 border-gray-500/30'
+}
+
+interface RunResultRowProps {
+  result: RequestRunResult
+  showIteration: boolean
+}
+
+function RunResultRow({ result, showIteration }: RunResultRowProps) {
+  const testsPassed = result.testResults.filter((t) => t.passed).length
+
+  return (
+    <div className="border-b py-2">
+      <div className="flex items-center gap-2 text-sm">
+        {result.passed ? (
+          <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+        ) : (
+          <XCircle className="h-4 w-4 text-red-600 shrink-0" />
+        )}
+        <span className={cn('text-xs font-mono font-semibold w-14', METHOD_COLORS[result.method])}>
+          {result.method}
+        </span>
+        <span className="truncate flex-1">
+          {showIteration && (
+            <span className="text-muted-foreground font-mono mr-1.5">#{result.iteration + 1}</span>
+          )}
+          {result.path.length > 0 && (
+            <span className="text-muted-foreground">{result.path.join(' / ')} / </span>
+          )}
+          {result.name}
+        </span>
+        {result.response && (
+          <Badge variant="outline" className={cn('font-mono', getStatusColor(result.response.status))}>
+            {result.response.status}
+          </Badge>
+        )}
+        {result.response && (
+          <span className="text-xs text-muted-foreground font-mono w-16 text-right">
+            {result.response.time} ms
+          </span>
+        )}
+        {result.testResults.length > 0 && (
+          <span className={cn(
+            'text-xs px-1.5 py-0.5 rounded-full',
+            testsPassed === result.testResults.length ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+          )}>
+            {testsPassed}/{result.testResults.length}
+          </span>
+        )}
+      </div>
+      {result.error && (
+        <p className="ml-6 mt-1 text-xs text-red-600">{result.error}</p>
+      )}
+      {result.testResults.filter((t) => !t.passed).map((test, index) => (
+        <p key={index} className="ml-6 mt-1 text-xs text-red-600">
+          ✗ {test.name}{test.error ? `: ${test.error}` : ''}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+interface CollectionRunnerDialogProps {
+  collection: Collection
+  folderId?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CollectionRunnerDialog({ collection, folderId, open, onOpenChange }: CollectionRunnerDialogProps) {
+  const { activeEnvironment, activeEnvironmentId, updateEnvironment } = useEnvironments()
+  const { globals, setGlobals } = useGlobals()
+  const { tokenStore } = useOAuth2Tokens()
+  const { cookieStore } = useCookies()
+  const { transport } = useTransport()
+  const { updateCollection } = useCollections()
+  const [delay, setDelay] = useState('0')
+  const [iterations, setIterations] = useState('1')
+  const [dataFile, setDataFile] = useState<{ name: string; rows: DataRow[] } | null>(null)
+  const [stopOnFailure, setStopOnFailure] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [current, setCurrent] = useState<string | null>(null)
+  const [results, setResults] = useState<RequestRunResult[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [lastRun, setLastRun] = useState<CollectionRunResult | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const summary = summarizeRun(results)
+  const iterationCount = dataFile ? dataFile.rows.length : Math.max(1, parseInt(iterations, 10) || 1)
+
+  const handleDataFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        const rows = parseDataFile(e.target?.result as string, file.name)
+        if (rows.length === 0) throw new Error('The file has no rows')
+        setDataFile({ name: file.name, rows })
+        setError(null)
+      } catch (err) {
+        setError(`Failed to load data file: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+    reader.readAsText(file)
+    event.target.value = '' // Reset input
+  }
+
+  const handleRun = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setResults([])
+    setError(null)
+    setLastRun(null)
+
+    try {
+      const run = await runCollection(collection, {
+        folderId,
+        variables: activeEnvironment?.variables || [],
+        globals,
+        data: dataFile?.rows,
+        iterations: iterationCount,
+        oauth2Tokens: tokenStore,
+        cookies: cookieStore,
+        transport,
+        delay: parseInt(delay, 10) || 0,
+        stopOnFailure,
+        signal: controller.signal,
+        onRequestStart: (item) => setCurrent(item.request.name),
+        onRequestComplete: (result) => setResults((prev) => [...prev, result]),
+        onVariablesChange: (variables) => {
+          if (activeEnvironmentId) {
+            updateEnvironment(activeEnvironmentId, { variables })
+          }
+        },
+        onGlobalsChange: setGlobals,
+        onCollectionVariablesChange: (variables) => updateCollection(collection.id, { variables }),
+      })
+      setLastRun(run)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Run failed')
+    } finally {
+      setIsRunning(false)
+      setCurrent(null)
+      abortRef.current = null
+    }
+  }
+
+  const handleStop = () => {
+    abortRef.current?.abort()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isRunning && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Run {collection.name}</DialogTitle>
+          <DialogDescription>
+            Send every request in order and run its tests
+            {activeEnvironment ? ` using the "${activeEnvironment.name}" environment` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label className="text-sm font-medium mb-1.5 block">Iterations</Label>
+            <Input
+              type="number"
+              min={1}
+              value={dataFile ? String(dataFile.rows.length) : iterations}
+              onChange={(e) => setIterations(e.target.value)}
+              className="w-24"
+              disabled={isRunning || !!dataFile}
+            />
+          </div>
+          <div>
+            <Label className="text-sm font-medium mb-1.5 block">Data file</Label>
+            {dataFile ? (
+              <div className="flex items-center gap-1 h-9 text-sm">
+                <span className="truncate max-w-[140px]" title={dataFile.name}>{dataFile.name}</span>
+                <span className="text-muted-foreground">({dataFile.rows.length} rows)</span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => setDataFile(null)}
+                  disabled={isRunning}
+                  title="Remove data file"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" className="relative" asChild disabled={isRunning}>
+                <label>
+                  <Upload className="h-4 w-4 mr-2" />
+                  CSV / JSON
+                  <input
+                    type="file"
+                    accept=".csv,.json"
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                    onChange={handleDataFile}
+                    disabled={isRunning}
+                  />
+                </label>
+              </Button>
+            )}
+          </div>
+          <div>
+            <Label className="text-sm font-medium mb-1.5 block">Delay (ms)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={delay}
+              onChange={(e) => setDelay(e.target.value)}
+              className="w-28"
+              disabled={isRunning}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input
+              type="checkbox"
+              checked={stopOnFailure}
+              onChange={(e) => setStopOnFailure(e.target.checked)}
+              className="h-4 w-4"
+              disabled={isRunning}
+            />
+            Stop on first failure
+          </label>
+          <div className="flex-1" />
+          {lastRun && !isRunning && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="h-4 w-4 mr-2" />
+                  Report
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map((format) => (
+                  <DropdownMenuItem key={format} onClick={() => downloadReport(lastRun, format)}>
+                    {REPORT_FORMATS[format].label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {isRunning ? (
+            <Button variant="outline" onClick={handleStop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button onClick={handleRun}>
+              <Play className="h-4 w-4 mr-2" />
+              Run
+            </Button>
+          )}
+        </div>
+
+        {(results.length > 0 || isRunning) && (
+          <div className="flex items-center gap-4 text-sm border-y py-2">
+            <span>
+              Requests: <span className="font-mono">{summary.total}</span>
+            </span>
+            <span className="text-green-600">
+              Passed: <span className="font-mono">{summary.passed}</span>
+            </span>
+            <span className="text-red-600">
+              Failed: <span className="font-mono">{summary.failed}</span>
+            </span>
+            <span className="text-muted-foreground">
+              Tests: <span className="font-mono">{summary.testsPassed}/{summary.tests}</span>
+            </span>
+            <span className="text-muted-foreground">
+              Time: <span className="font-mono">{summary.totalTime} ms</span>
+            </span>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <ScrollArea className="flex-1 min-h-0 max-h-[50vh]">
+          {results.map((result, index) => (
+            <RunResultRow key={`${result.requestId}-${index}`} result={result} showIteration={iterationCount > 1} />
+          ))}
+          {isRunning && current && (
+            <div className="flex items-center gap-2 py-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Running {current}...
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { Cloud, Globe, Laptop, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useTransport } from '@/store/store-context'
+import { DEFAULT_AGENT_URL, detectAgent, type AgentStatus } from '@/lib/agent'
+import type { TransportMode } from '@/types'
+
+const MODES: { mode: TransportMode; label: string; icon: typeof Cloud; description: string }[] = [
+  {
+    mode: 'proxy',
+    label: 'Proxy',
+    icon: Cloud,
+    description: 'Send through the Endpnt server. Reaches public APIs only.',
+  },
+  {
+    mode: 'agent',
+    label: 'Local agent',
+    icon: Laptop,
+    description: 'Send through an agent running on this machine. Reaches localhost and your private networks.',
+  },
+  {
+    mode: 'browser',
+    label: 'Browser',
+    icon: Globe,
+    description: 'Send straight from this page. Only works with servers that allow it through CORS.',
+  },
+]
+
+function AgentStatusLine({ status }: { status: AgentStatus | 'checking' | null }) {
+  if (status === null) return null
+  if (status === 'checking') return <p className="text-sm text-muted-foreground">Looking for the agent...</p>
+
+  switch (status.state) {
+    case 'running':
+      return <p className="text-sm text-green-600">Agent is running</p>
+    case 'refused':
+      return <p className="text-sm text-red-600">{status.message}</p>
+    case 'offline':
+      return (
+        <p className="text-sm text-red-600">
+          Agent is not running. Start it with <code className="font-mono">pnpm agent --origin {window.location.origin}</code>
+        </p>
+      )
+  }
+}
+
+export function TransportSettings() {
+  const { settings, updateSettings } = useTransport()
+  const [isOpen, setIsOpen] = useState(false)
+  const [agentStatus, setAgentStatus] = useState<AgentStatus | 'checking' | null>(null)
+
+  const agentUrl = settings.agentUrl || DEFAULT_AGENT_URL
+  const current = MODES.find((m) => m.mode === settings.transport) ?? MODES[0]
+
+  const checkAgent = async (url = agentUrl) => {
+    setAgentStatus('checking')
+    setAgentStatus(await detectAgent(url))
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (open && settings.transport === 'agent') checkAgent()
+  }
+
+  const selectMode = (mode: TransportMode) => {
+    updateSettings({ transport: mode })
+    if (mode === 'agent') checkAgent()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 gap-1.5" title="How requests are sent">
+          <current.icon className="h-4 w-4" />
+          {current.label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send Requests Via</DialogTitle>
+          <DialogDescription>
+            Applies to every request sent from this workspace, including collection runs and OAuth 2.0 tokens.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {MODES.map(({ mode, label, icon: Icon, description }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => selectMode(mode)}
+              className={`w-full flex gap-3 items-start rounded-md border p-3 text-left hover:bg-accent ${
+                mode === settings.transport ? 'border-primary bg-accent' : ''
+              }`}
+            >
+              <Icon className="h-5 w-5 mt-0.5 shrink-0" />
+              <div>
+                <div className="text-sm font-medium">{label}</div>
+                <div className="text-sm text-muted-foreground">{description}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {settings.transport === 'agent' && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Agent URL</label>
+            <div className="flex gap-2">
+              <Input
+                value={settings.agentUrl ?? ''}
+                onChange={(e) => updateSettings({ agentUrl: e.target.value.trim() || undefined })}
+                placeholder={DEFAULT_AGENT_URL}
+                className="font-mono"
+              />
+              <Button variant="outline" size="sm" onClick={() => checkAgent()} disabled={agentStatus === 'checking'}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Check
+              </Button>
+            </div>
+            <AgentStatusLine status={agentStatus} />
+          </div>
+        )}
+
+        {settings.transport === 'browser' && (
+          <div className="rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm text-yellow-600 space-y-1">
+            <p>Browsers limit what this page can send and see:</p>
+            <ul className="list-disc pl-5">
+              <li>Servers that do not allow this origin through CORS cannot be reached</li>
+              <li>Headers like Cookie, Host and Origin are replaced by the browser</li>
+              <li>Set-Cookie and headers the server does not expose are hidden</li>
+              <li>Redirects are followed without being reported</li>
+              <li>Plain http URLs other than localhost are blocked on https pages</li>
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,12 +1,16 @@
 'use client'
 
 import { useState } from 'react'
-import { Plus, FolderOpen, FolderPlus, ChevronRight, ChevronDown, MoreHorizontal, Trash2, Edit2, Download, Upload, FileCode, Share2 } from 'lucide-react'
+import { Plus, FolderOpen, FolderPlus, ChevronRight, ChevronDown, MoreHorizontal, Trash2, Edit2, Download, Upload, FileCode, Share2, Play, Cable } from 'lucide-react'
 import { HistoryPanel } from '@/components/history/history-panel'
 import { downloadCollection, parseImportedFile } from '@/lib/import-export'
 import { ImportCurlDialog } from '@/components/dialogs/import-curl-dialog'
 import { ShareCollectionDialog } from '@/components/dialogs/share-collection-dialog'
-import type { ApiRequest as ApiRequestType, Folder } from '@/types'
+import { CollectionRunnerDialog } from '@/components/runner/collection-runner-dialog'
+import { EditCollectionDialog } from '@/components/dialogs/edit-collection-dialog'
+import { AuthEditor } from '@/components/request/auth-editor'
+import { findAncestors, resolveAuth } from '@/lib/auth'
+import type { ApiRequest as ApiRequestType, Auth, Folder } from '@/types'
 import { v4 as uuidv4 } from 'uuid'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
@@ -38,6 +42,26 @@ const METHOD_COLORS: Record<string, string> = {
   DELETE: 'text-red-500',
   HEAD: 'text-gray-500',
   OPTIONS: 'text-cyan-500',
+  WS: 'text-orange-500',
+}
+
+// WebSocket connections show as WS, since their method is always GET
+const requestBadge = (request: ApiRequest) => (request.protocol === 'websocket' ? 'WS' : request.method)
+
+function newWebSocketRequest(): ApiRequest {
+  const now = new Date().toISOString()
+  return {
+    id: uuidv4(),
+    name: 'New WebSocket',
+    protocol: 'websocket',
+    method: 'GET',
+    url: '',
+    headers: [],
+    params: [],
+    websocket: { protocols: [], message: '', messageFormat: 'text' },
+    createdAt: now,
+    updatedAt: now,
+  }
 }
 
 interface FolderItemProps {
@@ -46,9 +70,11 @@ interface FolderItemProps {
   onRequestSelect: (request: ApiRequest) => void
   activeRequestId: string | null
   onAddRequest: (folderId: string) => void
+  onAddWebSocket: (folderId: string) => void
   onAddSubfolder: (parentFolderId: string) => void
   onEditFolder: (folder: Folder) => void
   onDeleteFolder: (folderId: string) => void
+  onRunFolder: (folderId: string) => void
   depth?: number
 }
 
@@ -58,9 +84,11 @@ function FolderItem({
   onRequestSelect,
   activeRequestId,
   onAddRequest,
+  onAddWebSocket,
   onAddSubfolder,
   onEditFolder,
   onDeleteFolder,
+  onRunFolder,
   depth = 0,
 }: FolderItemProps) {
   const [isExpanded, setIsExpanded] = useState(true)
@@ -95,10 +123,18 @@ function FolderItem({
               <Plus className="mr-2 h-4 w-4" />
               Add Request
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onAddWebSocket(folder.id)}>
+              <Cable className="mr-2 h-4 w-4" />
+              Add WebSocket
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => onAddSubfolder(folder.id)}>
               <FolderPlus className="mr-2 h-4 w-4" />
               Add Subfolder
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onRunFolder(folder.id)}>
+              <Play className="mr-2 h-4 w-4" />
+              Run Folder
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => onEditFolder(folder)}>
               <Edit2 className="mr-2 h-4 w-4" />
               Edit
@@ -123,8 +159,8 @@ function FolderItem({
               style={{ marginLeft: `${(depth + 1) * 8}px` }}
               onClick={() => onRequestSelect(request)}
             >
-              <span className={cn('text-xs font-mono font-semibold w-12', METHOD_COLORS[request.method])}>
-                {request.method}
+              <span className={cn('text-xs font-mono font-semibold w-12', METHOD_COLORS[requestBadge(request)])}>
+                {requestBadge(request)}
               </span>
               <span className="truncate flex-1">{request.name || 'Untitled Request'}</span>
             </div>
@@ -137,9 +173,11 @@ function FolderItem({
               onRequestSelect={onRequestSelect}
               activeRequestId={activeRequestId}
               onAddRequest={onAddRequest}
+              onAddWebSocket={onAddWebSocket}
               onAddSubfolder={onAddSubfolder}
               onEditFolder={onEditFolder}
               onDeleteFolder={onDeleteFolder}
+              onRunFolder={onRunFolder}
               depth={depth + 1}
             />
           ))}
@@ -156,10 +194,14 @@ interface CollectionItemProps {
   onDelete: () => void
   onEdit: () => void
   onAddRequest: () => void
+  onAddWebSocket: () => void
   onAddFolder: () => void
   onExport: () => void
+  onRun: () => void
+  onRunFolder: (folderId: string) => void
   onRequestSelect: (request: ApiRequest) => void
   onAddRequestToFolder: (folderId: string) => void
+  onAddWebSocketToFolder: (folderId: string) => void
   onAddSubfolder: (parentFolderId: string) => void
   onEditFolder: (folder: Folder) => void
   onDeleteFolder: (folderId: string) => void
@@ -173,10 +215,14 @@ function CollectionItem({
   onDelete,
   onEdit,
   onAddRequest,
+  onAddWebSocket,
   onAddFolder,
   onExport,
+  onRun,
+  onRunFolder,
   onRequestSelect,
   onAddRequestToFolder,
+  onAddWebSocketToFolder,
   onAddSubfolder,
   onEditFolder,
   onDeleteFolder,
@@ -219,10 +265,18 @@ function CollectionItem({
               <Plus className="mr-2 h-4 w-4" />
               Add Request
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={onAddWebSocket}>
+              <Cable className="mr-2 h-4 w-4" />
+              Add WebSocket
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={onAddFolder}>
               <FolderPlus className="mr-2 h-4 w-4" />
               Add Folder
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={onRun}>
+              <Play className="mr-2 h-4 w-4" />
+              Run Collection
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={onEdit}>
               <Edit2 className="mr-2 h-4 w-4" />
               Edit
@@ -258,9 +312,11 @@ function CollectionItem({
               onRequestSelect={onRequestSelect}
               activeRequestId={activeRequestId}
               onAddRequest={onAddRequestToFolder}
+              onAddWebSocket={onAddWebSocketToFolder}
               onAddSubfolder={onAddSubfolder}
               onEditFolder={onEditFolder}
               onDeleteFolder={onDeleteFolder}
+              onRunFolder={onRunFolder}
             />
           ))}
           {collection.requests.map((request) => (
@@ -272,8 +328,8 @@ function CollectionItem({
               )}
               onClick={() => onRequestSelect(request)}
             >
-              <span className={cn('text-xs font-mono font-semibold w-12', METHOD_COLORS[request.method])}>
-                {request.method}
+              <span className={cn('text-xs font-mono font-semibold w-12', METHOD_COLORS[requestBadge(request)])}>
+                {requestBadge(request)}
               </span>
               <span className="truncate flex-1">{request.name || 'Untitled Request'}</span>
             </div>
@@ -302,7 +358,6 @@ export function Sidebar() {
   const { createRequest, setActiveRequest, state, store } = useStore()
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [editingCollection, setEditingCollection] = useState<Collection | null>(null)
   const [newCollectionName, setNewCollectionName] = useState('')
   const [newCollectionDescription, setNewCollectionDescription] = useState('')
@@ -316,6 +371,12 @@ export function Sidebar() {
   const [editingFolder, setEditingFolder] = useState<Folder | null>(null)
   const [newFolderName, setNewFolderName] = useState('')
   const [newFolderDescription, setNewFolderDescription] = useState('')
+  const [folderAuth, setFolderAuth] = useState<Auth | undefined>(undefined)
+  const folderCollection = folderCollectionId ? collections.find((c) => c.id === folderCollectionId) ?? null : null
+
+  // Runner state
+  const [runTarget, setRunTarget] = useState<{ collectionId: string; folderId?: string } | null>(null)
+  const runnerCollection = runTarget ? collections.find((c) => c.id === runTarget.collectionId) ?? null : null
 
   const handleCreateCollection = () => {
     if (newCollectionName.trim()) {
@@ -326,25 +387,20 @@ export function Sidebar() {
     }
   }
 
-  const handleEditCollection = () => {
-    if (editingCollection && newCollectionName.trim()) {
-      updateCollection(editingCollection.id, {
-        name: newCollectionName.trim(),
-        description: newCollectionDescription.trim() || undefined,
-      })
-      setEditingCollection(null)
-      setNewCollectionName('')
-      setNewCollectionDescription('')
-      setIsEditDialogOpen(false)
-    }
-  }
-
   const handleAddRequest = (collectionId: string) => {
     const request = createRequest(collectionId, 'New Request', 'GET')
     setActiveRequest(request)
     setActiveCollection(collectionId)
   }
 
+  const handleAddWebSocket = (collectionId: string, folderId?: string) => {
+    const request = newWebSocketRequest()
+    if (folderId) store.addRequestToFolder(collectionId, folderId, request)
+    else store.addRequestToCollection(collectionId, request)
+    setActiveRequest(request)
+    setActiveCollection(collectionId)
+  }
+
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
@@ -419,6 +475,7 @@ export function Sidebar() {
     setEditingFolder(folder)
     setNewFolderName(folder.name)
     setNewFolderDescription(folder.description || '')
+    setFolderAuth(folder.auth)
     setIsEditFolderDialogOpen(true)
   }
 
@@ -428,6 +485,7 @@ export function Sidebar() {
     store.updateFolderInCollection(folderCollectionId, editingFolder.id, {
       name: newFolderName.trim(),
       description: newFolderDescription.trim() || undefined,
+      auth: folderAuth?.type === 'inherit' ? undefined : folderAuth,
     })
     setIsEditFolderDialogOpen(false)
     setEditingFolder(null)
@@ -512,20 +570,19 @@ export function Sidebar() {
               isActive={activeCollectionId === collection.id}
               onSelect={() => setActiveCollection(collection.id)}
               onDelete={() => deleteCollection(collection.id)}
-              onEdit={() => {
-                setEditingCollection(collection)
-                setNewCollectionName(collection.name)
-                setNewCollectionDescription(collection.description || '')
-                setIsEditDialogOpen(true)
-              }}
+              onEdit={() => setEditingCollection(collection)}
               onAddRequest={() => handleAddRequest(collection.id)}
+              onAddWebSocket={() => handleAddWebSocket(collection.id)}
               onAddFolder={() => handleAddFolder(collection.id)}
               onExport={() => downloadCollection(collection, 'postman')}
+              onRun={() => setRunTarget({ collectionId: collection.id })}
+              onRunFolder={(folderId) => setRunTarget({ collectionId: collection.id, folderId })}
               onRequestSelect={(request) => {
                 setActiveRequest(request)
                 setActiveCollection(collection.id)
               }}
               onAddRequestToFolder={(folderId) => handleAddRequestToFolder(collection.id, folderId)}
+              onAddWebSocketToFolder={(folderId) => handleAddWebSocket(collection.id, folderId)}
               onAddSubfolder={(parentFolderId) => handleAddSubfolder(collection.id, parentFolderId)}
               onEditFolder={(folder) => handleEditFolder(collection.id, folder)}
               onDeleteFolder={(folderId) => handleDeleteFolder(collection.id, folderId)}
@@ -539,6 +596,17 @@ export function Sidebar() {
         <HistoryPanel />
       </div>
 
+      {/* Collection Runner Dialog */}
+      {runnerCollection && (
+        <CollectionRunnerDialog
+          key={`${runTarget?.collectionId}-${runTarget?.folderId ?? ''}`}
+          collection={runnerCollection}
+          folderId={runTarget?.folderId}
+          open={!!runTarget}
+          onOpenChange={(open) => !open && setRunTarget(null)}
+        />
+      )}
+
       {/* Create Collection Dialog */}
       <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
         <DialogContent>
@@ -578,39 +646,15 @@ export function Sidebar() {
       </Dialog>
 
       {/* Edit Collection Dialog */}
-      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Edit Collection</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium">Name</label>
-              <Input
-                value={newCollectionName}
-                onChange={(e) => setNewCollectionName(e.target.value)}
-                placeholder="My Collection"
-                className="mt-1"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium">Description (optional)</label>
-              <Textarea
-                value={newCollectionDescription}
-                onChange={(e) => setNewCollectionDescription(e.target.value)}
-                placeholder="Description of this collection..."
-                className="mt-1"
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={handleEditCollection}>Save</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {editingCollection && (
+        <EditCollectionDialog
+          key={editingCollection.id}
+          collection={editingCollection}
+          open={!!editingCollection}
+          onOpenChange={(open) => !open && setEditingCollection(null)}
+          onSave={(updates) => updateCollection(editingCollection.id, updates)}
+        />
+      )}
 
       {/* Create Folder Dialog */}
       <Dialog open={isFolderDialogOpen} onOpenChange={setIsFolderDialogOpen}>
@@ -679,6 +723,18 @@ export function Sidebar() {
                 className="mt-1"
               />
             </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Auth</label>
+              <AuthEditor
+                auth={folderAuth}
+                onChange={setFolderAuth}
+                inherited={resolveAuth(
+                  undefined,
+                  folderCollection && editingFolder ? [folderCollection, ...findAncestors(folderCollection, editingFolder.id)] : []
+                )}
+                collection={folderCollection ?? undefined}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditFolderDialogOpen(false)}>
@@ -0,0 +1,148 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ArrowDown, ArrowUp, CircleAlert, Info, Plug, Trash2, Unplug } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { base64ToBytes } from '@/lib/request-body'
+import { toHexDump } from '@/lib/response-body'
+import { cn, formatBytes } from '@/lib/utils'
+import type { WebSocketLogEntry } from '@/lib/websocket'
+
+// Binary messages longer than this show the start of their dump only
+const HEX_LIMIT = 4 * 1024
+
+type LogFilter = 'all' | 'sent' | 'received'
+
+const ENTRY_ICONS = {
+  sent: <ArrowUp className="h-3.5 w-3.5 text-green-600" aria-label="Sent" />,
+  received: <ArrowDown className="h-3.5 w-3.5 text-blue-600" aria-label="Received" />,
+  connected: <Plug className="h-3.5 w-3.5 text-green-600" aria-label="Connected" />,
+  disconnected: <Unplug className="h-3.5 w-3.5 text-muted-foreground" aria-label="Disconnected" />,
+  error: <CircleAlert className="h-3.5 w-3.5 text-destructive" aria-label="Error" />,
+  info: <Info className="h-3.5 w-3.5 text-muted-foreground" aria-label="Info" />,
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp)
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`
+}
+
+function summary(entry: WebSocketLogEntry): string {
+  if (entry.binary) return 'Binary message'
+  return entry.data ?? entry.message ?? ''
+}
+
+// The whole entry: JSON pretty-printed, binary as a hex dump, handshake headers listed
+function details(entry: WebSocketLogEntry): string {
+  if (entry.headers) return entry.headers.map((h) => `${h.key}: ${h.value}`).join('\n')
+  if (entry.binary && entry.data) {
+    const bytes = base64ToBytes(entry.data)
+    const dump = toHexDump(bytes.subarray(0, HEX_LIMIT))
+    return bytes.length > HEX_LIMIT ? `${dump}\n… ${formatBytes(bytes.length - HEX_LIMIT)} more` : dump
+  }
+  const text = entry.data ?? entry.message ?? ''
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2)
+  } catch {
+    return text
+  }
+}
+
+interface MessageLogProps {
+  entries: WebSocketLogEntry[]
+  onClear: () => void
+}
+
+export function MessageLog({ entries, onClear }: MessageLogProps) {
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<LogFilter>('all')
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  // Newest first
+  const visible = useMemo(() => {
+    const query = search.toLowerCase()
+    return entries
+      .filter((entry) => filter === 'all' || entry.type === filter)
+      .filter((entry) => !query || (entry.binary ? '' : entry.data ?? entry.message ?? '').toLowerCase().includes(query))
+      .reverse()
+  }, [entries, search, filter])
+
+  const toggle = (id: string) => {
+    setExpanded((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-2 border-b">
+        <h3 className="text-sm font-medium">Messages</h3>
+        <span className="text-xs text-muted-foreground">{entries.filter((e) => e.type === 'sent' || e.type === 'received').length}</span>
+        <div className="flex-1" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search messages"
+          className="h-8 w-48"
+        />
+        <Select value={filter} onValueChange={(value) => setFilter(value as LogFilter)}>
+          <SelectTrigger className="h-8 w-[120px]" aria-label="Show messages">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="sent">Sent</SelectItem>
+            <SelectItem value="received">Received</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} disabled={entries.length === 0} title="Clear messages">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {visible.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">
+            {entries.length === 0 ? 'Connect to see messages here.' : 'No messages match.'}
+          </p>
+        ) : (
+          visible.map((entry) => (
+            <div key={entry.id} className="border-b text-sm">
+              <button
+                type="button"
+                className="w-full flex items-center gap-2 px-4 py-1.5 text-left hover:bg-accent"
+                onClick={() => toggle(entry.id)}
+                aria-expanded={expanded.has(entry.id)}
+              >
+                {ENTRY_ICONS[entry.type]}
+                <span className={cn(
+                  'flex-1 truncate',
+                  entry.type === 'sent' || entry.type === 'received' ? 'font-mono' : 'text-muted-foreground',
+                  entry.type === 'error' && 'text-destructive'
+                )}>
+                  {summary(entry)}
+                </span>
+                {entry.size !== undefined && <span className="text-xs text-muted-foreground">{formatBytes(entry.size)}</span>}
+                <span className="text-xs text-muted-foreground font-mono">{formatTime(entry.timestamp)}</span>
+              </button>
+              {expanded.has(entry.id) && (
+                <pre className="px-4 pb-2 pl-10 text-xs font-mono whitespace-pre-wrap break-all">{details(entry)}</pre>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
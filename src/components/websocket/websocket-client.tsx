@@ -0,0 +1,318 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Loader2, Plug, Send, Unplug } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from '@/components/ui/resizable'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { KeyValueEditor } from '@/components/request/key-value-editor'
+import { AuthEditor } from '@/components/request/auth-editor'
+import { MessageLog } from '@/components/websocket/message-log'
+import { useActiveRequest, useRequestCollection, useCookies, useEnvironments, useGlobals, useOAuth2Tokens, useTransport } from '@/store/store-context'
+import { findAncestors, resolveAuth } from '@/lib/auth'
+import { mergeVariables, replaceVariables } from '@/lib/request-sender'
+import {
+  appendLogEntry,
+  createLogEntry,
+  describeCloseCode,
+  encodeWebSocketMessage,
+  getWebSocketConnector,
+  isWebSocketUrl,
+  messageLogEntry,
+  prepareWebSocketTarget,
+  type WebSocketConnection,
+  type WebSocketLogEntry,
+} from '@/lib/websocket'
+import type { WebSocketMessageFormat, WebSocketSettings } from '@/types'
+
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected'
+
+const FORMAT_LABELS: Record<WebSocketMessageFormat, string> = {
+  text: 'Text',
+  json: 'JSON',
+  binary: 'Binary (base64)',
+}
+
+const DEFAULT_SETTINGS: WebSocketSettings = { protocols: [], message: '', messageFormat: 'text' }
+
+const TAB_CLASS = 'rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent'
+
+/**
+ * Builder and message log for a WebSocket request. The connection lasts while
+ * the request is open: it is closed when another request is selected.
+ */
+export function WebSocketClient() {
+  const { activeRequest, updateActiveRequest } = useActiveRequest()
+  const requestCollection = useRequestCollection()
+  const { activeEnvironment } = useEnvironments()
+  const { globals } = useGlobals()
+  const { tokenStore } = useOAuth2Tokens()
+  const { cookies } = useCookies()
+  const { settings: transportSettings, transport } = useTransport()
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected')
+  const [log, setLog] = useState<WebSocketLogEntry[]>([])
+  const [messageError, setMessageError] = useState<string | null>(null)
+  const connectionRef = useRef<WebSocketConnection | null>(null)
+
+  useEffect(() => () => connectionRef.current?.close(1000), [])
+
+  if (!activeRequest) return null
+
+  const websocket = activeRequest.websocket ?? DEFAULT_SETTINGS
+  const viaAgent = transportSettings.transport === 'agent'
+  const variables = mergeVariables(globals, requestCollection?.variables || [], activeEnvironment?.variables || [])
+  const inheritedAuth = resolveAuth(undefined, requestCollection ? [requestCollection, ...findAncestors(requestCollection, activeRequest.id)] : [])
+
+  const addToLog = (entry: WebSocketLogEntry) => setLog((current) => appendLogEntry(current, entry))
+  const updateWebSocket = (updates: Partial<WebSocketSettings>) => updateActiveRequest({ websocket: { ...websocket, ...updates } })
+
+  const handleConnect = async () => {
+    setStatus('connecting')
+    let target
+    try {
+      target = await prepareWebSocketTarget(activeRequest, {
+        variables: activeEnvironment?.variables || [],
+        globals,
+        collection: requestCollection ?? undefined,
+        cookies,
+        oauth2Tokens: tokenStore,
+        transport,
+      })
+    } catch (error) {
+      addToLog(createLogEntry('error', { message: error instanceof Error ? error.message : 'Could not prepare the connection' }))
+      setStatus('disconnected')
+      return
+    }
+    if (!isWebSocketUrl(target.url)) {
+      addToLog(createLogEntry('error', { message: 'Enter a ws:// or wss:// URL' }))
+      setStatus('disconnected')
+      return
+    }
+
+    addToLog(createLogEntry('info', { message: `Connecting to ${target.url}` }))
+    if (!viaAgent && Object.keys(target.headers).length > 0) {
+      addToLog(createLogEntry('info', { message: 'Browsers cannot send headers, auth or cookies with a WebSocket handshake. Connect through the local agent to send them.' }))
+    }
+
+    const connection: WebSocketConnection = getWebSocketConnector(transportSettings)(target, {
+      onOpen: ({ protocol, headers }) => {
+        setStatus('connected')
+        addToLog(createLogEntry('connected', {
+          message: `Connected to ${target.url}${protocol ? ` using ${protocol}` : ''}`,
+          headers,
+        }))
+      },
+      onMessage: (data) => addToLog(messageLogEntry('received', data)),
+      onError: (message) => addToLog(createLogEntry('error', { message })),
+      onClose: (code, reason) => {
+        addToLog(createLogEntry('disconnected', { message: `Disconnected: ${describeCloseCode(code)} (${code})${reason ? `, ${reason}` : ''}` }))
+        // A newer connection may have replaced this one already
+        if (connectionRef.current !== connection) return
+        connectionRef.current = null
+        setStatus('disconnected')
+      },
+    })
+    connectionRef.current = connection
+  }
+
+  const handleDisconnect = () => {
+    connectionRef.current?.close(1000)
+  }
+
+  const handleSend = () => {
+    if (!connectionRef.current || status !== 'connected') return
+    let data
+    try {
+      data = encodeWebSocketMessage(websocket.messageFormat, replaceVariables(websocket.message, variables))
+    } catch (error) {
+      setMessageError(error instanceof Error ? error.message : 'Invalid message')
+      return
+    }
+    setMessageError(null)
+    connectionRef.current.send(data)
+    addToLog(messageLogEntry('sent', data))
+  }
+
+  return (
+    <ResizablePanelGroup orientation="vertical">
+      <ResizablePanel defaultSize="50%" minSize="30%">
+        <div className="h-full flex flex-col">
+          {/* Request Name */}
+          <div className="p-4 border-b">
+            <Input
+              value={activeRequest.name}
+              onChange={(e) => updateActiveRequest({ name: e.target.value })}
+              placeholder="Connection name"
+              className="font-medium text-lg border-none shadow-none focus-visible:ring-0 px-0"
+            />
+          </div>
+
+          {/* URL Bar */}
+          <div className="p-4 border-b">
+            <div className="flex gap-2">
+              <div className="w-[120px] h-9 flex items-center justify-center rounded-md border font-mono font-semibold text-sm bg-orange-500/10 text-orange-600 border-orange-500/30">
+                WS
+              </div>
+              <Input
+                value={activeRequest.url}
+                onChange={(e) => updateActiveRequest({ url: e.target.value })}
+                placeholder="wss://example.com/socket"
+                className="flex-1 font-mono"
+                disabled={status !== 'disconnected'}
+              />
+              {status === 'disconnected' ? (
+                <Button onClick={handleConnect} disabled={!activeRequest.url} className="px-6">
+                  <Plug className="mr-2 h-4 w-4" />
+                  Connect
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={handleDisconnect} className="px-6">
+                  {status === 'connecting' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Unplug className="mr-2 h-4 w-4" />}
+                  Disconnect
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-hidden">
+            <Tabs defaultValue="message" className="h-full flex flex-col">
+              <TabsList className="w-full justify-start rounded-none border-b bg-transparent h-auto p-0">
+                <TabsTrigger value="message" className={TAB_CLASS}>Message</TabsTrigger>
+                <TabsTrigger value="params" className={TAB_CLASS}>
+                  Params
+                  {activeRequest.params.length > 0 && (
+                    <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">
+                      {activeRequest.params.filter((p) => p.enabled).length}
+                    </span>
+                  )}
+                </TabsTrigger>
+                <TabsTrigger value="auth" className={TAB_CLASS}>Auth</TabsTrigger>
+                <TabsTrigger value="headers" className={TAB_CLASS}>
+                  Headers
+                  {activeRequest.headers.length > 0 && (
+                    <span className="ml-1 text-xs bg-muted px-1.5 py-0.5 rounded-full">
+                      {activeRequest.headers.filter((h) => h.enabled).length}
+                    </span>
+                  )}
+                </TabsTrigger>
+                <TabsTrigger value="settings" className={TAB_CLASS}>Settings</TabsTrigger>
+              </TabsList>
+
+              <div className="flex-1 overflow-auto p-4">
+                <TabsContent value="message" className="mt-0 h-full">
+                  <div className="space-y-2">
+                    <Textarea
+                      value={websocket.message}
+                      onChange={(e) => updateWebSocket({ message: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                          e.preventDefault()
+                          handleSend()
+                        }
+                      }}
+                      placeholder={websocket.messageFormat === 'binary' ? 'Base64, e.g. AQID' : 'Message to send. {{variables}} are replaced.'}
+                      className="min-h-[160px] font-mono text-sm"
+                      aria-label="Message"
+                    />
+                    {messageError && <p className="text-sm text-destructive">{messageError}</p>}
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={websocket.messageFormat}
+                        onValueChange={(value) => updateWebSocket({ messageFormat: value as WebSocketMessageFormat })}
+                      >
+                        <SelectTrigger className="w-[180px]" aria-label="Message format">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(FORMAT_LABELS) as WebSocketMessageFormat[]).map((format) => (
+                            <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex-1" />
+                      <span className="text-xs text-muted-foreground">Ctrl+Enter to send</span>
+                      <Button onClick={handleSend} disabled={status !== 'connected'}>
+                        <Send className="mr-2 h-4 w-4" />
+                        Send
+                      </Button>
+                    </div>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="params" className="mt-0 h-full">
+                  <KeyValueEditor
+                    items={activeRequest.params}
+                    onChange={(params) => updateActiveRequest({ params })}
+                    placeholder={{ key: 'Parameter', value: 'Value' }}
+                  />
+                </TabsContent>
+
+                <TabsContent value="auth" className="mt-0 h-full space-y-2">
+                  {!viaAgent && (
+                    <p className="text-sm text-muted-foreground">
+                      Only API keys in the query reach the server from the browser. Connect through the local agent to send auth headers.
+                    </p>
+                  )}
+                  <AuthEditor
+                    auth={activeRequest.auth}
+                    onChange={(auth) => updateActiveRequest({ auth })}
+                    inherited={inheritedAuth}
+                  />
+                </TabsContent>
+
+                <TabsContent value="headers" className="mt-0 h-full space-y-2">
+                  {!viaAgent && (
+                    <p className="text-sm text-muted-foreground">
+                      Browsers cannot send headers with a WebSocket handshake. Connect through the local agent to send them.
+                    </p>
+                  )}
+                  <KeyValueEditor
+                    items={activeRequest.headers}
+                    onChange={(headers) => updateActiveRequest({ headers })}
+                    placeholder={{ key: 'Header', value: 'Value' }}
+                  />
+                </TabsContent>
+
+                <TabsContent value="settings" className="mt-0 h-full">
+                  <div className="space-y-4 max-w-md">
+                    <div>
+                      <label className="text-sm font-medium">Subprotocols</label>
+                      <Input
+                        value={websocket.protocols.join(', ')}
+                        onChange={(e) => updateWebSocket({ protocols: e.target.value.split(',').map((p) => p.trimStart()) })}
+                        placeholder="e.g. graphql-transport-ws, json"
+                        className="mt-1 font-mono"
+                      />
+                      <p className="mt-1 text-sm text-muted-foreground">
+                        Offered to the server in order of preference, separated by commas.
+                      </p>
+                    </div>
+                  </div>
+                </TabsContent>
+              </div>
+            </Tabs>
+          </div>
+        </div>
+      </ResizablePanel>
+
+      <ResizableHandle withHandle />
+
+      <ResizablePanel defaultSize="50%" minSize="20%">
+        <MessageLog entries={log} onClear={() => setLog([])} />
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  )
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { AGENT_NAME, AGENT_VERSION, DEFAULT_AGENT_PORT, detectAgent, handleAgentRequest, parseAgentArgs } from '../agent'
+
+const APP = 'http://localhost:3000'
+
+const agentRequest = (path: string, init: RequestInit = {}) => new Request(`http://127.0.0.1:${DEFAULT_AGENT_PORT}${path}`, init)
+
+const send = (body: unknown, headers: Record<string, string> = { Origin: APP }) =>
+  agentRequest('/request', { method: 'POST', headers, body: JSON.stringify(body) })
+
+describe('parseAgentArgs', () => {
+  it('should default to the standard port and the local app', () => {
+    expect(parseAgentArgs([])).toEqual({ port: DEFAULT_AGENT_PORT, allowedOrigins: [APP], help: false })
+  })
+
+  it('should parse the port and origins', () => {
+    expect(parseAgentArgs(['-p', '6000', '--origin', 'https://endpnt.example.com/app', '--origin', '*'])).toEqual({
+      port: 6000,
+      allowedOrigins: ['https://endpnt.example.com', '*'],
+      help: false,
+    })
+  })
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseAgentArgs(['--port', 'http'])).toThrow('Invalid port for --port')
+    expect(() => parseAgentArgs(['--origin'])).toThrow('Missing value for --origin')
+    expect(() => parseAgentArgs(['--verbose'])).toThrow('Unknown option --verbose')
+  })
+})
+
+describe('handleAgentRequest', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const options = { allowedOrigins: [APP] }
+
+  it('should answer health checks from allowed pages', async () => {
+    const response = await handleAgentRequest(agentRequest('/health', { headers: { Origin: APP } }), options)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('access-control-allow-origin')).toBe(APP)
+    expect(await response.json()).toEqual({ agent: AGENT_NAME, version: AGENT_VERSION })
+  })
+
+  it('should refuse pages from other origins', async () => {
+    const response = await handleAgentRequest(send({ method: 'GET', url: 'http://localhost:8080', headers: {} }, { Origin: 'https://evil.example.com' }), options)
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ error: 'Origin not allowed' })
+  })
+
+  it('should allow private network access in preflights', async () => {
+    const response = await handleAgentRequest(agentRequest('/request', {
+      method: 'OPTIONS',
+      headers: {
+        Origin: APP,
+        'Access-Control-Request-Headers': 'content-type',
+        'Access-Control-Request-Private-Network': 'true',
+      },
+    }), options)
+
+    expect(response.status).toBe(204)
+    expect(response.headers.get('access-control-allow-headers')).toBe('content-type')
+    expect(response.headers.get('access-control-allow-private-network')).toBe('true')
+  })
+
+  it('should send the request and answer like the proxy', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () => new Response('ok', { headers: { 'Content-Type': 'text/plain' } }))
+
+    const response = await handleAgentRequest(send({ method: 'POST', url: 'http://localhost:8080/items', headers: { A: 'b' }, body: 'x' }), {
+      ...options,
+      createFetch: (_request, onConnection) => async (...args) => {
+        onConnection({ httpVersion: '1.1', remoteAddress: '127.0.0.1' })
+        return fetchMock(...args)
+      },
+    })
+
+    expect(response.status).toBe(200)
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/items')
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: 'POST', headers: { A: 'b' }, body: 'x' })
+    expect(await response.json()).toMatchObject({
+      status: 200,
+      body: 'ok',
+      url: 'http://localhost:8080/items',
+      httpVersion: '1.1',
+      remoteAddress: '127.0.0.1',
+    })
+  })
+
+  it('should report requests that could not be sent', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('fetch failed')
+    }))
+
+    const response = await handleAgentRequest(send({ method: 'GET', url: 'http://localhost:1', headers: {} }), options)
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toEqual({ error: 'Request failed', message: 'fetch failed' })
+  })
+
+  it('should reject requests without a valid URL', async () => {
+    const response = await handleAgentRequest(send({ method: 'GET', url: 'nope', headers: {} }), options)
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should not answer other paths', async () => {
+    const response = await handleAgentRequest(agentRequest('/other'), options)
+
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('detectAgent', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should find a running agent', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ agent: AGENT_NAME, version: AGENT_VERSION }))))
+
+    expect(await detectAgent('http://127.0.0.1:5004')).toEqual({ state: 'running', info: { agent: AGENT_NAME, version: AGENT_VERSION } })
+  })
+
+  it('should report an agent that refuses this page', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: 'Origin not allowed', message: 'Start the agent with --origin x' }), { status: 403 })))
+
+    expect(await detectAgent('http://127.0.0.1:5004')).toEqual({ state: 'refused', message: 'Start the agent with --origin x' })
+  })
+
+  it('should report the agent offline when nothing or something else answers', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    }))
+    expect(await detectAgent('http://127.0.0.1:5004')).toEqual({ state: 'offline' })
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<html></html>')))
+    expect(await detectAgent('http://127.0.0.1:5004')).toEqual({ state: 'offline' })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { describeAssertion, evaluateAssertions } from '../assertions'
+import type { ApiResponse, ResponseAssertion } from '@/types'
+
+const response: ApiResponse = {
+  status: 200,
+  statusText: 'OK',
+  headers: [{ key: 'Content-Type', value: 'application/json; charset=utf-8' }],
+  body: JSON.stringify({ data: { id: 42, name: 'Ada Lovelace', tags: ['admin', 'beta'], active: true } }),
+  time: 120,
+  size: 80,
+}
+
+const assertion = (overrides: Partial<ResponseAssertion>): ResponseAssertion => ({
+  id: 'a1',
+  enabled: true,
+  type: 'status',
+  target: '',
+  operator: 'equals',
+  expected: '200',
+  ...overrides,
+})
+
+const evaluate = (overrides: Partial<ResponseAssertion>) => evaluateAssertions([assertion(overrides)], response)[0]
+
+describe('evaluateAssertions', () => {
+  it('should check status codes and response times', () => {
+    expect(evaluate({})).toEqual({ name: 'Status code equals 200', passed: true })
+    expect(evaluate({ expected: '201' })).toEqual({ name: 'Status code equals 201', passed: false, error: 'expected 200 to equal 201' })
+    expect(evaluate({ type: 'responseTime', operator: 'below', expected: '500' })).toEqual({ name: 'Response time is below 500 ms', passed: true })
+    expect(evaluate({ type: 'responseTime', operator: 'below', expected: '100' }).error).toBe('expected 120 to be below 100')
+  })
+
+  it('should check headers case-insensitively', () => {
+    expect(evaluate({ type: 'header', target: 'content-type', operator: 'exists' }).passed).toBe(true)
+    expect(evaluate({ type: 'header', target: 'Content-Type', operator: 'contains', expected: 'json' }).passed).toBe(true)
+    expect(evaluate({ type: 'header', target: 'X-Request-Id', operator: 'exists' })).toMatchObject({
+      passed: false,
+      error: "expected response to have header 'X-Request-Id'",
+    })
+  })
+
+  it('should compare JSONPath values by JSON value or text', () => {
+    expect(evaluate({ type: 'jsonPath', target: '$.data.id', expected: '42' }).passed).toBe(true)
+    expect(evaluate({ type: 'jsonPath', target: '$.data.active', expected: 'true' }).passed).toBe(true)
+    expect(evaluate({ type: 'jsonPath', target: '$.data.name', expected: 'Ada Lovelace' }).passed).toBe(true)
+    expect(evaluate({ type: 'jsonPath', target: '$.data.tags', operator: 'contains', expected: 'beta' }).passed).toBe(true)
+    expect(evaluate({ type: 'jsonPath', target: '$.data.name', operator: 'matches', expected: '^Ada' }).passed).toBe(true)
+    expect(evaluate({ type: 'jsonPath', target: '$.data.id', operator: 'above', expected: '50' }).error).toBe('expected 42 to be above 50')
+    expect(evaluate({ type: 'jsonPath', target: '$.data.missing', operator: 'exists' }).error).toBe('expected $.data.missing to exist')
+  })
+
+  it('should validate the body against a JSON Schema', () => {
+    const schema = JSON.stringify({ type: 'object', required: ['data'], properties: { data: { required: ['email'] } } })
+    expect(evaluate({ type: 'jsonSchema', expected: schema })).toEqual({
+      name: 'Body matches JSON Schema',
+      passed: false,
+      error: "data should have required property 'email'",
+    })
+    expect(evaluate({ type: 'jsonSchema', expected: '{ not json' }).error).toBe('JSON Schema is not valid JSON')
+  })
+
+  it('should report invalid inputs as failures and skip disabled assertions', () => {
+    expect(evaluate({ type: 'jsonPath', target: 'data.id' }).error).toBe('JSONPath must start with $: data.id')
+    expect(evaluateAssertions([assertion({ enabled: false })], response)).toEqual([])
+    expect(evaluateAssertions([assertion({ type: 'jsonPath', target: '$.x' })], { ...response, body: '<html>' })[0].error)
+      .toBe('Response body is not valid JSON')
+  })
+})
+
+describe('describeAssertion', () => {
+  it('should name assertions after what they check', () => {
+    expect(describeAssertion(assertion({ type: 'jsonPath', target: '$.data.id', operator: 'notEquals', expected: '1' })))
+      .toBe('$.data.id does not equal 1')
+    expect(describeAssertion(assertion({ type: 'header', target: 'ETag', operator: 'exists' }))).toBe('Header ETag exists')
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { generateCode } from '../code-generators'
+import { DEFAULT_OAUTH2_CONFIG } from '@/lib/auth'
 import type { ApiRequest } from '@/types'
 
 const createRequest = (overrides: Partial<ApiRequest> = {}): ApiRequest => ({
@@ -187,6 +188,37 @@ describe('generateCode', () => {
     })
   })
 
+  describe('graphql', () => {
+    const request = createRequest({
+      method: 'POST',
+      url: 'https://api.example.com/graphql',
+      body: { type: 'graphql', graphql: { query: 'query ($id: ID!) {\n  user(id: $id) { name }\n}', variables: '{ "id": "1", "full": true }' } },
+    })
+    const json = '{"query":"query ($id: ID!) {\\n  user(id: $id) { name }\\n}","variables":{"id":"1","full":true}}'
+
+    it('should send the query and variables as JSON', () => {
+      const curl = generateCode(request, 'curl')
+      expect(curl).toContain("-H 'Content-Type: application/json'")
+      expect(curl).toContain(`-d '${json}'`)
+      expect(generateCode(request, 'fetch')).toContain(`body: JSON.stringify(${json}),`)
+      expect(generateCode(request, 'axios')).toContain(`data: ${json},`)
+      expect(generateCode(request, 'go')).toContain(`strings.NewReader(\`${json}\`)`)
+      expect(generateCode(request, 'csharp')).toContain(`@"${json.replace(/"/g, '""')}"`)
+    })
+
+    it('should write the body as a Python literal', () => {
+      const code = generateCode(request, 'python')
+      expect(code).toContain('payload = {"query": "query ($id: ID!) {\\n  user(id: $id) { name }\\n}", "variables": {"id": "1", "full": True}}')
+      expect(code).toContain('json=payload')
+    })
+
+    it('should escape the body for string literals that interpret backslashes and variables', () => {
+      expect(generateCode(request, 'php')).toContain('CURLOPT_POSTFIELDS => "{\\"query\\":\\"query (\\$id: ID!) {\\\\n')
+      expect(generateCode(request, 'ruby')).toContain("request.body = '{\"query\":\"query ($id: ID!) {\\\\n")
+      expect(generateCode(request, 'java')).toContain('ofString("{\\"query\\":\\"query ($id: ID!) {\\\\n')
+    })
+  })
+
   describe('disabled items', () => {
     it('should not include disabled headers', () => {
       const request = createRequest({
@@ -214,4 +246,140 @@ describe('generateCode', () => {
       expect(code).not.toContain('disabled=no')
     })
   })
+
+  describe('auth', () => {
+    it("should add the request's own auth", () => {
+      const request = createRequest({ auth: { type: 'bearer', bearer: { token: '{{token}}' } } })
+      expect(generateCode(request, 'curl')).toContain("-H 'Authorization: Bearer {{token}}'")
+    })
+
+    it('should use the effective auth passed in for inherited auth', () => {
+      const request = createRequest({ auth: { type: 'inherit' } })
+      const code = generateCode(request, 'fetch', { auth: { type: 'basic', basic: { username: 'ada', password: 'secret' } } })
+      expect(code).toContain('"Authorization": "Basic YWRhOnNlY3JldA=="')
+    })
+
+    it('should add API keys as a header or query param', () => {
+      const header = createRequest({ auth: { type: 'apikey', apikey: { key: 'X-Key', value: 'k', in: 'header' } } })
+      const query = createRequest({ auth: { type: 'apikey', apikey: { key: 'key', value: 'k', in: 'query' } } })
+      expect(generateCode(header, 'python')).toContain('"X-Key": "k"')
+      expect(generateCode(query, 'go')).toContain('https://api.example.com/users?key=k')
+    })
+
+    it('should send OAuth 2.0 requests with a placeholder bearer token', () => {
+      const request = createRequest({
+        auth: {
+          type: 'oauth2',
+          oauth2: { ...DEFAULT_OAUTH2_CONFIG, accessTokenUrl: 'https://auth.example.com/token', clientId: 'app' },
+        },
+      })
+
+      expect(generateCode(request, 'curl')).toContain("-H 'Authorization: Bearer <access token>'")
+      expect(generateCode(request, 'python')).toMatch(/^# OAuth 2\.0: replace <access token> with a token from https:\/\/auth\.example\.com\/token/)
+      expect(generateCode(request, 'go')).toContain('req.Header.Add("Authorization", "Bearer <access token>")')
+    })
+
+    it('should not override an explicit Authorization header', () => {
+      const request = createRequest({
+        headers: [{ id: '1', key: 'Authorization', value: 'Custom x', enabled: true }],
+        auth: { type: 'bearer', bearer: { token: 't' } },
+      })
+      expect(generateCode(request, 'curl')).not.toContain('Bearer t')
+    })
+
+    it('should use native digest support where the client has it', () => {
+      const request = createRequest({ auth: { type: 'digest', digest: { username: 'ada', password: 'secret' } } })
+
+      expect(generateCode(request, 'curl')).toContain("--digest -u 'ada:secret'")
+      expect(generateCode(request, 'python')).toContain('auth=HTTPDigestAuth("ada", "secret")')
+      expect(generateCode(request, 'php')).toContain('CURLOPT_HTTPAUTH => CURLAUTH_DIGEST')
+      expect(generateCode(request, 'csharp')).toContain('new System.Net.NetworkCredential("ada", "secret")')
+      expect(generateCode(request, 'fetch')).toMatch(/^\/\/ Digest auth/)
+    })
+
+    it('should send form-data fields and files with curl -F', () => {
+      const request = createRequest({
+        method: 'POST',
+        body: {
+          type: 'form-data',
+          formData: [
+            { id: '1', key: 'title', value: "It's me", enabled: true },
+            { id: '2', key: 'photo', value: '', enabled: true, type: 'file', file: { name: 'me.png', contentType: 'image/png', size: 1, data: 'AA==' } },
+          ],
+        },
+      })
+
+      const curl = generateCode(request, 'curl')
+      expect(curl).toContain("-F 'title=It'\\''s me'")
+      expect(curl).toContain("-F 'photo=@me.png'")
+    })
+
+    it('should send binary bodies with curl --data-binary', () => {
+      const request = createRequest({
+        method: 'PUT',
+        body: { type: 'binary', file: { name: 'report.pdf', contentType: 'application/pdf', size: 1, data: 'AA==' } },
+      })
+
+      const curl = generateCode(request, 'curl')
+      expect(curl).toContain("-H 'Content-Type: application/pdf'")
+      expect(curl).toContain("--data-binary '@report.pdf'")
+    })
+
+    it("should build form-data with each client's multipart support", () => {
+      const request = createRequest({
+        method: 'POST',
+        body: {
+          type: 'form-data',
+          formData: [
+            { id: '1', key: 'title', value: 'Hello', enabled: true },
+            { id: '2', key: 'photo', value: '', enabled: true, type: 'file', file: { name: 'me.png', contentType: 'image/png', size: 1, data: 'AA==' } },
+          ],
+        },
+      })
+
+      expect(generateCode(request, 'fetch')).toContain('formData.append("photo", fileInput.files[0], "me.png");')
+      expect(generateCode(request, 'fetch')).toContain('body: formData,')
+      expect(generateCode(request, 'axios')).toContain('data: formData,')
+      expect(generateCode(request, 'python')).toContain('("photo", open("me.png", "rb")),')
+      expect(generateCode(request, 'python')).toContain('data=data, files=files')
+      expect(generateCode(request, 'go')).toContain('writer.CreateFormFile("photo", "me.png")')
+      expect(generateCode(request, 'go')).toContain('writer.WriteField("title", "Hello")')
+      expect(generateCode(request, 'php')).toContain('"photo" => new CURLFile("me.png"),')
+      expect(generateCode(request, 'ruby')).toContain('request.set_form([["title", "Hello"], ["photo", File.open("me.png")]], "multipart/form-data")')
+      expect(generateCode(request, 'csharp')).toContain('content.Add(new StreamContent(File.OpenRead("me.png")), "photo", "me.png");')
+      expect(generateCode(request, 'java')).toMatch(/^\/\/ The form-data body \(title, photo\) is not included/)
+      expect(generateCode(request, 'fetch')).not.toContain('{"title"')
+    })
+
+    it('should read binary bodies from the file in each client', () => {
+      const request = createRequest({
+        method: 'PUT',
+        body: { type: 'binary', file: { name: 'report.pdf', contentType: 'application/pdf', size: 1, data: 'AA==' } },
+      })
+
+      expect(generateCode(request, 'fetch')).toContain('body: fileInput.files[0], // report.pdf')
+      expect(generateCode(request, 'python')).toContain('data=open("report.pdf", "rb")')
+      expect(generateCode(request, 'go')).toContain('payload, err := os.Open("report.pdf")')
+      expect(generateCode(request, 'php')).toContain('CURLOPT_POSTFIELDS => file_get_contents("report.pdf"),')
+      expect(generateCode(request, 'ruby')).toContain('request.body = File.binread("report.pdf")')
+      expect(generateCode(request, 'csharp')).toContain('new ByteArrayContent(File.ReadAllBytes("report.pdf"))')
+      expect(generateCode(request, 'java')).toContain('HttpRequest.BodyPublishers.ofFile(Path.of("report.pdf"))')
+      expect(generateCode(request, 'python')).toContain('"Content-Type": "application/pdf"')
+    })
+
+    it('should sign AWS requests with curl and note it elsewhere', () => {
+      const request = createRequest({
+        auth: {
+          type: 'awsv4',
+          awsv4: { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: 'token', region: 'eu-west-1', service: 'execute-api' },
+        },
+      })
+
+      const curl = generateCode(request, 'curl')
+      expect(curl).toContain("--aws-sigv4 'aws:amz:eu-west-1:execute-api' -u 'AKID:secret'")
+      expect(curl).toContain("-H 'X-Amz-Security-Token: token'")
+      expect(generateCode(request, 'python')).toMatch(/^# AWS Signature v4 \(eu-west-1\/execute-api, key "AKID"\)/)
+      expect(generateCode(request, 'php')).toContain('// AWS Signature v4')
+    })
+  })
 })
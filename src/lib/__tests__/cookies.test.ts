@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addCookieHeader,
+  createMemoryCookieStore,
+  domainMatches,
+  formatSetCookie,
+  getCookiesForUrl,
+  mergeCookies,
+  parseSetCookie,
+  pathMatches,
+} from '../cookies'
+import type { Cookie } from '@/types'
+
+const now = new Date('2026-01-01T00:00:00Z')
+
+const cookie = (overrides: Partial<Cookie> = {}): Cookie => ({
+  name: 'session',
+  value: 'abc',
+  domain: 'example.com',
+  path: '/',
+  ...overrides,
+})
+
+describe('parseSetCookie', () => {
+  it('should default to a host-only cookie for the request directory', () => {
+    expect(parseSetCookie('session=abc', 'https://api.example.com/v1/login', now)).toEqual({
+      name: 'session',
+      value: 'abc',
+      domain: 'api.example.com',
+      path: '/v1',
+      hostOnly: true,
+    })
+  })
+
+  it('should read attributes case-insensitively', () => {
+    expect(
+      parseSetCookie(
+        'id=a=b; domain=.Example.com; PATH=/api; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Secure; HttpOnly; SameSite=Lax',
+        'https://api.example.com/',
+        now
+      )
+    ).toEqual({
+      name: 'id',
+      value: 'a=b',
+      domain: 'example.com',
+      path: '/api',
+      hostOnly: false,
+      expires: '2026-10-21T07:28:00.000Z',
+      secure: true,
+      httpOnly: true,
+      sameSite: 'Lax',
+    })
+  })
+
+  it('should prefer Max-Age over Expires', () => {
+    const parsed = parseSetCookie('a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Max-Age=60', 'https://example.com/', now)
+    expect(parsed?.expires).toBe('2026-01-01T00:01:00.000Z')
+    expect(parseSetCookie('a=1; Max-Age=0', 'https://example.com/', now)?.expires).toBe(new Date(0).toISOString())
+  })
+
+  it('should ignore cookies without a name or for another domain', () => {
+    expect(parseSetCookie('novalue', 'https://example.com/', now)).toBeNull()
+    expect(parseSetCookie('=abc', 'https://example.com/', now)).toBeNull()
+    expect(parseSetCookie('a=1; Domain=other.com', 'https://example.com/', now)).toBeNull()
+    expect(parseSetCookie('a=1; Domain=com', 'https://example.com/', now)).toBeNull()
+  })
+})
+
+describe('domainMatches and pathMatches', () => {
+  it('should match subdomains but not IP addresses or partial names', () => {
+    expect(domainMatches('api.example.com', 'example.com')).toBe(true)
+    expect(domainMatches('badexample.com', 'example.com')).toBe(false)
+    expect(domainMatches('1.2.3.4', '2.3.4')).toBe(false)
+  })
+
+  it('should match paths on segment boundaries', () => {
+    expect(pathMatches('/api/users', '/api')).toBe(true)
+    expect(pathMatches('/api/users', '/api/')).toBe(true)
+    expect(pathMatches('/apis', '/api')).toBe(false)
+  })
+})
+
+describe('getCookiesForUrl', () => {
+  const jar = [
+    cookie({ name: 'root' }),
+    cookie({ name: 'api', path: '/api' }),
+    cookie({ name: 'host', domain: 'api.example.com', hostOnly: true }),
+    cookie({ name: 'secure', secure: true }),
+    cookie({ name: 'old', expires: '2025-01-01T00:00:00.000Z' }),
+  ]
+
+  it('should return matching cookies, longest path first', () => {
+    expect(getCookiesForUrl(jar, 'https://api.example.com/api/users', now).map((c) => c.name)).toEqual([
+      'api',
+      'root',
+      'host',
+      'secure',
+    ])
+  })
+
+  it('should leave out host-only cookies on subdomains and secure cookies over HTTP', () => {
+    expect(getCookiesForUrl(jar, 'http://www.api.example.com/', now).map((c) => c.name)).toEqual(['root'])
+  })
+
+  it('should return nothing for an invalid URL', () => {
+    expect(getCookiesForUrl(jar, '{{baseUrl}}/users', now)).toEqual([])
+  })
+})
+
+describe('mergeCookies', () => {
+  it('should replace cookies with the same name, domain and path', () => {
+    const jar = [cookie(), cookie({ path: '/api' })]
+    expect(mergeCookies(jar, [cookie({ value: 'new' })], now)).toEqual([cookie({ value: 'new' }), cookie({ path: '/api' })])
+  })
+
+  it('should delete cookies with an expired replacement and drop expired ones', () => {
+    const jar = [cookie(), cookie({ name: 'old', expires: '2025-01-01T00:00:00.000Z' })]
+    expect(mergeCookies(jar, [cookie({ expires: new Date(0).toISOString() })], now)).toEqual([])
+  })
+})
+
+describe('addCookieHeader', () => {
+  it('should add a Cookie header', () => {
+    expect(addCookieHeader({}, [cookie(), cookie({ name: 'b', value: '2' })])).toEqual({ Cookie: 'session=abc; b=2' })
+  })
+
+  it('should keep cookies given in an existing Cookie header', () => {
+    expect(addCookieHeader({ cookie: 'session=mine' }, [cookie(), cookie({ name: 'b', value: '2' })])).toEqual({
+      cookie: 'session=mine; b=2',
+    })
+  })
+
+  it('should return the headers unchanged without cookies', () => {
+    const headers = { Accept: '*/*' }
+    expect(addCookieHeader(headers, [])).toBe(headers)
+  })
+})
+
+describe('formatSetCookie', () => {
+  it('should round-trip through parseSetCookie', () => {
+    const original = cookie({ hostOnly: false, expires: '2026-10-21T07:28:00.000Z', secure: true, sameSite: 'Strict' })
+    expect(formatSetCookie(original)).toBe(
+      'session=abc; Path=/; Domain=example.com; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Secure; SameSite=Strict'
+    )
+    expect(parseSetCookie(formatSetCookie(original), 'https://example.com/', now)).toEqual(original)
+  })
+})
+
+describe('createMemoryCookieStore', () => {
+  it('should keep the jar it is given', () => {
+    const store = createMemoryCookieStore([cookie()])
+    store.set([])
+    expect(store.get()).toEqual([])
+  })
+})
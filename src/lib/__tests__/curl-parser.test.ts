@@ -97,6 +97,7 @@ describe('parseCurl', () => {
 
     expect(result.body?.type).toBe('form-data')
     expect(result.body?.formData).toHaveLength(2)
+    expect(result.body?.formData?.[0]).toMatchObject({ key: 'file', value: '', type: 'file', description: 'photo.jpg' })
   })
 
   it('should handle URL encoded form data', () => {
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { applyExtractors, parseJsonPath, queryJsonPath } from '../extractors'
+import type { ApiResponse, Extractor } from '@/types'
+
+const response: ApiResponse = {
+  status: 201,
+  statusText: 'Created',
+  headers: [{ key: 'location', value: '/users/42' }, { key: 'content-type', value: 'application/json' }],
+  body: JSON.stringify({ data: { token: 'abc', user: { id: 42 }, items: [{ id: 1 }, { id: 2 }], 'first-name': 'Ada' } }),
+  time: 10,
+  size: 100,
+}
+
+const extractor = (overrides: Partial<Extractor>): Extractor => ({
+  id: 'e1',
+  enabled: true,
+  source: 'json',
+  expression: '$.data.token',
+  variable: 'token',
+  ...overrides,
+})
+
+describe('parseJsonPath', () => {
+  it('should split dots, indexes, quoted names and wildcards', () => {
+    expect(parseJsonPath("$.data.items[0]['first-name'][*].x")).toEqual(['data', 'items', 0, 'first-name', '*', 'x'])
+  })
+
+  it('should reject paths that do not start at the root or cannot be parsed', () => {
+    expect(() => parseJsonPath('data.token')).toThrow('must start with $')
+    expect(() => parseJsonPath('$.data[')).toThrow('Invalid JSONPath')
+  })
+})
+
+describe('queryJsonPath', () => {
+  const data = JSON.parse(response.body)
+
+  it('should return matched values', () => {
+    expect(queryJsonPath(data, '$.data.user.id')).toEqual([42])
+    expect(queryJsonPath(data, '$.data.items[-1].id')).toEqual([2])
+    expect(queryJsonPath(data, '$.data.items[*].id')).toEqual([1, 2])
+    expect(queryJsonPath(data, '$.data.missing')).toEqual([])
+  })
+})
+
+describe('applyExtractors', () => {
+  it('should extract from JSON, headers and regex matches', () => {
+    const results = applyExtractors([
+      extractor({}),
+      extractor({ id: 'e2', expression: '$.data.user', variable: 'user' }),
+      extractor({ id: 'e3', source: 'header', expression: 'Location', variable: 'nextUrl' }),
+      extractor({ id: 'e4', source: 'regex', expression: '"first-name":"(\\w+)"', variable: 'name' }),
+      extractor({ id: 'e5', expression: '$.data.items[*].id', variable: 'ids' }),
+    ], response)
+
+    expect(results.map((r) => [r.extractor.variable, r.value])).toEqual([
+      ['token', 'abc'],
+      ['user', '{"id":42}'],
+      ['nextUrl', '/users/42'],
+      ['name', 'Ada'],
+      ['ids', '[1,2]'],
+    ])
+  })
+
+  it('should report misses and errors without throwing', () => {
+    const results = applyExtractors([
+      extractor({ expression: '$.nope' }),
+      extractor({ id: 'e2', source: 'regex', expression: '(' }),
+      extractor({ id: 'e3', source: 'header', expression: 'X-Missing' }),
+    ], response)
+
+    expect(results.map((r) => r.error)).toEqual(['No match', 'Invalid regular expression: (', 'No match'])
+    expect(applyExtractors([extractor({})], { ...response, body: 'not json' })[0].error).toBe('Response body is not valid JSON')
+  })
+
+  it('should skip disabled and incomplete extractors', () => {
+    expect(applyExtractors([extractor({ enabled: false }), extractor({ variable: '' })], response)).toEqual([])
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { exportToPostman, importFromPostman, parseImportedFile } from '../import-export'
+import { exportToPostman, importFromPostman, parseImportedEnvironment, parseImportedFile } from '../import-export'
+import { DEFAULT_OAUTH2_CONFIG } from '@/lib/auth'
 import type { Collection } from '@/types'
 
 describe('Import/Export', () => {
@@ -241,6 +242,15 @@ describe('Import/Export', () => {
       expect(result.id).toBe('col-123')
     })
 
+    it('should keep extractors in the native format', () => {
+      const extractors = [{ id: 'e1', enabled: true, source: 'json' as const, expression: '$.token', variable: 'token' }]
+      const collection = { ...mockCollection, requests: [{ ...mockCollection.requests[0], extractors }] }
+
+      const result = parseImportedFile(JSON.stringify(collection))
+
+      expect(result.requests[0].extractors).toEqual(extractors)
+    })
+
     it('should throw error for unrecognized format', () => {
       const invalidJson = JSON.stringify({ foo: 'bar' })
       expect(() => parseImportedFile(invalidJson)).toThrow('Unrecognized collection format')
@@ -251,6 +261,36 @@ describe('Import/Export', () => {
     })
   })
 
+  describe('parseImportedEnvironment', () => {
+    it('should parse a Postman environment export', () => {
+      const result = parseImportedEnvironment(JSON.stringify({
+        name: 'Staging',
+        values: [
+          { key: 'baseUrl', value: 'https://staging.example.com', enabled: true },
+          { key: 'debug', value: 'true', enabled: false },
+        ],
+      }))
+
+      expect(result.name).toBe('Staging')
+      expect(result.variables).toEqual([
+        expect.objectContaining({ key: 'baseUrl', value: 'https://staging.example.com', enabled: true }),
+        expect.objectContaining({ key: 'debug', value: 'true', enabled: false }),
+      ])
+    })
+
+    it('should parse the native format', () => {
+      const variables = [{ id: 'v1', key: 'token', value: 'abc', enabled: true }]
+      const result = parseImportedEnvironment(JSON.stringify({ id: 'env-1', name: 'Local', variables }))
+
+      expect(result.id).toBe('env-1')
+      expect(result.variables).toEqual(variables)
+    })
+
+    it('should throw error for unrecognized format', () => {
+      expect(() => parseImportedEnvironment(JSON.stringify({ foo: 'bar' }))).toThrow('Unrecognized environment format')
+    })
+  })
+
   describe('Round-trip conversion', () => {
     it('should preserve data through export and import', () => {
       const exported = exportToPostman(mockCollection)
@@ -271,5 +311,128 @@ describe('Import/Export', () => {
       expect(imported.variables.length).toBe(mockCollection.variables.length)
       expect(imported.variables[0].key).toBe(mockCollection.variables[0].key)
     })
+
+    it('should preserve auth on the collection, folders and requests', () => {
+      const collection: Collection = {
+        ...mockCollection,
+        auth: { type: 'bearer', bearer: { token: '{{token}}' } },
+        requests: [
+          { ...mockCollection.requests[0], auth: { type: 'apikey', apikey: { key: 'key', value: 'k', in: 'query' } } },
+          { ...mockCollection.requests[1], auth: { type: 'none' } },
+        ],
+        folders: [{ ...mockCollection.folders[0], auth: { type: 'digest', digest: { username: 'ada', password: 'secret' } } }],
+      }
+
+      const exported = exportToPostman(collection)
+      expect(exported.auth).toEqual({ type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] })
+      expect(exported.item[1].request?.auth).toEqual({ type: 'noauth' })
+
+      const imported = importFromPostman(exported)
+      expect(imported.auth).toEqual(collection.auth)
+      expect(imported.requests.map((r) => r.auth)).toEqual([collection.requests[0].auth, { type: 'none' }])
+      expect(imported.folders[0].auth).toEqual(collection.folders[0].auth)
+      expect(imported.folders[0].requests[0].auth).toBeUndefined()
+    })
+
+    it('should convert OAuth 2.0 settings to and from Postman grant types', () => {
+      const oauth2 = {
+        ...DEFAULT_OAUTH2_CONFIG,
+        grantType: 'authorization_code' as const,
+        usePkce: true,
+        authUrl: 'https://auth.example.com/authorize',
+        accessTokenUrl: 'https://auth.example.com/token',
+        clientId: 'app',
+        clientAuthentication: 'body' as const,
+      }
+      const exported = exportToPostman({ ...mockCollection, auth: { type: 'oauth2', oauth2 } })
+
+      expect(exported.auth?.oauth2).toContainEqual({ key: 'grant_type', value: 'authorization_code_with_pkce', type: 'string' })
+      expect(importFromPostman(exported).auth).toEqual({ type: 'oauth2', oauth2 })
+    })
+
+    it('should keep file fields and binary bodies, without their contents, in Postman', () => {
+      const file = { name: 'me.png', contentType: 'image/png', size: 1, data: 'AA==' }
+      const collection = {
+        ...mockCollection,
+        requests: [
+          { ...mockCollection.requests[0], body: { type: 'form-data' as const, formData: [{ id: 'f1', key: 'photo', value: '', enabled: true, type: 'file' as const, file }] } },
+          { ...mockCollection.requests[0], id: 'req-2', body: { type: 'binary' as const, file } },
+        ],
+      }
+      const exported = exportToPostman(collection)
+
+      expect(exported.item[0].request?.body?.formdata).toEqual([{ key: 'photo', type: 'file', src: 'me.png', disabled: false }])
+      expect(exported.item[1].request?.body).toEqual({ mode: 'file', file: { src: 'me.png' } })
+
+      const imported = importFromPostman(exported)
+      expect(imported.requests[0].body?.formData?.[0]).toMatchObject({ key: 'photo', type: 'file', description: 'me.png' })
+      expect(imported.requests[1].body).toEqual({ type: 'binary' })
+    })
+
+    it('should keep WebSocket connections and their subprotocols through Postman', () => {
+      const collection = {
+        ...mockCollection,
+        requests: [{
+          ...mockCollection.requests[0],
+          protocol: 'websocket' as const,
+          url: 'wss://api.example.com/live',
+          body: undefined,
+          websocket: { protocols: ['chat.v2', 'chat'], message: '', messageFormat: 'text' as const },
+        }],
+      }
+      const exported = exportToPostman(collection)
+
+      expect(exported.item[0].request?.header).toContainEqual({ key: 'Sec-WebSocket-Protocol', value: 'chat.v2, chat' })
+      const imported = importFromPostman(exported).requests[0]
+      expect(imported).toMatchObject({ protocol: 'websocket', method: 'GET', url: 'wss://api.example.com/live' })
+      expect(imported.websocket?.protocols).toEqual(['chat.v2', 'chat'])
+      expect(imported.headers.map((h) => h.key)).not.toContain('Sec-WebSocket-Protocol')
+    })
+
+    it('should convert GraphQL bodies to and from Postman', () => {
+      const graphql = { query: 'query ($id: ID!) { user(id: $id) { name } }', variables: '{ "id": 1 }' }
+      const collection = {
+        ...mockCollection,
+        requests: [{ ...mockCollection.requests[0], method: 'POST' as const, body: { type: 'graphql' as const, graphql } }],
+      }
+      const exported = exportToPostman(collection)
+
+      expect(exported.item[0].request?.body).toEqual({ mode: 'graphql', graphql })
+      expect(importFromPostman(exported).requests[0].body).toEqual({ type: 'graphql', graphql })
+    })
+
+    it('should convert AWS Signature settings to and from Postman', () => {
+      const awsv4 = { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: '', region: 'eu-west-1', service: 's3' }
+      const exported = exportToPostman({ ...mockCollection, auth: { type: 'awsv4', awsv4 } })
+
+      expect(exported.auth?.awsv4).toContainEqual({ key: 'accessKey', value: 'AKID', type: 'string' })
+      expect(importFromPostman(exported).auth).toEqual({ type: 'awsv4', awsv4 })
+    })
+
+    it('should map send settings to Postman protocol profile behavior, without the timeout', () => {
+      const collection: Collection = {
+        ...mockCollection,
+        settings: { verifyTls: false },
+        requests: [{ ...mockCollection.requests[0], settings: { followRedirects: false, maxRedirects: 3, timeout: 5000 } }],
+      }
+      const exported = exportToPostman(collection)
+
+      expect(exported.protocolProfileBehavior).toEqual({ strictSSL: false })
+      expect(exported.item[0].protocolProfileBehavior).toEqual({ followRedirects: false, maxRedirects: 3 })
+      expect(exported.item[1].protocolProfileBehavior).toBeUndefined()
+
+      const imported = importFromPostman(exported)
+      expect(imported.settings).toEqual({ verifyTls: false })
+      expect(imported.requests[0].settings).toEqual({ followRedirects: false, maxRedirects: 3 })
+    })
+
+    it('should treat unsupported Postman OAuth 2.0 grants as inherited', () => {
+      const imported = importFromPostman({
+        info: { name: 'Implicit', schema: '' },
+        item: [],
+        auth: { type: 'oauth2', oauth2: [{ key: 'grant_type', value: 'implicit' }] },
+      })
+      expect(imported.auth).toBeUndefined()
+    })
   })
 })
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { validateJsonSchema } from '../json-schema'
+
+const userSchema = {
+  type: 'object',
+  required: ['id', 'email'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    email: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+    role: { enum: ['admin', 'member'] },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+    address: { $ref: '#/$defs/address' },
+  },
+  additionalProperties: false,
+  $defs: {
+    address: { type: 'object', required: ['city'], properties: { city: { type: 'string', minLength: 1 } } },
+  },
+}
+
+describe('validateJsonSchema', () => {
+  it('should accept a valid document', () => {
+    expect(validateJsonSchema(
+      { id: 1, email: 'a@example.com', role: 'admin', tags: ['x'], address: { city: 'Oslo' } },
+      userSchema
+    )).toEqual([])
+  })
+
+  it('should report each violation with its path', () => {
+    expect(validateJsonSchema(
+      { id: 0, email: 'nope', role: 'owner', tags: ['x', 'x', 3], address: { city: '' }, extra: true },
+      userSchema
+    )).toEqual([
+      'id should be >= 1',
+      'email should match ^[^@]+@[^@]+$',
+      'role should be one of ["admin","member"]',
+      'tags should have unique items',
+      'tags[2] should be string, got integer',
+      'address.city should have at least 1 characters',
+      "value should not have additional property 'extra'",
+    ])
+  })
+
+  it('should report missing required properties and wrong root types', () => {
+    expect(validateJsonSchema({ id: 1 }, userSchema)).toEqual(["value should have required property 'email'"])
+    expect(validateJsonSchema([], userSchema)).toEqual(['value should be object, got array'])
+  })
+
+  it('should support combinators', () => {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'number' }], not: { const: 0 } }
+    expect(validateJsonSchema('a', schema)).toEqual([])
+    expect(validateJsonSchema(0, schema)).toEqual(['value should not match the schema in not'])
+    expect(validateJsonSchema(true, schema)).toEqual(['value should match at least one schema in anyOf'])
+    expect(validateJsonSchema(1.5, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual([])
+    expect(validateJsonSchema(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual([
+      'value should match exactly one schema in oneOf, matched 2',
+    ])
+  })
+})
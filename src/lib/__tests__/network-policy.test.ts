@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkUrl,
+  createRateLimiter,
+  DEFAULT_NETWORK_POLICY,
+  getNetworkPolicy,
+  hostMatches,
+  isPrivateHost,
+  NetworkPolicyError,
+  rateLimitKey,
+  type NetworkPolicy,
+} from '../network-policy'
+
+const policy = (overrides: Partial<NetworkPolicy> = {}): NetworkPolicy => ({ ...DEFAULT_NETWORK_POLICY, ...overrides })
+
+describe('getNetworkPolicy', () => {
+  it('should use the defaults without configuration', () => {
+    expect(getNetworkPolicy({})).toEqual(DEFAULT_NETWORK_POLICY)
+  })
+
+  it('should read the PROXY_* variables', () => {
+    expect(getNetworkPolicy({
+      PROXY_BLOCK_PRIVATE_NETWORKS: 'false',
+      PROXY_ALLOWED_HOSTS: 'api.example.com, *.Internal.example.com',
+      PROXY_DENIED_HOSTS: 'evil.example.com',
+      PROXY_MAX_RESPONSE_SIZE: '1024',
+      PROXY_RATE_LIMIT: '0',
+    })).toEqual({
+      blockPrivateNetworks: false,
+      allowedHosts: ['api.example.com', '*.internal.example.com'],
+      deniedHosts: ['evil.example.com'],
+      maxResponseSize: 1024,
+      rateLimit: 0,
+    })
+  })
+
+  it('should ignore limits that are not numbers', () => {
+    expect(getNetworkPolicy({ PROXY_RATE_LIMIT: 'lots' }).rateLimit).toBe(DEFAULT_NETWORK_POLICY.rateLimit)
+  })
+})
+
+describe('hostMatches', () => {
+  it('should match exact names and wildcard subdomains', () => {
+    expect(hostMatches('API.example.com', 'api.example.com')).toBe(true)
+    expect(hostMatches('a.b.example.com', '*.example.com')).toBe(true)
+    expect(hostMatches('example.com', '*.example.com')).toBe(false)
+    expect(hostMatches('notexample.com', '*.example.com')).toBe(false)
+  })
+})
+
+describe('isPrivateHost', () => {
+  it('should recognize private and reserved IPv4 addresses', () => {
+    for (const host of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1']) {
+      expect(isPrivateHost(host), host).toBe(true)
+    }
+    for (const host of ['8.8.8.8', '172.32.0.1', '93.184.216.34']) {
+      expect(isPrivateHost(host), host).toBe(false)
+    }
+  })
+
+  it('should recognize the IETF, documentation and reserved IPv4 ranges', () => {
+    for (const host of ['192.0.0.8', '192.0.2.1', '198.51.100.1', '203.0.113.1', '240.0.0.1', '255.255.255.255']) {
+      expect(isPrivateHost(host), host).toBe(true)
+    }
+    for (const host of ['192.0.1.1', '192.0.3.1', '198.51.101.1', '203.0.114.1']) {
+      expect(isPrivateHost(host), host).toBe(false)
+    }
+  })
+
+  it('should recognize private IPv6 addresses, including embedded IPv4', () => {
+    for (const host of ['[::1]', '[::]', '[fd00::1]', '[fe80::1]', '[::ffff:7f00:1]', '[64:ff9b::a9fe:a9fe]']) {
+      expect(isPrivateHost(host), host).toBe(true)
+    }
+    expect(isPrivateHost('[2606:4700::1111]')).toBe(false)
+    expect(isPrivateHost('[::ffff:808:808]')).toBe(false)
+  })
+
+  it('should recognize 6to4 addresses that embed a private IPv4 address', () => {
+    for (const host of ['[2002:7f00:1::]', '[2002:a00:1::1]', '[2002:a9fe:a9fe::]', '[2002:c0a8:101:1::1]']) {
+      expect(isPrivateHost(host), host).toBe(true)
+    }
+    expect(isPrivateHost('[2002:808:808::1]')).toBe(false)
+  })
+
+  it('should recognize local names', () => {
+    expect(isPrivateHost('localhost')).toBe(true)
+    expect(isPrivateHost('app.localhost.')).toBe(true)
+    expect(isPrivateHost('metadata.google.internal')).toBe(true)
+    expect(isPrivateHost('api.example.com')).toBe(false)
+  })
+
+  it('should catch addresses written in other forms once the URL normalizes them', () => {
+    expect(isPrivateHost(new URL('http://2130706433/').hostname)).toBe(true)
+    expect(isPrivateHost(new URL('http://0x7f.1/').hostname)).toBe(true)
+    expect(isPrivateHost(new URL('http://[::ffff:169.254.169.254]/').hostname)).toBe(true)
+  })
+})
+
+describe('checkUrl', () => {
+  it('should block private networks by default', () => {
+    expect(() => checkUrl('http://169.254.169.254/latest/meta-data', policy())).toThrow(NetworkPolicyError)
+    expect(() => checkUrl('https://api.example.com', policy())).not.toThrow()
+  })
+
+  it('should allow private networks when the block is off', () => {
+    expect(() => checkUrl('http://localhost:8080', policy({ blockPrivateNetworks: false }))).not.toThrow()
+  })
+
+  it('should only allow listed hosts when there is an allowlist', () => {
+    const allowlist = policy({ allowedHosts: ['api.example.com', 'localhost'] })
+
+    expect(() => checkUrl('https://api.example.com/users', allowlist)).not.toThrow()
+    expect(() => checkUrl('http://localhost:3000', allowlist)).not.toThrow()
+    expect(() => checkUrl('https://other.example.com', allowlist)).toThrow('not in the list of allowed hosts')
+  })
+
+  it('should deny listed hosts even when they are allowed', () => {
+    const lists = policy({ allowedHosts: ['*.example.com'], deniedHosts: ['admin.example.com'] })
+
+    expect(() => checkUrl('https://admin.example.com', lists)).toThrow('Requests to admin.example.com are not allowed')
+  })
+
+  it('should reject other protocols', () => {
+    expect(() => checkUrl('file:///etc/passwd', policy())).toThrow('Only http and https URLs can be sent')
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('should limit requests per key within the window', () => {
+    const limiter = createRateLimiter(2, 60_000)
+
+    expect(limiter.take('a', 0).allowed).toBe(true)
+    expect(limiter.take('a', 1000).allowed).toBe(true)
+    expect(limiter.take('a', 2000)).toEqual({ allowed: false, retryAfter: 58 })
+    expect(limiter.take('b', 2000).allowed).toBe(true)
+    expect(limiter.take('a', 60_000).allowed).toBe(true)
+  })
+
+  it('should count anonymous callers by address rather than device ID', () => {
+    const anonymous = (deviceId: string) => new Headers({ 'x-device-id': deviceId, 'x-forwarded-for': '203.0.113.7' })
+
+    expect(rateLimitKey(null, anonymous('device-1'))).toBe('ip:203.0.113.7')
+    expect(rateLimitKey(null, anonymous('device-2'))).toBe('ip:203.0.113.7')
+    expect(rateLimitKey(null, new Headers({ 'cf-connecting-ip': '198.51.100.2', 'x-forwarded-for': '203.0.113.7' }))).toBe(
+      'ip:198.51.100.2'
+    )
+    expect(rateLimitKey(null, new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('ip:unknown')
+    expect(rateLimitKey('user_123', anonymous('device-1'))).toBe('user:user_123')
+  })
+
+  it('should still limit callers who send their own X-Forwarded-For', () => {
+    const limiter = createRateLimiter(2)
+    const spoofed = (address: string) => new Headers({ 'x-forwarded-for': `${address}, 203.0.113.7` })
+
+    expect(limiter.take(rateLimitKey(null, spoofed('1.2.3.4'))).allowed).toBe(true)
+    expect(limiter.take(rateLimitKey(null, spoofed('1.2.3.5'))).allowed).toBe(true)
+    expect(limiter.take(rateLimitKey(null, spoofed('1.2.3.6'))).allowed).toBe(false)
+  })
+
+  it('should allow everything with a limit of 0', () => {
+    const limiter = createRateLimiter(0)
+
+    for (let i = 0; i < 5; i++) expect(limiter.take('a').allowed).toBe(true)
+  })
+})
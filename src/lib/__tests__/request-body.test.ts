@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import type { ApiRequest } from '@/types'
+import { base64ToBytes, bytesToBase64, encodeMultipart, MAX_ATTACHMENT_SIZE, prepareUpstreamRequest, readFileAttachment, withoutFileContents } from '../request-body'
+
+const text = (body: string | Uint8Array | undefined) => (typeof body === 'string' ? body : new TextDecoder().decode(body))
+
+const aws = { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: '', region: 'us-east-1', service: 's3' }
+
+describe('base64', () => {
+  it('should round-trip bytes', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255])
+    expect(bytesToBase64(bytes)).toBe('AAF/gP8=')
+    expect(Array.from(base64ToBytes('AAF/gP8='))).toEqual([0, 1, 127, 128, 255])
+  })
+
+  it('should encode large buffers', () => {
+    const bytes = new Uint8Array(100_000).fill(65)
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes)
+  })
+})
+
+describe('readFileAttachment', () => {
+  it('should read the file with its name and type', async () => {
+    const file = new File(['hello'], 'hello.txt', { type: 'text/plain' })
+    expect(await readFileAttachment(file)).toEqual({ name: 'hello.txt', contentType: 'text/plain', size: 5, data: 'aGVsbG8=' })
+  })
+
+  it('should reject files too large to store', async () => {
+    const file = new File([new Uint8Array(MAX_ATTACHMENT_SIZE + 1)], 'big.bin')
+    await expect(readFileAttachment(file)).rejects.toThrow('big.bin is larger than 5 MB')
+  })
+})
+
+describe('encodeMultipart', () => {
+  it('should encode text and file fields between boundaries', () => {
+    const { body, contentType } = encodeMultipart([
+      { key: 'title', value: 'Holiday' },
+      { key: 'photo', value: '', file: { name: 'a "b".txt', contentType: 'text/plain', size: 2, data: 'aGk=' } },
+    ], 'XYZ')
+
+    expect(contentType).toBe('multipart/form-data; boundary=XYZ')
+    expect(text(body)).toBe(
+      '--XYZ\r\nContent-Disposition: form-data; name="title"\r\n\r\nHoliday\r\n' +
+      '--XYZ\r\nContent-Disposition: form-data; name="photo"; filename="a %22b%22.txt"\r\nContent-Type: text/plain\r\n\r\nhi\r\n' +
+      '--XYZ--\r\n'
+    )
+  })
+
+  it('should keep file bytes intact', () => {
+    const { body } = encodeMultipart([{ key: 'f', value: '', file: { name: 'b.bin', contentType: '', size: 2, data: '/wA=' } }], 'XYZ')
+    const start = text(body).indexOf('\r\n\r\n') + 4
+    expect(Array.from(body.slice(start, start + 2))).toEqual([255, 0])
+  })
+})
+
+describe('prepareUpstreamRequest', () => {
+  it('should send text bodies unchanged', async () => {
+    const upstream = await prepareUpstreamRequest({ method: 'POST', url: 'https://example.com', headers: { A: 'b' }, body: 'x' })
+    expect(upstream).toEqual({ headers: { A: 'b' }, body: 'x' })
+  })
+
+  it('should only send a body with POST, PUT and PATCH', async () => {
+    expect((await prepareUpstreamRequest({ method: 'GET', url: 'https://example.com', headers: {}, body: 'x' })).body).toBeUndefined()
+  })
+
+  it('should decode binary bodies', async () => {
+    const upstream = await prepareUpstreamRequest({ method: 'PUT', url: 'https://example.com', headers: {}, body: 'AQID', bodyEncoding: 'base64' })
+    expect(Array.from(upstream.body as Uint8Array)).toEqual([1, 2, 3])
+  })
+
+  it('should replace a hand-set multipart Content-Type with one carrying the boundary', async () => {
+    const upstream = await prepareUpstreamRequest({
+      method: 'POST',
+      url: 'https://example.com',
+      headers: { 'content-type': 'multipart/form-data', Accept: '*/*' },
+      formData: [{ key: 'a', value: '1' }],
+    })
+
+    expect(Object.keys(upstream.headers)).toEqual(['Accept', 'Content-Type'])
+    expect(upstream.headers['Content-Type']).toMatch(/^multipart\/form-data; boundary=/)
+    expect(text(upstream.body)).toContain('name="a"\r\n\r\n1\r\n')
+  })
+
+  it('should sign AWS requests over the bytes sent', async () => {
+    const upstream = await prepareUpstreamRequest({
+      method: 'PUT',
+      url: 'https://bucket.s3.amazonaws.com/key',
+      headers: {},
+      body: 'AQID',
+      bodyEncoding: 'base64',
+      awsSigV4: aws,
+    })
+
+    // SHA-256 of the bytes 01 02 03, not of the base64 text
+    expect(upstream.headers['X-Amz-Content-Sha256']).toBe('039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81')
+    expect(upstream.headers.Authorization).toMatch(/^AWS4-HMAC-SHA256 /)
+  })
+})
+
+describe('withoutFileContents', () => {
+  it('should drop attached files but keep their names', () => {
+    const file = { name: 'photo.png', contentType: 'image/png', size: 2, data: 'aGk=' }
+    const request: ApiRequest = {
+      id: 'r1',
+      name: 'Upload',
+      method: 'POST',
+      url: 'https://example.com',
+      params: [],
+      headers: [],
+      body: {
+        type: 'form-data',
+        content: '',
+        formData: [
+          { id: 'f1', key: 'title', value: 'Holiday', enabled: true },
+          { id: 'f2', key: 'photo', value: '', enabled: true, type: 'file', file },
+        ],
+        file,
+      },
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    }
+
+    const stripped = withoutFileContents(request)
+    expect(stripped.body?.file).toBeUndefined()
+    expect(stripped.body?.formData?.[0]).toEqual(request.body?.formData?.[0])
+    expect(stripped.body?.formData?.[1]).toEqual({ id: 'f2', key: 'photo', value: '', enabled: true, type: 'file', description: 'photo.png' })
+  })
+})
@@ -0,0 +1,318 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { buildUrl, buildHeaders, buildBody, buildFormData, replaceVariables, mergeVariables, upsertVariable, sendViaProxy, sendDirect, sendViaAgent, sendFromBrowser, getTransport } from '../request-sender'
+
+describe('request-sender', () => {
+  describe('buildUrl', () => {
+    it('should append enabled params', () => {
+      const url = buildUrl('https://api.example.com/users', [
+        { id: '1', key: 'page', value: '1', enabled: true },
+        { id: '2', key: 'skip', value: 'x', enabled: false },
+      ])
+      expect(url).toBe('https://api.example.com/users?page=1')
+    })
+
+    it('should handle URLs with variables', () => {
+      const url = buildUrl('{{baseUrl}}/users', [{ id: '1', key: 'q', value: 'a b', enabled: true }])
+      expect(url).toBe('{{baseUrl}}/users?q=a%20b')
+    })
+  })
+
+  describe('buildHeaders', () => {
+    it('should add Content-Type for JSON bodies', () => {
+      expect(buildHeaders([], 'json')).toEqual({ 'Content-Type': 'application/json' })
+    })
+
+    it('should not override an explicit Content-Type', () => {
+      const headers = buildHeaders([{ id: '1', key: 'Content-Type', value: 'text/plain', enabled: true }], 'json')
+      expect(headers['Content-Type']).toBe('text/plain')
+    })
+
+    it("should use the file's type for binary bodies and leave multipart to the encoder", () => {
+      expect(buildHeaders([], 'binary', 'image/png')).toEqual({ 'Content-Type': 'image/png' })
+      expect(buildHeaders([], 'form-data')).toEqual({})
+    })
+  })
+
+  describe('buildBody', () => {
+    it('should encode urlencoded form data', () => {
+      const body = buildBody({
+        body: {
+          type: 'x-www-form-urlencoded',
+          formData: [{ id: '1', key: 'name', value: 'John Doe', enabled: true }],
+        },
+      })
+      expect(body).toBe('name=John%20Doe')
+    })
+
+    it('should return undefined for no body', () => {
+      expect(buildBody({ body: { type: 'none' } })).toBeUndefined()
+    })
+
+    it('should return binary bodies as base64 and leave form-data to buildFormData', () => {
+      const file = { name: 'a.bin', contentType: 'application/octet-stream', size: 3, data: 'AQID' }
+      expect(buildBody({ body: { type: 'binary', file } })).toBe('AQID')
+      expect(buildBody({ body: { type: 'form-data', formData: [{ id: '1', key: 'a', value: 'b', enabled: true }] } })).toBeUndefined()
+    })
+
+    it('should send GraphQL bodies as JSON', () => {
+      const graphql = { query: 'query ($id: ID!) { user(id: $id) { name } }', variables: '{ "id": "{{userId}}" }' }
+
+      expect(JSON.parse(buildBody({ body: { type: 'graphql', graphql } })!)).toEqual({ query: graphql.query, variables: { id: '{{userId}}' } })
+      expect(buildHeaders([], 'graphql')).toEqual({ 'Content-Type': 'application/json' })
+    })
+  })
+
+  describe('buildFormData', () => {
+    it('should list enabled text and file fields', () => {
+      const file = { name: 'photo.png', contentType: 'image/png', size: 3, data: 'AQID' }
+      const fields = buildFormData({
+        body: {
+          type: 'form-data',
+          formData: [
+            { id: '1', key: 'title', value: 'Holiday', enabled: true },
+            { id: '2', key: 'photo', value: '', enabled: true, type: 'file', file },
+            { id: '3', key: 'empty', value: '', enabled: true, type: 'file' },
+            { id: '4', key: 'off', value: 'x', enabled: false },
+          ],
+        },
+      })
+      expect(fields).toEqual([{ key: 'title', value: 'Holiday' }, { key: 'photo', value: '', file }])
+    })
+
+    it('should return undefined for other body types', () => {
+      expect(buildFormData({ body: { type: 'json', content: '{}' } })).toBeUndefined()
+    })
+  })
+
+  describe('replaceVariables', () => {
+    it('should replace enabled variables only', () => {
+      const result = replaceVariables('{{a}}-{{b}}', [
+        { id: '1', key: 'a', value: '1', enabled: true },
+        { id: '2', key: 'b', value: '2', enabled: false },
+      ])
+      expect(result).toBe('1-{{b}}')
+    })
+  })
+
+  describe('mergeVariables', () => {
+    it('should let later scopes override earlier ones', () => {
+      const result = mergeVariables(
+        [
+          { id: '1', key: 'a', value: 'collection', enabled: true },
+          { id: '2', key: 'b', value: 'collection', enabled: true },
+        ],
+        [
+          { id: '3', key: 'a', value: 'environment', enabled: true },
+          { id: '4', key: 'b', value: 'environment', enabled: false },
+        ]
+      )
+      expect(result.map((v) => [v.key, v.value])).toEqual([['a', 'environment'], ['b', 'collection']])
+    })
+  })
+
+  describe('upsertVariable', () => {
+    it('should update an existing variable and enable it', () => {
+      const result = upsertVariable([{ id: '1', key: 'a', value: '1', enabled: false }], 'a', '2')
+      expect(result).toEqual([{ id: '1', key: 'a', value: '2', enabled: true }])
+    })
+
+    it('should add a new variable', () => {
+      const result = upsertVariable([], 'a', '1')
+      expect(result).toEqual([expect.objectContaining({ key: 'a', value: '1', enabled: true })])
+    })
+  })
+
+  describe('sendViaProxy', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should return the proxied response', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+        status: 200, statusText: 'OK', headers: [], body: 'hi', time: 5, size: 2,
+      }))))
+
+      const result = await sendViaProxy({ method: 'GET', url: 'https://example.com', headers: {} })
+
+      expect(result.error).toBeUndefined()
+      expect(result.response).toEqual({ status: 200, statusText: 'OK', headers: [], body: 'hi', time: 5, size: 2 })
+    })
+
+    it('should identify the device to the proxy', async () => {
+      const fetchMock = vi.fn<typeof fetch>(async () => new Response(JSON.stringify({
+        status: 200, statusText: 'OK', headers: [], body: '', time: 1, size: 0,
+      })))
+      vi.stubGlobal('fetch', fetchMock)
+
+      await sendViaProxy({ method: 'GET', url: 'https://example.com', headers: {} })
+
+      const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>
+      expect(headers['x-device-id']).toMatch(/^device_/)
+    })
+
+    it('should report proxy errors', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(
+        JSON.stringify({ error: 'Invalid URL' }),
+        { status: 400 }
+      )))
+
+      const result = await sendViaProxy({ method: 'GET', url: 'nope', headers: {} })
+
+      expect(result.error).toBe('Invalid URL')
+      expect(result.response.statusText).toBe('Invalid URL')
+    })
+
+    it('should report network errors', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        throw new Error('offline')
+      }))
+
+      const result = await sendViaProxy({ method: 'GET', url: 'https://example.com', headers: {} })
+
+      expect(result.error).toBe('offline')
+      expect(result.response.statusText).toBe('Network Error')
+    })
+
+    it('should abort the proxy request and report the cancellation', async () => {
+      const fetchMock = vi.fn<typeof fetch>(async () => {
+        throw new DOMException('This operation was aborted', 'AbortError')
+      })
+      vi.stubGlobal('fetch', fetchMock)
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await sendViaProxy({ method: 'GET', url: 'https://example.com', headers: {} }, controller.signal)
+
+      expect(fetchMock.mock.calls[0][1]?.signal).toBe(controller.signal)
+      expect(result).toMatchObject({ cancelled: true, error: 'Request cancelled', response: { status: 0, statusText: 'Cancelled' } })
+    })
+  })
+  describe('sendDirect', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should fetch the target and convert the response', async () => {
+      const fetchMock = vi.fn(async () => new Response('héllo', {
+        status: 201, statusText: 'Created', headers: { 'X-Id': '1' },
+      }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const result = await sendDirect({ method: 'POST', url: 'https://example.com', headers: { A: 'b' }, body: 'x' })
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com', { method: 'POST', headers: { A: 'b' }, body: 'x', redirect: 'manual' })
+      expect(result.error).toBeUndefined()
+      expect(result.response).toMatchObject({ status: 201, statusText: 'Created', headers: expect.arrayContaining([{ key: 'x-id', value: '1' }]), body: 'héllo', size: 6 })
+    })
+
+    it('should return binary responses as base64 with their byte size', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0xff]), {
+        headers: { 'Content-Type': 'application/pdf' },
+      })))
+
+      const result = await sendDirect({ method: 'GET', url: 'https://example.com/a.pdf', headers: {} })
+
+      expect(result.response).toMatchObject({ body: 'JVBERv8=', bodyEncoding: 'base64', size: 5 })
+    })
+
+    it('should not send a body with GET requests', async () => {
+      const fetchMock = vi.fn(async () => new Response(''))
+      vi.stubGlobal('fetch', fetchMock)
+
+      await sendDirect({ method: 'GET', url: 'https://example.com', headers: {}, body: 'x' })
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com', { method: 'GET', headers: {}, body: undefined, redirect: 'manual' })
+    })
+
+    it('should sign AWS requests before sending', async () => {
+      const fetchMock = vi.fn<typeof fetch>(async () => new Response(''))
+      vi.stubGlobal('fetch', fetchMock)
+
+      await sendDirect({
+        method: 'GET',
+        url: 'https://example.amazonaws.com/',
+        headers: {},
+        awsSigV4: { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: '', region: 'us-east-1', service: 'execute-api' },
+      })
+
+      const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>
+      expect(headers.Authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/us-east-1\/execute-api\/aws4_request, SignedHeaders=host;x-amz-date, Signature=[0-9a-f]{64}$/)
+      expect(headers['X-Amz-Date']).toMatch(/^\d{8}T\d{6}Z$/)
+    })
+
+    it('should report network errors', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        throw new Error('ECONNREFUSED')
+      }))
+
+      const result = await sendDirect({ method: 'GET', url: 'https://example.com', headers: {} })
+
+      expect(result.error).toBe('ECONNREFUSED')
+      expect(result.response.status).toBe(0)
+    })
+  })
+
+  describe('sendViaAgent', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should post the request to the agent', async () => {
+      const fetchMock = vi.fn<typeof fetch>(async () => new Response(JSON.stringify({
+        status: 200, statusText: 'OK', headers: [], body: 'hi', time: 5, size: 2, httpVersion: '1.1', remoteAddress: '127.0.0.1',
+      })))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const result = await sendViaAgent('http://127.0.0.1:6000')({ method: 'GET', url: 'http://localhost:8080', headers: {} })
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:6000/request')
+      expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({ method: 'GET', url: 'http://localhost:8080', headers: {} })
+      expect(result.response).toMatchObject({ status: 200, body: 'hi', httpVersion: '1.1', remoteAddress: '127.0.0.1' })
+    })
+
+    it('should explain how to start an agent that is not running', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        throw new TypeError('Failed to fetch')
+      }))
+
+      const result = await sendViaAgent('http://127.0.0.1:6000')({ method: 'GET', url: 'http://localhost:8080', headers: {} })
+
+      expect(result.error).toBe('Could not reach the local agent at http://127.0.0.1:6000 (Failed to fetch). Start it with "pnpm agent", or send through the proxy instead.')
+    })
+  })
+
+  describe('sendFromBrowser', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should let the browser follow redirects', async () => {
+      const fetchMock = vi.fn<typeof fetch>(async () => new Response('ok'))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const result = await sendFromBrowser({ method: 'GET', url: 'https://example.com', headers: {} })
+
+      expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: 'follow' })
+      expect(result.response.body).toBe('ok')
+    })
+
+    it('should point out CORS when the browser refuses', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        throw new TypeError('Failed to fetch')
+      }))
+
+      const result = await sendFromBrowser({ method: 'GET', url: 'https://example.com', headers: {} })
+
+      expect(result.error).toMatch(/may not allow requests from this page \(CORS\)/)
+    })
+  })
+
+  describe('getTransport', () => {
+    it('should pick the transport the settings select', () => {
+      expect(getTransport()).toBe(sendViaProxy)
+      expect(getTransport({ transport: 'proxy' })).toBe(sendViaProxy)
+      expect(getTransport({ transport: 'browser' })).toBe(sendFromBrowser)
+      expect(getTransport({ transport: 'agent' })).toEqual(expect.any(Function))
+    })
+  })
+})
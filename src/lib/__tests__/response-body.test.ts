@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getContentDispositionFilename,
+  getDownloadFilename,
+  isTextContentType,
+  readResponseBody,
+  ResponseTooLargeError,
+  responseBytes,
+  toHexDump,
+} from '../response-body'
+
+const PNG_HEADER = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+describe('isTextContentType', () => {
+  it('should recognize text types', () => {
+    expect(isTextContentType('text/plain; charset=utf-8')).toBe(true)
+    expect(isTextContentType('application/json')).toBe(true)
+    expect(isTextContentType('application/problem+json')).toBe(true)
+    expect(isTextContentType('image/svg+xml')).toBe(true)
+  })
+
+  it('should treat other types as binary', () => {
+    expect(isTextContentType('image/png')).toBe(false)
+    expect(isTextContentType('application/pdf')).toBe(false)
+    expect(isTextContentType('application/x-protobuf')).toBe(false)
+  })
+
+  it('should be undecided without a Content-Type', () => {
+    expect(isTextContentType('')).toBeUndefined()
+    expect(isTextContentType(undefined)).toBeUndefined()
+  })
+})
+
+describe('readResponseBody', () => {
+  it('should read text with its byte size', async () => {
+    const response = new Response('héllo', { headers: { 'Content-Type': 'text/plain; charset=utf-8' } })
+    expect(await readResponseBody(response)).toEqual({ body: 'héllo', size: 6 })
+  })
+
+  it('should decode the declared charset', async () => {
+    const response = new Response(new Uint8Array([0x63, 0x61, 0x66, 0xe9]), { headers: { 'Content-Type': 'text/plain; charset=iso-8859-1' } })
+    expect((await readResponseBody(response)).body).toBe('café')
+  })
+
+  it('should return binary types as base64', async () => {
+    const response = new Response(PNG_HEADER, { headers: { 'Content-Type': 'image/png' } })
+    expect(await readResponseBody(response)).toEqual({ body: 'iVBORw0KGgo=', bodyEncoding: 'base64', size: 8 })
+  })
+
+  it('should stop reading past the maximum size', async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(4))
+        controller.enqueue(new Uint8Array(4))
+        controller.close()
+      },
+    })
+    await expect(readResponseBody(new Response(stream), 6)).rejects.toThrow(ResponseTooLargeError)
+    expect(await readResponseBody(new Response('12345678'), 8)).toEqual({ body: '12345678', size: 8 })
+  })
+
+  it('should refuse a body whose Content-Length is over the maximum', async () => {
+    const response = new Response('12345678', { headers: { 'Content-Length': '8' } })
+    await expect(readResponseBody(response, 4)).rejects.toThrow('Response is larger than the 4 byte limit')
+  })
+
+  it('should sniff bodies without a Content-Type', async () => {
+    expect((await readResponseBody(new Response('plain'))).bodyEncoding).toBeUndefined()
+
+    const binary = new Response(PNG_HEADER)
+    binary.headers.delete('content-type')
+    expect((await readResponseBody(binary)).bodyEncoding).toBe('base64')
+  })
+})
+
+describe('responseBytes', () => {
+  it('should decode base64 bodies and encode text ones', () => {
+    expect(Array.from(responseBytes({ body: 'iVBORw0KGgo=', bodyEncoding: 'base64' }))).toEqual(Array.from(PNG_HEADER))
+    expect(Array.from(responseBytes({ body: 'hi' }))).toEqual([104, 105])
+  })
+})
+
+describe('getContentDispositionFilename', () => {
+  it('should read quoted and plain filenames', () => {
+    expect(getContentDispositionFilename('attachment; filename="report 2024.pdf"')).toBe('report 2024.pdf')
+    expect(getContentDispositionFilename('attachment; filename=data.csv')).toBe('data.csv')
+    expect(getContentDispositionFilename('attachment; filename="a \\"b\\".txt"')).toBe('a "b".txt')
+  })
+
+  it('should prefer the encoded filename*', () => {
+    expect(getContentDispositionFilename(`attachment; filename="fallback.txt"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`)).toBe('résumé.pdf')
+  })
+
+  it('should strip directories', () => {
+    expect(getContentDispositionFilename('attachment; filename="../../etc/passwd"')).toBe('passwd')
+  })
+
+  it('should ignore headers without a filename', () => {
+    expect(getContentDispositionFilename('inline')).toBeUndefined()
+    expect(getContentDispositionFilename(undefined)).toBeUndefined()
+  })
+})
+
+describe('getDownloadFilename', () => {
+  it('should use the Content-Disposition filename', () => {
+    expect(getDownloadFilename([{ key: 'content-disposition', value: 'attachment; filename="cat.png"' }, { key: 'content-type', value: 'image/png' }], true)).toBe('cat.png')
+  })
+
+  it('should fall back to an extension for the Content-Type', () => {
+    expect(getDownloadFilename([{ key: 'Content-Type', value: 'application/json; charset=utf-8' }], false)).toBe('response.json')
+    expect(getDownloadFilename([{ key: 'content-type', value: 'application/pdf' }], true)).toBe('response.pdf')
+    expect(getDownloadFilename([{ key: 'content-type', value: 'application/x-protobuf' }], true)).toBe('response.bin')
+    expect(getDownloadFilename([], false)).toBe('response.txt')
+  })
+})
+
+describe('toHexDump', () => {
+  it('should show offsets, bytes and printable characters', () => {
+    const bytes = new Uint8Array([...new TextEncoder().encode('Hello, binary world'), 0, 255])
+    expect(toHexDump(bytes).split('\n')).toEqual([
+      '00000000  48 65 6c 6c 6f 2c 20 62  69 6e 61 72 79 20 77 6f  |Hello, binary wo|',
+      '00000010  72 6c 64 00 ff                                    |rld..|',
+    ])
+  })
+})
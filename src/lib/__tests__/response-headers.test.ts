@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getHeader,
+  getHeaderValues,
+  headersToObject,
+  migrateHistoryEntry,
+  readResponseHeaders,
+  toHeaderList,
+} from '../response-headers'
+import type { HistoryEntry } from '@/types'
+
+const HEADERS = [
+  { key: 'Content-Type', value: 'application/json' },
+  { key: 'Set-Cookie', value: 'a=1; Path=/' },
+  { key: 'set-cookie', value: 'b=2; Expires=Wed, 21 Oct 2026 07:28:00 GMT' },
+  { key: 'Vary', value: 'Accept' },
+  { key: 'Vary', value: 'Origin' },
+]
+
+describe('readResponseHeaders', () => {
+  it('should keep each Set-Cookie value separate', () => {
+    const response = new Response(null, {
+      headers: [
+        ['Content-Type', 'text/plain'],
+        ['Set-Cookie', 'a=1'],
+        ['Set-Cookie', 'b=2'],
+      ],
+    })
+
+    expect(readResponseHeaders(response)).toEqual([
+      { key: 'content-type', value: 'text/plain' },
+      { key: 'set-cookie', value: 'a=1' },
+      { key: 'set-cookie', value: 'b=2' },
+    ])
+  })
+
+  it('should prefer the headers as received when the fetch attached them', () => {
+    const response = Object.assign(new Response(null, { headers: [['vary', 'Accept, Origin']] }), {
+      rawHeaders: [
+        { key: 'Vary', value: 'Accept' },
+        { key: 'Content-Type', value: 'text/plain' },
+        { key: 'Vary', value: 'Origin' },
+      ],
+    })
+
+    expect(readResponseHeaders(response)).toBe(response.rawHeaders)
+  })
+})
+
+describe('getHeaderValues', () => {
+  it('should return every value regardless of case', () => {
+    expect(getHeaderValues(HEADERS, 'SET-COOKIE')).toEqual([
+      'a=1; Path=/',
+      'b=2; Expires=Wed, 21 Oct 2026 07:28:00 GMT',
+    ])
+    expect(getHeaderValues(HEADERS, 'X-Missing')).toEqual([])
+  })
+})
+
+describe('getHeader', () => {
+  it('should join repeated values with a comma', () => {
+    expect(getHeader(HEADERS, 'vary')).toBe('Accept, Origin')
+    expect(getHeader(HEADERS, 'content-type')).toBe('application/json')
+  })
+
+  it('should return undefined for a missing header', () => {
+    expect(getHeader(HEADERS, 'X-Missing')).toBeUndefined()
+  })
+})
+
+describe('headersToObject', () => {
+  it('should keep the first spelling and join Set-Cookie values by line', () => {
+    expect(headersToObject(HEADERS)).toEqual({
+      'Content-Type': 'application/json',
+      'Set-Cookie': 'a=1; Path=/\nb=2; Expires=Wed, 21 Oct 2026 07:28:00 GMT',
+      Vary: 'Accept, Origin',
+    })
+  })
+})
+
+describe('toHeaderList', () => {
+  it('should convert an object of headers', () => {
+    expect(toHeaderList({ 'Content-Type': 'text/html', 'X-Id': '1' })).toEqual([
+      { key: 'Content-Type', value: 'text/html' },
+      { key: 'X-Id', value: '1' },
+    ])
+  })
+
+  it('should return lists as they are', () => {
+    expect(toHeaderList(HEADERS)).toBe(HEADERS)
+    expect(toHeaderList(undefined)).toEqual([])
+  })
+})
+
+describe('migrateHistoryEntry', () => {
+  const entry: HistoryEntry = {
+    id: 'hist-1',
+    request: {
+      id: 'req-1',
+      name: 'Request',
+      method: 'GET',
+      url: 'https://api.example.com',
+      headers: [],
+      params: [],
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    },
+    response: { status: 200, statusText: 'OK', headers: HEADERS, body: '', time: 10, size: 0 },
+    timestamp: '2024-01-01T00:00:00Z',
+  }
+
+  it('should convert headers stored as an object', () => {
+    const legacy = { ...entry, response: { ...entry.response, headers: { Server: 'nginx' } } }
+
+    const migrated = migrateHistoryEntry(legacy as unknown as HistoryEntry)
+    expect(migrated.response?.headers).toEqual([{ key: 'Server', value: 'nginx' }])
+    expect(migrated.response?.status).toBe(200)
+  })
+
+  it('should leave current and response-less entries unchanged', () => {
+    expect(migrateHistoryEntry(entry)).toBe(entry)
+    const withoutResponse = { ...entry, response: undefined }
+    expect(migrateHistoryEntry(withoutResponse)).toBe(withoutResponse)
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { resolveSendSettings } from '../send-settings'
+import type { ApiRequest, Collection } from '@/types'
+
+const request: ApiRequest = {
+  id: 'r1',
+  name: 'Request',
+  method: 'GET',
+  url: 'https://example.com',
+  headers: [],
+  params: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+const collection: Collection = {
+  id: 'c1',
+  name: 'Collection',
+  requests: [request],
+  folders: [],
+  variables: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+describe('resolveSendSettings', () => {
+  it('should be undefined when nothing is set', () => {
+    expect(resolveSendSettings(request)).toBeUndefined()
+    expect(resolveSendSettings(request, collection)).toBeUndefined()
+  })
+
+  it('should take each setting from the request, else the collection', () => {
+    const settings = resolveSendSettings(
+      { ...request, settings: { timeout: 1000, followRedirects: undefined } },
+      { ...collection, settings: { timeout: 5000, followRedirects: false, verifyTls: false } }
+    )
+
+    expect(settings).toEqual({ timeout: 1000, followRedirects: false, verifyTls: false })
+  })
+
+  it('should keep settings turned off on the request', () => {
+    expect(resolveSendSettings({ ...request, settings: { verifyTls: false } }, { ...collection, settings: { verifyTls: true } })).toEqual({ verifyTls: false })
+  })
+})
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { fetchUpstream, redirectRequest, RequestTimeoutError } from '../upstream-fetch'
+import { DEFAULT_NETWORK_POLICY, NetworkPolicyError } from '../network-policy'
+import { ResponseTooLargeError } from '../response-body'
+
+const post = { method: 'POST', url: 'https://api.example.com/items', headers: { Authorization: 'Bearer t', 'Content-Type': 'application/json' }, body: '{}' }
+
+// A fetch that never answers, only failing once its signal aborts
+const pendingFetch = async (...args: Parameters<typeof fetch>): Promise<Response> => {
+  const signal = args[1]?.signal
+  await new Promise((resolve) => signal?.addEventListener('abort', resolve))
+  throw signal?.reason
+}
+
+describe('redirectRequest', () => {
+  it('should resolve relative locations', () => {
+    expect(redirectRequest(post, 307, '/v2/items').url).toBe('https://api.example.com/v2/items')
+  })
+
+  it('should keep the method and body for 307 and 308', () => {
+    expect(redirectRequest(post, 308, '/v2/items')).toMatchObject({ method: 'POST', body: '{}', headers: post.headers })
+  })
+
+  it('should switch to GET without a body for 303, and for 301 and 302 after a POST', () => {
+    for (const status of [301, 302, 303]) {
+      expect(redirectRequest(post, status, '/done')).toEqual({
+        method: 'GET',
+        url: 'https://api.example.com/done',
+        headers: { Authorization: 'Bearer t' },
+        body: undefined,
+      })
+    }
+    expect(redirectRequest({ ...post, method: 'PUT' }, 302, '/done').method).toBe('PUT')
+  })
+
+  it('should drop credentials when leaving the origin', () => {
+    expect(redirectRequest(post, 307, 'https://cdn.example.com/items').headers).toEqual({ 'Content-Type': 'application/json' })
+  })
+
+  it('should refuse non-HTTP locations', () => {
+    expect(() => redirectRequest(post, 302, 'file:///etc/passwd')).toThrow('Redirected to unsupported URL file:///etc/passwd')
+  })
+})
+
+describe('fetchUpstream', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should follow redirects and report each hop', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async (url) => (
+      url === 'https://example.com/old'
+        ? new Response(null, { status: 301, headers: { Location: '/new' } })
+        : new Response('moved here')
+    ))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await fetchUpstream({ method: 'GET', url: 'https://example.com/old', headers: {} })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[1][0]).toBe('https://example.com/new')
+    expect(response).toMatchObject({
+      status: 200,
+      body: 'moved here',
+      url: 'https://example.com/new',
+      redirects: [{ url: 'https://example.com/old', status: 301 }],
+    })
+  })
+
+  it('should send jar cookies to each hop and report the cookies set', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async (url) => {
+      if (url === 'https://example.com/login') {
+        const headers = new Headers({ Location: 'https://api.example.com/home' })
+        headers.append('Set-Cookie', 'session=s1; Domain=example.com')
+        headers.append('Set-Cookie', 'flash=1')
+        return new Response(null, { status: 302, headers })
+      }
+      return new Response('home', { headers: { 'Set-Cookie': 'theme=dark' } })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await fetchUpstream(
+      { method: 'GET', url: 'https://example.com/login', headers: {} },
+      { cookies: [{ name: 'id', value: '7', domain: 'example.com', path: '/' }] }
+    )
+
+    expect(fetchMock.mock.calls[0][1]?.headers).toEqual({ Cookie: 'id=7' })
+    expect(fetchMock.mock.calls[1][1]?.headers).toEqual({ Cookie: 'id=7; session=s1' })
+    expect(response.cookies?.map((c) => `${c.domain} ${c.name}=${c.value}`)).toEqual([
+      'example.com session=s1',
+      'example.com flash=1',
+      'api.example.com theme=dark',
+    ])
+  })
+
+  it('should check each hop against the network policy', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () => new Response(null, {
+      status: 302,
+      headers: { Location: 'http://169.254.169.254/latest/meta-data' },
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(fetchUpstream(
+      { method: 'GET', url: 'https://example.com', headers: {} },
+      { policy: DEFAULT_NETWORK_POLICY }
+    )).rejects.toThrow(NetworkPolicyError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should limit the response size to the policy maximum', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('0123456789')))
+
+    await expect(fetchUpstream(
+      { method: 'GET', url: 'https://example.com', headers: {} },
+      { policy: { ...DEFAULT_NETWORK_POLICY, maxResponseSize: 5 } }
+    )).rejects.toThrow(ResponseTooLargeError)
+  })
+
+  it('should list repeated Set-Cookie headers once per value', async () => {
+    const headers = new Headers({ 'Content-Type': 'text/plain' })
+    headers.append('Set-Cookie', 'a=1')
+    headers.append('Set-Cookie', 'b=2')
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('ok', { headers })))
+
+    const response = await fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} })
+
+    expect(response.headers).toEqual([
+      { key: 'content-type', value: 'text/plain' },
+      { key: 'set-cookie', value: 'a=1' },
+      { key: 'set-cookie', value: 'b=2' },
+    ])
+  })
+
+  it('should time the phases of the request', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('ok')))
+
+    const { time, timings } = await fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} })
+
+    expect(timings).toEqual({ redirect: expect.any(Number), firstByte: expect.any(Number), download: expect.any(Number) })
+    expect(timings!.redirect! + timings!.firstByte + timings!.download).toBe(time)
+  })
+
+  it('should report connection phases measured by the fetch, taking them out of the wait', async () => {
+    const measured = Object.assign(new Response('ok'), { connectionTimings: { dns: 1, connect: 2, tls: 3 } })
+
+    const { time, timings } = await fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} }, { fetch: async () => measured })
+
+    expect(timings).toMatchObject({ dns: 1, connect: 2, tls: 3 })
+    expect(timings!.redirect! + timings!.dns! + timings!.connect! + timings!.tls! + timings!.firstByte + timings!.download).toBe(time)
+  })
+
+  it('should return a redirect without a Location as the response', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Found', { status: 302 })))
+
+    const response = await fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} })
+
+    expect(response).toMatchObject({ status: 302, body: 'Found', redirects: [] })
+  })
+
+  it('should stop redirect loops', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 302, headers: { Location: '/loop' } }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(fetchUpstream({ method: 'GET', url: 'https://example.com/loop', headers: {} })).rejects.toThrow('Stopped after 20 redirects')
+    expect(fetchMock).toHaveBeenCalledTimes(21)
+  })
+
+  it('should return redirects as they are when not following them', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 302, headers: { Location: '/elsewhere' } }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const response = await fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} }, { followRedirects: false })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(response).toMatchObject({ status: 302, headers: [{ key: 'location', value: '/elsewhere' }], redirects: [] })
+  })
+
+  it('should honor the redirect limit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 302, headers: { Location: '/loop' } })))
+
+    await expect(fetchUpstream({ method: 'GET', url: 'https://example.com/loop', headers: {} }, { maxRedirects: 2 })).rejects.toThrow('Stopped after 2 redirects')
+  })
+
+  it('should time out', async () => {
+    vi.stubGlobal('fetch', vi.fn(pendingFetch))
+
+    const sending = fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} }, { timeout: 10 })
+
+    await expect(sending).rejects.toThrow(RequestTimeoutError)
+    await expect(sending).rejects.toThrow('Request timed out after 10 ms')
+  })
+
+  it('should stop when aborted', async () => {
+    vi.stubGlobal('fetch', vi.fn(pendingFetch))
+    const controller = new AbortController()
+
+    const sending = fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} }, { signal: controller.signal, timeout: 1000 })
+    controller.abort()
+
+    await expect(sending).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('should send with the given fetch', async () => {
+    const custom = vi.fn(async () => new Response('custom'))
+
+    const response = await fetchUpstream({ method: 'GET', url: 'https://example.com', headers: {} }, { fetch: custom })
+
+    expect(custom).toHaveBeenCalled()
+    expect(response.body).toBe('custom')
+  })
+})
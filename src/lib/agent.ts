@@ -0,0 +1,194 @@
+import type { SendRequestBody, SendRequestResponse } from '@/app/api/request/route'
+import type { ApiResponse } from '@/types'
+import { prepareUpstreamRequest } from '@/lib/request-body'
+import { fetchUpstream, RequestTimeoutError } from '@/lib/upstream-fetch'
+
+// The local agent takes the same SendRequestBody as /api/request and answers with
+// the same SendRequestResponse, but runs on the user's machine, so it can reach
+// localhost and hosts only visible from their network.
+
+export const AGENT_NAME = 'endpnt-agent'
+export const AGENT_VERSION = 1
+export const DEFAULT_AGENT_PORT = 5004
+export const DEFAULT_AGENT_URL = `http://127.0.0.1:${DEFAULT_AGENT_PORT}`
+
+export const AGENT_USAGE = `Usage: agent [options]
+
+Sends requests and opens WebSocket connections from the app on this machine,
+so it can reach localhost and private networks. Listens on 127.0.0.1 only.
+
+Options:
+  -p, --port <n>        Port to listen on (default ${DEFAULT_AGENT_PORT})
+  --origin <url>        Origin of the app allowed to use the agent; may be repeated
+                        (default http://localhost:3000). "*" allows any page.
+  -h, --help            Show this message`
+
+/** What GET /health returns, so the app can tell the agent is running */
+export interface AgentInfo {
+  agent: typeof AGENT_NAME
+  version: number
+}
+
+// Only the agent sees the connection a response came over
+export type ConnectionInfo = Pick<ApiResponse, 'httpVersion' | 'remoteAddress'>
+
+export interface AgentOptions {
+  port: number
+  allowedOrigins: string[] // Pages allowed to send through the agent; "*" for any
+  help: boolean
+}
+
+export interface AgentHandlerOptions {
+  allowedOrigins: string[]
+  /**
+   * The fetch for one request, e.g. one that skips TLS verification when the
+   * request turns it off. It reports each response's connection to onConnection.
+   */
+  createFetch?: (request: SendRequestBody, onConnection: (connection: ConnectionInfo) => void) => typeof fetch
+}
+
+/**
+ * Parse the agent's command-line arguments (without the node and script paths)
+ */
+export function parseAgentArgs(argv: string[]): AgentOptions {
+  const options: AgentOptions = { port: DEFAULT_AGENT_PORT, allowedOrigins: [], help: false }
+
+  const valueFor = (flag: string, index: number) => {
+    const value = argv[index + 1]
+    if (value === undefined || value.startsWith('-')) {
+      throw new Error(`Missing value for ${flag}`)
+    }
+    return value
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    switch (arg) {
+      case '-p':
+      case '--port': {
+        const port = Number(valueFor(arg, i++))
+        if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error(`Invalid port for ${arg}`)
+        options.port = port
+        break
+      }
+      case '--origin': {
+        const origin = valueFor(arg, i++)
+        options.allowedOrigins.push(origin === '*' ? origin : new URL(origin).origin)
+        break
+      }
+      case '-h':
+      case '--help':
+        options.help = true
+        break
+      default:
+        throw new Error(arg.startsWith('-') ? `Unknown option ${arg}` : `Unexpected argument ${arg}`)
+    }
+  }
+
+  if (options.allowedOrigins.length === 0) options.allowedOrigins.push('http://localhost:3000')
+  return options
+}
+
+/**
+ * Whether a page may use the agent. Requests without an Origin do not come from a page.
+ */
+export function isAllowedOrigin(origin: string | null | undefined, allowedOrigins: string[]): boolean {
+  return !origin || allowedOrigins.includes('*') || allowedOrigins.includes(origin)
+}
+
+function json(data: unknown, status: number, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify(data), { status, headers: { ...headers, 'Content-Type': 'application/json' } })
+}
+
+/**
+ * Answer one HTTP request to the agent: GET /health for detection and
+ * POST /request to send a request. Pages from origins that are not allowed are
+ * refused, so other sites the user visits cannot use the agent to reach their network.
+ */
+export async function handleAgentRequest(request: Request, options: AgentHandlerOptions): Promise<Response> {
+  const origin = request.headers.get('origin')
+  const cors: Record<string, string> = origin ? { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' } : {}
+
+  // A refused page may still read why, but nothing is sent for it
+  if (!isAllowedOrigin(origin, options.allowedOrigins)) {
+    return json(
+      { error: 'Origin not allowed', message: `Start the agent with --origin ${origin} to use it from this page` },
+      403,
+      cors
+    )
+  }
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...cors,
+        'Access-Control-Allow-Methods': 'GET, POST',
+        'Access-Control-Allow-Headers': request.headers.get('access-control-request-headers') ?? 'Content-Type',
+        // Lets pages on a public origin reach the agent on localhost (Private Network Access)
+        ...(request.headers.has('access-control-request-private-network') && { 'Access-Control-Allow-Private-Network': 'true' }),
+        'Access-Control-Max-Age': '600',
+      },
+    })
+  }
+
+  const { pathname } = new URL(request.url)
+  if (request.method === 'GET' && pathname === '/health') {
+    const info: AgentInfo = { agent: AGENT_NAME, version: AGENT_VERSION }
+    return json(info, 200, cors)
+  }
+  if (request.method !== 'POST' || pathname !== '/request') {
+    return json({ error: 'Not found' }, 404, cors)
+  }
+
+  let body: SendRequestBody
+  let parsedUrl: URL
+  try {
+    body = await request.json()
+    parsedUrl = new URL(body.url)
+  } catch {
+    return json({ error: 'Invalid request', message: 'Expected a JSON request with a valid URL' }, 400, cors)
+  }
+
+  try {
+    const upstream = await prepareUpstreamRequest({ ...body, url: parsedUrl.toString() })
+    let connection: ConnectionInfo = {}
+    const result: SendRequestResponse = await fetchUpstream(
+      { method: body.method || 'GET', url: parsedUrl.toString(), ...upstream },
+      {
+        ...body.settings,
+        cookies: body.cookies,
+        signal: request.signal,
+        fetch: options.createFetch?.(body, (info) => {
+          connection = info
+        }),
+      }
+    )
+    return json({ ...result, ...connection }, 200, cors)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    if (error instanceof RequestTimeoutError) {
+      return json({ error: 'Timeout', message }, 504, cors)
+    }
+    return json({ error: 'Request failed', message }, 502, cors)
+  }
+}
+
+export type AgentStatus =
+  | { state: 'running'; info: AgentInfo }
+  | { state: 'refused'; message: string } // Running, but not accepting this page's origin
+  | { state: 'offline' }
+
+/**
+ * Whether the agent is running at the URL and accepts requests from this page
+ */
+export async function detectAgent(agentUrl: string, timeout = 2000): Promise<AgentStatus> {
+  try {
+    const response = await fetch(new URL('/health', agentUrl), { signal: AbortSignal.timeout(timeout) })
+    const data = await response.json() as Partial<AgentInfo> & { message?: string }
+    if (response.status === 403) return { state: 'refused', message: data.message ?? 'Origin not allowed' }
+    return response.ok && data.agent === AGENT_NAME ? { state: 'running', info: data as AgentInfo } : { state: 'offline' }
+  } catch {
+    return { state: 'offline' }
+  }
+}
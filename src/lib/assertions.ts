@@ -0,0 +1,156 @@
+import type { ApiResponse, AssertionOperator, AssertionType, ResponseAssertion, TestResult } from '@/types'
+import { queryJsonPath } from '@/lib/extractors'
+import { validateJsonSchema } from '@/lib/json-schema'
+import { deepEqual, inspect } from '@/lib/scripting/expect'
+import { getHeader } from '@/lib/response-headers'
+
+// Operators that make sense for each assertion type, in the order the editor offers them
+export const ASSERTION_OPERATORS: Record<AssertionType, AssertionOperator[]> = {
+  status: ['equals', 'notEquals', 'below', 'above'],
+  responseTime: ['below', 'above'],
+  header: ['exists', 'equals', 'notEquals', 'contains', 'matches'],
+  jsonPath: ['exists', 'equals', 'notEquals', 'contains', 'matches', 'below', 'above'],
+  jsonSchema: [],
+}
+
+export const ASSERTION_TYPE_LABELS: Record<AssertionType, string> = {
+  status: 'Status code',
+  responseTime: 'Response time',
+  header: 'Header',
+  jsonPath: 'JSON body',
+  jsonSchema: 'JSON Schema',
+}
+
+export const OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  matches: 'matches',
+  exists: 'exists',
+  below: 'is below',
+  above: 'is above',
+}
+
+// Expected values are typed as text; JSON literals (42, true, {"a":1}) compare by value
+function parseExpected(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function isEqual(actual: unknown, expected: string): boolean {
+  return deepEqual(actual, parseExpected(expected)) || asText(actual) === expected
+}
+
+/**
+ * A readable name for the assertion, used as the test name
+ */
+export function describeAssertion(assertion: ResponseAssertion): string {
+  const { type, target, operator, expected } = assertion
+  if (type === 'jsonSchema') return 'Body matches JSON Schema'
+
+  const subject = type === 'status' ? 'Status code'
+    : type === 'responseTime' ? 'Response time'
+      : type === 'header' ? `Header ${target}`
+        : target
+  if (operator === 'exists') return `${subject} exists`
+  return `${subject} ${OPERATOR_LABELS[operator]} ${expected}${type === 'responseTime' ? ' ms' : ''}`
+}
+
+// Returns an error message, or undefined when the check passes
+function compare(actual: unknown, operator: AssertionOperator, expected: string): string | undefined {
+  switch (operator) {
+    case 'exists':
+      return undefined
+    case 'equals':
+      return isEqual(actual, expected) ? undefined : `expected ${inspect(actual)} to equal ${inspect(parseExpected(expected))}`
+    case 'notEquals':
+      return isEqual(actual, expected) ? `expected ${inspect(actual)} to not equal ${inspect(parseExpected(expected))}` : undefined
+    case 'contains': {
+      const found = Array.isArray(actual)
+        ? actual.some((item) => isEqual(item, expected))
+        : asText(actual).includes(expected)
+      return found ? undefined : `expected ${inspect(actual)} to contain ${inspect(expected)}`
+    }
+    case 'matches': {
+      let pattern: RegExp
+      try {
+        pattern = new RegExp(expected)
+      } catch {
+        return `Invalid regular expression: ${expected}`
+      }
+      return pattern.test(asText(actual)) ? undefined : `expected ${inspect(actual)} to match ${pattern}`
+    }
+    case 'below':
+    case 'above': {
+      const value = Number(actual)
+      const limit = Number(expected)
+      if (typeof actual === 'boolean' || actual === null || Number.isNaN(value)) return `expected ${inspect(actual)} to be a number`
+      if (expected.trim() === '' || Number.isNaN(limit)) return `Expected value ${inspect(expected)} is not a number`
+      if (operator === 'below') return value < limit ? undefined : `expected ${inspect(actual)} to be below ${limit}`
+      return value > limit ? undefined : `expected ${inspect(actual)} to be above ${limit}`
+    }
+  }
+}
+
+function check(assertion: ResponseAssertion, response: ApiResponse): string | undefined {
+  switch (assertion.type) {
+    case 'status':
+      return compare(response.status, assertion.operator, assertion.expected)
+    case 'responseTime':
+      return compare(response.time, assertion.operator, assertion.expected)
+    case 'header': {
+      const value = getHeader(response.headers, assertion.target.trim())
+      if (value === undefined) return `expected response to have header '${assertion.target}'`
+      return compare(value, assertion.operator, assertion.expected)
+    }
+    case 'jsonPath':
+    case 'jsonSchema': {
+      let body: unknown
+      try {
+        body = JSON.parse(response.body)
+      } catch {
+        return 'Response body is not valid JSON'
+      }
+
+      if (assertion.type === 'jsonSchema') {
+        let schema: unknown
+        try {
+          schema = JSON.parse(assertion.expected)
+        } catch {
+          return 'JSON Schema is not valid JSON'
+        }
+        const errors = validateJsonSchema(body, schema as boolean | Record<string, unknown>)
+        return errors.length > 0 ? errors.join('; ') : undefined
+      }
+
+      const matches = queryJsonPath(body, assertion.target)
+      if (matches.length === 0) return `expected ${assertion.target} to exist`
+      return compare(matches.length === 1 ? matches[0] : matches, assertion.operator, assertion.expected)
+    }
+  }
+}
+
+/**
+ * Evaluate enabled assertions against a response, one TestResult each
+ */
+export function evaluateAssertions(assertions: ResponseAssertion[], response: ApiResponse): TestResult[] {
+  return assertions
+    .filter((assertion) => assertion.enabled)
+    .map((assertion) => {
+      const name = describeAssertion(assertion)
+      let error: string | undefined
+      try {
+        error = check(assertion, response)
+      } catch (e) {
+        error = e instanceof Error ? e.message : 'Assertion failed'
+      }
+      return error === undefined ? { name, passed: true } : { name, passed: false, error }
+    })
+}
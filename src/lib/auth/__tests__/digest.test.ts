@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { buildDigestAuthorization, parseDigestChallenge } from '../digest'
+import { md5 } from '../md5'
+
+describe('md5', () => {
+  it('should match known digests', () => {
+    expect(md5('')).toBe('d41d8cd98f00b204e9800998ecf8427e')
+    expect(md5('The quick brown fox jumps over the lazy dog')).toBe('9e107d9d372bb6826bd81d3542a419d6')
+  })
+
+  it('should hash non-ASCII text as UTF-8', () => {
+    expect(md5('héllo')).toBe('be50e8478cf24ff3595bc7307fb91b50')
+  })
+})
+
+describe('parseDigestChallenge', () => {
+  it('should read quoted and bare parameters', () => {
+    expect(parseDigestChallenge('Digest realm="testrealm@host.com", qop="auth,auth-int", nonce="abc", opaque="xyz", algorithm=SHA-256')).toEqual({
+      realm: 'testrealm@host.com',
+      nonce: 'abc',
+      qop: 'auth,auth-int',
+      opaque: 'xyz',
+      algorithm: 'SHA-256',
+    })
+  })
+
+  it('should find the Digest challenge among other schemes', () => {
+    expect(parseDigestChallenge('Basic realm="other", Digest realm="api", nonce="n1"')).toMatchObject({ realm: 'api', nonce: 'n1', algorithm: 'MD5' })
+  })
+
+  it('should return undefined without a Digest challenge', () => {
+    expect(parseDigestChallenge('Basic realm="api"')).toBeUndefined()
+    expect(parseDigestChallenge('Digest realm="api"')).toBeUndefined()
+  })
+})
+
+describe('buildDigestAuthorization', () => {
+  const challenge = {
+    realm: 'testrealm@host.com',
+    nonce: 'dcd98b7102dd2f0e8b11d0f600bfb0c093',
+    qop: 'auth,auth-int',
+    opaque: '5ccc069c403ebaf9f0171e9517f40e41',
+    algorithm: 'MD5',
+  }
+
+  it('should compute the RFC 2617 example response', async () => {
+    const header = await buildDigestAuthorization(
+      { username: 'Mufasa', password: 'Circle Of Life' },
+      challenge,
+      'GET',
+      'http://www.nowhere.org/dir/index.html',
+      '0a4f113b'
+    )
+
+    expect(header).toBe(
+      'Digest username="Mufasa", realm="testrealm@host.com", nonce="dcd98b7102dd2f0e8b11d0f600bfb0c093", ' +
+      'uri="/dir/index.html", algorithm=MD5, qop=auth, nc=00000001, cnonce="0a4f113b", ' +
+      'response="6629fae49393a05397450978507c4ef1", opaque="5ccc069c403ebaf9f0171e9517f40e41"'
+    )
+  })
+
+  it('should compute the RFC 7616 SHA-256 example response', async () => {
+    const header = await buildDigestAuthorization(
+      { username: 'Mufasa', password: 'Circle of Life' },
+      {
+        realm: 'http-auth@example.org',
+        nonce: '7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v',
+        qop: 'auth',
+        opaque: 'FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS',
+        algorithm: 'SHA-256',
+      },
+      'GET',
+      'http://www.example.org/dir/index.html',
+      'f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ'
+    )
+
+    expect(header).toContain('response="753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1"')
+  })
+
+  it('should omit qop fields when the server did not offer qop', async () => {
+    const header = await buildDigestAuthorization(
+      { username: 'Mufasa', password: 'Circle Of Life' },
+      { realm: 'testrealm@host.com', nonce: 'dcd98b7102dd2f0e8b11d0f600bfb0c093', algorithm: 'MD5' },
+      'GET',
+      '/dir/index.html'
+    )
+
+    expect(header).not.toContain('qop=')
+    expect(header).not.toContain('opaque=')
+    expect(header).toContain('uri="/dir/index.html"')
+  })
+})
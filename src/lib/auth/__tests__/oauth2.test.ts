@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  applyOAuth2Token,
+  buildAuthorizationUrl,
+  buildTokenRequest,
+  createMemoryTokenStore,
+  DEFAULT_OAUTH2_CONFIG,
+  ensureToken,
+  exchangeAuthorizationCode,
+  isTokenExpired,
+  oauth2TokenKey,
+  parseAuthorizationCallback,
+  parseTokenResponse,
+  pkceChallenge,
+  refreshToken,
+} from '../oauth2'
+import type { RequestTransport } from '@/lib/request-sender'
+import type { ApiResponse, OAuth2Config, OAuth2Token } from '@/types'
+
+const config: OAuth2Config = {
+  ...DEFAULT_OAUTH2_CONFIG,
+  accessTokenUrl: 'https://auth.example.com/token',
+  authUrl: 'https://auth.example.com/authorize',
+  clientId: 'app',
+  clientSecret: 'secret',
+  scope: 'read write',
+}
+
+const tokenResponse = (body: Record<string, unknown>, status = 200): ApiResponse => ({
+  status,
+  statusText: status === 200 ? 'OK' : 'Bad Request',
+  headers: [{ key: 'content-type', value: 'application/json' }],
+  body: JSON.stringify(body),
+  time: 1,
+  size: 1,
+})
+
+const createTransport = (...bodies: Record<string, unknown>[]): RequestTransport => {
+  const transport = vi.fn()
+  bodies.forEach((body) => transport.mockResolvedValueOnce({ response: tokenResponse(body) }))
+  return transport
+}
+
+const formOf = (transport: RequestTransport, call = 0) =>
+  Object.fromEntries(new URLSearchParams(vi.mocked(transport).mock.calls[call][0].body))
+
+const token = (overrides: Partial<OAuth2Token> = {}): OAuth2Token => ({
+  accessToken: 'cached',
+  tokenType: 'Bearer',
+  obtainedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('buildTokenRequest', () => {
+  it('should authenticate the client with a Basic header by default', () => {
+    const request = buildTokenRequest(config, { grant_type: 'client_credentials', scope: '' })
+
+    expect(request.method).toBe('POST')
+    expect(request.url).toBe('https://auth.example.com/token')
+    expect(request.headers['Content-Type']).toBe('application/x-www-form-urlencoded')
+    expect(request.headers.Authorization).toBe('Basic YXBwOnNlY3JldA==')
+    expect(request.body).toBe('grant_type=client_credentials')
+  })
+
+  it('should send client credentials in the body when configured', () => {
+    const request = buildTokenRequest({ ...config, clientAuthentication: 'body' }, { grant_type: 'client_credentials' })
+
+    expect(request.headers.Authorization).toBeUndefined()
+    expect(Object.fromEntries(new URLSearchParams(request.body))).toEqual({
+      grant_type: 'client_credentials',
+      client_id: 'app',
+      client_secret: 'secret',
+    })
+  })
+})
+
+describe('parseTokenResponse', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z')
+
+  it('should read the token and compute its expiry', () => {
+    expect(parseTokenResponse(tokenResponse({ access_token: 'a1', token_type: 'bearer', expires_in: 3600, refresh_token: 'r1' }), now)).toEqual({
+      accessToken: 'a1',
+      tokenType: 'bearer',
+      refreshToken: 'r1',
+      scope: undefined,
+      expiresAt: '2024-01-01T01:00:00.000Z',
+      obtainedAt: '2024-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('should accept form-encoded responses', () => {
+    const response = { ...tokenResponse({}), body: 'access_token=a1&token_type=bearer' }
+    expect(parseTokenResponse(response, now)).toMatchObject({ accessToken: 'a1', expiresAt: undefined })
+  })
+
+  it('should throw with the error description', () => {
+    expect(() => parseTokenResponse(tokenResponse({ error: 'invalid_client', error_description: 'Unknown client' }, 400)))
+      .toThrow('invalid_client: Unknown client')
+    expect(() => parseTokenResponse(tokenResponse({}, 500))).toThrow('Token endpoint returned 500')
+    expect(() => parseTokenResponse(tokenResponse({ token_type: 'bearer' }))).toThrow('no access_token')
+  })
+})
+
+describe('isTokenExpired', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z')
+
+  it('should treat tokens about to expire as expired', () => {
+    expect(isTokenExpired(token({ expiresAt: '2024-01-01T00:10:00Z' }), now)).toBe(false)
+    expect(isTokenExpired(token({ expiresAt: '2024-01-01T00:00:10Z' }), now)).toBe(true)
+    expect(isTokenExpired(token(), now)).toBe(false)
+  })
+})
+
+describe('ensureToken', () => {
+  it('should fetch and cache a client credentials token', async () => {
+    const transport = createTransport({ access_token: 'a1', expires_in: 3600 })
+    const store = createMemoryTokenStore()
+
+    expect((await ensureToken(config, store, transport))?.accessToken).toBe('a1')
+    expect((await ensureToken(config, store, transport))?.accessToken).toBe('a1')
+    expect(transport).toHaveBeenCalledTimes(1)
+    expect(formOf(transport)).toEqual({ grant_type: 'client_credentials', scope: 'read write' })
+  })
+
+  it('should send the password grant credentials', async () => {
+    const transport = createTransport({ access_token: 'a1' })
+    await ensureToken({ ...config, grantType: 'password', username: 'ada', password: 'pw' }, createMemoryTokenStore(), transport)
+
+    expect(formOf(transport)).toEqual({ grant_type: 'password', username: 'ada', password: 'pw', scope: 'read write' })
+  })
+
+  it('should refresh an expired token, keeping the refresh token when none is returned', async () => {
+    const transport = createTransport({ access_token: 'a2', expires_in: 3600 })
+    const store = createMemoryTokenStore()
+    store.set(oauth2TokenKey(config), token({ expiresAt: '2000-01-01T00:00:00Z', refreshToken: 'r1' }))
+
+    const result = await ensureToken(config, store, transport)
+
+    expect(formOf(transport)).toEqual({ grant_type: 'refresh_token', refresh_token: 'r1' })
+    expect(result).toMatchObject({ accessToken: 'a2', refreshToken: 'r1' })
+    expect(store.get(oauth2TokenKey(config))?.accessToken).toBe('a2')
+  })
+
+  it('should fall back to a new grant when refreshing fails', async () => {
+    const transport = createTransport({ error: 'invalid_grant' }, { access_token: 'a3' })
+    const store = createMemoryTokenStore()
+    store.set(oauth2TokenKey(config), token({ expiresAt: '2000-01-01T00:00:00Z', refreshToken: 'r1' }))
+
+    expect((await ensureToken(config, store, transport))?.accessToken).toBe('a3')
+    expect(formOf(transport, 1).grant_type).toBe('client_credentials')
+  })
+
+  it('should not start an authorization code grant on its own', async () => {
+    const transport = createTransport()
+    expect(await ensureToken({ ...config, grantType: 'authorization_code' }, createMemoryTokenStore(), transport)).toBeUndefined()
+    expect(transport).not.toHaveBeenCalled()
+  })
+})
+
+describe('refreshToken', () => {
+  it('should require a refresh token', async () => {
+    await expect(refreshToken(config, token(), createTransport())).rejects.toThrow('no refresh token')
+  })
+})
+
+describe('applyOAuth2Token', () => {
+  const request = { method: 'GET', url: 'https://api.example.com', headers: {} }
+
+  it('should add the token with a capitalized Bearer scheme', () => {
+    expect(applyOAuth2Token(request, token({ tokenType: 'bearer' })).headers.Authorization).toBe('Bearer cached')
+    expect(applyOAuth2Token(request, token({ tokenType: 'MAC' })).headers.Authorization).toBe('MAC cached')
+  })
+
+  it('should keep an explicit Authorization header', () => {
+    expect(applyOAuth2Token({ ...request, headers: { Authorization: 'Custom' } }, token()).headers).toEqual({ Authorization: 'Custom' })
+  })
+})
+
+describe('authorization code with PKCE', () => {
+  it('should compute the RFC 7636 example challenge', async () => {
+    expect(await pkceChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM')
+  })
+
+  it('should build the sign-in URL', () => {
+    const url = new URL(buildAuthorizationUrl(config, { redirectUri: 'http://localhost:3000/oauth2/callback', state: 's1', codeChallenge: 'c1' }))
+
+    expect(url.origin + url.pathname).toBe('https://auth.example.com/authorize')
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'app',
+      redirect_uri: 'http://localhost:3000/oauth2/callback',
+      state: 's1',
+      scope: 'read write',
+      code_challenge: 'c1',
+      code_challenge_method: 'S256',
+    })
+  })
+
+  it('should read the code from the callback and check the state', () => {
+    expect(parseAuthorizationCallback('http://localhost/oauth2/callback?code=c1&state=s1', 's1')).toBe('c1')
+    expect(() => parseAuthorizationCallback('http://localhost/oauth2/callback?code=c1&state=other', 's1')).toThrow('state does not match')
+    expect(() => parseAuthorizationCallback('http://localhost/oauth2/callback?error=access_denied&error_description=Denied', 's1'))
+      .toThrow('access_denied: Denied')
+  })
+
+  it('should exchange the code with the verifier', async () => {
+    const transport = createTransport({ access_token: 'a1', refresh_token: 'r1' })
+    const result = await exchangeAuthorizationCode(
+      { ...config, grantType: 'authorization_code' },
+      { code: 'c1', redirectUri: 'http://localhost/oauth2/callback', codeVerifier: 'v1' },
+      transport
+    )
+
+    expect(result.refreshToken).toBe('r1')
+    expect(formOf(transport)).toEqual({
+      grant_type: 'authorization_code',
+      code: 'c1',
+      redirect_uri: 'http://localhost/oauth2/callback',
+      code_verifier: 'v1',
+    })
+  })
+})
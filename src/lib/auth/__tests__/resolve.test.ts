@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import {
+  answerDigestChallenge,
+  applyAuth,
+  encodeBasicCredentials,
+  findAncestors,
+  resolveAuth,
+  resolveAuthVariables,
+  resolveRequestAuth,
+} from '../resolve'
+import type { SendRequestBody } from '@/app/api/request/route'
+import type { ApiRequest, ApiResponse, Auth, Collection } from '@/types'
+
+const createRequest = (id: string, auth?: Auth): ApiRequest => ({
+  id,
+  name: id,
+  method: 'GET',
+  url: 'https://api.example.com/users',
+  headers: [],
+  params: [],
+  auth,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+})
+
+const bearer: Auth = { type: 'bearer', bearer: { token: 'collection-token' } }
+const basic: Auth = { type: 'basic', basic: { username: 'ada', password: 'secret' } }
+
+const collection: Collection = {
+  id: 'col-1',
+  name: 'API',
+  requests: [createRequest('top')],
+  folders: [
+    {
+      id: 'f1',
+      name: 'Admin',
+      auth: basic,
+      requests: [createRequest('admin')],
+      folders: [{ id: 'f2', name: 'Reports', requests: [createRequest('report', { type: 'inherit' })], folders: [] }],
+    },
+  ],
+  variables: [],
+  auth: bearer,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+const outgoing: SendRequestBody = { method: 'GET', url: 'https://api.example.com/users', headers: {} }
+
+describe('findAncestors', () => {
+  it('should return the folder path, outermost first', () => {
+    expect(findAncestors(collection, 'report').map((f) => f.name)).toEqual(['Admin', 'Reports'])
+    expect(findAncestors(collection, 'f2').map((f) => f.name)).toEqual(['Admin'])
+    expect(findAncestors(collection, 'top')).toEqual([])
+  })
+})
+
+describe('resolveAuth', () => {
+  it('should use the nearest parent that sets auth', () => {
+    expect(resolveRequestAuth(createRequest('report'), collection)).toEqual({ auth: basic, source: 'Admin' })
+    expect(resolveRequestAuth(createRequest('top'), collection)).toEqual({ auth: bearer, source: 'API' })
+  })
+
+  it("should prefer the request's own auth, including none", () => {
+    expect(resolveRequestAuth(createRequest('admin', { type: 'none' }), collection)).toEqual({ auth: { type: 'none' } })
+  })
+
+  it('should default to no auth', () => {
+    expect(resolveAuth({ type: 'inherit' }, [])).toEqual({ auth: { type: 'none' } })
+    expect(resolveRequestAuth(createRequest('top'))).toEqual({ auth: { type: 'none' } })
+  })
+})
+
+describe('resolveAuthVariables', () => {
+  it('should substitute variables into credentials', () => {
+    const resolved = resolveAuthVariables(
+      { type: 'apikey', apikey: { key: 'X-Key', value: '{{apiKey}}', in: 'query' } },
+      [{ id: 'v1', key: 'apiKey', value: 'k123', enabled: true }]
+    )
+    expect(resolved.apikey).toEqual({ key: 'X-Key', value: 'k123', in: 'query' })
+  })
+})
+
+describe('applyAuth', () => {
+  it('should add a Basic header with UTF-8 credentials', () => {
+    expect(applyAuth(outgoing, basic).headers.Authorization).toBe('Basic YWRhOnNlY3JldA==')
+    expect(encodeBasicCredentials('jürgen', 'pässword')).toBe('asO8cmdlbjpww6Rzc3dvcmQ=')
+  })
+
+  it('should add a Bearer header', () => {
+    expect(applyAuth(outgoing, bearer).headers.Authorization).toBe('Bearer collection-token')
+  })
+
+  it('should add an API key header or query param', () => {
+    expect(applyAuth(outgoing, { type: 'apikey', apikey: { key: 'X-Key', value: 'k', in: 'header' } }).headers['X-Key']).toBe('k')
+    expect(applyAuth({ ...outgoing, url: 'https://api.example.com/users?page=1#top' }, { type: 'apikey', apikey: { key: 'api key', value: 'a&b', in: 'query' } }).url)
+      .toBe('https://api.example.com/users?page=1&api%20key=a%26b#top')
+  })
+
+  it('should hand AWS credentials to the sender for signing', () => {
+    const awsv4 = { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: '', region: 'eu-west-1', service: 'execute-api' }
+    expect(applyAuth(outgoing, { type: 'awsv4', awsv4 })).toEqual({ ...outgoing, awsSigV4: awsv4 })
+    expect(applyAuth({ ...outgoing, headers: { Authorization: 'Custom x' } }, { type: 'awsv4', awsv4 }).awsSigV4).toBeUndefined()
+  })
+
+  it('should not override headers and params set on the request', () => {
+    const withHeader = { ...outgoing, headers: { authorization: 'Custom x' } }
+    expect(applyAuth(withHeader, bearer).headers).toEqual({ authorization: 'Custom x' })
+
+    const withParam = { ...outgoing, url: 'https://api.example.com/users?key=mine' }
+    expect(applyAuth(withParam, { type: 'apikey', apikey: { key: 'key', value: 'k', in: 'query' } }).url).toBe(withParam.url)
+  })
+
+  it('should leave the request unchanged for none and digest', () => {
+    expect(applyAuth(outgoing, { type: 'none' })).toEqual(outgoing)
+    expect(applyAuth(outgoing, { type: 'digest', digest: { username: 'a', password: 'b' } })).toEqual(outgoing)
+  })
+})
+
+describe('answerDigestChallenge', () => {
+  const digest: Auth = { type: 'digest', digest: { username: 'Mufasa', password: 'Circle Of Life' } }
+  const challenge = (status: number, ...wwwAuthenticate: string[]): ApiResponse => ({
+    status,
+    statusText: '',
+    headers: wwwAuthenticate.map((value) => ({ key: 'WWW-Authenticate', value })),
+    body: '',
+    time: 1,
+    size: 0,
+  })
+
+  it('should answer a 401 Digest challenge', async () => {
+    const retry = await answerDigestChallenge(outgoing, digest, challenge(401, 'Basic realm="api"', 'Digest realm="api", nonce="n1", qop="auth"'))
+    expect(retry?.headers.Authorization).toMatch(/^Digest username="Mufasa", realm="api", nonce="n1", uri="\/users"/)
+  })
+
+  it('should not retry other responses', async () => {
+    expect(await answerDigestChallenge(outgoing, digest, challenge(200))).toBeUndefined()
+    expect(await answerDigestChallenge(outgoing, digest, challenge(401, 'Basic realm="api"'))).toBeUndefined()
+    expect(await answerDigestChallenge(outgoing, basic, challenge(401, 'Digest nonce="n1"'))).toBeUndefined()
+  })
+})
@@ -0,0 +1,146 @@
+import type { AwsSigV4Config } from '@/types'
+import type { SendRequestBody } from '@/app/api/request/route'
+
+const ALGORITHM = 'AWS4-HMAC-SHA256'
+
+// Headers that fetch or intermediaries may rewrite or drop, so they are left out of the signature
+const UNSIGNED_HEADERS = ['authorization', 'content-length', 'user-agent', 'expect', 'connection', 'x-amzn-trace-id']
+
+// Headers the signer sets itself, replacing any the user added
+const SIGNER_HEADERS = ['authorization', 'x-amz-date', 'x-amz-security-token']
+
+const encoder = new TextEncoder()
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function sha256Hex(data: string | Uint8Array<ArrayBuffer>): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data))
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array<ArrayBuffer>, text: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(text))
+}
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text)
+  } catch {
+    return text
+  }
+}
+
+/**
+ * Percent-encode everything but RFC 3986 unreserved characters, as SigV4 requires
+ */
+export function uriEncode(text: string): string {
+  return encodeURIComponent(text).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function canonicalPath(url: URL, service: string): string {
+  const segments = url.pathname.split('/')
+  // S3 signs the object key encoded once; every other service encodes the sent path again
+  const encoded = service === 's3'
+    ? segments.map((segment) => uriEncode(decode(segment)))
+    : segments.map(uriEncode)
+  return encoded.join('/') || '/'
+}
+
+function canonicalQuery(url: URL): string {
+  return url.search
+    .slice(1)
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => {
+      const index = pair.indexOf('=')
+      const key = index < 0 ? pair : pair.slice(0, index)
+      const value = index < 0 ? '' : pair.slice(index + 1)
+      return [uriEncode(decode(key)), uriEncode(decode(value))]
+    })
+    .sort(([keyA, valueA], [keyB, valueB]) => (keyA === keyB ? compare(valueA, valueB) : compare(keyA, keyB)))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name)
+  return key === undefined ? undefined : headers[key]
+}
+
+/**
+ * Date and time in the compact ISO 8601 form SigV4 uses, e.g. 20150830T123600Z
+ */
+export function amzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]|\.\d{3}/g, '')
+}
+
+// The request as it goes on the wire; binary and multipart bodies are already bytes
+export type SignableRequest = Pick<SendRequestBody, 'method' | 'url' | 'headers'> & { body?: string | Uint8Array<ArrayBuffer> }
+
+/**
+ * Sign a request with AWS Signature Version 4, adding the X-Amz-* and Authorization headers.
+ * The URL, headers and body must be final: any later change invalidates the signature.
+ */
+export async function signAwsRequest(
+  request: SignableRequest,
+  config: AwsSigV4Config,
+  now: Date = new Date()
+): Promise<SignableRequest> {
+  if (!config.accessKeyId || !config.secretAccessKey) throw new Error('AWS access key and secret key are required')
+  if (!config.region || !config.service) throw new Error('AWS region and service are required')
+
+  const url = new URL(request.url)
+  const timestamp = amzDate(now)
+  const date = timestamp.slice(0, 8)
+
+  const headers: Record<string, string> = {}
+  Object.entries(request.headers).forEach(([key, value]) => {
+    if (!SIGNER_HEADERS.includes(key.toLowerCase())) headers[key] = value
+  })
+  headers['X-Amz-Date'] = timestamp
+  if (config.sessionToken) headers['X-Amz-Security-Token'] = config.sessionToken
+
+  // S3 wants the payload hash as a header; a user-set value such as UNSIGNED-PAYLOAD is kept
+  let payloadHash = findHeader(headers, 'x-amz-content-sha256')
+  if (!payloadHash) {
+    payloadHash = await sha256Hex(request.body ?? '')
+    if (config.service === 's3') headers['X-Amz-Content-Sha256'] = payloadHash
+  }
+
+  // Host is signed but not sent as a header; fetch derives it from the URL
+  const signed = new Map<string, string[]>([['host', [url.host]]])
+  Object.entries(headers).forEach(([key, value]) => {
+    const name = key.toLowerCase()
+    if (UNSIGNED_HEADERS.includes(name) || name === 'host') return
+    signed.set(name, [...(signed.get(name) ?? []), value.trim().replace(/\s+/g, ' ')])
+  })
+  const names = Array.from(signed.keys()).sort()
+  const signedHeaders = names.join(';')
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(url, config.service),
+    canonicalQuery(url),
+    names.map((name) => `${name}:${signed.get(name)!.join(',')}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n')
+
+  const scope = `${date}/${config.region}/${config.service}/aws4_request`
+  const stringToSign = [ALGORITHM, timestamp, scope, await sha256Hex(canonicalRequest)].join('\n')
+
+  let key: ArrayBuffer = await hmac(encoder.encode(`AWS4${config.secretAccessKey}`), date)
+  for (const part of [config.region, config.service, 'aws4_request']) {
+    key = await hmac(key, part)
+  }
+  const signature = toHex(await hmac(key, stringToSign))
+
+  headers['Authorization'] = `${ALGORITHM} Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  return { ...request, headers }
+}
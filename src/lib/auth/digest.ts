@@ -0,0 +1,103 @@
+import { md5 } from './md5'
+
+export interface DigestChallenge {
+  realm: string
+  nonce: string
+  qop?: string
+  opaque?: string
+  algorithm: string // MD5, SHA-256, or either with -sess
+}
+
+export interface DigestCredentials {
+  username: string
+  password: string
+}
+
+/**
+ * Parse the Digest challenge out of a WWW-Authenticate header, if there is one
+ */
+export function parseDigestChallenge(header: string): DigestChallenge | undefined {
+  const start = header.search(/\bDigest\s/i)
+  if (start < 0) return undefined
+
+  const params: Record<string, string> = {}
+  const pattern = /([\w-]+)\s*=\s*("((?:[^"\\]|\\.)*)"|[^,\s]+)/g
+  const rest = header.slice(start + 'Digest'.length)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(rest))) {
+    const key = match[1].toLowerCase()
+    // A later scheme's parameters (e.g. Basic realm=...) must not override Digest's
+    if (!(key in params)) {
+      params[key] = match[3] !== undefined ? match[3].replace(/\\(.)/g, '$1') : match[2]
+    }
+  }
+
+  if (params.nonce === undefined) return undefined
+  return {
+    realm: params.realm || '',
+    nonce: params.nonce,
+    qop: params.qop,
+    opaque: params.opaque,
+    algorithm: params.algorithm || 'MD5',
+  }
+}
+
+async function hash(algorithm: string, text: string): Promise<string> {
+  if (!algorithm.toUpperCase().startsWith('SHA-256')) return md5(text)
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function randomCnonce(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// The request-uri the server checks against: path plus query
+function requestUri(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.pathname}${parsed.search}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Compute the Authorization header answering a Digest challenge (RFC 7616, qop=auth)
+ */
+export async function buildDigestAuthorization(
+  credentials: DigestCredentials,
+  challenge: DigestChallenge,
+  method: string,
+  url: string,
+  cnonce: string = randomCnonce()
+): Promise<string> {
+  const { algorithm, realm, nonce } = challenge
+  const uri = requestUri(url)
+  const nc = '00000001'
+  const qop = challenge.qop
+    ?.split(',')
+    .map((option) => option.trim())
+    .find((option) => option === 'auth')
+
+  let ha1 = await hash(algorithm, `${credentials.username}:${realm}:${credentials.password}`)
+  if (algorithm.toLowerCase().endsWith('-sess')) {
+    ha1 = await hash(algorithm, `${ha1}:${nonce}:${cnonce}`)
+  }
+  const ha2 = await hash(algorithm, `${method.toUpperCase()}:${uri}`)
+  const response = qop
+    ? await hash(algorithm, `${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : await hash(algorithm, `${ha1}:${nonce}:${ha2}`)
+
+  const parts = [
+    `username="${credentials.username}"`,
+    `realm="${realm}"`,
+    `nonce="${nonce}"`,
+    `uri="${uri}"`,
+    `algorithm=${algorithm}`,
+    ...(qop ? [`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`] : []),
+    `response="${response}"`,
+    ...(challenge.opaque !== undefined ? [`opaque="${challenge.opaque}"`] : []),
+  ]
+  return `Digest ${parts.join(', ')}`
+}
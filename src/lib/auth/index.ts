@@ -0,0 +1,39 @@
+export {
+  AUTH_TYPE_LABELS,
+  findAncestors,
+  resolveAuth,
+  resolveRequestAuth,
+  resolveAuthVariables,
+  encodeBasicCredentials,
+  applyAuth,
+  answerDigestChallenge,
+} from './resolve'
+export type { ResolvedAuth } from './resolve'
+export { parseDigestChallenge, buildDigestAuthorization } from './digest'
+export type { DigestChallenge, DigestCredentials } from './digest'
+export { md5 } from './md5'
+export { uriEncode, amzDate, signAwsRequest } from './aws-sigv4'
+export type { SignableRequest } from './aws-sigv4'
+export {
+  TOKEN_EXPIRY_MARGIN_MS,
+  OAUTH2_CALLBACK_PATH,
+  DEFAULT_OAUTH2_CONFIG,
+  GRANT_TYPE_LABELS,
+  createMemoryTokenStore,
+  oauth2TokenKey,
+  tokenExpiresIn,
+  isTokenExpired,
+  buildTokenRequest,
+  parseTokenResponse,
+  fetchToken,
+  refreshToken,
+  ensureToken,
+  applyOAuth2Token,
+  randomUrlSafeString,
+  pkceChallenge,
+  buildAuthorizationUrl,
+  parseAuthorizationCallback,
+  exchangeAuthorizationCode,
+  authorizeInPopup,
+} from './oauth2'
+export type { OAuth2TokenStore } from './oauth2'
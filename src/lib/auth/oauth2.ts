@@ -0,0 +1,311 @@
+import type { ApiResponse, OAuth2Config, OAuth2GrantType, OAuth2Token } from '@/types'
+import type { SendRequestBody } from '@/app/api/request/route'
+import type { RequestTransport } from '@/lib/request-sender'
+import { encodeBasicCredentials } from './resolve'
+
+// Refresh this long before the server's expiry, so the token does not lapse in flight
+export const TOKEN_EXPIRY_MARGIN_MS = 30_000
+
+export const OAUTH2_CALLBACK_PATH = '/oauth2/callback'
+
+export const DEFAULT_OAUTH2_CONFIG: OAuth2Config = {
+  grantType: 'client_credentials',
+  accessTokenUrl: '',
+  authUrl: '',
+  usePkce: true,
+  clientId: '',
+  clientSecret: '',
+  clientAuthentication: 'header',
+  scope: '',
+  username: '',
+  password: '',
+}
+
+export const GRANT_TYPE_LABELS: Record<OAuth2GrantType, string> = {
+  client_credentials: 'Client Credentials',
+  password: 'Password Credentials',
+  authorization_code: 'Authorization Code',
+}
+
+/**
+ * Where tokens are kept between requests; callers scope it to the active environment
+ */
+export interface OAuth2TokenStore {
+  get(key: string): OAuth2Token | undefined
+  set(key: string, token: OAuth2Token | null): void
+}
+
+/**
+ * A token store that lives as long as the caller holds it, e.g. for one collection run
+ */
+export function createMemoryTokenStore(): OAuth2TokenStore {
+  const tokens = new Map<string, OAuth2Token>()
+  return {
+    get: (key) => tokens.get(key),
+    set: (key, token) => {
+      if (token) tokens.set(key, token)
+      else tokens.delete(key)
+    },
+  }
+}
+
+/**
+ * Identifies the token a config obtains, so requests sharing a provider share the token
+ */
+export function oauth2TokenKey(config: OAuth2Config): string {
+  return [config.grantType, config.accessTokenUrl, config.clientId, config.scope, config.username].join(' ')
+}
+
+/**
+ * Milliseconds until the token expires, or undefined when the server did not say
+ */
+export function tokenExpiresIn(token: OAuth2Token, now: number = Date.now()): number | undefined {
+  return token.expiresAt ? Date.parse(token.expiresAt) - now : undefined
+}
+
+export function isTokenExpired(token: OAuth2Token, now: number = Date.now()): boolean {
+  const expiresIn = tokenExpiresIn(token, now)
+  return expiresIn !== undefined && expiresIn <= TOKEN_EXPIRY_MARGIN_MS
+}
+
+/**
+ * Build the form POST to the token endpoint, authenticating the client as configured
+ */
+export function buildTokenRequest(config: OAuth2Config, params: Record<string, string>): SendRequestBody {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  }
+  const form: Record<string, string> = { ...params }
+
+  if (config.clientAuthentication === 'header' && config.clientSecret) {
+    headers['Authorization'] = `Basic ${encodeBasicCredentials(config.clientId, config.clientSecret)}`
+  } else {
+    form.client_id = config.clientId
+    if (config.clientSecret) form.client_secret = config.clientSecret
+  }
+
+  return {
+    method: 'POST',
+    url: config.accessTokenUrl,
+    headers,
+    body: new URLSearchParams(Object.entries(form).filter(([, value]) => value !== '')).toString(),
+  }
+}
+
+/**
+ * Read a token endpoint response, throwing with the server's error description on failure
+ */
+export function parseTokenResponse(response: ApiResponse, now: number = Date.now()): OAuth2Token {
+  let data: Record<string, unknown>
+  try {
+    data = JSON.parse(response.body)
+  } catch {
+    // Some older providers answer with a form-encoded body
+    data = Object.fromEntries(new URLSearchParams(response.body))
+  }
+
+  if (typeof data.error === 'string') {
+    throw new Error(typeof data.error_description === 'string' ? `${data.error}: ${data.error_description}` : data.error)
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Token endpoint returned ${response.status} ${response.statusText}`.trim())
+  }
+  if (typeof data.access_token !== 'string' || !data.access_token) {
+    throw new Error('Token response has no access_token')
+  }
+
+  const expiresIn = Number(data.expires_in)
+  return {
+    accessToken: data.access_token,
+    tokenType: typeof data.token_type === 'string' && data.token_type ? data.token_type : 'Bearer',
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+    scope: typeof data.scope === 'string' ? data.scope : undefined,
+    expiresAt: data.expires_in !== undefined && Number.isFinite(expiresIn) ? new Date(now + expiresIn * 1000).toISOString() : undefined,
+    obtainedAt: new Date(now).toISOString(),
+  }
+}
+
+async function requestToken(config: OAuth2Config, params: Record<string, string>, transport: RequestTransport): Promise<OAuth2Token> {
+  if (!config.accessTokenUrl) throw new Error('Access token URL is required')
+  const { response, error } = await transport(buildTokenRequest(config, params))
+  if (error) throw new Error(error)
+  return parseTokenResponse(response)
+}
+
+/**
+ * Fetch a token for the client credentials or password grant
+ */
+export function fetchToken(config: OAuth2Config, transport: RequestTransport): Promise<OAuth2Token> {
+  // Empty fields such as an unset scope are left out of the form
+  switch (config.grantType) {
+    case 'client_credentials':
+      return requestToken(config, { grant_type: 'client_credentials', scope: config.scope }, transport)
+    case 'password':
+      return requestToken(config, { grant_type: 'password', username: config.username, password: config.password, scope: config.scope }, transport)
+    case 'authorization_code':
+      return Promise.reject(new Error('The authorization code grant needs the user to sign in; use Get New Access Token'))
+  }
+}
+
+/**
+ * Swap a refresh token for a new access token. Servers may omit a new refresh token, in which case the old one is kept.
+ */
+export async function refreshToken(config: OAuth2Config, token: OAuth2Token, transport: RequestTransport): Promise<OAuth2Token> {
+  if (!token.refreshToken) throw new Error('Token has no refresh token')
+  const refreshed = await requestToken(config, { grant_type: 'refresh_token', refresh_token: token.refreshToken }, transport)
+  return { ...refreshed, refreshToken: refreshed.refreshToken ?? token.refreshToken }
+}
+
+/**
+ * A usable token for the config: the cached one, a refreshed one if it expired,
+ * or a new one for grants that need no user interaction.
+ * Returns undefined for an authorization code grant that has not been signed in yet.
+ */
+export async function ensureToken(
+  config: OAuth2Config,
+  store: OAuth2TokenStore,
+  transport: RequestTransport
+): Promise<OAuth2Token | undefined> {
+  const key = oauth2TokenKey(config)
+  const cached = store.get(key)
+  if (cached && !isTokenExpired(cached)) return cached
+
+  let token: OAuth2Token | undefined
+  if (cached?.refreshToken) {
+    try {
+      token = await refreshToken(config, cached, transport)
+    } catch (error) {
+      // A rejected refresh token falls through to a fresh grant where one is possible
+      if (config.grantType === 'authorization_code') throw error
+    }
+  }
+  if (!token) {
+    if (config.grantType === 'authorization_code') return undefined
+    token = await fetchToken(config, transport)
+  }
+
+  store.set(key, token)
+  return token
+}
+
+/**
+ * Add the access token as the Authorization header, unless the request already has one
+ */
+export function applyOAuth2Token(request: SendRequestBody, token: OAuth2Token): SendRequestBody {
+  if (Object.keys(request.headers).some((key) => key.toLowerCase() === 'authorization')) return request
+  // Servers commonly answer "bearer"; the header scheme is conventionally capitalized
+  const scheme = token.tokenType.toLowerCase() === 'bearer' ? 'Bearer' : token.tokenType
+  return { ...request, headers: { ...request.headers, Authorization: `${scheme} ${token.accessToken}` } }
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * A random string for PKCE verifiers and the state parameter
+ */
+export function randomUrlSafeString(byteLength: number = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+/**
+ * The S256 PKCE challenge for a code verifier (RFC 7636)
+ */
+export async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  return base64Url(new Uint8Array(digest))
+}
+
+/**
+ * The provider's sign-in URL for the authorization code grant
+ */
+export function buildAuthorizationUrl(
+  config: OAuth2Config,
+  options: { redirectUri: string; state: string; codeChallenge?: string }
+): string {
+  const url = new URL(config.authUrl)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', config.clientId)
+  url.searchParams.set('redirect_uri', options.redirectUri)
+  url.searchParams.set('state', options.state)
+  if (config.scope) url.searchParams.set('scope', config.scope)
+  if (options.codeChallenge) {
+    url.searchParams.set('code_challenge', options.codeChallenge)
+    url.searchParams.set('code_challenge_method', 'S256')
+  }
+  return url.toString()
+}
+
+/**
+ * Read the authorization code from the redirect URL, checking the state matches
+ */
+export function parseAuthorizationCallback(callbackUrl: string, expectedState: string): string {
+  const params = new URL(callbackUrl).searchParams
+  const error = params.get('error')
+  if (error) {
+    const description = params.get('error_description')
+    throw new Error(description ? `${error}: ${description}` : error)
+  }
+  if (params.get('state') !== expectedState) {
+    throw new Error('Authorization response state does not match the request')
+  }
+  const code = params.get('code')
+  if (!code) throw new Error('Authorization response has no code')
+  return code
+}
+
+/**
+ * Exchange an authorization code (and PKCE verifier) for a token
+ */
+export function exchangeAuthorizationCode(
+  config: OAuth2Config,
+  options: { code: string; redirectUri: string; codeVerifier?: string },
+  transport: RequestTransport
+): Promise<OAuth2Token> {
+  return requestToken(config, {
+    grant_type: 'authorization_code',
+    code: options.code,
+    redirect_uri: options.redirectUri,
+    ...(options.codeVerifier ? { code_verifier: options.codeVerifier } : {}),
+  }, transport)
+}
+
+/**
+ * Run the authorization code grant in a popup: the provider redirects back to
+ * this app's callback page, which hands the URL back to us.
+ */
+export async function authorizeInPopup(config: OAuth2Config, transport: RequestTransport): Promise<OAuth2Token> {
+  if (!config.authUrl) throw new Error('Authorization URL is required')
+
+  const redirectUri = `${window.location.origin}${OAUTH2_CALLBACK_PATH}`
+  const state = randomUrlSafeString(16)
+  const codeVerifier = config.usePkce ? randomUrlSafeString(32) : undefined
+  const codeChallenge = codeVerifier ? await pkceChallenge(codeVerifier) : undefined
+
+  const popup = window.open(buildAuthorizationUrl(config, { redirectUri, state, codeChallenge }), 'oauth2', 'width=520,height=680')
+  if (!popup) throw new Error('The sign-in window was blocked; allow popups for this site')
+
+  const callbackUrl = await new Promise<string>((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage)
+      clearInterval(closedCheck)
+    }
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== 'oauth2-callback') return
+      cleanup()
+      resolve(event.data.url)
+    }
+    const closedCheck = setInterval(() => {
+      if (popup.closed) {
+        cleanup()
+        reject(new Error('The sign-in window was closed'))
+      }
+    }, 500)
+    window.addEventListener('message', onMessage)
+  })
+
+  const code = parseAuthorizationCallback(callbackUrl, state)
+  return exchangeAuthorizationCode(config, { code, redirectUri, codeVerifier }, transport)
+}
@@ -0,0 +1,177 @@
+import type { ApiRequest, ApiResponse, Auth, AuthType, Collection, Folder, KeyValue } from '@/types'
+import type { SendRequestBody } from '@/app/api/request/route'
+import { replaceVariables } from '@/lib/request-sender'
+import { getHeader } from '@/lib/response-headers'
+import { buildDigestAuthorization, parseDigestChallenge } from './digest'
+
+export const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  inherit: 'Inherit from parent',
+  none: 'No Auth',
+  basic: 'Basic Auth',
+  bearer: 'Bearer Token',
+  apikey: 'API Key',
+  digest: 'Digest Auth',
+  oauth2: 'OAuth 2.0',
+  awsv4: 'AWS Signature',
+}
+
+export interface ResolvedAuth {
+  auth: Auth
+  source?: string // Name of the folder or collection the auth was inherited from
+}
+
+interface AuthParent {
+  name: string
+  auth?: Auth
+}
+
+/**
+ * Folders containing a request or folder, outermost first.
+ * Returns an empty list for top-level items and items not in the collection.
+ */
+export function findAncestors(collection: Collection, id: string): Folder[] {
+  const search = (folders: Folder[], path: Folder[]): Folder[] | undefined => {
+    for (const folder of folders) {
+      if (folder.id === id || folder.requests.some((r) => r.id === id)) return [...path, folder].filter((f) => f.id !== id)
+      const found = search(folder.folders, [...path, folder])
+      if (found) return found
+    }
+    return undefined
+  }
+  return search(collection.folders, []) || []
+}
+
+/**
+ * Resolve auth that is missing or set to inherit by walking up the parents (outermost first)
+ */
+export function resolveAuth(auth: Auth | undefined, parents: AuthParent[]): ResolvedAuth {
+  if (auth && auth.type !== 'inherit') return { auth }
+  for (let i = parents.length - 1; i >= 0; i--) {
+    const parentAuth = parents[i].auth
+    if (parentAuth && parentAuth.type !== 'inherit') return { auth: parentAuth, source: parents[i].name }
+  }
+  return { auth: { type: 'none' } }
+}
+
+/**
+ * The auth a request is sent with, taking folder and collection auth into account
+ */
+export function resolveRequestAuth(request: ApiRequest, collection?: Collection): ResolvedAuth {
+  if (!collection) return resolveAuth(request.auth, [])
+  return resolveAuth(request.auth, [collection, ...findAncestors(collection, request.id)])
+}
+
+/**
+ * Substitute variables into every credential field
+ */
+export function resolveAuthVariables(auth: Auth, variables: KeyValue[]): Auth {
+  const replace = <T extends object>(fields: T | undefined): T | undefined => {
+    if (!fields) return fields
+    const result = { ...fields } as Record<string, unknown>
+    Object.keys(result).forEach((key) => {
+      const value = result[key]
+      if (typeof value === 'string') result[key] = replaceVariables(value, variables)
+    })
+    return result as T
+  }
+
+  return {
+    ...auth,
+    basic: replace(auth.basic),
+    bearer: replace(auth.bearer),
+    apikey: replace(auth.apikey),
+    digest: replace(auth.digest),
+    oauth2: replace(auth.oauth2),
+    awsv4: replace(auth.awsv4),
+  }
+}
+
+/**
+ * Base64 of user:password, encoding non-ASCII characters as UTF-8
+ */
+export function encodeBasicCredentials(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`)
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some((key) => key.toLowerCase() === name.toLowerCase())
+}
+
+function hasQueryParam(url: string, name: string): boolean {
+  const query = url.split('#')[0].split('?')[1]
+  if (!query) return false
+  return query.split('&').some((pair) => {
+    try {
+      return decodeURIComponent(pair.split('=')[0]) === name
+    } catch {
+      return pair.split('=')[0] === name
+    }
+  })
+}
+
+/**
+ * Add auth headers or query params to an outgoing request.
+ * Headers and params the user set explicitly are left alone. Digest auth needs
+ * the server's challenge first (see answerDigestChallenge) and OAuth 2.0 a token
+ * (see applyOAuth2Token). AWS credentials travel with the request and are used
+ * by the sender, which signs the request once nothing else will change it.
+ */
+export function applyAuth(request: SendRequestBody, auth: Auth): SendRequestBody {
+  const headers = { ...request.headers }
+  let url = request.url
+
+  switch (auth.type) {
+    case 'basic':
+      if (auth.basic && !hasHeader(headers, 'Authorization')) {
+        headers['Authorization'] = `Basic ${encodeBasicCredentials(auth.basic.username, auth.basic.password)}`
+      }
+      break
+    case 'bearer':
+      if (auth.bearer?.token && !hasHeader(headers, 'Authorization')) {
+        headers['Authorization'] = `Bearer ${auth.bearer.token}`
+      }
+      break
+    case 'apikey': {
+      const apikey = auth.apikey
+      if (!apikey?.key) break
+      if (apikey.in === 'query') {
+        if (!hasQueryParam(url, apikey.key)) {
+          const [base, hash] = url.split('#')
+          const separator = base.includes('?') ? '&' : '?'
+          url = `${base}${separator}${encodeURIComponent(apikey.key)}=${encodeURIComponent(apikey.value)}${hash !== undefined ? `#${hash}` : ''}`
+        }
+      } else if (!hasHeader(headers, apikey.key)) {
+        headers[apikey.key] = apikey.value
+      }
+      break
+    }
+    case 'awsv4':
+      if (auth.awsv4 && !hasHeader(headers, 'Authorization')) {
+        return { ...request, url, headers, awsSigV4: auth.awsv4 }
+      }
+      break
+  }
+
+  return { ...request, url, headers }
+}
+
+/**
+ * For digest auth, build the retry request answering a 401 Digest challenge.
+ * Returns undefined when the response is not a challenge we can answer.
+ */
+export async function answerDigestChallenge(
+  request: SendRequestBody,
+  auth: Auth,
+  response: ApiResponse
+): Promise<SendRequestBody | undefined> {
+  if (auth.type !== 'digest' || !auth.digest || response.status !== 401) return undefined
+  if (hasHeader(request.headers, 'Authorization')) return undefined
+
+  const header = getHeader(response.headers, 'WWW-Authenticate')
+  const challenge = header ? parseDigestChallenge(header) : undefined
+  if (!challenge) return undefined
+
+  const authorization = await buildDigestAuthorization(auth.digest, challenge, request.method, request.url)
+  return { ...request, headers: { ...request.headers, Authorization: authorization } }
+}
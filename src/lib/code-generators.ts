@@ -1,10 +1,14 @@
-import type { ApiRequest } from '@/types'
+import type { ApiRequest, Auth, AwsSigV4Config, FileAttachment, FormField } from '@/types'
+import { encodeBasicCredentials } from '@/lib/auth'
+import { serializeGraphQLBody } from '@/lib/graphql'
+import { v4 as uuidv4 } from 'uuid'
 
 export type CodeLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go' | 'php' | 'ruby' | 'csharp' | 'java'
 
 export interface CodeGeneratorOptions {
   indentSize?: number
   useSingleQuotes?: boolean
+  auth?: Auth // Effective auth, including inherited; defaults to the request's own
 }
 
 /**
@@ -27,7 +31,63 @@ export function generateCode(
     java: generateJava,
   }
 
-  return generators[language](request, options)
+  const auth = options.auth ?? (request.auth?.type !== 'inherit' ? request.auth : undefined)
+  return generators[language](withAuth(request, auth), { ...options, auth })
+}
+
+// Stands in for the OAuth 2.0 access token, which is fetched at send time and not part of the request
+const OAUTH2_TOKEN_PLACEHOLDER = '<access token>'
+
+/**
+ * Add header or query param auth to the request. Digest auth is left to each
+ * generator, since it needs the HTTP client's challenge handling.
+ */
+function withAuth(request: ApiRequest, auth?: Auth): ApiRequest {
+  const hasHeader = (name: string) => request.headers.some(h => h.enabled && h.key.toLowerCase() === name.toLowerCase())
+  const addHeader = (key: string, value: string): ApiRequest =>
+    hasHeader(key) ? request : { ...request, headers: [...request.headers, { id: uuidv4(), key, value, enabled: true }] }
+
+  switch (auth?.type) {
+    case 'basic':
+      return auth.basic ? addHeader('Authorization', `Basic ${encodeBasicCredentials(auth.basic.username, auth.basic.password)}`) : request
+    case 'bearer':
+      return auth.bearer?.token ? addHeader('Authorization', `Bearer ${auth.bearer.token}`) : request
+    case 'oauth2':
+      return addHeader('Authorization', `Bearer ${OAUTH2_TOKEN_PLACEHOLDER}`)
+    case 'apikey': {
+      const apikey = auth.apikey
+      if (!apikey?.key) return request
+      if (apikey.in === 'header') return addHeader(apikey.key, apikey.value)
+      if (request.params.some(p => p.enabled && p.key === apikey.key)) return request
+      return { ...request, params: [...request.params, { id: uuidv4(), key: apikey.key, value: apikey.value, enabled: true }] }
+    }
+    default:
+      return request
+  }
+}
+
+function digestCredentials(options: CodeGeneratorOptions): { username: string; password: string } | undefined {
+  return options.auth?.type === 'digest' ? options.auth.digest : undefined
+}
+
+function awsCredentials(options: CodeGeneratorOptions): AwsSigV4Config | undefined {
+  return options.auth?.type === 'awsv4' ? options.auth.awsv4 : undefined
+}
+
+// For auth the client cannot do on its own; nativeDigest marks clients with built-in digest support
+function authNote(options: CodeGeneratorOptions, comment: string, nativeDigest = false): string[] {
+  const digest = digestCredentials(options)
+  if (digest && !nativeDigest) {
+    return [`${comment} Digest auth (user "${digest.username}") needs a client that answers the WWW-Authenticate challenge`]
+  }
+  const aws = awsCredentials(options)
+  if (aws) {
+    return [`${comment} AWS Signature v4 (${aws.region}/${aws.service}, key "${aws.accessKeyId}") needs a signing client such as the AWS SDK`]
+  }
+  if (options.auth?.type === 'oauth2' && options.auth.oauth2) {
+    return [`${comment} OAuth 2.0: replace ${OAUTH2_TOKEN_PLACEHOLDER} with a token from ${options.auth.oauth2.accessTokenUrl || 'the token endpoint'}`]
+  }
+  return []
 }
 
 /**
@@ -66,17 +126,41 @@ function getEnabledHeaders(request: ApiRequest): Record<string, string> {
     })
 
   // Add content-type for body
-  if (request.body?.type === 'json' && !headers['Content-Type']) {
+  if (isJsonBody(request) && !headers['Content-Type']) {
     headers['Content-Type'] = 'application/json'
   } else if (request.body?.type === 'x-www-form-urlencoded' && !headers['Content-Type']) {
     headers['Content-Type'] = 'application/x-www-form-urlencoded'
+  } else if (request.body?.type === 'binary' && request.body.file) {
+    if (!Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = request.body.file.contentType
+    }
   }
 
   return headers
 }
 
+// GraphQL bodies are sent as JSON too
+function isJsonBody(request: ApiRequest): boolean {
+  return request.body?.type === 'json' || request.body?.type === 'graphql'
+}
+
+// Form-data fields; each generator builds the multipart body with its client's own support
+function getFormFields(request: ApiRequest): FormField[] {
+  return request.body?.type === 'form-data' ? (request.body.formData || []).filter(f => f.enabled && f.key) : []
+}
+
+// The file a form-data field is read from in the generated code
+function formFileName(field: FormField): string {
+  return field.file?.name || field.description || 'file'
+}
+
+function getBinaryFile(request: ApiRequest): FileAttachment | undefined {
+  return request.body?.type === 'binary' ? request.body.file : undefined
+}
+
 /**
- * Get request body
+ * Get request body as text; form-data and binary bodies come from getFormFields
+ * and getBinaryFile
  */
 function getBody(request: ApiRequest): string | null {
   if (!request.body || request.body.type === 'none') return null
@@ -85,6 +169,10 @@ function getBody(request: ApiRequest): string | null {
     return request.body.content || null
   }
 
+  if (request.body.type === 'graphql') {
+    return request.body.graphql?.query ? serializeGraphQLBody(request.body.graphql) : null
+  }
+
   if (request.body.type === 'x-www-form-urlencoded' && request.body.formData) {
     return request.body.formData
       .filter(f => f.enabled && f.key)
@@ -92,23 +180,13 @@ function getBody(request: ApiRequest): string | null {
       .join('&')
   }
 
-  if (request.body.type === 'form-data' && request.body.formData) {
-    const obj: Record<string, string> = {}
-    request.body.formData
-      .filter(f => f.enabled && f.key)
-      .forEach(f => {
-        obj[f.key] = f.value
-      })
-    return JSON.stringify(obj)
-  }
-
   return null
 }
 
 /**
  * Generate cURL command
  */
-function generateCurl(request: ApiRequest): string {
+function generateCurl(request: ApiRequest, options: CodeGeneratorOptions = {}): string {
   const parts: string[] = ['curl']
   const url = buildFullUrl(request)
   const headers = getEnabledHeaders(request)
@@ -122,21 +200,58 @@ function generateCurl(request: ApiRequest): string {
   // URL
   parts.push(`'${url}'`)
 
+  const digest = digestCredentials(options)
+  if (digest) {
+    const credentials = `${digest.username}:${digest.password}`.replace(/'/g, "'\\''")
+    parts.push(`--digest -u '${credentials}'`)
+  }
+
+  const aws = awsCredentials(options)
+  if (aws) {
+    const credentials = `${aws.accessKeyId}:${aws.secretAccessKey}`.replace(/'/g, "'\\''")
+    parts.push(`--aws-sigv4 'aws:amz:${aws.region}:${aws.service}' -u '${credentials}'`)
+    if (aws.sessionToken) parts.push(`-H 'X-Amz-Security-Token: ${aws.sessionToken}'`)
+  }
+
   // Headers
   Object.entries(headers).forEach(([key, value]) => {
     parts.push(`-H '${key}: ${value}'`)
   })
 
-  // Body
-  if (body) {
-    // Escape single quotes in body
-    const escapedBody = body.replace(/'/g, "'\\''")
-    parts.push(`-d '${escapedBody}'`)
+  // Body; curl builds multipart bodies itself and reads files from disk
+  const escape = (text: string) => text.replace(/'/g, "'\\''")
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+  if (fields.length > 0) {
+    fields.forEach(f => {
+      parts.push(f.type === 'file' ? `-F '${escape(f.key)}=@${escape(formFileName(f))}'` : `-F '${escape(f.key)}=${escape(f.value)}'`)
+    })
+  } else if (file) {
+    parts.push(`--data-binary '@${escape(file.name)}'`)
+  } else if (body) {
+    parts.push(`-d '${escape(body)}'`)
   }
 
   return parts.join(' \\\n  ')
 }
 
+// FormData for fetch and axios; files come from a file input, as in the browser
+function javascriptFormData(fields: FormField[], file: FileAttachment | undefined, q: string): string[] {
+  const lines: string[] = []
+  if (file || fields.some(f => f.type === 'file')) {
+    lines.push('// fileInput is the <input type="file"> each file is picked with')
+  }
+  if (fields.length === 0) return lines
+  lines.push('const formData = new FormData();')
+  fields.forEach(f => {
+    lines.push(f.type === 'file'
+      ? `formData.append(${q}${f.key}${q}, fileInput.files[0], ${q}${formFileName(f)}${q});`
+      : `formData.append(${q}${f.key}${q}, ${q}${f.value}${q});`)
+  })
+  lines.push('')
+  return lines
+}
+
 /**
  * Generate JavaScript fetch code
  */
@@ -147,7 +262,10 @@ function generateFetch(request: ApiRequest, options: CodeGeneratorOptions = {}):
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
-  const lines: string[] = []
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+
+  const lines: string[] = [...authNote(options, '//'), ...javascriptFormData(fields, file, q)]
   lines.push(`fetch(${q}${url}${q}, {`)
   lines.push(`${indent}method: ${q}${request.method}${q},`)
 
@@ -160,8 +278,12 @@ function generateFetch(request: ApiRequest, options: CodeGeneratorOptions = {}):
     lines.push(`${indent}},`)
   }
 
-  if (body) {
-    if (request.body?.type === 'json') {
+  if (fields.length > 0) {
+    lines.push(`${indent}body: formData,`)
+  } else if (file) {
+    lines.push(`${indent}body: fileInput.files[0], // ${file.name}`)
+  } else if (body) {
+    if (isJsonBody(request)) {
       lines.push(`${indent}body: JSON.stringify(${body}),`)
     } else {
       lines.push(`${indent}body: ${q}${body.replace(/"/g, '\\"')}${q},`)
@@ -186,7 +308,10 @@ function generateAxios(request: ApiRequest, options: CodeGeneratorOptions = {}):
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
-  const lines: string[] = []
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+
+  const lines: string[] = [...authNote(options, '//'), ...javascriptFormData(fields, file, q)]
   lines.push(`axios({`)
   lines.push(`${indent}method: ${q}${request.method.toLowerCase()}${q},`)
   lines.push(`${indent}url: ${q}${url}${q},`)
@@ -200,8 +325,12 @@ function generateAxios(request: ApiRequest, options: CodeGeneratorOptions = {}):
     lines.push(`${indent}},`)
   }
 
-  if (body) {
-    if (request.body?.type === 'json') {
+  if (fields.length > 0) {
+    lines.push(`${indent}data: formData,`)
+  } else if (file) {
+    lines.push(`${indent}data: fileInput.files[0], // ${file.name}`)
+  } else if (body) {
+    if (isJsonBody(request)) {
       lines.push(`${indent}data: ${body},`)
     } else {
       lines.push(`${indent}data: ${q}${body}${q},`)
@@ -215,16 +344,39 @@ function generateAxios(request: ApiRequest, options: CodeGeneratorOptions = {}):
   return lines.join('\n')
 }
 
+// Python spells JSON's literals differently; bodies that are not JSON yet are kept as written
+function toPythonLiteral(json: string): string {
+  const print = (value: unknown): string => {
+    if (value === null) return 'None'
+    if (value === true) return 'True'
+    if (value === false) return 'False'
+    if (Array.isArray(value)) return `[${value.map(print).join(', ')}]`
+    if (typeof value === 'object') {
+      return `{${Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${print(item)}`).join(', ')}}`
+    }
+    return JSON.stringify(value)
+  }
+  try {
+    return print(JSON.parse(json))
+  } catch {
+    return json
+  }
+}
+
 /**
  * Generate Python requests code
  */
-function generatePython(request: ApiRequest): string {
+function generatePython(request: ApiRequest, options: CodeGeneratorOptions = {}): string {
   const url = buildFullUrl(request)
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
-  const lines: string[] = []
+  const lines: string[] = [...authNote(options, '#', true)]
+  const digest = digestCredentials(options)
   lines.push('import requests')
+  if (digest) {
+    lines.push('from requests.auth import HTTPDigestAuth')
+  }
   lines.push('')
 
   if (Object.keys(headers).length > 0) {
@@ -236,22 +388,50 @@ function generatePython(request: ApiRequest): string {
     lines.push('')
   }
 
-  if (body && request.body?.type === 'json') {
-    lines.push(`payload = ${body}`)
+  if (body && isJsonBody(request)) {
+    lines.push(`payload = ${request.body?.type === 'graphql' ? toPythonLiteral(body) : body}`)
+    lines.push('')
+  }
+
+  const fields = getFormFields(request)
+  const textFields = fields.filter(f => f.type !== 'file')
+  const fileFields = fields.filter(f => f.type === 'file')
+  if (textFields.length > 0) {
+    lines.push('data = {')
+    textFields.forEach(f => lines.push(`    "${f.key}": "${f.value}",`))
+    lines.push('}')
     lines.push('')
   }
+  if (fileFields.length > 0) {
+    lines.push('files = [')
+    fileFields.forEach(f => lines.push(`    ("${f.key}", open("${formFileName(f)}", "rb")),`))
+    lines.push(']')
+    lines.push('')
+  }
+  const file = getBinaryFile(request)
 
   let call = `response = requests.${request.method.toLowerCase()}("${url}"`
   if (Object.keys(headers).length > 0) {
     call += ', headers=headers'
   }
-  if (body) {
-    if (request.body?.type === 'json') {
+  if (textFields.length > 0) {
+    call += ', data=data'
+  }
+  if (fileFields.length > 0) {
+    call += ', files=files'
+  }
+  if (file) {
+    call += `, data=open("${file.name}", "rb")`
+  } else if (body) {
+    if (isJsonBody(request)) {
       call += ', json=payload'
     } else {
       call += `, data="${body}"`
     }
   }
+  if (digest) {
+    call += `, auth=HTTPDigestAuth("${digest.username}", "${digest.password}")`
+  }
   call += ')'
   lines.push(call)
   lines.push('')
@@ -264,26 +444,55 @@ function generatePython(request: ApiRequest): string {
 /**
  * Generate Go code
  */
-function generateGo(request: ApiRequest): string {
+function generateGo(request: ApiRequest, options: CodeGeneratorOptions = {}): string {
   const url = buildFullUrl(request)
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
-  const lines: string[] = []
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+  const imports = ['fmt', 'io', 'net/http']
+  if (fields.length > 0) imports.push('bytes', 'mime/multipart')
+  if (file || fields.some(f => f.type === 'file')) imports.push('os')
+  if (body && fields.length === 0 && !file) imports.push('strings')
+
+  const lines: string[] = [...authNote(options, '//')]
   lines.push('package main')
   lines.push('')
   lines.push('import (')
-  lines.push('    "fmt"')
-  lines.push('    "io"')
-  lines.push('    "net/http"')
-  if (body) {
-    lines.push('    "strings"')
-  }
+  imports.sort().forEach(name => lines.push(`    "${name}"`))
   lines.push(')')
   lines.push('')
   lines.push('func main() {')
 
-  if (body) {
+  if (fields.length > 0) {
+    lines.push('    payload := &bytes.Buffer{}')
+    lines.push('    writer := multipart.NewWriter(payload)')
+    let files = 0
+    fields.forEach(f => {
+      if (f.type === 'file') {
+        const n = ++files > 1 ? String(files) : ''
+        lines.push(`    file${n}, err := os.Open("${formFileName(f)}")`)
+        lines.push('    if err != nil {')
+        lines.push('        panic(err)')
+        lines.push('    }')
+        lines.push(`    part${n}, _ := writer.CreateFormFile("${f.key}", "${formFileName(f)}")`)
+        lines.push(`    io.Copy(part${n}, file${n})`)
+        lines.push(`    file${n}.Close()`)
+      } else {
+        lines.push(`    writer.WriteField("${f.key}", "${f.value}")`)
+      }
+    })
+    lines.push('    writer.Close()')
+    lines.push(`    req, err := http.NewRequest("${request.method}", "${url}", payload)`)
+  } else if (file) {
+    lines.push(`    payload, err := os.Open("${file.name}")`)
+    lines.push('    if err != nil {')
+    lines.push('        panic(err)')
+    lines.push('    }')
+    lines.push('    defer payload.Close()')
+    lines.push(`    req, err := http.NewRequest("${request.method}", "${url}", payload)`)
+  } else if (body) {
     lines.push(`    payload := strings.NewReader(\`${body}\`)`)
     lines.push(`    req, err := http.NewRequest("${request.method}", "${url}", payload)`)
   } else {
@@ -298,6 +507,9 @@ function generateGo(request: ApiRequest): string {
   Object.entries(headers).forEach(([key, value]) => {
     lines.push(`    req.Header.Add("${key}", "${value}")`)
   })
+  if (fields.length > 0) {
+    lines.push('    req.Header.Set("Content-Type", writer.FormDataContentType())')
+  }
 
   lines.push('')
   lines.push('    client := &http.Client{}')
@@ -317,13 +529,14 @@ function generateGo(request: ApiRequest): string {
 /**
  * Generate PHP code
  */
-function generatePhp(request: ApiRequest): string {
+function generatePhp(request: ApiRequest, options: CodeGeneratorOptions = {}): string {
   const url = buildFullUrl(request)
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
   const lines: string[] = []
   lines.push('<?php')
+  lines.push(...authNote(options, '//', true))
   lines.push('')
   lines.push('$curl = curl_init();')
   lines.push('')
@@ -340,9 +553,27 @@ function generatePhp(request: ApiRequest): string {
     lines.push('    ],')
   }
 
-  if (body) {
-    const escapedBody = body.replace(/"/g, '\\"')
-    lines.push(`    CURLOPT_POSTFIELDS => "${escapedBody}",`)
+  const escape = (text: string) => text.replace(/[\\"$]/g, '\\$&')
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+  if (fields.length > 0) {
+    lines.push('    CURLOPT_POSTFIELDS => [')
+    fields.forEach(f => {
+      lines.push(f.type === 'file'
+        ? `        "${escape(f.key)}" => new CURLFile("${escape(formFileName(f))}"),`
+        : `        "${escape(f.key)}" => "${escape(f.value)}",`)
+    })
+    lines.push('    ],')
+  } else if (file) {
+    lines.push(`    CURLOPT_POSTFIELDS => file_get_contents("${escape(file.name)}"),`)
+  } else if (body) {
+    lines.push(`    CURLOPT_POSTFIELDS => "${escape(body)}",`)
+  }
+
+  const digest = digestCredentials(options)
+  if (digest) {
+    lines.push('    CURLOPT_HTTPAUTH => CURLAUTH_DIGEST,')
+    lines.push(`    CURLOPT_USERPWD => "${digest.username}:${digest.password}",`)
   }
 
   lines.push(']);')
@@ -364,12 +595,12 @@ function generatePhp(request: ApiRequest): string {
 /**
  * Generate Ruby code
  */
-function generateRuby(request: ApiRequest): string {
+function generateRuby(request: ApiRequest, options: CodeGeneratorOptions = {}): string {
   const url = buildFullUrl(request)
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
-  const lines: string[] = []
+  const lines: string[] = [...authNote(options, '#')]
   lines.push("require 'net/http'")
   lines.push("require 'uri'")
   lines.push("require 'json'")
@@ -384,8 +615,15 @@ function generateRuby(request: ApiRequest): string {
     lines.push(`request["${key}"] = "${value}"`)
   })
 
-  if (body) {
-    lines.push(`request.body = '${body}'`)
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+  if (fields.length > 0) {
+    const form = fields.map(f => (f.type === 'file' ? `["${f.key}", File.open("${formFileName(f)}")]` : `["${f.key}", "${f.value}"]`))
+    lines.push(`request.set_form([${form.join(', ')}], "multipart/form-data")`)
+  } else if (file) {
+    lines.push(`request.body = File.binread("${file.name}")`)
+  } else if (body) {
+    lines.push(`request.body = '${body.replace(/[\\']/g, '\\$&')}'`)
   }
 
   lines.push('')
@@ -403,13 +641,19 @@ function capitalize(str: string): string {
 /**
  * Generate C# code
  */
-function generateCSharp(request: ApiRequest): string {
+function generateCSharp(request: ApiRequest, options: CodeGeneratorOptions = {}): string {
   const url = buildFullUrl(request)
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
-  const lines: string[] = []
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+
+  const lines: string[] = [...authNote(options, '//', true)]
   lines.push('using System;')
+  if (file || fields.some(f => f.type === 'file')) {
+    lines.push('using System.IO;')
+  }
   lines.push('using System.Net.Http;')
   lines.push('using System.Threading.Tasks;')
   lines.push('')
@@ -417,7 +661,13 @@ function generateCSharp(request: ApiRequest): string {
   lines.push('{')
   lines.push('    static async Task Main()')
   lines.push('    {')
-  lines.push('        using var client = new HttpClient();')
+  const digest = digestCredentials(options)
+  if (digest) {
+    lines.push(`        using var handler = new HttpClientHandler { Credentials = new System.Net.NetworkCredential("${digest.username}", "${digest.password}") };`)
+    lines.push('        using var client = new HttpClient(handler);')
+  } else {
+    lines.push('        using var client = new HttpClient();')
+  }
   lines.push('')
 
   Object.entries(headers).forEach(([key, value]) => {
@@ -426,7 +676,19 @@ function generateCSharp(request: ApiRequest): string {
     }
   })
 
-  if (body) {
+  if (fields.length > 0) {
+    lines.push('        using var content = new MultipartFormDataContent();')
+    fields.forEach(f => {
+      lines.push(f.type === 'file'
+        ? `        content.Add(new StreamContent(File.OpenRead("${formFileName(f)}")), "${f.key}", "${formFileName(f)}");`
+        : `        content.Add(new StringContent("${f.value}"), "${f.key}");`)
+    })
+    lines.push(`        var response = await client.${capitalize(request.method.toLowerCase())}Async("${url}", content);`)
+  } else if (file) {
+    lines.push(`        var content = new ByteArrayContent(File.ReadAllBytes("${file.name}"));`)
+    lines.push(`        content.Headers.ContentType = new System.Net.Http.Headers.MediaTypeHeaderValue("${headers['Content-Type'] || file.contentType}");`)
+    lines.push(`        var response = await client.${capitalize(request.method.toLowerCase())}Async("${url}", content);`)
+  } else if (body) {
     const contentType = headers['Content-Type'] || 'text/plain'
     lines.push(`        var content = new StringContent(@"${body.replace(/"/g, '""')}", System.Text.Encoding.UTF8, "${contentType}");`)
     lines.push(`        var response = await client.${capitalize(request.method.toLowerCase())}Async("${url}", content);`)
@@ -448,16 +710,25 @@ function generateCSharp(request: ApiRequest): string {
 /**
  * Generate Java code
  */
-function generateJava(request: ApiRequest): string {
+function generateJava(request: ApiRequest, options: CodeGeneratorOptions = {}): string {
   const url = buildFullUrl(request)
   const headers = getEnabledHeaders(request)
   const body = getBody(request)
 
-  const lines: string[] = []
+  const fields = getFormFields(request)
+  const file = getBinaryFile(request)
+
+  const lines: string[] = [...authNote(options, '//')]
+  if (fields.length > 0) {
+    lines.push(`// The form-data body (${fields.map(f => f.key).join(', ')}) is not included: java.net.http has no multipart encoder`)
+  }
   lines.push('import java.net.URI;')
   lines.push('import java.net.http.HttpClient;')
   lines.push('import java.net.http.HttpRequest;')
   lines.push('import java.net.http.HttpResponse;')
+  if (file) {
+    lines.push('import java.nio.file.Path;')
+  }
   lines.push('')
   lines.push('public class Main {')
   lines.push('    public static void main(String[] args) throws Exception {')
@@ -470,8 +741,11 @@ function generateJava(request: ApiRequest): string {
     lines.push(`            .header("${key}", "${value}")`)
   })
 
-  if (body) {
-    lines.push(`            .method("${request.method}", HttpRequest.BodyPublishers.ofString("${body.replace(/"/g, '\\"')}"))`)
+  if (file) {
+    lines.push(`            .method("${request.method}", HttpRequest.BodyPublishers.ofFile(Path.of("${file.name}")))`)
+  } else if (body) {
+    const escapedBody = body.replace(/[\\"]/g, '\\$&').replace(/\n/g, '\\n')
+    lines.push(`            .method("${request.method}", HttpRequest.BodyPublishers.ofString("${escapedBody}"))`)
   } else {
     lines.push(`            .method("${request.method}", HttpRequest.BodyPublishers.noBody())`)
   }
@@ -0,0 +1,198 @@
+import type { Cookie } from '@/types'
+
+/**
+ * Where the cookie jar is kept between requests; the app keeps one per workspace
+ */
+export interface CookieStore {
+  get(): Cookie[]
+  set(cookies: Cookie[]): void
+}
+
+/**
+ * A cookie jar that lives as long as the caller holds it, e.g. for one collection run
+ */
+export function createMemoryCookieStore(cookies: Cookie[] = []): CookieStore {
+  let jar = cookies
+  return {
+    get: () => jar,
+    set: (next) => {
+      jar = next
+    },
+  }
+}
+
+function isIpAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':') || host.startsWith('[')
+}
+
+/**
+ * Whether a host is the cookie's domain or one of its subdomains (RFC 6265 5.1.3)
+ */
+export function domainMatches(host: string, domain: string): boolean {
+  const h = host.toLowerCase()
+  const d = domain.toLowerCase()
+  return h === d || (h.endsWith(`.${d}`) && !isIpAddress(h))
+}
+
+/**
+ * Whether a request path is within the cookie's path (RFC 6265 5.1.4)
+ */
+export function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true
+  return requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/')
+}
+
+// The directory of the request path, used when Set-Cookie has no Path
+function defaultPath(pathname: string): string {
+  if (!pathname.startsWith('/')) return '/'
+  const end = pathname.lastIndexOf('/')
+  return end <= 0 ? '/' : pathname.slice(0, end)
+}
+
+export function isCookieExpired(cookie: Cookie, now = new Date()): boolean {
+  return cookie.expires !== undefined && new Date(cookie.expires).getTime() <= now.getTime()
+}
+
+function isSameCookie(a: Cookie, b: Cookie): boolean {
+  return a.name === b.name && a.domain.toLowerCase() === b.domain.toLowerCase() && a.path === b.path
+}
+
+/**
+ * Parse a Set-Cookie header received from a URL. Returns null for cookies a
+ * browser would ignore, e.g. without a name or for a domain the URL is not in.
+ * A cookie already past its expiry is returned too, since it deletes the stored one.
+ */
+export function parseSetCookie(header: string, url: string, now = new Date()): Cookie | null {
+  const { hostname, pathname } = new URL(url)
+  const [pair, ...attributes] = header.split(';')
+  const separator = pair.indexOf('=')
+  if (separator === -1) return null
+
+  const name = pair.slice(0, separator).trim()
+  if (!name) return null
+
+  const cookie: Cookie = {
+    name,
+    value: pair.slice(separator + 1).trim(),
+    domain: hostname,
+    path: defaultPath(pathname),
+    hostOnly: true,
+  }
+  let maxAge: number | undefined
+
+  for (const attribute of attributes) {
+    const equals = attribute.indexOf('=')
+    const key = (equals === -1 ? attribute : attribute.slice(0, equals)).trim().toLowerCase()
+    const value = equals === -1 ? '' : attribute.slice(equals + 1).trim()
+
+    switch (key) {
+      case 'domain': {
+        const domain = value.replace(/^\./, '').toLowerCase()
+        if (!domain) break
+        // A bare top-level domain could set cookies for every site under it
+        if (!domainMatches(hostname, domain) || (!domain.includes('.') && domain !== hostname)) return null
+        cookie.domain = domain
+        cookie.hostOnly = false
+        break
+      }
+      case 'path':
+        if (value.startsWith('/')) cookie.path = value
+        break
+      case 'expires': {
+        const time = Date.parse(value)
+        if (!Number.isNaN(time)) cookie.expires = new Date(time).toISOString()
+        break
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) maxAge = Number(value)
+        break
+      case 'secure':
+        cookie.secure = true
+        break
+      case 'httponly':
+        cookie.httpOnly = true
+        break
+      case 'samesite':
+        if (value) cookie.sameSite = value
+        break
+    }
+  }
+
+  // Max-Age wins over Expires; zero or less expires the cookie now
+  if (maxAge !== undefined) {
+    cookie.expires = new Date(maxAge <= 0 ? 0 : now.getTime() + maxAge * 1000).toISOString()
+  }
+  return cookie
+}
+
+/**
+ * Apply cookies to a jar: each replaces the stored cookie with the same name,
+ * domain and path, and expired ones remove it. Also drops cookies that have
+ * expired since they were stored.
+ */
+export function mergeCookies(jar: Cookie[], cookies: Cookie[], now = new Date()): Cookie[] {
+  const merged = jar.filter((cookie) => !isCookieExpired(cookie, now))
+  cookies.forEach((cookie) => {
+    const index = merged.findIndex((stored) => isSameCookie(stored, cookie))
+    if (isCookieExpired(cookie, now)) {
+      if (index !== -1) merged.splice(index, 1)
+    } else if (index !== -1) {
+      merged[index] = cookie
+    } else {
+      merged.push(cookie)
+    }
+  })
+  return merged
+}
+
+/**
+ * The cookies to send to a URL, longest path first like browsers send them
+ */
+export function getCookiesForUrl(jar: Cookie[], url: string, now = new Date()): Cookie[] {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return []
+  }
+
+  return jar
+    .filter((cookie) => {
+      if (isCookieExpired(cookie, now)) return false
+      if (cookie.secure && parsed.protocol !== 'https:') return false
+      const host = parsed.hostname.toLowerCase()
+      const hostMatches = cookie.hostOnly ? host === cookie.domain.toLowerCase() : domainMatches(host, cookie.domain)
+      return hostMatches && pathMatches(parsed.pathname, cookie.path)
+    })
+    .sort((a, b) => b.path.length - a.path.length)
+}
+
+/**
+ * Add the cookies to the request's headers. Cookies named in a Cookie header
+ * the request already has keep the value given there.
+ */
+export function addCookieHeader(headers: Record<string, string>, cookies: Cookie[]): Record<string, string> {
+  if (cookies.length === 0) return headers
+
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === 'cookie')
+  const explicit = key ? headers[key] : ''
+  const explicitNames = new Set(explicit.split(';').map((pair) => pair.split('=')[0].trim()).filter(Boolean))
+  const added = cookies.filter((cookie) => !explicitNames.has(cookie.name)).map((cookie) => `${cookie.name}=${cookie.value}`)
+  if (added.length === 0) return headers
+
+  const value = [explicit.trim(), ...added].filter(Boolean).join('; ')
+  return { ...headers, [key || 'Cookie']: value }
+}
+
+/**
+ * Write a cookie as a Set-Cookie header value, e.g. to edit it as text
+ */
+export function formatSetCookie(cookie: Cookie): string {
+  const parts = [`${cookie.name}=${cookie.value}`, `Path=${cookie.path}`]
+  if (!cookie.hostOnly) parts.push(`Domain=${cookie.domain}`)
+  if (cookie.expires) parts.push(`Expires=${new Date(cookie.expires).toUTCString()}`)
+  if (cookie.secure) parts.push('Secure')
+  if (cookie.httpOnly) parts.push('HttpOnly')
+  if (cookie.sameSite) parts.push(`SameSite=${cookie.sameSite}`)
+  return parts.join('; ')
+}
@@ -78,7 +78,10 @@ export function parseCurl(curlCommand: string): ApiRequest {
         }
         const formField = parseFormField(tokens[i])
         if (formField && request.body.formData) {
-          request.body.formData.push(formField)
+          // curl reads `name=@path` from disk; the file has to be picked again, so keep its path as a hint
+          request.body.formData.push(formField.value.startsWith('@')
+            ? { ...formField, value: '', type: 'file', description: formField.value.slice(1).split(';')[0] }
+            : formField)
         }
         if (request.method === 'GET') {
           request.method = 'POST'
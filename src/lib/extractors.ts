@@ -0,0 +1,121 @@
+import type { ApiResponse, Extractor } from '@/types'
+import { getHeader } from '@/lib/response-headers'
+
+export interface ExtractionResult {
+  extractor: Extractor
+  value?: string // Undefined when nothing matched
+  error?: string
+}
+
+type PathSegment = string | number | '*'
+
+/**
+ * Split a JSONPath such as $.data.items[0]['first-name'] or $.items[*].id into segments.
+ * Supports child access, array indexes (negative counts from the end) and * wildcards.
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const trimmed = path.trim()
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`)
+  }
+
+  const segments: PathSegment[] = []
+  const pattern = /\.([A-Za-z_$][\w$-]*|\*)|\[(-?\d+|\*)\]|\[\s*'((?:[^'\\]|\\.)*)'\s*\]|\[\s*"((?:[^"\\]|\\.)*)"\s*\]/y
+  let index = 1
+
+  while (index < trimmed.length) {
+    pattern.lastIndex = index
+    const match = pattern.exec(trimmed)
+    if (!match) {
+      throw new Error(`Invalid JSONPath at "${trimmed.slice(index)}"`)
+    }
+
+    const [, name, bracket, singleQuoted, doubleQuoted] = match
+    if (name !== undefined) {
+      segments.push(name)
+    } else if (bracket !== undefined) {
+      segments.push(bracket === '*' ? '*' : Number(bracket))
+    } else {
+      segments.push((singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1'))
+    }
+    index = pattern.lastIndex
+  }
+
+  return segments
+}
+
+/**
+ * Evaluate a JSONPath, returning every matched value
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data]
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = []
+    current.forEach((value) => {
+      if (value === null || typeof value !== 'object') return
+
+      if (segment === '*') {
+        next.push(...Object.values(value))
+      } else if (typeof segment === 'number') {
+        if (!Array.isArray(value)) return
+        const item = value[segment < 0 ? value.length + segment : segment]
+        if (item !== undefined) next.push(item)
+      } else if (Object.prototype.hasOwnProperty.call(value, segment)) {
+        next.push((value as Record<string, unknown>)[segment])
+      }
+    })
+    current = next
+  }
+
+  return current
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function extract(extractor: Extractor, response: ApiResponse): string | undefined {
+  switch (extractor.source) {
+    case 'json': {
+      let data: unknown
+      try {
+        data = JSON.parse(response.body)
+      } catch {
+        throw new Error('Response body is not valid JSON')
+      }
+      const matches = queryJsonPath(data, extractor.expression)
+      if (matches.length === 0) return undefined
+      return stringify(matches.length === 1 ? matches[0] : matches)
+    }
+    case 'header':
+      return getHeader(response.headers, extractor.expression.trim())
+    case 'regex': {
+      let regex: RegExp
+      try {
+        regex = new RegExp(extractor.expression)
+      } catch {
+        throw new Error(`Invalid regular expression: ${extractor.expression}`)
+      }
+      const match = regex.exec(response.body)
+      if (!match) return undefined
+      return match.length > 1 ? match[1] : match[0]
+    }
+  }
+}
+
+/**
+ * Run each enabled extractor against a response
+ */
+export function applyExtractors(extractors: Extractor[], response: ApiResponse): ExtractionResult[] {
+  return extractors
+    .filter((extractor) => extractor.enabled && extractor.variable && extractor.expression)
+    .map((extractor) => {
+      try {
+        const value = extract(extractor, response)
+        return value === undefined ? { extractor, error: 'No match' } : { extractor, value }
+      } catch (error) {
+        return { extractor, error: error instanceof Error ? error.message : 'Extraction failed' }
+      }
+    })
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { getCompletions } from '../completion'
+import { testSchema } from '@/test/graphql-schema'
+
+// The cursor is where the | is
+const complete = (text: string) => {
+  const offset = text.indexOf('|')
+  return getCompletions(text.slice(0, offset) + text.slice(offset + 1), offset, testSchema)
+}
+const labels = (text: string) => complete(text).items.map((item) => item.label)
+
+describe('getCompletions', () => {
+  it('should suggest operation keywords at the top level', () => {
+    expect(labels('|')).toEqual(['query', 'mutation', 'subscription', 'fragment'])
+    expect(labels('{ users { id } }\nm|')).toEqual(['mutation'])
+  })
+
+  it('should suggest fields of the enclosing type', () => {
+    expect(labels('{ |')).toEqual(['user', 'users', 'search', '__typename', '__schema', '__type'])
+    expect(labels('query { user(id: 1) { na| } }')).toEqual(['name'])
+    expect(labels('mutation Create { createUser(input: {}) { f| } }')).toEqual(['friends'])
+  })
+
+  it('should give the type and the range of the word being replaced', () => {
+    const result = complete('{ user(id: 1) { fr|iends } }')
+
+    expect(result).toMatchObject({ from: 16, to: 23 })
+    expect(result.items).toEqual([{ label: 'friends', kind: 'field', detail: '[User!]!', description: undefined, deprecated: false }])
+  })
+
+  it('should suggest fields after aliases and within nested selections', () => {
+    expect(labels('{ me: user(id: 1) { friends(first: 2) { i| } } }')).toEqual(['id'])
+    expect(labels('{ a: |')).toContain('users')
+  })
+
+  it('should suggest arguments that are not given yet', () => {
+    expect(labels('{ users(|')).toEqual(['role', 'first'])
+    expect(labels('{ users(role: ADMIN, |')).toEqual(['first'])
+  })
+
+  it('should suggest enum values and booleans for argument values', () => {
+    expect(labels('{ users(role: |')).toEqual(['ADMIN', 'MEMBER'])
+    expect(labels('{ users { friends @include(if: |')).toEqual(['true', 'false'])
+  })
+
+  it('should suggest input object fields', () => {
+    expect(labels('mutation { createUser(input: { name: "a", |')).toEqual(['role'])
+    expect(labels('mutation { createUser(input: { role: M|')).toEqual(['MEMBER'])
+  })
+
+  it('should suggest types in fragments and variable definitions', () => {
+    expect(labels('fragment F on |')).toEqual(['Query', 'Mutation', 'User', 'Post', 'SearchResult'])
+    expect(labels('{ search(text: "a") { ... on |')).toEqual(['User', 'Post', 'SearchResult'])
+    expect(labels('query ($role: R|')).toEqual(['Role'])
+    expect(labels('query ($ids: [|')).toEqual(['Role', 'CreateUserInput', 'ID', 'String', 'Int', 'Boolean'])
+  })
+
+  it('should suggest defined variables, fragments and directives', () => {
+    expect(labels('query ($id: ID!, $idle: Boolean) { user(id: $|')).toEqual(['id', 'idle'])
+    expect(labels('{ users { ...| } } fragment Names on User { name }')).toEqual(['on', 'Names'])
+    expect(labels('{ users @|')).toEqual(['include', 'skip'])
+  })
+
+  it('should not suggest inside strings and comments', () => {
+    expect(labels('{ search(text: "us|')).toEqual([])
+    expect(labels('{ # us|')).toEqual([])
+  })
+
+  it('should only know keywords without a schema', () => {
+    expect(getCompletions('{ ', 2).items).toEqual([])
+    expect(getCompletions('q', 1).items.map((item) => item.label)).toEqual(['query'])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { GraphQLSyntaxError, positionAt, tokenize } from '../lexer'
+import { parseDocument, printTypeNode, type FieldNode, type OperationDefinitionNode } from '../parser'
+
+describe('tokenize', () => {
+  it('should skip whitespace, commas and comments', () => {
+    expect(tokenize('query { a, b } # done').map((t) => t.value)).toEqual(['query', '{', 'a', 'b', '}'])
+  })
+
+  it('should read numbers, strings and block strings', () => {
+    expect(tokenize('-1.5e3 42 "a\\n\\u0041" """\n    one\n      two\n"""').map(({ kind, value }) => ({ kind, value }))).toEqual([
+      { kind: 'float', value: '-1.5e3' },
+      { kind: 'int', value: '42' },
+      { kind: 'string', value: 'a\nA' },
+      { kind: 'string', value: 'one\n  two' },
+    ])
+  })
+
+  it('should report unterminated strings and unknown characters with their position', () => {
+    expect(() => tokenize('{ a(b: "x) }')).toThrow('Unterminated string')
+    const error = (() => {
+      try {
+        tokenize('{ a % }')
+      } catch (e) {
+        return e
+      }
+    })()
+    expect(error).toBeInstanceOf(GraphQLSyntaxError)
+    expect(error).toMatchObject({ message: 'Unexpected character "%"', start: 4, end: 5 })
+  })
+
+  it('should keep going when tolerant', () => {
+    expect(tokenize('{ a % b(c: "unfinished', true).map((t) => t.value)).toEqual(['{', 'a', 'b', '(', 'c', ':'])
+  })
+})
+
+describe('positionAt', () => {
+  it('should give 1-based lines and columns', () => {
+    expect(positionAt('query {\n  user\n}', 10)).toEqual({ line: 2, column: 3 })
+  })
+})
+
+describe('parseDocument', () => {
+  it('should parse operations with variables, aliases, arguments and directives', () => {
+    const document = parseDocument(`
+      query GetUser($id: ID!, $withFriends: Boolean = false) {
+        me: user(id: $id) {
+          name
+          friends(first: 5) @include(if: $withFriends) { id }
+        }
+      }
+    `)
+    const operation = document.definitions[0] as OperationDefinitionNode
+
+    expect(operation.operation).toBe('query')
+    expect(operation.name?.value).toBe('GetUser')
+    expect(operation.variableDefinitions.map((v) => `${v.variable.value}: ${printTypeNode(v.type)}`)).toEqual(['id: ID!', 'withFriends: Boolean'])
+    expect(operation.variableDefinitions[1].defaultValue).toMatchObject({ kind: 'boolean', value: 'false' })
+
+    const user = operation.selectionSet.selections[0] as FieldNode
+    expect(user.alias?.value).toBe('me')
+    expect(user.name.value).toBe('user')
+    expect(user.arguments[0].value).toMatchObject({ kind: 'variable', name: { value: 'id' } })
+
+    const friends = user.selectionSet!.selections[1] as FieldNode
+    expect(friends.directives[0].name.value).toBe('include')
+    expect(friends.selectionSet!.selections).toHaveLength(1)
+  })
+
+  it('should parse shorthand queries, fragments and inline fragments', () => {
+    const document = parseDocument('{ search(text: "a") { ...UserParts ... on Post { title } } } fragment UserParts on User { name }')
+
+    expect(document.definitions.map((d) => d.kind)).toEqual(['operation', 'fragment'])
+    const search = (document.definitions[0] as OperationDefinitionNode).selectionSet.selections[0] as FieldNode
+    expect(search.selectionSet!.selections.map((s) => s.kind)).toEqual(['fragmentSpread', 'inlineFragment'])
+  })
+
+  it('should parse list and object values', () => {
+    const document = parseDocument('mutation { createUser(input: { name: "Ada", tags: [ADMIN, null] }) { id } }')
+    const field = (document.definitions[0] as OperationDefinitionNode).selectionSet.selections[0] as FieldNode
+
+    expect(field.arguments[0].value).toMatchObject({
+      kind: 'object',
+      fields: [
+        { name: { value: 'name' }, value: { kind: 'string', value: 'Ada' } },
+        { name: { value: 'tags' }, value: { kind: 'list', values: [{ kind: 'enum' }, { kind: 'null' }] } },
+      ],
+    })
+  })
+
+  it('should point at the unexpected token', () => {
+    expect(() => parseDocument('query { user(id: ) }')).toThrow('Expected a value, found ")"')
+    expect(() => parseDocument('query { user {')).toThrow('Expected a field, found end of document')
+    expect(() => parseDocument('subscribe { a }')).toThrow('Expected "query", "mutation", "subscription", "fragment" or "{", found "subscribe"')
+    expect(() => parseDocument('  ')).toThrow('The query is empty')
+  })
+})
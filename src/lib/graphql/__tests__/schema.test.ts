@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildSchema,
+  getFields,
+  getNamedType,
+  introspectionRequest,
+  INTROSPECTION_QUERY,
+  parseIntrospectionResponse,
+  printType,
+} from '../schema'
+import { serializeGraphQLBody } from '../body'
+import { introspectionResult, testSchema } from '@/test/graphql-schema'
+import type { ApiRequest, ApiResponse } from '@/types'
+
+const response = (body: unknown, status = 200): ApiResponse => ({
+  status,
+  statusText: status === 200 ? 'OK' : 'Bad Request',
+  headers: [],
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+  time: 1,
+  size: 1,
+})
+
+describe('buildSchema', () => {
+  it('should index the types and root types', () => {
+    expect(testSchema.queryType).toBe('Query')
+    expect(testSchema.mutationType).toBe('Mutation')
+    expect(testSchema.subscriptionType).toBeUndefined()
+    expect(testSchema.types.User.description).toBe('A person with an account')
+  })
+
+  it("should add the introspection types without replacing the server's own", () => {
+    expect(introspectionResult.data.__schema.types.some((type) => type.name === '__Schema')).toBe(false)
+    expect(testSchema.types.__Schema.kind).toBe('OBJECT')
+    expect(testSchema.types.__TypeKind.enumValues?.map((value) => value.name)).toContain('NON_NULL')
+
+    const custom = { kind: 'OBJECT', name: '__Type', fields: [] }
+    const schema = buildSchema({ __schema: { queryType: { name: 'Query' }, types: [custom] } })
+    expect(schema.types.__Type).toBe(custom)
+  })
+
+  it('should reject other responses', () => {
+    expect(() => buildSchema({ data: { user: null } })).toThrow('The response is not an introspection result')
+  })
+})
+
+describe('type helpers', () => {
+  it('should print and unwrap type references', () => {
+    const users = testSchema.types.Query.fields!.find((f) => f.name === 'users')!
+
+    expect(printType(users.type)).toBe('[User!]!')
+    expect(getNamedType(users.type)).toBe('User')
+  })
+
+  it('should add __typename, and the introspection fields on the query root', () => {
+    expect(getFields(testSchema, 'User').map((f) => f.name)).toContain('__typename')
+    expect(getFields(testSchema, 'Query').map((f) => f.name)).toEqual(expect.arrayContaining(['__schema', '__type']))
+    expect(getFields(testSchema, 'Mutation').map((f) => f.name)).not.toContain('__schema')
+    expect(getFields(testSchema, 'Role')).toEqual([])
+  })
+})
+
+describe('introspectionRequest', () => {
+  it('should post the introspection query without scripts', () => {
+    const request: ApiRequest = {
+      id: '1',
+      name: 'Users',
+      method: 'GET',
+      url: 'https://api.example.com/graphql',
+      headers: [{ id: 'h', key: 'X-Team', value: 'a', enabled: true }],
+      params: [],
+      body: { type: 'graphql', graphql: { query: '{ users { id } }' } },
+      testScript: { enabled: true, content: 'pm.test()' },
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    }
+
+    expect(introspectionRequest(request)).toMatchObject({
+      method: 'POST',
+      url: request.url,
+      headers: request.headers,
+      body: { type: 'graphql', graphql: { query: INTROSPECTION_QUERY } },
+      testScript: undefined,
+    })
+  })
+})
+
+describe('parseIntrospectionResponse', () => {
+  it('should build the schema from the response', () => {
+    expect(parseIntrospectionResponse(response(introspectionResult)).types.Role.kind).toBe('ENUM')
+  })
+
+  it('should explain failures', () => {
+    expect(() => parseIntrospectionResponse(response('<html>'))).toThrow('The server did not answer with JSON (HTTP 200)')
+    expect(() => parseIntrospectionResponse(response({ errors: [{ message: 'Introspection is disabled' }] }, 400)))
+      .toThrow('Introspection failed: Introspection is disabled')
+    expect(() => parseIntrospectionResponse(response({}, 400))).toThrow('Introspection failed with HTTP 400 Bad Request')
+  })
+})
+
+describe('serializeGraphQLBody', () => {
+  it('should send the query and parsed variables as JSON', () => {
+    expect(JSON.parse(serializeGraphQLBody({ query: 'query ($id: ID!) { user(id: $id) { name } }', variables: '{ "id": "1" }' }))).toEqual({
+      query: 'query ($id: ID!) { user(id: $id) { name } }',
+      variables: { id: '1' },
+    })
+  })
+
+  it('should leave out empty variables', () => {
+    expect(serializeGraphQLBody({ query: '{ users { id } }', variables: '  ' })).toBe('{"query":"{ users { id } }"}')
+  })
+
+  it('should keep variables with unquoted placeholders as written', () => {
+    expect(serializeGraphQLBody({ query: '{ a }', variables: '{ "id": {{userId}} }' })).toBe('{"query":"{ a }","variables":{ "id": {{userId}} }}')
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { validateQuery, validateVariables } from '../validate'
+import { testSchema } from '@/test/graphql-schema'
+
+const messages = (query: string) => validateQuery(query, testSchema).map((d) => d.message)
+
+describe('validateQuery', () => {
+  it('should accept a valid query', () => {
+    expect(validateQuery(`
+      query Users($role: Role, $withFriends: Boolean!) {
+        users(role: $role, first: 5) {
+          id
+          ...Names
+          friends @include(if: $withFriends) { id }
+        }
+        search(text: "ada") {
+          __typename
+          ... on Post { title }
+        }
+      }
+      fragment Names on User { name }
+    `, testSchema)).toEqual([])
+  })
+
+  it('should check introspection queries when the server leaves out the introspection types', () => {
+    expect(validateQuery('{ __schema { types { name } } }', testSchema)).toEqual([])
+    expect(messages('{ __type(name: "User") { fields(includeDeprecated: true) { name type { kind ofType { name } } } } }')).toEqual([])
+    expect(messages('{ __schema { queryType { nickname } } }')).toEqual(['Cannot query field "nickname" on type "__Type"'])
+  })
+
+  it('should report syntax errors with their range', () => {
+    expect(validateQuery('{ user(id: ) { id } }')).toEqual([
+      { message: 'Expected a value, found ")"', start: 11, end: 12, severity: 'error' },
+    ])
+  })
+
+  it('should check variables and fragments without a schema', () => {
+    expect(validateQuery('query ($unused: Int) { user(id: $id) { ...Missing } }').map((d) => d.message)).toEqual([
+      'Variable "$unused" is never used',
+      'Variable "$id" is not defined',
+      'Unknown fragment "Missing"',
+    ])
+  })
+
+  it('should report unknown fields with their position', () => {
+    const query = '{ user(id: 1) { nickname } }'
+
+    expect(validateQuery(query, testSchema)).toEqual([
+      { message: 'Cannot query field "nickname" on type "User"', start: 16, end: 24, severity: 'error' },
+    ])
+  })
+
+  it('should require selections on objects and none on scalars', () => {
+    expect(messages('{ user(id: 1) { name { first } friends } }')).toEqual([
+      'Field "name" must not have a selection since type "String" has no subfields',
+      'Field "friends" of type "[User!]!" must have a selection of subfields',
+    ])
+  })
+
+  it('should check arguments and their values', () => {
+    expect(messages('{ user { id } users(role: OWNER, first: "ten", limit: 1) { id } }')).toEqual([
+      'Argument "id" of type "ID!" is required on field "Query.user"',
+      'Expected a value of type "Role", found OWNER',
+      'Expected a value of type "Int", found "ten"',
+      'Unknown argument "limit" on field "Query.users"',
+    ])
+  })
+
+  it('should check input objects', () => {
+    expect(messages('mutation { createUser(input: { role: ADMIN, age: 3 }) { id } }')).toEqual([
+      'Field "CreateUserInput.name" of type "String!" is required',
+      'Field "age" is not defined by type "CreateUserInput"',
+    ])
+  })
+
+  it('should point union selections to inline fragments', () => {
+    expect(messages('{ search(text: "a") { title } }')).toEqual([
+      'Cannot query field "title" on type "SearchResult". Select its fields in an inline fragment, e.g. "... on Type"',
+    ])
+  })
+
+  it('should warn about deprecated fields', () => {
+    expect(validateQuery('{ user(id: 1) { email } }', testSchema)).toEqual([
+      expect.objectContaining({ message: 'The field "User.email" is deprecated: Use contact', severity: 'warning' }),
+    ])
+  })
+
+  it('should check types, directives and operations the schema supports', () => {
+    expect(messages('subscription ($id: Post) { users { id } }')).toEqual([
+      'The schema does not support subscriptions',
+      'Variable "$id" cannot be of non-input type "Post"',
+      'Variable "$id" is never used',
+    ])
+    expect(messages('{ users { id @cached } ... on Nope { id } }')).toEqual([
+      'Unknown directive "@cached"',
+      'Unknown type "Nope"',
+    ])
+  })
+})
+
+describe('validateVariables', () => {
+  const query = 'query ($id: ID!, $role: Role, $input: CreateUserInput) { user(id: $id) { id } users(role: $role) { id } createUser: user(id: 1) { id } }'
+
+  it('should accept matching variables and placeholders', () => {
+    expect(validateVariables('{ "id": {{userId}}, "role": "ADMIN" }', query, testSchema)).toEqual([])
+    expect(validateVariables('{ "id": "user-{{n}}", "input": { "name": "{{name}}" } }', query, testSchema)).toEqual([])
+  })
+
+  it('should report invalid JSON', () => {
+    expect(validateVariables('{ "id": }', query)[0].message).toMatch(/^Variables are not valid JSON/)
+    expect(validateVariables('[1]', query)[0].message).toBe('Variables must be a JSON object')
+  })
+
+  it('should require non-null variables and warn about unknown ones', () => {
+    const text = '{ "extra": 1 }'
+
+    expect(validateVariables(text, query)).toEqual([
+      { message: 'Variable "$extra" is not defined by the operation', start: 2, end: 9, severity: 'warning' },
+      { message: 'Variable "$id" of type "ID!" is required', start: 0, end: text.length, severity: 'error' },
+    ])
+  })
+
+  it('should check values against the schema', () => {
+    expect(validateVariables('{ "id": true, "role": "OWNER", "input": { "role": "ADMIN" } }', query, testSchema).map((d) => d.message)).toEqual([
+      'Variable "$id" expected a value of type "ID", found true',
+      'Variable "$role" expected a value of type "Role", found "OWNER"',
+      'Variable "$input" is missing required field "name"',
+    ])
+  })
+})
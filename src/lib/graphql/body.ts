@@ -0,0 +1,17 @@
+import type { GraphQLBody } from '@/types'
+
+/**
+ * The JSON a GraphQL server expects in a POST body. Variables that are not JSON
+ * yet, e.g. { "id": {{userId}} }, are kept as written so they can be filled in
+ * when the request is sent. Empty variables are left out.
+ */
+export function serializeGraphQLBody(body: GraphQLBody): string {
+  const variables = body.variables?.trim()
+  if (!variables) return JSON.stringify({ query: body.query })
+
+  try {
+    return JSON.stringify({ query: body.query, variables: JSON.parse(variables) })
+  } catch {
+    return `{"query":${JSON.stringify(body.query)},"variables":${variables}}`
+  }
+}
@@ -0,0 +1,241 @@
+import { tokenize, type Token } from './lexer'
+import {
+  getFields,
+  getNamedType,
+  getRootType,
+  isCompositeType,
+  isInputType,
+  printType,
+  type GraphQLInputValue,
+  type GraphQLSchema,
+  type GraphQLTypeRef,
+} from './schema'
+
+export type CompletionKind = 'keyword' | 'field' | 'argument' | 'type' | 'enum' | 'value' | 'variable' | 'fragment' | 'directive'
+
+export interface CompletionItem {
+  label: string
+  kind: CompletionKind
+  detail?: string // Type, e.g. [User!]!
+  description?: string
+  deprecated?: boolean
+}
+
+export interface CompletionResult {
+  from: number // Range of the word the chosen item replaces
+  to: number
+  items: CompletionItem[]
+}
+
+// What encloses the cursor, innermost last
+type Frame =
+  | { kind: 'selection'; type?: string }
+  | { kind: 'arguments'; inputs: GraphQLInputValue[]; used: string[]; valueType?: GraphQLTypeRef }
+  | { kind: 'list'; valueType?: GraphQLTypeRef }
+  | { kind: 'variables' }
+
+const NAME_CHAR = /[_0-9A-Za-z]/
+const OPERATION_KEYWORDS = ['query', 'mutation', 'subscription']
+
+// Whether the end of the text is inside a string or comment, where nothing is suggested
+function endsInStringOrComment(text: string): boolean {
+  let i = 0
+  while (i < text.length) {
+    if (text[i] === '#') {
+      const newline = text.slice(i).search(/[\r\n]/)
+      if (newline === -1) return true
+      i += newline
+    } else if (text.startsWith('"""', i)) {
+      const close = text.indexOf('"""', i + 3)
+      if (close === -1) return true
+      i = close + 3
+    } else if (text[i] === '"') {
+      i++
+      while (i < text.length && text[i] !== '"' && text[i] !== '\n') i += text[i] === '\\' ? 2 : 1
+      if (i >= text.length) return true
+      i++
+    } else {
+      i++
+    }
+  }
+  return false
+}
+
+/**
+ * Suggestions for the cursor position in a query: keywords at the top level,
+ * fields of the enclosing type, arguments and input fields, enum values,
+ * types, variables, fragments and directives. Items start with the word
+ * being typed; without a schema only keywords, variables and fragments are known.
+ */
+export function getCompletions(source: string, offset: number, schema?: GraphQLSchema): CompletionResult {
+  let from = offset
+  while (from > 0 && NAME_CHAR.test(source[from - 1])) from--
+  let to = offset
+  while (to < source.length && NAME_CHAR.test(source[to])) to++
+  const prefix = source.slice(from, offset)
+  const none: CompletionResult = { from, to, items: [] }
+
+  const before = source.slice(0, from)
+  if (/^[0-9]/.test(prefix) || endsInStringOrComment(before)) return none
+
+  const tokens = tokenize(before, true)
+  const stack: Frame[] = []
+  let pendingType: string | undefined // Type the next selection set selects from
+  let pendingInputs: GraphQLInputValue[] | undefined // Arguments the next "(" opens
+  let variables: string[] = []
+
+  const top = () => stack[stack.length - 1]
+  const prevToken = (index: number): Token | undefined => tokens[index - 1]
+  const isPunctuator = (token: Token | undefined, value: string) => token?.kind === 'punctuator' && token.value === value
+  const directive = (name: string) => schema?.directives.find((d) => d.name === name)
+
+  tokens.forEach((token, index) => {
+    const frame = top()
+    const prev = prevToken(index)
+
+    if (token.kind === 'name') {
+      if (isPunctuator(prev, '@')) {
+        pendingInputs = directive(token.value)?.args ?? []
+      } else if (isPunctuator(prev, '$')) {
+        if (frame?.kind === 'variables') variables.push(token.value)
+      } else if (!frame) {
+        if (OPERATION_KEYWORDS.includes(token.value) && !(prev?.kind === 'name' && prev.value === 'on')) {
+          pendingType = schema && getRootType(schema, token.value as 'query' | 'mutation' | 'subscription')
+          variables = []
+        } else if (token.value === 'fragment') {
+          pendingType = undefined
+          variables = []
+        } else if (prev?.value === 'on') {
+          pendingType = token.value
+        }
+      } else if (frame.kind === 'selection') {
+        if (prev?.value === 'on' && isPunctuator(prevToken(index - 1), '...')) {
+          pendingType = token.value
+        } else if (isPunctuator(prev, '...') || isPunctuator(tokens[index + 1], ':')) {
+          // A fragment spread, the "on" of an inline fragment, or an alias
+        } else {
+          const field = frame.type && schema ? getFields(schema, frame.type).find((f) => f.name === token.value) : undefined
+          pendingType = field && getNamedType(field.type)
+          pendingInputs = field?.args ?? []
+        }
+      } else if (frame.kind === 'arguments' && !isPunctuator(prev, ':')) {
+        frame.used.push(token.value)
+        frame.valueType = frame.inputs.find((input) => input.name === token.value)?.type
+      }
+      return
+    }
+
+    if (token.kind !== 'punctuator') return
+    switch (token.value) {
+      case '{':
+        if (!frame) {
+          // A shorthand query starts with its selection set
+          const shorthand = !prev || isPunctuator(prev, '}')
+          stack.push({ kind: 'selection', type: shorthand ? schema?.queryType : pendingType })
+          pendingType = undefined
+        } else if (frame.kind === 'selection') {
+          stack.push({ kind: 'selection', type: pendingType })
+          pendingType = undefined
+        } else {
+          // An input object value
+          const type = frame.kind === 'variables' ? undefined : schema?.types[getNamedType(frame.valueType ?? { kind: 'SCALAR' })]
+          stack.push({ kind: 'arguments', inputs: type?.inputFields ?? [], used: [] })
+        }
+        break
+      case '(':
+        stack.push(frame ? { kind: 'arguments', inputs: pendingInputs ?? [], used: [] } : { kind: 'variables' })
+        pendingInputs = undefined
+        break
+      case '[':
+        // A list type in a variable definition, or a list value
+        if (frame?.kind === 'variables') stack.push(frame)
+        else stack.push({ kind: 'list', valueType: frame?.kind === 'arguments' || frame?.kind === 'list' ? frame.valueType : undefined })
+        break
+      case '}':
+      case ')':
+      case ']':
+        stack.pop()
+        if (stack.length === 0) pendingType = undefined
+        break
+    }
+  })
+
+  const frame = top()
+  const prev = tokens[tokens.length - 1]
+  const items: CompletionItem[] = []
+
+  const typeItems = (filter: (type: GraphQLSchema['types'][string]) => boolean) => {
+    Object.values(schema?.types ?? {})
+      .filter((type) => !type.name.startsWith('__') && filter(type))
+      .forEach((type) => items.push({ label: type.name, kind: 'type', detail: type.kind.toLowerCase().replace('_', ' '), description: type.description ?? undefined }))
+  }
+
+  const valueItems = (type?: GraphQLTypeRef) => {
+    const named = type && schema?.types[getNamedType(type)]
+    if (named?.kind === 'ENUM') {
+      named.enumValues?.forEach((value) => items.push({
+        label: value.name,
+        kind: 'enum',
+        detail: named.name,
+        description: value.description ?? undefined,
+        deprecated: value.isDeprecated,
+      }))
+    } else if (named?.name === 'Boolean') {
+      items.push({ label: 'true', kind: 'value', detail: 'Boolean' }, { label: 'false', kind: 'value', detail: 'Boolean' })
+    }
+  }
+
+  const inputItems = (inputs: GraphQLInputValue[], used: string[], kind: CompletionKind) => {
+    inputs
+      .filter((input) => !used.includes(input.name))
+      .forEach((input) => items.push({ label: input.name, kind, detail: printType(input.type), description: input.description ?? undefined }))
+  }
+
+  if (isPunctuator(prev, '$')) {
+    if (frame && frame.kind !== 'variables') variables.forEach((name) => items.push({ label: name, kind: 'variable' }))
+  } else if (isPunctuator(prev, '@')) {
+    const names = new Set(schema?.directives.map((d) => d.name) ?? [])
+    ;['include', 'skip'].forEach((name) => names.add(name))
+    names.forEach((name) => items.push({ label: name, kind: 'directive', description: directive(name)?.description ?? undefined }))
+  } else if (!frame) {
+    if (prev?.kind === 'name' && prev.value === 'on') typeItems(isCompositeType)
+    else if (!prev || isPunctuator(prev, '}')) [...OPERATION_KEYWORDS, 'fragment'].forEach((label) => items.push({ label, kind: 'keyword' }))
+  } else if (frame.kind === 'selection') {
+    if (isPunctuator(prev, '...')) {
+      items.push({ label: 'on', kind: 'keyword' })
+      // Fragments may be defined anywhere in the document
+      const all = tokenize(source, true)
+      all.forEach((token, index) => {
+        if (token.value === 'fragment' && all[index + 1]?.kind === 'name' && all[index + 1].value !== 'on') {
+          items.push({ label: all[index + 1].value, kind: 'fragment' })
+        }
+      })
+    } else if (prev?.kind === 'name' && prev.value === 'on' && isPunctuator(tokens[tokens.length - 2], '...')) {
+      const current = frame.type ? schema?.types[frame.type] : undefined
+      const possible = current?.possibleTypes?.map((t) => t.name)
+      typeItems((type) => isCompositeType(type) && (!possible || type.name === current?.name || possible.includes(type.name)))
+    } else if (frame.type && schema) {
+      getFields(schema, frame.type).forEach((field) => items.push({
+        label: field.name,
+        kind: 'field',
+        detail: printType(field.type),
+        description: field.description ?? undefined,
+        deprecated: field.isDeprecated,
+      }))
+    }
+  } else if (frame.kind === 'arguments') {
+    if (isPunctuator(prev, ':')) valueItems(frame.valueType)
+    else inputItems(frame.inputs, frame.used, 'argument')
+  } else if (frame.kind === 'list') {
+    valueItems(frame.valueType)
+  } else if (frame.kind === 'variables' && (isPunctuator(prev, ':') || isPunctuator(prev, '['))) {
+    typeItems(isInputType)
+  }
+
+  const lower = prefix.toLowerCase()
+  return {
+    from,
+    to,
+    items: items.filter((item) => item.label.toLowerCase().startsWith(lower) && item.label !== prefix),
+  }
+}
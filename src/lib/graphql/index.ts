@@ -0,0 +1,41 @@
+export { tokenize, positionAt, GraphQLSyntaxError } from './lexer'
+export type { Token, TokenKind } from './lexer'
+export { parseDocument, printTypeNode } from './parser'
+export type {
+  DocumentNode,
+  DefinitionNode,
+  OperationDefinitionNode,
+  FragmentDefinitionNode,
+  SelectionSetNode,
+  SelectionNode,
+  FieldNode,
+  ValueNode,
+  TypeNode,
+} from './parser'
+export {
+  INTROSPECTION_QUERY,
+  buildSchema,
+  getNamedType,
+  printType,
+  getFields,
+  getRootType,
+  isCompositeType,
+  isInputType,
+  introspectionRequest,
+  parseIntrospectionResponse,
+} from './schema'
+export type {
+  GraphQLSchema,
+  GraphQLNamedType,
+  GraphQLTypeKind,
+  GraphQLTypeRef,
+  GraphQLField,
+  GraphQLInputValue,
+  GraphQLEnumValue,
+  GraphQLDirective,
+} from './schema'
+export { validateQuery, validateVariables } from './validate'
+export type { GraphQLDiagnostic } from './validate'
+export { getCompletions } from './completion'
+export type { CompletionItem, CompletionKind, CompletionResult } from './completion'
+export { serializeGraphQLBody } from './body'
@@ -0,0 +1,142 @@
+export type TokenKind = 'name' | 'int' | 'float' | 'string' | 'punctuator'
+
+export interface Token {
+  kind: TokenKind
+  value: string // Names and punctuators as written, numbers as written, strings unescaped
+  start: number
+  end: number
+}
+
+export class GraphQLSyntaxError extends Error {
+  constructor(message: string, public start: number, public end = start + 1) {
+    super(message)
+    this.name = 'GraphQLSyntaxError'
+  }
+}
+
+const PUNCTUATORS = '!$&():=@[]{|}'
+const NAME_START = /[_A-Za-z]/
+const NAME_CONTINUE = /[_0-9A-Za-z]/
+const NUMBER = /-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/y
+
+/**
+ * 1-based line and column of an offset, for messages
+ */
+export function positionAt(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset).split(/\r\n|\r|\n/)
+  return { line: before.length, column: before[before.length - 1].length + 1 }
+}
+
+function readString(source: string, start: number): { value: string; end: number } {
+  let value = ''
+  let i = start + 1
+  while (i < source.length) {
+    const char = source[i]
+    if (char === '"') return { value, end: i + 1 }
+    if (char === '\n' || char === '\r') break
+    if (char === '\\') {
+      const escape = source[i + 1]
+      const simple: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }
+      if (escape in simple) {
+        value += simple[escape]
+        i += 2
+        continue
+      }
+      const hex = escape === 'u' ? source.slice(i + 2, i + 6) : ''
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw new GraphQLSyntaxError('Invalid escape sequence in string', i, i + 2)
+      value += String.fromCharCode(parseInt(hex, 16))
+      i += 6
+      continue
+    }
+    value += char
+    i++
+  }
+  throw new GraphQLSyntaxError('Unterminated string', start, i)
+}
+
+// Block strings keep their text as written, minus the common indentation
+function readBlockString(source: string, start: number): { value: string; end: number } {
+  const close = source.indexOf('"""', start + 3)
+  if (close === -1) throw new GraphQLSyntaxError('Unterminated string', start, source.length)
+  const lines = source.slice(start + 3, close).replace(/\\"""/g, '"""').split(/\r\n|\r|\n/)
+  const indents = lines.slice(1).filter((line) => line.trim()).map((line) => line.length - line.trimStart().length)
+  const indent = indents.length ? Math.min(...indents) : 0
+  const trimmed = [lines[0], ...lines.slice(1).map((line) => line.slice(indent))]
+  while (trimmed.length && !trimmed[0].trim()) trimmed.shift()
+  while (trimmed.length && !trimmed[trimmed.length - 1].trim()) trimmed.pop()
+  return { value: trimmed.join('\n'), end: close + 3 }
+}
+
+/**
+ * Split a GraphQL document into tokens, skipping whitespace, commas and comments.
+ * A tolerant lexer stops at an unterminated string and skips characters it does
+ * not know, for documents that are still being typed.
+ */
+export function tokenize(source: string, tolerant = false): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === ',' || char === '\uFEFF') {
+      i++
+      continue
+    }
+    if (char === '#') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++
+      continue
+    }
+
+    if (char === '.') {
+      if (source.startsWith('...', i)) {
+        tokens.push({ kind: 'punctuator', value: '...', start: i, end: i + 3 })
+        i += 3
+        continue
+      }
+    } else if (PUNCTUATORS.includes(char)) {
+      tokens.push({ kind: 'punctuator', value: char, start: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    if (NAME_START.test(char)) {
+      let end = i + 1
+      while (end < source.length && NAME_CONTINUE.test(source[end])) end++
+      tokens.push({ kind: 'name', value: source.slice(i, end), start: i, end })
+      i = end
+      continue
+    }
+
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      NUMBER.lastIndex = i
+      const match = NUMBER.exec(source)
+      if (match) {
+        const end = i + match[0].length
+        if (end < source.length && (NAME_START.test(source[end]) || source[end] === '.')) {
+          if (!tolerant) throw new GraphQLSyntaxError(`Invalid number "${source.slice(i, end + 1)}"`, i, end + 1)
+        }
+        tokens.push({ kind: match[2] || match[3] ? 'float' : 'int', value: match[0], start: i, end })
+        i = end
+        continue
+      }
+    }
+
+    if (char === '"') {
+      try {
+        const { value, end } = source.startsWith('"""', i) ? readBlockString(source, i) : readString(source, i)
+        tokens.push({ kind: 'string', value, start: i, end })
+        i = end
+        continue
+      } catch (error) {
+        if (tolerant) break
+        throw error
+      }
+    }
+
+    if (!tolerant) throw new GraphQLSyntaxError(`Unexpected character "${char}"`, i)
+    i++
+  }
+
+  return tokens
+}
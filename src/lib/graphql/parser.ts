@@ -0,0 +1,312 @@
+import { GraphQLSyntaxError, tokenize, type Token } from './lexer'
+
+// Executable documents only: operations and fragments, as sent in a request body
+
+export interface NameNode {
+  value: string
+  start: number
+  end: number
+}
+
+export type ValueNode = { start: number; end: number } & (
+  | { kind: 'variable'; name: NameNode }
+  | { kind: 'int' | 'float' | 'string' | 'boolean' | 'null' | 'enum'; value: string }
+  | { kind: 'list'; values: ValueNode[] }
+  | { kind: 'object'; fields: ArgumentNode[] }
+)
+
+export interface ArgumentNode {
+  name: NameNode
+  value: ValueNode
+}
+
+export interface DirectiveNode {
+  name: NameNode
+  arguments: ArgumentNode[]
+}
+
+export type TypeNode =
+  | { kind: 'named'; name: NameNode }
+  | { kind: 'list'; type: TypeNode }
+  | { kind: 'nonNull'; type: TypeNode }
+
+export interface VariableDefinitionNode {
+  variable: NameNode
+  type: TypeNode
+  defaultValue?: ValueNode
+}
+
+export interface SelectionSetNode {
+  selections: SelectionNode[]
+  start: number
+  end: number
+}
+
+export interface FieldNode {
+  kind: 'field'
+  alias?: NameNode
+  name: NameNode
+  arguments: ArgumentNode[]
+  directives: DirectiveNode[]
+  selectionSet?: SelectionSetNode
+}
+
+export interface FragmentSpreadNode {
+  kind: 'fragmentSpread'
+  name: NameNode
+  directives: DirectiveNode[]
+}
+
+export interface InlineFragmentNode {
+  kind: 'inlineFragment'
+  typeCondition?: NameNode
+  directives: DirectiveNode[]
+  selectionSet: SelectionSetNode
+}
+
+export type SelectionNode = FieldNode | FragmentSpreadNode | InlineFragmentNode
+
+export type OperationType = 'query' | 'mutation' | 'subscription'
+
+export interface OperationDefinitionNode {
+  kind: 'operation'
+  operation: OperationType
+  name?: NameNode
+  variableDefinitions: VariableDefinitionNode[]
+  directives: DirectiveNode[]
+  selectionSet: SelectionSetNode
+  start: number
+}
+
+export interface FragmentDefinitionNode {
+  kind: 'fragment'
+  name: NameNode
+  typeCondition: NameNode
+  directives: DirectiveNode[]
+  selectionSet: SelectionSetNode
+  start: number
+}
+
+export type DefinitionNode = OperationDefinitionNode | FragmentDefinitionNode
+
+export interface DocumentNode {
+  definitions: DefinitionNode[]
+}
+
+const OPERATION_TYPES: string[] = ['query', 'mutation', 'subscription']
+
+/**
+ * Parse a GraphQL query document. Throws GraphQLSyntaxError with the offending
+ * range on the first error.
+ */
+export function parseDocument(source: string): DocumentNode {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = (offset = 0): Token | undefined => tokens[index + offset]
+  const describe = (token?: Token) => (token ? (token.kind === 'string' ? 'string' : `"${source.slice(token.start, token.end)}"`) : 'end of document')
+
+  const fail = (expected: string): never => {
+    const token = peek()
+    throw new GraphQLSyntaxError(
+      `Expected ${expected}, found ${describe(token)}`,
+      token?.start ?? source.length,
+      token?.end ?? source.length
+    )
+  }
+
+  const isPunctuator = (value: string, offset = 0) => peek(offset)?.kind === 'punctuator' && peek(offset)?.value === value
+  const isName = (value?: string) => peek()?.kind === 'name' && (value === undefined || peek()?.value === value)
+
+  const expectPunctuator = (value: string): Token => {
+    if (!isPunctuator(value)) fail(`"${value}"`)
+    return tokens[index++]
+  }
+
+  const expectName = (what = 'a name'): NameNode => {
+    if (!isName()) fail(what)
+    const token = tokens[index++]
+    return { value: token.value, start: token.start, end: token.end }
+  }
+
+  const parseValue = (isConst: boolean): ValueNode => {
+    const token = peek()
+    if (!token) return fail('a value')
+
+    if (token.kind === 'punctuator') {
+      if (token.value === '$' && !isConst) {
+        index++
+        const name = expectName('a variable name')
+        return { kind: 'variable', name, start: token.start, end: name.end }
+      }
+      if (token.value === '[') {
+        index++
+        const values: ValueNode[] = []
+        while (!isPunctuator(']')) values.push(parseValue(isConst))
+        return { kind: 'list', values, start: token.start, end: expectPunctuator(']').end }
+      }
+      if (token.value === '{') {
+        index++
+        const fields: ArgumentNode[] = []
+        while (!isPunctuator('}')) {
+          const name = expectName('a field name')
+          expectPunctuator(':')
+          fields.push({ name, value: parseValue(isConst) })
+        }
+        return { kind: 'object', fields, start: token.start, end: expectPunctuator('}').end }
+      }
+      return fail('a value')
+    }
+
+    index++
+    if (token.kind === 'name') {
+      const kind = token.value === 'true' || token.value === 'false' ? 'boolean' : token.value === 'null' ? 'null' : 'enum'
+      return { kind, value: token.value, start: token.start, end: token.end }
+    }
+    return { kind: token.kind, value: token.value, start: token.start, end: token.end }
+  }
+
+  const parseArguments = (isConst: boolean): ArgumentNode[] => {
+    if (!isPunctuator('(')) return []
+    index++
+    const args: ArgumentNode[] = []
+    do {
+      const name = expectName('an argument name')
+      expectPunctuator(':')
+      args.push({ name, value: parseValue(isConst) })
+    } while (!isPunctuator(')'))
+    index++
+    return args
+  }
+
+  const parseDirectives = (isConst: boolean): DirectiveNode[] => {
+    const directives: DirectiveNode[] = []
+    while (isPunctuator('@')) {
+      index++
+      directives.push({ name: expectName('a directive name'), arguments: parseArguments(isConst) })
+    }
+    return directives
+  }
+
+  const parseType = (): TypeNode => {
+    let type: TypeNode
+    if (isPunctuator('[')) {
+      index++
+      const ofType = parseType()
+      expectPunctuator(']')
+      type = { kind: 'list', type: ofType }
+    } else {
+      type = { kind: 'named', name: expectName('a type') }
+    }
+    if (isPunctuator('!')) {
+      index++
+      return { kind: 'nonNull', type }
+    }
+    return type
+  }
+
+  const parseSelectionSet = (): SelectionSetNode => {
+    const open = expectPunctuator('{')
+    const selections: SelectionNode[] = []
+    do {
+      selections.push(parseSelection())
+    } while (!isPunctuator('}'))
+    return { selections, start: open.start, end: tokens[index++].end }
+  }
+
+  const parseSelection = (): SelectionNode => {
+    if (isPunctuator('...')) {
+      index++
+      if (isName() && !isName('on')) {
+        return { kind: 'fragmentSpread', name: expectName(), directives: parseDirectives(false) }
+      }
+      let typeCondition: NameNode | undefined
+      if (isName('on')) {
+        index++
+        typeCondition = expectName('a type')
+      }
+      return { kind: 'inlineFragment', typeCondition, directives: parseDirectives(false), selectionSet: parseSelectionSet() }
+    }
+
+    let name = expectName('a field')
+    let alias: NameNode | undefined
+    if (isPunctuator(':')) {
+      index++
+      alias = name
+      name = expectName('a field')
+    }
+    return {
+      kind: 'field',
+      alias,
+      name,
+      arguments: parseArguments(false),
+      directives: parseDirectives(false),
+      selectionSet: isPunctuator('{') ? parseSelectionSet() : undefined,
+    }
+  }
+
+  const parseVariableDefinitions = (): VariableDefinitionNode[] => {
+    if (!isPunctuator('(')) return []
+    index++
+    const definitions: VariableDefinitionNode[] = []
+    do {
+      expectPunctuator('$')
+      const variable = expectName('a variable name')
+      expectPunctuator(':')
+      const type = parseType()
+      let defaultValue: ValueNode | undefined
+      if (isPunctuator('=')) {
+        index++
+        defaultValue = parseValue(true)
+      }
+      parseDirectives(true)
+      definitions.push({ variable, type, defaultValue })
+    } while (!isPunctuator(')'))
+    index++
+    return definitions
+  }
+
+  const parseDefinition = (): DefinitionNode => {
+    const start = peek()!.start
+    if (isPunctuator('{')) {
+      return { kind: 'operation', operation: 'query', variableDefinitions: [], directives: [], selectionSet: parseSelectionSet(), start }
+    }
+    if (isName('fragment')) {
+      index++
+      const name = expectName('a fragment name')
+      if (name.value === 'on') throw new GraphQLSyntaxError('A fragment cannot be named "on"', name.start, name.end)
+      if (!isName('on')) fail('"on"')
+      index++
+      const typeCondition = expectName('a type')
+      return { kind: 'fragment', name, typeCondition, directives: parseDirectives(false), selectionSet: parseSelectionSet(), start }
+    }
+    if (isName() && OPERATION_TYPES.includes(peek()!.value)) {
+      const operation = tokens[index++].value as OperationType
+      const name = isName() ? expectName() : undefined
+      return {
+        kind: 'operation',
+        operation,
+        name,
+        variableDefinitions: parseVariableDefinitions(),
+        directives: parseDirectives(false),
+        selectionSet: parseSelectionSet(),
+        start,
+      }
+    }
+    return fail('"query", "mutation", "subscription", "fragment" or "{"')
+  }
+
+  const definitions: DefinitionNode[] = []
+  while (index < tokens.length) definitions.push(parseDefinition())
+  if (definitions.length === 0) throw new GraphQLSyntaxError('The query is empty', 0, 0)
+  return { definitions }
+}
+
+/**
+ * Text of a type reference as written, e.g. [ID!]!
+ */
+export function printTypeNode(type: TypeNode): string {
+  if (type.kind === 'nonNull') return `${printTypeNode(type.type)}!`
+  if (type.kind === 'list') return `[${printTypeNode(type.type)}]`
+  return type.name.value
+}
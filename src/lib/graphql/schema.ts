@@ -0,0 +1,308 @@
+import type { ApiRequest, ApiResponse } from '@/types'
+
+// A schema as the server describes it through introspection
+
+export type GraphQLTypeKind = 'SCALAR' | 'OBJECT' | 'INTERFACE' | 'UNION' | 'ENUM' | 'INPUT_OBJECT'
+
+export interface GraphQLTypeRef {
+  kind: GraphQLTypeKind | 'LIST' | 'NON_NULL'
+  name?: string | null
+  ofType?: GraphQLTypeRef | null
+}
+
+export interface GraphQLInputValue {
+  name: string
+  description?: string | null
+  type: GraphQLTypeRef
+  defaultValue?: string | null // As GraphQL source text
+}
+
+export interface GraphQLField {
+  name: string
+  description?: string | null
+  args: GraphQLInputValue[]
+  type: GraphQLTypeRef
+  isDeprecated?: boolean
+  deprecationReason?: string | null
+}
+
+export interface GraphQLEnumValue {
+  name: string
+  description?: string | null
+  isDeprecated?: boolean
+  deprecationReason?: string | null
+}
+
+export interface GraphQLNamedType {
+  kind: GraphQLTypeKind
+  name: string
+  description?: string | null
+  fields?: GraphQLField[] | null // Objects and interfaces
+  inputFields?: GraphQLInputValue[] | null // Input objects
+  interfaces?: GraphQLTypeRef[] | null
+  possibleTypes?: GraphQLTypeRef[] | null // Interfaces and unions
+  enumValues?: GraphQLEnumValue[] | null
+}
+
+export interface GraphQLDirective {
+  name: string
+  description?: string | null
+  args: GraphQLInputValue[]
+}
+
+export interface GraphQLSchema {
+  queryType?: string
+  mutationType?: string
+  subscriptionType?: string
+  types: Record<string, GraphQLNamedType>
+  directives: GraphQLDirective[]
+}
+
+export const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types { ...FullType }
+    directives { name description args { ...InputValue } }
+  }
+}
+
+fragment FullType on __Type {
+  kind
+  name
+  description
+  fields(includeDeprecated: true) {
+    name
+    description
+    args { ...InputValue }
+    type { ...TypeRef }
+    isDeprecated
+    deprecationReason
+  }
+  inputFields { ...InputValue }
+  interfaces { ...TypeRef }
+  enumValues(includeDeprecated: true) { name description isDeprecated deprecationReason }
+  possibleTypes { ...TypeRef }
+}
+
+fragment InputValue on __InputValue {
+  name
+  description
+  type { ...TypeRef }
+  defaultValue
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } } }
+}`
+
+// Fields every object has, or the query root has, without listing them
+const TYPENAME_FIELD: GraphQLField = {
+  name: '__typename',
+  description: 'The name of the object type',
+  args: [],
+  type: { kind: 'NON_NULL', ofType: { kind: 'SCALAR', name: 'String' } },
+}
+const ROOT_META_FIELDS: GraphQLField[] = [
+  { name: '__schema', description: 'The schema of this server', args: [], type: { kind: 'NON_NULL', ofType: { kind: 'OBJECT', name: '__Schema' } } },
+  {
+    name: '__type',
+    description: 'A type of this server by name',
+    args: [{ name: 'name', type: { kind: 'NON_NULL', ofType: { kind: 'SCALAR', name: 'String' } } }],
+    type: { kind: 'OBJECT', name: '__Type' },
+  },
+]
+
+// The introspection types, for servers whose introspection result leaves them out
+const ref = (name: string, kind: GraphQLTypeRef['kind'] = 'OBJECT'): GraphQLTypeRef => ({ kind, name })
+const nonNull = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({ kind: 'NON_NULL', ofType })
+const listOf = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({ kind: 'LIST', ofType })
+const STRING = ref('String', 'SCALAR')
+const BOOLEAN = ref('Boolean', 'SCALAR')
+const INCLUDE_DEPRECATED: GraphQLInputValue[] = [{ name: 'includeDeprecated', type: BOOLEAN, defaultValue: 'false' }]
+const metaField = (name: string, type: GraphQLTypeRef, args: GraphQLInputValue[] = []): GraphQLField => ({ name, args, type })
+const metaObject = (name: string, fields: GraphQLField[]): GraphQLNamedType => ({ kind: 'OBJECT', name, fields, interfaces: [] })
+const metaEnum = (name: string, values: string[]): GraphQLNamedType => ({
+  kind: 'ENUM',
+  name,
+  enumValues: values.map((value) => ({ name: value })),
+})
+
+const INTROSPECTION_TYPES: GraphQLNamedType[] = [
+  { kind: 'SCALAR', name: 'String' },
+  { kind: 'SCALAR', name: 'Boolean' },
+  metaObject('__Schema', [
+    metaField('description', STRING),
+    metaField('types', nonNull(listOf(nonNull(ref('__Type'))))),
+    metaField('queryType', nonNull(ref('__Type'))),
+    metaField('mutationType', ref('__Type')),
+    metaField('subscriptionType', ref('__Type')),
+    metaField('directives', nonNull(listOf(nonNull(ref('__Directive'))))),
+  ]),
+  metaObject('__Type', [
+    metaField('kind', nonNull(ref('__TypeKind', 'ENUM'))),
+    metaField('name', STRING),
+    metaField('description', STRING),
+    metaField('specifiedByURL', STRING),
+    metaField('fields', listOf(nonNull(ref('__Field'))), INCLUDE_DEPRECATED),
+    metaField('interfaces', listOf(nonNull(ref('__Type')))),
+    metaField('possibleTypes', listOf(nonNull(ref('__Type')))),
+    metaField('enumValues', listOf(nonNull(ref('__EnumValue'))), INCLUDE_DEPRECATED),
+    metaField('inputFields', listOf(nonNull(ref('__InputValue'))), INCLUDE_DEPRECATED),
+    metaField('ofType', ref('__Type')),
+  ]),
+  metaObject('__Field', [
+    metaField('name', nonNull(STRING)),
+    metaField('description', STRING),
+    metaField('args', nonNull(listOf(nonNull(ref('__InputValue')))), INCLUDE_DEPRECATED),
+    metaField('type', nonNull(ref('__Type'))),
+    metaField('isDeprecated', nonNull(BOOLEAN)),
+    metaField('deprecationReason', STRING),
+  ]),
+  metaObject('__InputValue', [
+    metaField('name', nonNull(STRING)),
+    metaField('description', STRING),
+    metaField('type', nonNull(ref('__Type'))),
+    metaField('defaultValue', STRING),
+    metaField('isDeprecated', nonNull(BOOLEAN)),
+    metaField('deprecationReason', STRING),
+  ]),
+  metaObject('__EnumValue', [
+    metaField('name', nonNull(STRING)),
+    metaField('description', STRING),
+    metaField('isDeprecated', nonNull(BOOLEAN)),
+    metaField('deprecationReason', STRING),
+  ]),
+  metaObject('__Directive', [
+    metaField('name', nonNull(STRING)),
+    metaField('description', STRING),
+    metaField('isRepeatable', nonNull(BOOLEAN)),
+    metaField('locations', nonNull(listOf(nonNull(ref('__DirectiveLocation', 'ENUM'))))),
+    metaField('args', nonNull(listOf(nonNull(ref('__InputValue')))), INCLUDE_DEPRECATED),
+  ]),
+  metaEnum('__TypeKind', ['SCALAR', 'OBJECT', 'INTERFACE', 'UNION', 'ENUM', 'INPUT_OBJECT', 'LIST', 'NON_NULL']),
+  metaEnum('__DirectiveLocation', [
+    'QUERY', 'MUTATION', 'SUBSCRIPTION', 'FIELD', 'FRAGMENT_DEFINITION', 'FRAGMENT_SPREAD', 'INLINE_FRAGMENT',
+    'VARIABLE_DEFINITION', 'SCHEMA', 'SCALAR', 'OBJECT', 'FIELD_DEFINITION', 'ARGUMENT_DEFINITION', 'INTERFACE',
+    'UNION', 'ENUM', 'ENUM_VALUE', 'INPUT_OBJECT', 'INPUT_FIELD_DEFINITION',
+  ]),
+]
+
+/**
+ * Build a schema from an introspection result, either the whole response
+ * ({ data: { __schema } }) or its data. The introspection types are added when
+ * the server leaves them out, so introspection queries can be checked too.
+ */
+export function buildSchema(result: unknown): GraphQLSchema {
+  const root = result as { data?: { __schema?: unknown }; __schema?: unknown } | null
+  const schema = (root?.data?.__schema ?? root?.__schema) as {
+    queryType?: { name: string } | null
+    mutationType?: { name: string } | null
+    subscriptionType?: { name: string } | null
+    types?: GraphQLNamedType[]
+    directives?: GraphQLDirective[]
+  } | undefined
+  if (!schema || !Array.isArray(schema.types)) {
+    throw new Error('The response is not an introspection result')
+  }
+
+  const types = Object.fromEntries(schema.types.map((type) => [type.name, type]))
+  INTROSPECTION_TYPES.forEach((type) => {
+    types[type.name] ??= type
+  })
+
+  return {
+    queryType: schema.queryType?.name,
+    mutationType: schema.mutationType?.name ?? undefined,
+    subscriptionType: schema.subscriptionType?.name ?? undefined,
+    types,
+    directives: schema.directives ?? [],
+  }
+}
+
+/**
+ * Name of the type under any list and non-null wrappers
+ */
+export function getNamedType(type: GraphQLTypeRef): string {
+  let current: GraphQLTypeRef | null | undefined = type
+  while (current && !current.name) current = current.ofType
+  return current?.name ?? ''
+}
+
+/**
+ * GraphQL notation for a type reference, e.g. [User!]!
+ */
+export function printType(type: GraphQLTypeRef): string {
+  if (type.kind === 'NON_NULL') return `${type.ofType ? printType(type.ofType) : ''}!`
+  if (type.kind === 'LIST') return `[${type.ofType ? printType(type.ofType) : ''}]`
+  return type.name ?? ''
+}
+
+/**
+ * Whether a type has fields to select: objects, interfaces and unions
+ */
+export function isCompositeType(type: GraphQLNamedType | undefined): boolean {
+  return type?.kind === 'OBJECT' || type?.kind === 'INTERFACE' || type?.kind === 'UNION'
+}
+
+/**
+ * Whether a type can be used for variables and arguments
+ */
+export function isInputType(type: GraphQLNamedType | undefined): boolean {
+  return type?.kind === 'SCALAR' || type?.kind === 'ENUM' || type?.kind === 'INPUT_OBJECT'
+}
+
+/**
+ * Fields that can be selected on a type, including __typename, and the
+ * introspection fields on the query root
+ */
+export function getFields(schema: GraphQLSchema, typeName: string): GraphQLField[] {
+  const type = schema.types[typeName]
+  if (!isCompositeType(type)) return []
+  const fields = [...(type.fields ?? []), TYPENAME_FIELD]
+  return typeName === schema.queryType ? [...fields, ...ROOT_META_FIELDS] : fields
+}
+
+export function getRootType(schema: GraphQLSchema, operation: 'query' | 'mutation' | 'subscription'): string | undefined {
+  return operation === 'query' ? schema.queryType : operation === 'mutation' ? schema.mutationType : schema.subscriptionType
+}
+
+/**
+ * The request that asks the server for its schema: the same URL, headers and
+ * auth as the GraphQL request, with the introspection query as its body.
+ * Scripts, extractors and assertions are left out.
+ */
+export function introspectionRequest(request: ApiRequest): ApiRequest {
+  return {
+    ...request,
+    method: 'POST',
+    body: { type: 'graphql', graphql: { query: INTROSPECTION_QUERY } },
+    preRequestScript: undefined,
+    testScript: undefined,
+    extractors: [],
+    assertions: [],
+  }
+}
+
+/**
+ * Build the schema from the introspection response, or throw with why it failed
+ */
+export function parseIntrospectionResponse(response: ApiResponse): GraphQLSchema {
+  let result: { data?: unknown; errors?: { message?: string }[] }
+  try {
+    result = JSON.parse(response.body)
+  } catch {
+    throw new Error(`The server did not answer with JSON (HTTP ${response.status})`)
+  }
+
+  if (!result?.data && result?.errors?.length) {
+    throw new Error(`Introspection failed: ${result.errors.map((e) => e.message).join('; ')}`)
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Introspection failed with HTTP ${response.status} ${response.statusText}`.trim())
+  }
+  return buildSchema(result)
+}
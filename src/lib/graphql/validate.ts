@@ -0,0 +1,440 @@
+import { GraphQLSyntaxError } from './lexer'
+import {
+  parseDocument,
+  printTypeNode,
+  type DirectiveNode,
+  type DocumentNode,
+  type FragmentDefinitionNode,
+  type NameNode,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+  type TypeNode,
+  type ValueNode,
+} from './parser'
+import {
+  getFields,
+  getNamedType,
+  getRootType,
+  isCompositeType,
+  isInputType,
+  printType,
+  type GraphQLInputValue,
+  type GraphQLSchema,
+  type GraphQLTypeRef,
+} from './schema'
+
+// Written against our own parser and introspection-shaped schema rather than the graphql package,
+// so diagnostics line up with the tolerant parse completion uses and no parser ships twice
+
+export interface GraphQLDiagnostic {
+  message: string
+  start: number // Offsets into the checked text
+  end: number
+  severity: 'error' | 'warning'
+}
+
+// Used by every server, so they are known even when introspection leaves them out
+const BUILT_IN_DIRECTIVES: GraphQLSchema['directives'] = [
+  { name: 'include', args: [{ name: 'if', type: { kind: 'NON_NULL', ofType: { kind: 'SCALAR', name: 'Boolean' } } }] },
+  { name: 'skip', args: [{ name: 'if', type: { kind: 'NON_NULL', ofType: { kind: 'SCALAR', name: 'Boolean' } } }] },
+]
+
+const isRequired = (input: GraphQLInputValue) => input.type.kind === 'NON_NULL' && input.defaultValue == null
+
+function typeNodeToRef(type: TypeNode, schema?: GraphQLSchema): GraphQLTypeRef {
+  if (type.kind === 'nonNull') return { kind: 'NON_NULL', ofType: typeNodeToRef(type.type, schema) }
+  if (type.kind === 'list') return { kind: 'LIST', ofType: typeNodeToRef(type.type, schema) }
+  return { kind: schema?.types[type.name.value]?.kind ?? 'SCALAR', name: type.name.value }
+}
+
+/**
+ * Variables each operation uses, following fragment spreads
+ */
+function collectVariableUsages(
+  selectionSet: SelectionSetNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+  visited = new Set<string>()
+): NameNode[] {
+  const usages: NameNode[] = []
+  const visitValue = (value: ValueNode) => {
+    if (value.kind === 'variable') usages.push(value.name)
+    else if (value.kind === 'list') value.values.forEach(visitValue)
+    else if (value.kind === 'object') value.fields.forEach((field) => visitValue(field.value))
+  }
+  const visitDirectives = (directives: DirectiveNode[]) => directives.forEach((d) => d.arguments.forEach((a) => visitValue(a.value)))
+
+  selectionSet.selections.forEach((selection) => {
+    visitDirectives(selection.directives)
+    if (selection.kind === 'field') {
+      selection.arguments.forEach((a) => visitValue(a.value))
+      if (selection.selectionSet) usages.push(...collectVariableUsages(selection.selectionSet, fragments, visited))
+    } else if (selection.kind === 'inlineFragment') {
+      usages.push(...collectVariableUsages(selection.selectionSet, fragments, visited))
+    } else {
+      const fragment = fragments.get(selection.name.value)
+      if (fragment && !visited.has(fragment.name.value)) {
+        visited.add(fragment.name.value)
+        usages.push(...collectVariableUsages(fragment.selectionSet, fragments, visited))
+      }
+    }
+  })
+  return usages
+}
+
+/**
+ * Check a query: its syntax, and with a schema, that its fields, arguments,
+ * types and literal values exist and fit. Returns nothing for a valid query.
+ */
+export function validateQuery(source: string, schema?: GraphQLSchema): GraphQLDiagnostic[] {
+  let document: DocumentNode
+  try {
+    document = parseDocument(source)
+  } catch (error) {
+    if (error instanceof GraphQLSyntaxError) {
+      return [{ message: error.message, start: error.start, end: error.end, severity: 'error' }]
+    }
+    throw error
+  }
+
+  const diagnostics: GraphQLDiagnostic[] = []
+  const report = (message: string, node: { start: number; end: number }, severity: GraphQLDiagnostic['severity'] = 'error') => {
+    diagnostics.push({ message, start: node.start, end: node.end, severity })
+  }
+
+  const operations = document.definitions.filter((d): d is OperationDefinitionNode => d.kind === 'operation')
+  const fragments = new Map<string, FragmentDefinitionNode>()
+
+  document.definitions.forEach((definition) => {
+    if (definition.kind !== 'fragment') return
+    if (fragments.has(definition.name.value)) report(`There can be only one fragment named "${definition.name.value}"`, definition.name)
+    fragments.set(definition.name.value, definition)
+  })
+
+  const operationNames = new Set<string>()
+  operations.forEach((operation) => {
+    if (!operation.name) {
+      if (operations.length > 1) {
+        report('This anonymous operation must be the only defined operation', { start: operation.start, end: operation.start + 1 })
+      }
+      return
+    }
+    if (operationNames.has(operation.name.value)) report(`There can be only one operation named "${operation.name.value}"`, operation.name)
+    operationNames.add(operation.name.value)
+  })
+
+  operations.forEach((operation) => {
+    const defined = new Set(operation.variableDefinitions.map((d) => d.variable.value))
+    const usages = collectVariableUsages(operation.selectionSet, fragments)
+    operation.directives.forEach((d) => d.arguments.forEach((a) => {
+      if (a.value.kind === 'variable') usages.push(a.value.name)
+    }))
+    usages.forEach((usage) => {
+      if (!defined.has(usage.value)) report(`Variable "$${usage.value}" is not defined`, usage)
+    })
+    const used = new Set(usages.map((usage) => usage.value))
+    operation.variableDefinitions.forEach((definition) => {
+      if (!used.has(definition.variable.value)) report(`Variable "$${definition.variable.value}" is never used`, definition.variable, 'warning')
+    })
+  })
+
+  const checkSpreads = (selectionSet: SelectionSetNode) => {
+    selectionSet.selections.forEach((selection) => {
+      if (selection.kind === 'fragmentSpread') {
+        if (!fragments.has(selection.name.value)) report(`Unknown fragment "${selection.name.value}"`, selection.name)
+      } else if (selection.selectionSet) {
+        checkSpreads(selection.selectionSet)
+      }
+    })
+  }
+  document.definitions.forEach((definition) => checkSpreads(definition.selectionSet))
+
+  if (schema) {
+    diagnostics.push(...validateAgainstSchema(document, schema, source))
+  }
+
+  return diagnostics.sort((a, b) => a.start - b.start)
+}
+
+function validateAgainstSchema(document: DocumentNode, schema: GraphQLSchema, source: string): GraphQLDiagnostic[] {
+  const diagnostics: GraphQLDiagnostic[] = []
+  const report = (message: string, node: { start: number; end: number }, severity: GraphQLDiagnostic['severity'] = 'error') => {
+    diagnostics.push({ message, start: node.start, end: node.end, severity })
+  }
+  const directives = [...BUILT_IN_DIRECTIVES.filter((b) => !schema.directives.some((d) => d.name === b.name)), ...schema.directives]
+
+  const checkValue = (value: ValueNode, type: GraphQLTypeRef): void => {
+    const found = () => report(`Expected a value of type "${printType(type)}", found ${source.slice(value.start, value.end)}`, value)
+    if (value.kind === 'variable') return
+    if (type.kind === 'NON_NULL') {
+      if (value.kind === 'null') return found()
+      if (type.ofType) checkValue(value, type.ofType)
+      return
+    }
+    if (value.kind === 'null') return
+    if (type.kind === 'LIST') {
+      const itemType = type.ofType
+      if (!itemType) return
+      // A single value counts as a list of one
+      if (value.kind === 'list') value.values.forEach((item) => checkValue(item, itemType))
+      else checkValue(value, itemType)
+      return
+    }
+
+    const named = schema.types[type.name ?? '']
+    if (!named) return
+    if (named.kind === 'ENUM') {
+      if (value.kind !== 'enum' || !named.enumValues?.some((e) => e.name === value.value)) found()
+    } else if (named.kind === 'INPUT_OBJECT') {
+      if (value.kind !== 'object') return found()
+      const inputFields = named.inputFields ?? []
+      value.fields.forEach((field) => {
+        const definition = inputFields.find((f) => f.name === field.name.value)
+        if (!definition) report(`Field "${field.name.value}" is not defined by type "${named.name}"`, field.name)
+        else checkValue(field.value, definition.type)
+      })
+      inputFields.filter(isRequired).forEach((definition) => {
+        if (!value.fields.some((f) => f.name.value === definition.name)) {
+          report(`Field "${named.name}.${definition.name}" of type "${printType(definition.type)}" is required`, value)
+        }
+      })
+    } else if (named.kind === 'SCALAR') {
+      const accepted: Record<string, ValueNode['kind'][]> = {
+        Int: ['int'],
+        Float: ['int', 'float'],
+        String: ['string'],
+        Boolean: ['boolean'],
+        ID: ['string', 'int'],
+      }
+      if (accepted[named.name] && !accepted[named.name].includes(value.kind)) found()
+    }
+  }
+
+  const checkArguments = (
+    args: { name: NameNode; value: ValueNode }[],
+    definitions: GraphQLInputValue[],
+    owner: string,
+    node: NameNode
+  ) => {
+    args.forEach((arg) => {
+      const definition = definitions.find((d) => d.name === arg.name.value)
+      if (!definition) report(`Unknown argument "${arg.name.value}" on ${owner}`, arg.name)
+      else checkValue(arg.value, definition.type)
+    })
+    definitions.filter(isRequired).forEach((definition) => {
+      if (!args.some((arg) => arg.name.value === definition.name)) {
+        report(`Argument "${definition.name}" of type "${printType(definition.type)}" is required on ${owner}`, node)
+      }
+    })
+  }
+
+  const checkDirectives = (nodes: DirectiveNode[]) => {
+    nodes.forEach((node) => {
+      const definition = directives.find((d) => d.name === node.name.value)
+      if (!definition) report(`Unknown directive "@${node.name.value}"`, node.name)
+      else checkArguments(node.arguments, definition.args, `directive "@${node.name.value}"`, node.name)
+    })
+  }
+
+  // Type of a fragment's condition, if it names a type fields can be selected on
+  const checkTypeCondition = (condition: NameNode): string | undefined => {
+    const type = schema.types[condition.value]
+    if (!type) report(`Unknown type "${condition.value}"`, condition)
+    else if (!isCompositeType(type)) report(`Fragment cannot condition on non composite type "${condition.value}"`, condition)
+    else return condition.value
+  }
+
+  const visitSelectionSet = (selectionSet: SelectionSetNode, typeName: string) => {
+    selectionSet.selections.forEach((selection) => {
+      checkDirectives(selection.directives)
+
+      if (selection.kind === 'inlineFragment') {
+        const condition = selection.typeCondition ? checkTypeCondition(selection.typeCondition) : typeName
+        if (condition) visitSelectionSet(selection.selectionSet, condition)
+        return
+      }
+      if (selection.kind === 'fragmentSpread') return
+
+      const field = getFields(schema, typeName).find((f) => f.name === selection.name.value)
+      if (!field) {
+        const hint = schema.types[typeName]?.kind === 'UNION' ? '. Select its fields in an inline fragment, e.g. "... on Type"' : ''
+        report(`Cannot query field "${selection.name.value}" on type "${typeName}"${hint}`, selection.name)
+        return
+      }
+      if (field.isDeprecated) {
+        const reason = field.deprecationReason ? `: ${field.deprecationReason}` : ''
+        report(`The field "${typeName}.${field.name}" is deprecated${reason}`, selection.name, 'warning')
+      }
+      checkArguments(selection.arguments, field.args, `field "${typeName}.${field.name}"`, selection.name)
+
+      const fieldType = getNamedType(field.type)
+      const composite = isCompositeType(schema.types[fieldType])
+      if (composite && !selection.selectionSet) {
+        report(`Field "${field.name}" of type "${printType(field.type)}" must have a selection of subfields`, selection.name)
+      } else if (!composite && selection.selectionSet) {
+        report(`Field "${field.name}" must not have a selection since type "${printType(field.type)}" has no subfields`, selection.name)
+      } else if (selection.selectionSet) {
+        visitSelectionSet(selection.selectionSet, fieldType)
+      }
+    })
+  }
+
+  document.definitions.forEach((definition) => {
+    checkDirectives(definition.directives)
+
+    if (definition.kind === 'fragment') {
+      const condition = checkTypeCondition(definition.typeCondition)
+      if (condition) visitSelectionSet(definition.selectionSet, condition)
+      return
+    }
+
+    definition.variableDefinitions.forEach((variable) => {
+      const typeName = printTypeNode(variable.type).replace(/[[\]!]/g, '')
+      const type = schema.types[typeName]
+      const node = { start: variable.variable.start - 1, end: variable.variable.end }
+      if (!type) report(`Unknown type "${typeName}"`, node)
+      else if (!isInputType(type)) report(`Variable "$${variable.variable.value}" cannot be of non-input type "${typeName}"`, node)
+      else if (variable.defaultValue) checkValue(variable.defaultValue, typeNodeToRef(variable.type, schema))
+    })
+
+    const root = getRootType(schema, definition.operation)
+    if (!root) {
+      report(`The schema does not support ${definition.operation}s`, { start: definition.start, end: definition.start + definition.operation.length })
+      return
+    }
+    visitSelectionSet(definition.selectionSet, root)
+  })
+
+  return diagnostics
+}
+
+// Stands in for {{variables}}, which are only filled in when the request is sent
+const PLACEHOLDER = '\u0000placeholder'
+
+function replacePlaceholders(text: string): string {
+  let result = ''
+  let inString = false
+  for (let i = 0; i < text.length; i++) {
+    const match = text[i] === '{' ? /^\{\{[^{}]*\}\}/.exec(text.slice(i)) : null
+    if (match) {
+      result += inString ? '\\u0000placeholder' : JSON.stringify(PLACEHOLDER)
+      i += match[0].length - 1
+      continue
+    }
+    if (text[i] === '"') inString = !inString
+    else if (text[i] === '\\' && inString) result += text[i++]
+    result += text[i]
+  }
+  return result
+}
+
+/**
+ * Check the variables JSON for a query: that it is an object, has every
+ * required variable, and with a schema, that values fit their types.
+ * {{placeholders}} are accepted anywhere a value or text can go.
+ */
+export function validateVariables(variablesText: string, query: string, schema?: GraphQLSchema): GraphQLDiagnostic[] {
+  const whole = { start: 0, end: variablesText.length }
+  let variables: unknown = {}
+  if (variablesText.trim()) {
+    try {
+      variables = JSON.parse(replacePlaceholders(variablesText))
+    } catch (error) {
+      return [{ message: `Variables are not valid JSON: ${error instanceof Error ? error.message : error}`, ...whole, severity: 'error' }]
+    }
+  }
+  if (variables === null || typeof variables !== 'object' || Array.isArray(variables)) {
+    return [{ message: 'Variables must be a JSON object', ...whole, severity: 'error' }]
+  }
+
+  // Only a single operation says which variables are expected
+  let operation: OperationDefinitionNode | undefined
+  try {
+    const operations = parseDocument(query).definitions.filter((d): d is OperationDefinitionNode => d.kind === 'operation')
+    if (operations.length === 1) operation = operations[0]
+  } catch {
+    // The query editor shows syntax errors
+  }
+  if (!operation) return []
+
+  const diagnostics: GraphQLDiagnostic[] = []
+  const values = variables as Record<string, unknown>
+  const keyRange = (key: string) => {
+    const start = variablesText.indexOf(JSON.stringify(key))
+    return start === -1 ? { start: 0, end: 0 } : { start, end: start + JSON.stringify(key).length }
+  }
+
+  Object.keys(values).forEach((key) => {
+    if (!operation.variableDefinitions.some((d) => d.variable.value === key)) {
+      diagnostics.push({ message: `Variable "$${key}" is not defined by the operation`, ...keyRange(key), severity: 'warning' })
+    }
+  })
+
+  operation.variableDefinitions.forEach((definition) => {
+    const name = definition.variable.value
+    const type = typeNodeToRef(definition.type, schema)
+    if (!(name in values)) {
+      if (type.kind === 'NON_NULL' && !definition.defaultValue) {
+        diagnostics.push({ message: `Variable "$${name}" of type "${printTypeNode(definition.type)}" is required`, ...whole, severity: 'error' })
+      }
+      return
+    }
+    if (schema) {
+      checkJsonValue(values[name], type, schema).forEach((problem) => {
+        diagnostics.push({ message: `Variable "$${name}"${problem}`, ...keyRange(name), severity: 'error' })
+      })
+    }
+  })
+
+  return diagnostics
+}
+
+// Problems with a JSON value for an input type, each worded to follow the variable name
+function checkJsonValue(value: unknown, type: GraphQLTypeRef, schema: GraphQLSchema, path = ''): string[] {
+  const found = () => [`${path} expected a value of type "${printType(type)}", found ${JSON.stringify(value)}`]
+  if (typeof value === 'string' && value.includes(PLACEHOLDER)) return []
+
+  if (type.kind === 'NON_NULL') {
+    if (value === null) return found()
+    return type.ofType ? checkJsonValue(value, type.ofType, schema, path) : []
+  }
+  if (value === null) return []
+  if (type.kind === 'LIST') {
+    const itemType = type.ofType
+    if (!itemType) return []
+    if (!Array.isArray(value)) return checkJsonValue(value, itemType, schema, path)
+    return value.flatMap((item, index) => checkJsonValue(item, itemType, schema, `${path}[${index}]`))
+  }
+
+  const named = schema.types[type.name ?? '']
+  if (!named) return []
+  switch (named.kind) {
+    case 'ENUM':
+      return typeof value === 'string' && named.enumValues?.some((e) => e.name === value) ? [] : found()
+    case 'INPUT_OBJECT': {
+      if (typeof value !== 'object' || Array.isArray(value)) return found()
+      const record = value as Record<string, unknown>
+      const inputFields = named.inputFields ?? []
+      return [
+        ...Object.keys(record).flatMap((key) => {
+          const definition = inputFields.find((f) => f.name === key)
+          return definition
+            ? checkJsonValue(record[key], definition.type, schema, `${path}.${key}`)
+            : [`${path} has field "${key}", which type "${named.name}" does not define`]
+        }),
+        ...inputFields.filter((f) => isRequired(f) && !(f.name in record)).map((f) => `${path} is missing required field "${f.name}"`),
+      ]
+    }
+    case 'SCALAR': {
+      const valid: Record<string, (v: unknown) => boolean> = {
+        Int: (v) => Number.isInteger(v),
+        Float: (v) => typeof v === 'number',
+        String: (v) => typeof v === 'string',
+        Boolean: (v) => typeof v === 'boolean',
+        ID: (v) => typeof v === 'string' || Number.isInteger(v),
+      }
+      return valid[named.name] && !valid[named.name](value) ? found() : []
+    }
+    default:
+      return []
+  }
+}
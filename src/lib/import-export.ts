@@ -1,4 +1,6 @@
-import type { Collection, ApiRequest, KeyValue, Folder } from '@/types'
+import type { Collection, ApiRequest, Auth, KeyValue, Folder, Environment, OAuth2Config, SendSettings } from '@/types'
+import { DEFAULT_OAUTH2_CONFIG } from '@/lib/auth'
+import { isWebSocketUrl } from '@/lib/websocket'
 import { v4 as uuidv4 } from 'uuid'
 
 // Postman Collection v2.1 format types
@@ -10,6 +12,8 @@ interface PostmanCollection {
   }
   item: PostmanItem[]
   variable?: PostmanVariable[]
+  auth?: PostmanAuth
+  protocolProfileBehavior?: PostmanProtocolProfileBehavior
 }
 
 interface PostmanEvent {
@@ -26,6 +30,15 @@ interface PostmanItem {
   request?: PostmanRequest
   item?: PostmanItem[]
   event?: PostmanEvent[]
+  auth?: PostmanAuth // Folder auth; requests carry theirs on the request
+  protocolProfileBehavior?: PostmanProtocolProfileBehavior
+}
+
+// Postman's send settings; it has no per-request timeout
+interface PostmanProtocolProfileBehavior {
+  followRedirects?: boolean
+  maxRedirects?: number
+  strictSSL?: boolean
 }
 
 interface PostmanRequest {
@@ -33,6 +46,32 @@ interface PostmanRequest {
   header?: PostmanHeader[]
   body?: PostmanBody
   url: PostmanUrl | string
+  auth?: PostmanAuth
+}
+
+// Postman omits auth to inherit it; each type lists its settings as key/value pairs
+interface PostmanAuth {
+  type: string
+  basic?: PostmanAuthAttribute[]
+  bearer?: PostmanAuthAttribute[]
+  apikey?: PostmanAuthAttribute[]
+  digest?: PostmanAuthAttribute[]
+  oauth2?: PostmanAuthAttribute[]
+  awsv4?: PostmanAuthAttribute[]
+}
+
+interface PostmanAuthAttribute {
+  key: string
+  value: string | boolean
+  type?: string
+}
+
+// Postman's grant_type values, which fold PKCE into the grant
+const POSTMAN_GRANT_TYPES: Record<string, Pick<OAuth2Config, 'grantType' | 'usePkce'>> = {
+  client_credentials: { grantType: 'client_credentials', usePkce: false },
+  password_credentials: { grantType: 'password', usePkce: false },
+  authorization_code: { grantType: 'authorization_code', usePkce: false },
+  authorization_code_with_pkce: { grantType: 'authorization_code', usePkce: true },
 }
 
 interface PostmanHeader {
@@ -47,6 +86,8 @@ interface PostmanBody {
   raw?: string
   formdata?: PostmanFormData[]
   urlencoded?: PostmanFormData[]
+  file?: { src?: string }
+  graphql?: { query?: string; variables?: string }
   options?: {
     raw?: {
       language?: string
@@ -54,9 +95,12 @@ interface PostmanBody {
   }
 }
 
+// Postman keeps only the path of file fields, so their contents are not exported
 interface PostmanFormData {
   key: string
-  value: string
+  value?: string
+  type?: 'text' | 'file'
+  src?: string
   disabled?: boolean
   description?: string
 }
@@ -82,6 +126,150 @@ interface PostmanVariable {
   disabled?: boolean
 }
 
+// Postman environment and globals export format
+interface PostmanEnvironment {
+  id?: string
+  name?: string
+  values: Array<{ key: string; value: string; enabled?: boolean }>
+}
+
+function toPostmanAuth(auth?: Auth): PostmanAuth | undefined {
+  const attributes = (values: Record<string, string>): PostmanAuthAttribute[] =>
+    Object.entries(values).map(([key, value]) => ({ key, value, type: 'string' }))
+
+  switch (auth?.type) {
+    case 'none':
+      return { type: 'noauth' }
+    case 'basic':
+      return { type: 'basic', basic: attributes(auth.basic || { username: '', password: '' }) }
+    case 'bearer':
+      return { type: 'bearer', bearer: attributes(auth.bearer || { token: '' }) }
+    case 'apikey':
+      return { type: 'apikey', apikey: attributes(auth.apikey || { key: '', value: '', in: 'header' }) }
+    case 'digest':
+      return { type: 'digest', digest: attributes(auth.digest || { username: '', password: '' }) }
+    case 'oauth2': {
+      const config = auth.oauth2 || DEFAULT_OAUTH2_CONFIG
+      const grantType = Object.keys(POSTMAN_GRANT_TYPES).find((key) =>
+        POSTMAN_GRANT_TYPES[key].grantType === config.grantType &&
+        (config.grantType !== 'authorization_code' || POSTMAN_GRANT_TYPES[key].usePkce === config.usePkce)
+      ) || 'client_credentials'
+      return {
+        type: 'oauth2',
+        oauth2: attributes({
+          grant_type: grantType,
+          accessTokenUrl: config.accessTokenUrl,
+          authUrl: config.authUrl,
+          clientId: config.clientId,
+          clientSecret: config.clientSecret,
+          client_authentication: config.clientAuthentication,
+          scope: config.scope,
+          username: config.username,
+          password: config.password,
+        }),
+      }
+    }
+    case 'awsv4': {
+      const config = auth.awsv4 || { accessKeyId: '', secretAccessKey: '', sessionToken: '', region: '', service: '' }
+      return {
+        type: 'awsv4',
+        awsv4: attributes({
+          accessKey: config.accessKeyId,
+          secretKey: config.secretAccessKey,
+          sessionToken: config.sessionToken,
+          region: config.region,
+          service: config.service,
+        }),
+      }
+    }
+    default:
+      return undefined
+  }
+}
+
+// Send settings are kept in Postman's protocolProfileBehavior (strictSSL is TLS verification)
+function toPostmanBehavior(settings?: SendSettings): PostmanProtocolProfileBehavior | undefined {
+  if (!settings) return undefined
+  const behavior: PostmanProtocolProfileBehavior = {
+    followRedirects: settings.followRedirects,
+    maxRedirects: settings.maxRedirects,
+    strictSSL: settings.verifyTls,
+  }
+  return Object.values(behavior).some((value) => value !== undefined) ? behavior : undefined
+}
+
+function fromPostmanBehavior(behavior?: PostmanProtocolProfileBehavior): SendSettings | undefined {
+  if (!behavior) return undefined
+  const settings: SendSettings = {
+    followRedirects: behavior.followRedirects,
+    maxRedirects: behavior.maxRedirects,
+    verifyTls: behavior.strictSSL,
+  }
+  return Object.values(settings).some((value) => value !== undefined) ? settings : undefined
+}
+
+// Auth types we do not support come back as undefined, i.e. inherited
+function fromPostmanAuth(auth?: PostmanAuth): Auth | undefined {
+  if (!auth) return undefined
+  const attribute = (list: PostmanAuthAttribute[] | undefined, key: string) =>
+    String(list?.find((a) => a.key === key)?.value ?? '')
+
+  switch (auth.type) {
+    case 'noauth':
+      return { type: 'none' }
+    case 'basic':
+      return { type: 'basic', basic: { username: attribute(auth.basic, 'username'), password: attribute(auth.basic, 'password') } }
+    case 'bearer':
+      return { type: 'bearer', bearer: { token: attribute(auth.bearer, 'token') } }
+    case 'apikey':
+      return {
+        type: 'apikey',
+        apikey: {
+          key: attribute(auth.apikey, 'key'),
+          value: attribute(auth.apikey, 'value'),
+          in: attribute(auth.apikey, 'in') === 'query' ? 'query' : 'header',
+        },
+      }
+    case 'digest':
+      return { type: 'digest', digest: { username: attribute(auth.digest, 'username'), password: attribute(auth.digest, 'password') } }
+    case 'oauth2': {
+      // Implicit and other grants we do not support fall back to inheriting
+      const grant = POSTMAN_GRANT_TYPES[attribute(auth.oauth2, 'grant_type') || 'authorization_code']
+      if (!grant) return undefined
+      return {
+        type: 'oauth2',
+        oauth2: {
+          ...DEFAULT_OAUTH2_CONFIG,
+          ...grant,
+          accessTokenUrl: attribute(auth.oauth2, 'accessTokenUrl'),
+          authUrl: attribute(auth.oauth2, 'authUrl'),
+          clientId: attribute(auth.oauth2, 'clientId'),
+          clientSecret: attribute(auth.oauth2, 'clientSecret'),
+          clientAuthentication: attribute(auth.oauth2, 'client_authentication') === 'body' ? 'body' : 'header',
+          scope: attribute(auth.oauth2, 'scope'),
+          username: attribute(auth.oauth2, 'username'),
+          password: attribute(auth.oauth2, 'password'),
+        },
+      }
+    }
+    case 'awsv4':
+      return {
+        type: 'awsv4',
+        awsv4: {
+          accessKeyId: attribute(auth.awsv4, 'accessKey'),
+          secretAccessKey: attribute(auth.awsv4, 'secretKey'),
+          sessionToken: attribute(auth.awsv4, 'sessionToken'),
+          region: attribute(auth.awsv4, 'region'),
+          service: attribute(auth.awsv4, 'service'),
+        },
+      }
+    default:
+      return undefined
+  }
+}
+
+const WEBSOCKET_PROTOCOL_HEADER = 'Sec-WebSocket-Protocol'
+
 // Export collection to Postman format
 export function exportToPostman(collection: Collection): PostmanCollection {
   const convertRequest = (request: ApiRequest): PostmanRequest => {
@@ -91,6 +279,10 @@ export function exportToPostman(collection: Collection): PostmanCollection {
       disabled: !h.enabled,
       description: h.description,
     }))
+    // Postman collections have no WebSocket requests; the ws: URL and this header mark them
+    if (request.protocol === 'websocket' && request.websocket?.protocols.length) {
+      headers.push({ key: WEBSOCKET_PROTOCOL_HEADER, value: request.websocket.protocols.join(', ') })
+    }
 
     const query: PostmanQuery[] = request.params.map((p) => ({
       key: p.key,
@@ -115,11 +307,19 @@ export function exportToPostman(collection: Collection): PostmanCollection {
       } else if (request.body.type === 'form-data') {
         body = {
           mode: 'formdata',
-          formdata: (request.body.formData || []).map((f) => ({
-            key: f.key,
-            value: f.value,
-            disabled: !f.enabled,
-          })),
+          formdata: (request.body.formData || []).map((f) => (f.type === 'file'
+            ? { key: f.key, type: 'file', src: f.file?.name ?? f.description ?? '', disabled: !f.enabled }
+            : { key: f.key, value: f.value, type: 'text', disabled: !f.enabled })),
+        }
+      } else if (request.body.type === 'binary') {
+        body = {
+          mode: 'file',
+          file: { src: request.body.file?.name ?? '' },
+        }
+      } else if (request.body.type === 'graphql') {
+        body = {
+          mode: 'graphql',
+          graphql: { query: request.body.graphql?.query ?? '', variables: request.body.graphql?.variables ?? '' },
         }
       } else if (request.body.type === 'x-www-form-urlencoded') {
         body = {
@@ -141,16 +341,19 @@ export function exportToPostman(collection: Collection): PostmanCollection {
         raw: request.url,
         query,
       },
+      auth: toPostmanAuth(request.auth),
     }
   }
 
   const convertFolder = (folder: Folder): PostmanItem => ({
     name: folder.name,
     description: folder.description,
+    auth: toPostmanAuth(folder.auth),
     item: [
       ...folder.requests.map((r) => ({
         name: r.name,
         request: convertRequest(r),
+        protocolProfileBehavior: toPostmanBehavior(r.settings),
       })),
       ...folder.folders.map(convertFolder),
     ],
@@ -166,6 +369,7 @@ export function exportToPostman(collection: Collection): PostmanCollection {
       ...collection.requests.map((r) => ({
         name: r.name,
         request: convertRequest(r),
+        protocolProfileBehavior: toPostmanBehavior(r.settings),
       })),
       ...collection.folders.map(convertFolder),
     ],
@@ -174,6 +378,8 @@ export function exportToPostman(collection: Collection): PostmanCollection {
       value: v.value,
       disabled: !v.enabled,
     })),
+    auth: toPostmanAuth(collection.auth),
+    protocolProfileBehavior: toPostmanBehavior(collection.settings),
   }
 }
 
@@ -224,12 +430,21 @@ export function importFromPostman(postmanCollection: PostmanCollection): Collect
     if (body.mode === 'formdata') {
       return {
         type: 'form-data',
-        formData: (body.formdata || []).map((f) => ({
-          id: uuidv4(),
-          key: f.key,
-          value: f.value,
-          enabled: !f.disabled,
-        })),
+        formData: (body.formdata || []).map((f) => (f.type === 'file'
+          // The file itself has to be picked again; its path is kept as a hint
+          ? { id: uuidv4(), key: f.key, value: '', enabled: !f.disabled, type: 'file' as const, description: f.src || undefined }
+          : { id: uuidv4(), key: f.key, value: f.value ?? '', enabled: !f.disabled })),
+      }
+    }
+
+    if (body.mode === 'file') {
+      return { type: 'binary' }
+    }
+
+    if (body.mode === 'graphql') {
+      return {
+        type: 'graphql',
+        graphql: { query: body.graphql?.query ?? '', variables: body.graphql?.variables || undefined },
       }
     }
 
@@ -239,7 +454,7 @@ export function importFromPostman(postmanCollection: PostmanCollection): Collect
         formData: (body.urlencoded || []).map((f) => ({
           id: uuidv4(),
           key: f.key,
-          value: f.value,
+          value: f.value ?? '',
           enabled: !f.disabled,
         })),
       }
@@ -279,6 +494,29 @@ export function importFromPostman(postmanCollection: PostmanCollection): Collect
     const { url, params } = convertParams(item.request.url)
     const scripts = convertScripts(item.event)
 
+    if (isWebSocketUrl(url)) {
+      const headers = convertHeaders(item.request.header)
+      const protocolHeader = headers.find((h) => h.key.toLowerCase() === WEBSOCKET_PROTOCOL_HEADER.toLowerCase())
+      return {
+        id: uuidv4(),
+        name: item.name,
+        protocol: 'websocket',
+        method: 'GET',
+        url,
+        headers: headers.filter((h) => h !== protocolHeader),
+        params,
+        auth: fromPostmanAuth(item.request.auth),
+        websocket: {
+          protocols: protocolHeader ? protocolHeader.value.split(',').map((p) => p.trim()).filter(Boolean) : [],
+          message: '',
+          messageFormat: 'text',
+        },
+        settings: fromPostmanBehavior(item.protocolProfileBehavior),
+        createdAt: now,
+        updatedAt: now,
+      }
+    }
+
     return {
       id: uuidv4(),
       name: item.name,
@@ -287,8 +525,10 @@ export function importFromPostman(postmanCollection: PostmanCollection): Collect
       headers: convertHeaders(item.request.header),
       params,
       body: convertBody(item.request.body),
+      auth: fromPostmanAuth(item.request.auth),
       testScript: scripts.testScript,
       preRequestScript: scripts.preRequestScript,
+      settings: fromPostmanBehavior(item.protocolProfileBehavior),
       createdAt: now,
       updatedAt: now,
     }
@@ -314,6 +554,7 @@ export function importFromPostman(postmanCollection: PostmanCollection): Collect
       id: uuidv4(),
       name: item.name,
       description: item.description,
+      auth: fromPostmanAuth(item.auth),
       requests,
       folders,
     }
@@ -344,6 +585,8 @@ export function importFromPostman(postmanCollection: PostmanCollection): Collect
       value: v.value,
       enabled: !v.disabled,
     })),
+    auth: fromPostmanAuth(postmanCollection.auth),
+    settings: fromPostmanBehavior(postmanCollection.protocolProfileBehavior),
     createdAt: now,
     updatedAt: now,
   }
@@ -387,3 +630,37 @@ export function parseImportedFile(content: string): Collection {
 
   throw new Error('Unrecognized collection format')
 }
+
+// Parse an environment file: our native format or a Postman environment/globals export
+export function parseImportedEnvironment(content: string): Environment {
+  const parsed = JSON.parse(content)
+  const now = new Date().toISOString()
+
+  if (Array.isArray(parsed.values)) {
+    const postmanEnvironment = parsed as PostmanEnvironment
+    return {
+      id: postmanEnvironment.id || uuidv4(),
+      name: postmanEnvironment.name || 'Imported Environment',
+      variables: postmanEnvironment.values.map((v) => ({
+        id: uuidv4(),
+        key: v.key,
+        value: String(v.value ?? ''),
+        enabled: v.enabled !== false,
+      })),
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  if (Array.isArray(parsed.variables)) {
+    return {
+      id: parsed.id || uuidv4(),
+      name: parsed.name || 'Imported Environment',
+      variables: parsed.variables as KeyValue[],
+      createdAt: parsed.createdAt || now,
+      updatedAt: parsed.updatedAt || now,
+    }
+  }
+
+  throw new Error('Unrecognized environment format')
+}
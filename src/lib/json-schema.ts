@@ -0,0 +1,136 @@
+import { deepEqual } from '@/lib/scripting/expect'
+
+export type JsonSchema = boolean | { [keyword: string]: unknown }
+
+type SchemaObject = Record<string, unknown>
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function describePath(path: string): string {
+  return path || 'value'
+}
+
+/**
+ * Validate a value against a JSON Schema, returning one message per violation.
+ * Covers the commonly used draft-07 / 2020-12 keywords: type, enum, const,
+ * numeric and string bounds, pattern, properties, required, additionalProperties,
+ * items, min/maxItems, uniqueItems, allOf/anyOf/oneOf/not and local $ref.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const root = schema
+
+  const resolveRef = (ref: string): JsonSchema => {
+    if (!ref.startsWith('#')) throw new Error(`Only local $ref is supported: ${ref}`)
+    let target: unknown = root
+    ref.slice(1).split('/').filter(Boolean).forEach((part) => {
+      const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~')
+      target = target !== null && typeof target === 'object' ? (target as SchemaObject)[key] : undefined
+    })
+    if (target === undefined) throw new Error(`Unresolved $ref: ${ref}`)
+    return target as JsonSchema
+  }
+
+  const validate = (data: unknown, current: JsonSchema, path: string): string[] => {
+    if (current === true) return []
+    if (current === false) return [`${describePath(path)} is not allowed`]
+
+    const s = current as SchemaObject
+    if (typeof s.$ref === 'string') return validate(data, resolveRef(s.$ref), path)
+
+    const errors: string[] = []
+    const where = describePath(path)
+
+    if (s.type !== undefined) {
+      const types = Array.isArray(s.type) ? (s.type as string[]) : [s.type as string]
+      if (!types.some((type) => matchesType(data, type))) {
+        return [`${where} should be ${types.join(' or ')}, got ${typeOf(data)}`]
+      }
+    }
+    if (Array.isArray(s.enum) && !s.enum.some((option) => deepEqual(option, data))) {
+      errors.push(`${where} should be one of ${JSON.stringify(s.enum)}`)
+    }
+    if ('const' in s && !deepEqual(s.const, data)) {
+      errors.push(`${where} should equal ${JSON.stringify(s.const)}`)
+    }
+
+    if (typeof data === 'number') {
+      if (typeof s.minimum === 'number' && data < s.minimum) errors.push(`${where} should be >= ${s.minimum}`)
+      if (typeof s.maximum === 'number' && data > s.maximum) errors.push(`${where} should be <= ${s.maximum}`)
+      if (typeof s.exclusiveMinimum === 'number' && data <= s.exclusiveMinimum) errors.push(`${where} should be > ${s.exclusiveMinimum}`)
+      if (typeof s.exclusiveMaximum === 'number' && data >= s.exclusiveMaximum) errors.push(`${where} should be < ${s.exclusiveMaximum}`)
+      if (typeof s.multipleOf === 'number' && !Number.isInteger(data / s.multipleOf)) errors.push(`${where} should be a multiple of ${s.multipleOf}`)
+    }
+
+    if (typeof data === 'string') {
+      const length = Array.from(data).length
+      if (typeof s.minLength === 'number' && length < s.minLength) errors.push(`${where} should have at least ${s.minLength} characters`)
+      if (typeof s.maxLength === 'number' && length > s.maxLength) errors.push(`${where} should have at most ${s.maxLength} characters`)
+      if (typeof s.pattern === 'string' && !new RegExp(s.pattern, 'u').test(data)) errors.push(`${where} should match ${s.pattern}`)
+    }
+
+    if (Array.isArray(data)) {
+      if (typeof s.minItems === 'number' && data.length < s.minItems) errors.push(`${where} should have at least ${s.minItems} items`)
+      if (typeof s.maxItems === 'number' && data.length > s.maxItems) errors.push(`${where} should have at most ${s.maxItems} items`)
+      if (s.uniqueItems === true && data.some((item, i) => data.findIndex((other) => deepEqual(other, item)) !== i)) {
+        errors.push(`${where} should have unique items`)
+      }
+      // prefixItems (2020-12) or array-form items (draft-07) describe a tuple
+      const tuple = Array.isArray(s.prefixItems) ? s.prefixItems : Array.isArray(s.items) ? s.items : undefined
+      const rest = tuple ? (Array.isArray(s.items) ? s.additionalItems : s.items) : s.items
+      data.forEach((item, i) => {
+        const itemSchema = tuple && i < tuple.length ? tuple[i] : rest
+        if (itemSchema !== undefined) errors.push(...validate(item, itemSchema as JsonSchema, `${path}[${i}]`))
+      })
+    }
+
+    if (data !== null && typeof data === 'object' && !Array.isArray(data)) {
+      const obj = data as Record<string, unknown>
+      const properties = (s.properties || {}) as Record<string, JsonSchema>
+      if (Array.isArray(s.required)) {
+        (s.required as string[])
+          .filter((key) => !(key in obj))
+          .forEach((key) => errors.push(`${where} should have required property '${key}'`))
+      }
+      Object.keys(obj).forEach((key) => {
+        const childPath = path ? `${path}.${key}` : key
+        if (key in properties) {
+          errors.push(...validate(obj[key], properties[key], childPath))
+        } else if (s.additionalProperties !== undefined) {
+          errors.push(...validate(obj[key], s.additionalProperties as JsonSchema, childPath).map((error) =>
+            s.additionalProperties === false ? `${where} should not have additional property '${key}'` : error
+          ))
+        }
+      })
+      if (typeof s.minProperties === 'number' && Object.keys(obj).length < s.minProperties) errors.push(`${where} should have at least ${s.minProperties} properties`)
+      if (typeof s.maxProperties === 'number' && Object.keys(obj).length > s.maxProperties) errors.push(`${where} should have at most ${s.maxProperties} properties`)
+    }
+
+    if (Array.isArray(s.allOf)) {
+      s.allOf.forEach((sub) => errors.push(...validate(data, sub as JsonSchema, path)))
+    }
+    if (Array.isArray(s.anyOf) && !s.anyOf.some((sub) => validate(data, sub as JsonSchema, path).length === 0)) {
+      errors.push(`${where} should match at least one schema in anyOf`)
+    }
+    if (Array.isArray(s.oneOf)) {
+      const matches = s.oneOf.filter((sub) => validate(data, sub as JsonSchema, path).length === 0).length
+      if (matches !== 1) errors.push(`${where} should match exactly one schema in oneOf, matched ${matches}`)
+    }
+    if (s.not !== undefined && validate(data, s.not as JsonSchema, path).length === 0) {
+      errors.push(`${where} should not match the schema in not`)
+    }
+
+    return errors
+  }
+
+  return validate(value, schema, '')
+}
@@ -0,0 +1,249 @@
+/**
+ * What the /api/request proxy may reach, so a public deployment is not an open relay.
+ * Read from the environment by getNetworkPolicy.
+ */
+export interface NetworkPolicy {
+  blockPrivateNetworks: boolean // Loopback, private, link-local and metadata addresses
+  allowedHosts: string[] // When set, only these hosts can be reached, private ones included
+  deniedHosts: string[] // Never reached, even when allowed
+  maxResponseSize: number // Bytes; 0 for no limit
+  rateLimit: number // Requests per user per minute; 0 for no limit
+}
+
+export const DEFAULT_NETWORK_POLICY: NetworkPolicy = {
+  blockPrivateNetworks: true,
+  allowedHosts: [],
+  deniedHosts: [],
+  maxResponseSize: 10 * 1024 * 1024,
+  rateLimit: 120,
+}
+
+export class NetworkPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NetworkPolicyError'
+  }
+}
+
+function parseHostList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const limit = Number.parseInt(value ?? '', 10)
+  return Number.isNaN(limit) ? fallback : Math.max(0, limit)
+}
+
+/**
+ * The policy configured by the PROXY_* environment variables, with unset ones
+ * taking the defaults
+ */
+export function getNetworkPolicy(env: Record<string, string | undefined> = process.env): NetworkPolicy {
+  return {
+    blockPrivateNetworks: env.PROXY_BLOCK_PRIVATE_NETWORKS !== 'false',
+    allowedHosts: parseHostList(env.PROXY_ALLOWED_HOSTS),
+    deniedHosts: parseHostList(env.PROXY_DENIED_HOSTS),
+    maxResponseSize: parseLimit(env.PROXY_MAX_RESPONSE_SIZE, DEFAULT_NETWORK_POLICY.maxResponseSize),
+    rateLimit: parseLimit(env.PROXY_RATE_LIMIT, DEFAULT_NETWORK_POLICY.rateLimit),
+  }
+}
+
+/**
+ * Whether a host matches a list entry: the same name, or any subdomain for
+ * entries like "*.example.com"
+ */
+export function hostMatches(host: string, pattern: string): boolean {
+  const h = host.toLowerCase()
+  const p = pattern.toLowerCase()
+  return p.startsWith('*.') ? h.endsWith(p.slice(1)) : h === p
+}
+
+function parseIpv4(host: string): number[] | null {
+  const parts = host.split('.')
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null
+  const octets = parts.map(Number)
+  return octets.every((octet) => octet <= 255) ? octets : null
+}
+
+function isPrivateIpv4([a, b, c]: number[]): boolean {
+  return (
+    a === 0 || // "This" network
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata at 169.254.169.254
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 192 && b === 0 && c === 2) || // TEST-NET-1
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    (a === 198 && b === 51 && c === 100) || // TEST-NET-2
+    (a === 203 && b === 0 && c === 113) || // TEST-NET-3
+    a >= 224 // Multicast (224.0.0.0/4) and reserved (240.0.0.0/4)
+  )
+}
+
+// The eight 16-bit groups of an IPv6 address, e.g. "::ffff:7f00:1"
+function parseIpv6(host: string): number[] | null {
+  const halves = host.split('::')
+  if (halves.length > 2) return null
+
+  const toGroups = (half: string): number[] | null => {
+    if (!half) return []
+    const groups: number[] = []
+    for (const part of half.split(':')) {
+      const ipv4 = parseIpv4(part)
+      if (ipv4) {
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3])
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        groups.push(Number.parseInt(part, 16))
+      } else {
+        return null
+      }
+    }
+    return groups
+  }
+
+  const head = toGroups(halves[0])
+  const tail = halves.length === 2 ? toGroups(halves[1]) : []
+  if (!head || !tail) return null
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+  return [...head, ...Array<number>(missing).fill(0), ...tail]
+}
+
+function isPrivateIpv6(groups: number[]): boolean {
+  const [first] = groups
+  const allZeroBefore = (end: number) => groups.slice(0, end).every((group) => group === 0)
+
+  if (allZeroBefore(7) && groups[7] <= 1) return true // Unspecified and loopback
+  if ((first & 0xfe00) === 0xfc00) return true // Unique local
+  if ((first & 0xffc0) === 0xfe80) return true // Link-local
+  if ((first & 0xff00) === 0xff00) return true // Multicast
+
+  // IPv4-compatible, IPv4-mapped and NAT64 addresses reach the IPv4 address they embed
+  const embedsIpv4 =
+    allZeroBefore(6) ||
+    (allZeroBefore(5) && groups[5] === 0xffff) ||
+    (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0))
+  if (embedsIpv4) {
+    return isPrivateIpv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff])
+  }
+  // 6to4 addresses carry the IPv4 address right after the 2002::/16 prefix
+  if (first === 0x2002) {
+    return isPrivateIpv4([groups[1] >> 8, groups[1] & 0xff, groups[2] >> 8, groups[2] & 0xff])
+  }
+  return false
+}
+
+/**
+ * Whether a URL hostname is the local machine or a private network: an address
+ * in a loopback, private, link-local or reserved range, or a name like
+ * "localhost". Names are not resolved, so one that resolves to a private
+ * address is not caught here.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+
+  if (host.startsWith('[') && host.endsWith(']')) {
+    const groups = parseIpv6(host.slice(1, -1))
+    return groups === null || isPrivateIpv6(groups)
+  }
+
+  const ipv4 = parseIpv4(host)
+  if (ipv4) return isPrivateIpv4(ipv4)
+
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') || // mDNS
+    host.endsWith('.internal') // e.g. metadata.google.internal
+  )
+}
+
+/**
+ * Throw a NetworkPolicyError when the policy does not allow sending to the URL.
+ * Checked for every hop, so a redirect cannot lead somewhere blocked.
+ */
+export function checkUrl(url: string, policy: NetworkPolicy): void {
+  const { protocol, hostname } = new URL(url)
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new NetworkPolicyError(`Only http and https URLs can be sent, not ${protocol}`)
+  }
+
+  const host = hostname.toLowerCase()
+  if (policy.deniedHosts.some((pattern) => hostMatches(host, pattern))) {
+    throw new NetworkPolicyError(`Requests to ${host} are not allowed`)
+  }
+  if (policy.allowedHosts.length > 0) {
+    if (!policy.allowedHosts.some((pattern) => hostMatches(host, pattern))) {
+      throw new NetworkPolicyError(`${host} is not in the list of allowed hosts`)
+    }
+    return
+  }
+  if (policy.blockPrivateNetworks && isPrivateHost(host)) {
+    throw new NetworkPolicyError(
+      `Requests to private network address ${host} are not allowed; set PROXY_BLOCK_PRIVATE_NETWORKS=false to allow them`
+    )
+  }
+}
+
+export interface RateLimiter {
+  /** Count a request; retryAfter is the seconds until the key may send again */
+  take(key: string, now?: number): { allowed: boolean; retryAfter: number }
+}
+
+/**
+ * The address a request came from. Cloudflare's CF-Connecting-IP when present,
+ * otherwise the last X-Forwarded-For entry, which is the one the proxy in front
+ * of the app appended. Earlier entries are whatever the caller sent.
+ */
+export function clientAddress(headers: Headers): string | null {
+  const connecting = headers.get('cf-connecting-ip')?.trim()
+  const forwarded = headers.get('x-forwarded-for')?.split(',').at(-1)?.trim()
+  return connecting || forwarded || null
+}
+
+/**
+ * The key a caller's requests are counted under: signed-in users per account,
+ * anonymous callers per address. Device IDs are chosen by the client, so a new
+ * one per request would get around the limit. Callers without a known address
+ * share one key.
+ */
+export function rateLimitKey(userId: string | null, headers: Headers): string {
+  return userId ? `user:${userId}` : `ip:${clientAddress(headers) ?? 'unknown'}`
+}
+
+/**
+ * A fixed-window limit of requests per key. Counts are kept in memory, so each
+ * server instance limits separately.
+ */
+export function createRateLimiter(limit: number, windowMs = 60_000): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>()
+
+  return {
+    take(key, now = Date.now()) {
+      if (limit <= 0) return { allowed: true, retryAfter: 0 }
+
+      // Forget finished windows now and then so the map does not grow forever
+      if (windows.size > 10_000) {
+        windows.forEach((window, k) => {
+          if (now - window.start >= windowMs) windows.delete(k)
+        })
+      }
+
+      let window = windows.get(key)
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 }
+        windows.set(key, window)
+      }
+      window.count++
+
+      const allowed = window.count <= limit
+      return { allowed, retryAfter: allowed ? 0 : Math.ceil((window.start + windowMs - now) / 1000) }
+    },
+  }
+}
@@ -0,0 +1,146 @@
+import type { ApiRequest, FileAttachment } from '@/types'
+import type { MultipartField, SendRequestBody } from '@/app/api/request/route'
+import { signAwsRequest } from '@/lib/auth/aws-sigv4'
+
+// Files are stored inline with the request, so they must fit in local storage
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024
+
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH']
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked, as spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Read a picked file into an attachment that can be stored with the request
+ */
+export async function readFileAttachment(file: File): Promise<FileAttachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`)
+  }
+  const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsArrayBuffer(file)
+  })
+  return {
+    name: file.name,
+    contentType: file.type || 'application/octet-stream',
+    size: file.size,
+    data: bytesToBase64(new Uint8Array(buffer)),
+  }
+}
+
+/**
+ * The request without its attached files, as kept in history so entries stay small.
+ * File fields keep the file name as a hint to pick it again.
+ */
+export function withoutFileContents(request: ApiRequest): ApiRequest {
+  const body = request.body
+  if (!body || (!body.file && !body.formData?.some((field) => field.file))) return request
+  return {
+    ...request,
+    body: {
+      ...body,
+      file: undefined,
+      formData: body.formData?.map(({ file, ...field }) => (file ? { ...field, description: file.name } : field)),
+    },
+  }
+}
+
+// Field names and file names are quoted; escape them the way browsers do
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A')}"`
+}
+
+/**
+ * A boundary unlikely to appear in any field or file
+ */
+export function createBoundary(): string {
+  return `----EndpntFormBoundary${randomHex(8)}`
+}
+
+function randomHex(byteLength: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(byteLength)), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Encode form-data fields as a multipart body (RFC 7578), returning the
+ * Content-Type with its boundary alongside the bytes
+ */
+export function encodeMultipart(
+  fields: MultipartField[],
+  boundary: string = createBoundary()
+): { body: Uint8Array<ArrayBuffer>; contentType: string } {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+
+  fields.forEach((field) => {
+    let head = `--${boundary}\r\nContent-Disposition: form-data; name=${quote(field.key)}`
+    if (field.file) {
+      head += `; filename=${quote(field.file.name)}\r\nContent-Type: ${field.file.contentType || 'application/octet-stream'}`
+    }
+    parts.push(encoder.encode(`${head}\r\n\r\n`))
+    parts.push(field.file ? base64ToBytes(field.file.data) : encoder.encode(field.value))
+    parts.push(encoder.encode('\r\n'))
+  })
+  parts.push(encoder.encode(`--${boundary}--\r\n`))
+
+  const body = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  parts.forEach((part) => {
+    body.set(part, offset)
+    offset += part.length
+  })
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` }
+}
+
+export interface UpstreamRequest {
+  headers: Record<string, string>
+  body?: string | Uint8Array<ArrayBuffer>
+}
+
+/**
+ * The headers and body actually sent to the target: multipart and binary bodies
+ * are encoded to bytes, and AWS requests are signed last, over exactly those bytes.
+ * Only POST, PUT and PATCH requests carry a body.
+ */
+export async function prepareUpstreamRequest(request: SendRequestBody): Promise<UpstreamRequest> {
+  let headers = { ...request.headers }
+  let body: UpstreamRequest['body']
+
+  if (METHODS_WITH_BODY.includes(request.method.toUpperCase())) {
+    if (request.formData) {
+      const multipart = encodeMultipart(request.formData)
+      // A Content-Type set by hand cannot know the boundary, so it is replaced
+      headers = Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() !== 'content-type'))
+      headers['Content-Type'] = multipart.contentType
+      body = multipart.body
+    } else if (request.body && request.bodyEncoding === 'base64') {
+      body = base64ToBytes(request.body)
+    } else if (request.body) {
+      body = request.body
+    }
+  }
+
+  if (request.awsSigV4) {
+    headers = (await signAwsRequest({ method: request.method, url: new URL(request.url).toString(), headers, body }, request.awsSigV4)).headers
+  }
+
+  return { headers, body }
+}
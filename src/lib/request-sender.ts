@@ -0,0 +1,329 @@
+import type { ApiResponse, KeyValue, RequestBody, WorkspaceSettings } from '@/types'
+import type { MultipartField, SendRequestBody } from '@/app/api/request/route'
+import { DEFAULT_AGENT_URL } from '@/lib/agent'
+import { getDeviceId } from '@/lib/device-id'
+import { serializeGraphQLBody } from '@/lib/graphql'
+import { prepareUpstreamRequest } from '@/lib/request-body'
+import { fetchUpstream } from '@/lib/upstream-fetch'
+import { v4 as uuidv4 } from 'uuid'
+
+export interface ProxyResult {
+  response: ApiResponse
+  error?: string
+  cancelled?: boolean // Aborted through the signal before the response arrived
+}
+
+export type RequestTransport = (request: SendRequestBody, signal?: AbortSignal) => Promise<ProxyResult>
+
+/**
+ * Append enabled query params to a URL
+ */
+export function buildUrl(baseUrl: string, params: KeyValue[]): string {
+  if (!baseUrl) return ''
+
+  // Leave the URL untouched so {{variables}} in the path are not percent-encoded
+  const enabledParams = params.filter((p) => p.enabled && p.key)
+  if (enabledParams.length === 0) return baseUrl
+
+  try {
+    const url = new URL(baseUrl)
+    enabledParams.forEach((p) => {
+      url.searchParams.set(p.key, p.value)
+    })
+    return url.toString()
+  } catch {
+    const queryString = enabledParams
+      .map((p) => `${encodeURIComponent(p.key)}=${encodeURIComponent(p.value)}`)
+      .join('&')
+
+    const separator = baseUrl.includes('?') ? '&' : '?'
+    return `${baseUrl}${separator}${queryString}`
+  }
+}
+
+/**
+ * Convert enabled headers to a plain object, adding Content-Type for the body type.
+ * Binary bodies use the file's type; multipart bodies get theirs, with the boundary, when encoded.
+ */
+export function buildHeaders(headers: KeyValue[], bodyType?: string, fileType?: string): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  headers
+    .filter((h) => h.enabled && h.key)
+    .forEach((h) => {
+      result[h.key] = h.value
+    })
+
+  // Add Content-Type for body types
+  if ((bodyType === 'json' || bodyType === 'graphql') && !result['Content-Type']) {
+    result['Content-Type'] = 'application/json'
+  } else if (bodyType === 'x-www-form-urlencoded' && !result['Content-Type']) {
+    result['Content-Type'] = 'application/x-www-form-urlencoded'
+  } else if (bodyType === 'binary' && fileType && !result['Content-Type']) {
+    result['Content-Type'] = fileType
+  }
+
+  return result
+}
+
+/**
+ * Serialize the request body to a string; binary bodies come back as base64.
+ * Form-data is sent as multipart fields instead, see buildFormData.
+ */
+export function buildBody(request: { body?: RequestBody }): string | undefined {
+  if (!request.body || request.body.type === 'none') return undefined
+
+  if (request.body.type === 'json' || request.body.type === 'raw') {
+    return request.body.content
+  }
+
+  if (request.body.type === 'x-www-form-urlencoded' && request.body.formData) {
+    return request.body.formData
+      .filter((f) => f.enabled && f.key)
+      .map((f) => `${encodeURIComponent(f.key)}=${encodeURIComponent(f.value)}`)
+      .join('&')
+  }
+
+  if (request.body.type === 'binary') {
+    return request.body.file?.data
+  }
+
+  if (request.body.type === 'graphql') {
+    return serializeGraphQLBody(request.body.graphql ?? { query: '' })
+  }
+
+  return undefined
+}
+
+/**
+ * Enabled form-data fields, for a multipart body. File fields without a file are left out.
+ */
+export function buildFormData(request: { body?: RequestBody }): MultipartField[] | undefined {
+  if (request.body?.type !== 'form-data') return undefined
+
+  return (request.body.formData || [])
+    .filter((f) => f.enabled && f.key && (f.type !== 'file' || f.file))
+    .map((f) => (f.type === 'file' ? { key: f.key, value: '', file: f.file } : { key: f.key, value: f.value }))
+}
+
+/**
+ * Replace {{variable}} placeholders with enabled variable values
+ */
+export function replaceVariables(text: string, variables: KeyValue[]): string {
+  let result = text
+  variables
+    .filter((v) => v.enabled)
+    .forEach((v) => {
+      const regex = new RegExp(`\\{\\{${v.key}\\}\\}`, 'g')
+      result = result.replace(regex, v.value)
+    })
+  return result
+}
+
+/**
+ * Combine enabled variables from several scopes; later scopes override earlier ones
+ */
+export function mergeVariables(...scopes: KeyValue[][]): KeyValue[] {
+  const merged = new Map<string, KeyValue>()
+  scopes.forEach((scope) => {
+    scope
+      .filter((v) => v.enabled && v.key)
+      .forEach((v) => merged.set(v.key, v))
+  })
+  return Array.from(merged.values())
+}
+
+/**
+ * Update or add a variable, returning a new list
+ */
+export function upsertVariable(variables: KeyValue[], key: string, value: string): KeyValue[] {
+  const existingIndex = variables.findIndex((v) => v.key === key)
+  if (existingIndex >= 0) {
+    return variables.map((v, i) => (i === existingIndex ? { ...v, value, enabled: true } : v))
+  }
+  return [...variables, { id: uuidv4(), key, value, enabled: true }]
+}
+
+/**
+ * Remove a variable, returning the same list when it is not present
+ */
+export function removeVariable(variables: KeyValue[], key: string): KeyValue[] {
+  return variables.some((v) => v.key === key) ? variables.filter((v) => v.key !== key) : variables
+}
+
+/**
+ * The result of a request aborted before its response arrived
+ */
+export function cancelledResult(): ProxyResult {
+  return {
+    response: {
+      status: 0,
+      statusText: 'Cancelled',
+      headers: [],
+      body: 'The request was cancelled',
+      time: 0,
+      size: 0,
+    },
+    error: 'Request cancelled',
+    cancelled: true,
+  }
+}
+
+function networkError(error: unknown, signal?: AbortSignal): ProxyResult {
+  if (signal?.aborted) return cancelledResult()
+
+  const message = error instanceof Error ? error.message : 'Unknown error occurred'
+  return {
+    response: {
+      status: 0,
+      statusText: 'Network Error',
+      headers: [],
+      body: message,
+      time: 0,
+      size: 0,
+    },
+    error: message,
+  }
+}
+
+/**
+ * Send a request straight to the target, the way the proxy does.
+ * Only usable where CORS does not apply (Node, the CLI runner), except
+ * through sendFromBrowser.
+ * Pass a fetch that skips certificate checks to honor verifyTls: false.
+ */
+export async function sendDirect(request: SendRequestBody, signal?: AbortSignal, fetchImpl?: typeof fetch): Promise<ProxyResult> {
+  try {
+    const upstream = await prepareUpstreamRequest(request)
+    return {
+      response: await fetchUpstream(
+        { method: request.method || 'GET', url: request.url, ...upstream },
+        { ...request.settings, cookies: request.cookies, signal, fetch: fetchImpl }
+      ),
+    }
+  } catch (error) {
+    return networkError(error, signal)
+  }
+}
+
+type RelayedResponse = ApiResponse & { error?: string; message?: string }
+
+// Post a request to the proxy or the agent, which take a SendRequestBody and
+// answer with a SendRequestResponse, or an error and message
+async function relay(endpoint: string, headers: Record<string, string>, request: SendRequestBody, signal?: AbortSignal): Promise<ProxyResult> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(request),
+    signal,
+  })
+
+  const data = await response.json() as RelayedResponse
+
+  if (response.ok) {
+    return {
+      response: {
+        status: data.status,
+        statusText: data.statusText,
+        headers: data.headers,
+        body: data.body,
+        bodyEncoding: data.bodyEncoding,
+        time: data.time,
+        size: data.size,
+        timings: data.timings,
+        url: data.url,
+        redirects: data.redirects,
+        cookies: data.cookies,
+        httpVersion: data.httpVersion,
+        remoteAddress: data.remoteAddress,
+      },
+    }
+  }
+
+  // Handle proxy or agent error
+  return {
+    response: {
+      status: data.status || 0,
+      statusText: data.error || 'Error',
+      headers: [],
+      body: JSON.stringify(data, null, 2),
+      time: 0,
+      size: 0,
+    },
+    error: data.message || data.error || 'Request failed',
+  }
+}
+
+/**
+ * Send a request through our proxy API
+ */
+export async function sendViaProxy(request: SendRequestBody, signal?: AbortSignal): Promise<ProxyResult> {
+  try {
+    // The proxy rate limits signed-in users per Clerk account and anonymous callers per client address
+    const deviceId = getDeviceId()
+    return await relay('/api/request', deviceId ? { 'x-device-id': deviceId } : {}, request, signal)
+  } catch (error) {
+    return networkError(error, signal)
+  }
+}
+
+/**
+ * A transport that sends through the local agent (`pnpm agent`), which can reach
+ * localhost and the user's private networks
+ */
+export function sendViaAgent(agentUrl = DEFAULT_AGENT_URL): RequestTransport {
+  const endpoint = new URL('/request', agentUrl).toString()
+  return async (request, signal) => {
+    try {
+      return await relay(endpoint, {}, request, signal)
+    } catch (error) {
+      const reason = error instanceof Error ? ` (${error.message})` : ''
+      return networkError(
+        new Error(`Could not reach the local agent at ${agentUrl}${reason}. Start it with "pnpm agent", or send through the proxy instead.`),
+        signal
+      )
+    }
+  }
+}
+
+// The browser follows redirects itself; with manual redirects it hides the
+// response. A failed fetch is most often the server not allowing CORS.
+const browserFetch: typeof fetch = async (input, init) => {
+  try {
+    return await fetch(input, { ...init, redirect: 'follow' })
+  } catch (error) {
+    if (error instanceof TypeError && !init?.signal?.aborted) {
+      throw new TypeError(
+        'The browser could not send the request. The server may not allow requests from this page (CORS), ' +
+        'or it may be unreachable. Send through the local agent or the proxy instead.'
+      )
+    }
+    throw error
+  }
+}
+
+/**
+ * Send a request from the browser itself. Works for servers that allow this page
+ * through CORS; the browser drops headers like Cookie and Host, hides Set-Cookie
+ * and headers the server does not expose, and redirects are not reported.
+ */
+export function sendFromBrowser(request: SendRequestBody, signal?: AbortSignal): Promise<ProxyResult> {
+  return sendDirect(request, signal, browserFetch)
+}
+
+/**
+ * The transport a workspace's settings select
+ */
+export function getTransport(settings?: Pick<WorkspaceSettings, 'transport' | 'agentUrl'>): RequestTransport {
+  switch (settings?.transport) {
+    case 'agent':
+      return sendViaAgent(settings.agentUrl || DEFAULT_AGENT_URL)
+    case 'browser':
+      return sendFromBrowser
+    default:
+      return sendViaProxy
+  }
+}
@@ -0,0 +1,175 @@
+import type { ApiResponse, ResponseHeader } from '@/types'
+import { base64ToBytes, bytesToBase64 } from '@/lib/request-body'
+import { getHeader } from '@/lib/response-headers'
+
+// Subtypes that are text whatever their top-level type, e.g. application/problem+json or image/svg+xml
+const TEXT_SUBTYPE = /json|xml|javascript|ecmascript|yaml|csv|graphql|x-www-form-urlencoded/
+
+// Extensions for downloads without a Content-Disposition filename
+const EXTENSIONS: Record<string, string> = {
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/gzip': 'gz',
+  'text/html': 'html',
+  'text/xml': 'xml',
+  'text/csv': 'csv',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+}
+
+function mediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase()
+}
+
+/**
+ * Whether a response with this Content-Type can be shown as text.
+ * Returns undefined when there is no Content-Type to go by.
+ */
+export function isTextContentType(contentType: string | undefined): boolean | undefined {
+  const type = contentType ? mediaType(contentType) : ''
+  if (!type) return undefined
+  return type.startsWith('text/') || TEXT_SUBTYPE.test(type.split('/')[1] ?? '')
+}
+
+function charset(contentType: string): string {
+  return /charset="?([^";\s]+)/i.exec(contentType)?.[1] ?? 'utf-8'
+}
+
+function decodeText(bytes: Uint8Array, label: string, fatal = false): string {
+  try {
+    return new TextDecoder(label, { fatal }).decode(bytes)
+  } catch (error) {
+    // An unknown charset falls back to UTF-8; an invalid byte sequence in fatal mode is rethrown
+    if (error instanceof RangeError) return new TextDecoder('utf-8', { fatal }).decode(bytes)
+    throw error
+  }
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(maxSize: number) {
+    super(`Response is larger than the ${maxSize} byte limit`)
+    this.name = 'ResponseTooLargeError'
+  }
+}
+
+// The body's bytes, giving up as soon as there are more than maxSize of them
+async function readBytes(response: Response, maxSize: number): Promise<Uint8Array> {
+  if (!maxSize || !response.body) return new Uint8Array(await response.arrayBuffer())
+
+  if (Number(response.headers.get('content-length')) > maxSize) {
+    await response.body.cancel()
+    throw new ResponseTooLargeError(maxSize)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    length += value.length
+    if (length > maxSize) {
+      await reader.cancel()
+      throw new ResponseTooLargeError(maxSize)
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(length)
+  let offset = 0
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  })
+  return bytes
+}
+
+/**
+ * Read a fetch response body: text as is, binary as base64. The size is the
+ * number of bytes received, whatever the encoding. Throws ResponseTooLargeError
+ * for bodies over maxSize bytes, when one is given.
+ */
+export async function readResponseBody(
+  response: Response,
+  maxSize = 0
+): Promise<Pick<ApiResponse, 'body' | 'bodyEncoding' | 'size'>> {
+  const bytes = await readBytes(response, maxSize)
+  const contentType = response.headers.get('content-type') ?? ''
+  const isText = isTextContentType(contentType)
+
+  if (isText) {
+    return { body: decodeText(bytes, charset(contentType)), size: bytes.length }
+  }
+  if (isText === undefined) {
+    // Without a Content-Type, anything that is valid UTF-8 is taken for text
+    try {
+      return { body: decodeText(bytes, 'utf-8', true), size: bytes.length }
+    } catch {
+      // Not text, send it as binary
+    }
+  }
+  return { body: bytesToBase64(bytes), bodyEncoding: 'base64', size: bytes.length }
+}
+
+/**
+ * The raw bytes of a response body
+ */
+export function responseBytes(response: Pick<ApiResponse, 'body' | 'bodyEncoding'>): Uint8Array<ArrayBuffer> {
+  return response.bodyEncoding === 'base64' ? base64ToBytes(response.body) : new TextEncoder().encode(response.body)
+}
+
+/**
+ * The file name suggested by a Content-Disposition header, preferring the
+ * RFC 5987 filename* form, without any directory part
+ */
+export function getContentDispositionFilename(header: string | undefined): string | undefined {
+  if (!header) return undefined
+
+  let name: string | undefined
+  const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header)
+  if (extended) {
+    try {
+      name = decodeURIComponent(extended[2].trim())
+    } catch {
+      // Malformed encoding, try the plain filename instead
+    }
+  }
+  if (!name) {
+    const plain = /filename\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;]+))/i.exec(header)
+    name = plain ? (plain[1]?.replace(/\\(.)/g, '$1') ?? plain[2].trim()) : undefined
+  }
+
+  name = name?.split(/[/\\]/).pop()?.trim()
+  return name || undefined
+}
+
+/**
+ * The file name to save a response as: the Content-Disposition filename, or
+ * "response" with an extension matching the Content-Type
+ */
+export function getDownloadFilename(headers: ResponseHeader[], isBinary: boolean): string {
+  const filename = getContentDispositionFilename(getHeader(headers, 'content-disposition'))
+  if (filename) return filename
+
+  const type = mediaType(getHeader(headers, 'content-type') ?? '')
+  return `response.${EXTENSIONS[type] ?? (type.endsWith('+json') ? 'json' : isBinary ? 'bin' : 'txt')}`
+}
+
+/**
+ * A hex dump in the classic offset / 16 bytes / ASCII layout
+ */
+export function toHexDump(bytes: Uint8Array): string {
+  const lines: string[] = []
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = Array.from(bytes.subarray(offset, offset + 16))
+    const hex = row.map((byte) => byte.toString(16).padStart(2, '0'))
+    const ascii = row.map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('')
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.slice(0, 8).join(' ').padEnd(23)}  ${hex.slice(8).join(' ').padEnd(23)}  |${ascii}|`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,77 @@
+import type { HistoryEntry, ResponseHeader } from '@/types'
+
+// Responses stored before headers became a list kept them as one value per name
+export type LegacyResponseHeaders = Record<string, string>
+
+/** A fetch response, with its headers as received when the fetch could see them */
+export type ResponseWithRawHeaders = Response & { rawHeaders?: ResponseHeader[] }
+
+/**
+ * Read the headers of a fetch response. Fetches on Node's http modules attach
+ * them as received, in order with their case and repeats. Otherwise all that
+ * is left is what Headers keeps: lowercased names sorted alphabetically, with
+ * repeated headers joined by ", " except for Set-Cookie, whose values stay separate.
+ */
+export function readResponseHeaders(response: ResponseWithRawHeaders): ResponseHeader[] {
+  if (response.rawHeaders) return response.rawHeaders
+  const list: ResponseHeader[] = []
+  response.headers.forEach((value, key) => {
+    list.push({ key, value })
+  })
+  return list
+}
+
+/**
+ * Every value of a header, in order; names are case-insensitive
+ */
+export function getHeaderValues(headers: ResponseHeader[], name: string): string[] {
+  const lower = name.toLowerCase()
+  return headers.filter((header) => header.key.toLowerCase() === lower).map((header) => header.value)
+}
+
+/**
+ * A header's value, with repeated values joined by ", " like Headers.get.
+ * Undefined when the response does not have it.
+ */
+export function getHeader(headers: ResponseHeader[], name: string): string | undefined {
+  const values = getHeaderValues(headers, name)
+  return values.length > 0 ? values.join(', ') : undefined
+}
+
+/**
+ * One entry per header name, for APIs that take an object. Repeated values are
+ * joined by ", ", except Set-Cookie, whose values are joined by newlines.
+ */
+export function headersToObject(headers: ResponseHeader[]): Record<string, string> {
+  const result: Record<string, string> = {}
+  const names: Record<string, string> = {} // Lowercase name to the spelling first seen
+  headers.forEach(({ key, value }) => {
+    const lower = key.toLowerCase()
+    const existing = names[lower]
+    if (existing === undefined) {
+      names[lower] = key
+      result[key] = value
+    } else {
+      result[existing] += (lower === 'set-cookie' ? '\n' : ', ') + value
+    }
+  })
+  return result
+}
+
+/**
+ * Headers as a list, converting the object stored by older versions
+ */
+export function toHeaderList(headers: ResponseHeader[] | LegacyResponseHeaders | undefined): ResponseHeader[] {
+  if (!headers) return []
+  if (Array.isArray(headers)) return headers
+  return Object.entries(headers).map(([key, value]) => ({ key, value: String(value) }))
+}
+
+/**
+ * Bring a stored history entry up to date; entries already current are returned as they are
+ */
+export function migrateHistoryEntry(entry: HistoryEntry): HistoryEntry {
+  const headers = entry.response?.headers as ResponseHeader[] | LegacyResponseHeaders | undefined
+  if (!entry.response || Array.isArray(headers)) return entry
+  return { ...entry, response: { ...entry.response, headers: toHeaderList(headers) } }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseCliArgs, runCli } from '../cli'
+import type { RequestTransport } from '@/lib/request-sender'
+import { executeScript } from '@/lib/scripting'
+
+const postmanCollection = JSON.stringify({
+  info: { name: 'CI Suite', schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json' },
+  item: [
+    {
+      name: 'Health',
+      request: { method: 'GET', url: '{{baseUrl}}/health' },
+      event: [{ listen: 'test', script: { exec: ["pm.test('is up', () => pm.response.to.have.status(200))"] } }],
+    },
+    {
+      name: 'Admin',
+      item: [{ name: 'Stats', request: { method: 'GET', url: '{{baseUrl}}/stats' } }],
+    },
+  ],
+})
+
+const environment = JSON.stringify({ name: 'CI', values: [{ key: 'baseUrl', value: 'https://ci.example.com', enabled: true }] })
+
+const createIO = (status = 200) => {
+  const files: Record<string, string> = {
+    'suite.json': postmanCollection,
+    'ci.json': environment,
+    'hosts.csv': 'baseUrl\nhttps://a.example.com\nhttps://b.example.com',
+  }
+  const output: string[] = []
+  const written: Record<string, string> = {}
+  const transport: RequestTransport = vi.fn(async () => ({
+    response: { status, statusText: status === 200 ? 'OK' : 'Error', headers: [], body: '', time: 3, size: 0 },
+  }))
+  return {
+    output,
+    written,
+    transport,
+    io: {
+      readFile: async (path: string) => {
+        if (!(path in files)) throw new Error(`ENOENT: ${path}`)
+        return files[path]
+      },
+      write: (text: string) => output.push(text),
+      writeFile: async (path: string, content: string) => {
+        written[path] = content
+      },
+      transport,
+      createScriptExecutor: () => executeScript,
+    },
+  }
+}
+
+describe('parseCliArgs', () => {
+  it('should parse the collection and options', () => {
+    const options = parseCliArgs(['suite.json', '-e', 'ci.json', '--env-var', 'token=a=b', '--bail', '--delay-request', '50'])
+
+    expect(options).toMatchObject({ collection: 'suite.json', environment: 'ci.json', bail: true, delay: 50 })
+    expect(options.envVars).toEqual([expect.objectContaining({ key: 'token', value: 'a=b' })])
+  })
+
+  it('should reject missing values and unknown options', () => {
+    expect(() => parseCliArgs(['suite.json', '-e'])).toThrow('Missing value for -e')
+    expect(() => parseCliArgs(['suite.json', '--verbose'])).toThrow('Unknown option --verbose')
+    expect(() => parseCliArgs([])).toThrow('A collection file is required')
+  })
+
+  it('should parse the script timeout', () => {
+    expect(parseCliArgs(['suite.json', '--script-timeout', '2000']).scriptTimeout).toBe(2000)
+    expect(() => parseCliArgs(['suite.json', '--script-timeout', '0'])).toThrow('Invalid timeout for --script-timeout')
+  })
+})
+
+describe('runCli', () => {
+  it('should run the collection with the environment and exit 0 when everything passes', async () => {
+    const { io, output, transport } = createIO()
+
+    const code = await runCli(['suite.json', '-e', 'ci.json'], io)
+
+    expect(code).toBe(0)
+    expect(vi.mocked(transport).mock.calls.map(([sent]) => sent.url)).toEqual([
+      'https://ci.example.com/health',
+      'https://ci.example.com/stats',
+    ])
+    expect(output.join('\n')).toContain('✓ is up')
+  })
+
+  it('should exit 1 when a test fails', async () => {
+    const { io, output } = createIO(500)
+
+    const code = await runCli(['suite.json', '-e', 'ci.json'], io)
+
+    expect(code).toBe(1)
+    expect(output.join('\n')).toContain('1. Health: is up')
+  })
+
+  it('should run a folder by name', async () => {
+    const { io, transport } = createIO()
+
+    await runCli(['suite.json', '--folder', 'Admin', '--env-var', 'baseUrl=http://localhost'], io)
+
+    expect(vi.mocked(transport).mock.calls.map(([sent]) => sent.url)).toEqual(['http://localhost/stats'])
+  })
+
+  it('should run once per row of a data file', async () => {
+    const { io, output, transport } = createIO()
+
+    await runCli(['suite.json', '--folder', 'Admin', '-d', 'hosts.csv'], io)
+
+    expect(vi.mocked(transport).mock.calls.map(([sent]) => sent.url)).toEqual([
+      'https://a.example.com/stats',
+      'https://b.example.com/stats',
+    ])
+    expect(output).toContain('Iteration 2/2\n')
+  })
+
+  it('should write the requested reports', async () => {
+    const { io, written } = createIO()
+
+    await runCli(['suite.json', '-e', 'ci.json', '--report-junit', 'out/junit.xml', '--report-json', 'out/run.json'], io)
+
+    expect(written['out/junit.xml']).toContain('<testcase name="is up" classname="Health"')
+    expect(JSON.parse(written['out/run.json']).summary.total).toBe(2)
+  })
+
+  it('should run scripts with an executor built for the script timeout', async () => {
+    const { io } = createIO()
+    const executor = vi.fn(async () => ({ request: { method: 'GET', url: '', headers: {} }, variableChanges: [], testResults: [] }))
+    const createScriptExecutor = vi.fn(() => executor)
+
+    await runCli(['suite.json', '-e', 'ci.json', '--script-timeout', '250'], { ...io, createScriptExecutor })
+
+    expect(createScriptExecutor).toHaveBeenCalledWith(250)
+    expect(executor).toHaveBeenCalled()
+  })
+
+  it('should exit 2 for unreadable files', async () => {
+    const { io, output } = createIO()
+
+    const code = await runCli(['missing.json'], io)
+
+    expect(code).toBe(2)
+    expect(output[0]).toContain('error: ENOENT: missing.json')
+  })
+})
@@ -0,0 +1,306 @@
+import { describe, it, expect, vi } from 'vitest'
+import { runCollection, collectRequests, findFolder } from '../collection-runner'
+import { cancelledResult, type RequestTransport } from '@/lib/request-sender'
+import { executeScript } from '@/lib/scripting'
+import type { ApiRequest, Collection } from '@/types'
+
+const createRequest = (overrides: Partial<ApiRequest> = {}): ApiRequest => ({
+  id: 'req-id',
+  name: 'Request',
+  method: 'GET',
+  url: 'https://api.example.com',
+  headers: [],
+  params: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const createCollection = (overrides: Partial<Collection> = {}): Collection => ({
+  id: 'col-1',
+  name: 'Flow',
+  requests: [
+    createRequest({ id: 'login', name: 'Login', method: 'POST', url: '{{baseUrl}}/login' }),
+  ],
+  folders: [
+    {
+      id: 'folder-1',
+      name: 'Users',
+      requests: [
+        createRequest({ id: 'list', name: 'List Users', url: '{{baseUrl}}/users' }),
+      ],
+      folders: [
+        {
+          id: 'folder-2',
+          name: 'Admin',
+          requests: [
+            createRequest({ id: 'delete', name: 'Delete User', method: 'DELETE', url: '{{baseUrl}}/users/1' }),
+          ],
+          folders: [],
+        },
+      ],
+    },
+  ],
+  variables: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const okTransport = (body = '{}', status = 200): RequestTransport =>
+  vi.fn(async () => ({
+    response: { status, statusText: 'OK', headers: [], body, time: 10, size: body.length },
+  }))
+
+describe('collectRequests', () => {
+  it('should flatten requests before folders, depth first', () => {
+    const items = collectRequests(createCollection())
+    expect(items.map((i) => i.request.id)).toEqual(['login', 'list', 'delete'])
+    expect(items[2].path).toEqual(['Users', 'Admin'])
+  })
+
+  it('should leave out WebSocket connections', () => {
+    const collection = createCollection()
+    collection.requests.push(createRequest({ id: 'live', protocol: 'websocket', url: 'wss://api.example.com/live' }))
+
+    expect(collectRequests(collection).map((i) => i.request.id)).toEqual(['login', 'list', 'delete'])
+  })
+})
+
+describe('findFolder', () => {
+  it('should find nested folders with their path', () => {
+    const found = findFolder(createCollection().folders, 'folder-2')
+    expect(found?.folder.name).toBe('Admin')
+    expect(found?.path).toEqual(['Users', 'Admin'])
+  })
+
+  it('should return null for unknown folders', () => {
+    expect(findFolder(createCollection().folders, 'missing')).toBeNull()
+  })
+})
+
+describe('runCollection', () => {
+  const variables = [{ id: 'v1', key: 'baseUrl', value: 'https://api.example.com', enabled: true }]
+
+  it('should run every request in order with variable substitution', async () => {
+    const transport = okTransport()
+    const result = await runCollection(createCollection(), { variables, transport })
+
+    expect(transport).toHaveBeenCalledTimes(3)
+    expect(result.results.map((r) => r.url)).toEqual([
+      'https://api.example.com/login',
+      'https://api.example.com/users',
+      'https://api.example.com/users/1',
+    ])
+    expect(result.summary).toMatchObject({ total: 3, passed: 3, failed: 0, totalTime: 30 })
+  })
+
+  it('should only run the selected folder', async () => {
+    const transport = okTransport()
+    const result = await runCollection(createCollection(), { variables, transport, folderId: 'folder-2' })
+
+    expect(result.results).toHaveLength(1)
+    expect(result.results[0].requestId).toBe('delete')
+    expect(result.name).toBe('Flow / Users / Admin')
+  })
+
+  it('should throw for an unknown folder', async () => {
+    await expect(
+      runCollection(createCollection(), { variables, transport: okTransport(), folderId: 'missing' })
+    ).rejects.toThrow('not found')
+  })
+
+  it('should aggregate test results and mark failing requests', async () => {
+    const collection = createCollection({
+      requests: [
+        createRequest({
+          id: 'a',
+          testScript: { enabled: true, content: "pm.test('is 200', () => pm.expect(pm.response.status).to.equal(200))" },
+        }),
+        createRequest({
+          id: 'b',
+          testScript: { enabled: true, content: "pm.test('is 201', () => pm.expect(pm.response.status).to.equal(201))" },
+        }),
+      ],
+      folders: [],
+    })
+
+    const result = await runCollection(collection, { variables: [], transport: okTransport(), scriptExecutor: executeScript })
+
+    expect(result.results.map((r) => r.passed)).toEqual([true, false])
+    expect(result.summary).toMatchObject({ tests: 2, testsPassed: 1, testsFailed: 1, passed: 1, failed: 1 })
+  })
+
+  it('should pass variables set by one request to the next', async () => {
+    const collection = createCollection({
+      requests: [
+        createRequest({
+          id: 'login',
+          url: 'https://api.example.com/login',
+          testScript: { enabled: true, content: "pm.environment.set('token', pm.response.json().token)" },
+        }),
+        createRequest({
+          id: 'me',
+          url: 'https://api.example.com/me',
+          headers: [{ id: 'h1', key: 'Authorization', value: 'Bearer {{token}}', enabled: true }],
+        }),
+      ],
+      folders: [],
+    })
+    const transport = okTransport('{"token":"abc"}')
+    const onVariablesChange = vi.fn()
+
+    await runCollection(collection, { variables: [], transport, onVariablesChange, scriptExecutor: executeScript })
+
+    expect(vi.mocked(transport).mock.calls[1][0].headers.Authorization).toBe('Bearer abc')
+    expect(onVariablesChange).toHaveBeenCalledWith([expect.objectContaining({ key: 'token', value: 'abc' })])
+  })
+
+  it('should carry globals, collection and local variables through the run', async () => {
+    const collection = createCollection({
+      requests: [
+        createRequest({
+          id: 'first',
+          url: 'https://api.example.com/first',
+          testScript: {
+            enabled: true,
+            content: "pm.globals.set('g', 'G'); pm.collectionVariables.set('c', 'C'); pm.variables.set('l', 'L')",
+          },
+        }),
+        createRequest({ id: 'second', url: 'https://api.example.com/{{g}}/{{c}}/{{l}}' }),
+      ],
+      folders: [],
+    })
+    const transport = okTransport()
+    const onGlobalsChange = vi.fn()
+    const onCollectionVariablesChange = vi.fn()
+
+    await runCollection(collection, { variables: [], transport, onGlobalsChange, onCollectionVariablesChange, scriptExecutor: executeScript })
+
+    expect(vi.mocked(transport).mock.calls[1][0].url).toBe('https://api.example.com/G/C/L')
+    expect(onGlobalsChange).toHaveBeenCalledWith([expect.objectContaining({ key: 'g', value: 'G' })])
+    expect(onCollectionVariablesChange).toHaveBeenCalledWith([expect.objectContaining({ key: 'c', value: 'C' })])
+  })
+
+  it('should run once per data row with row values as variables', async () => {
+    const collection = createCollection({
+      requests: [
+        createRequest({
+          url: 'https://api.example.com/signup/{{email}}',
+          testScript: {
+            enabled: true,
+            content: "pm.test('row ' + pm.info.iteration, () => pm.expect(pm.iterationData.get('email')).to.equal(pm.variables.get('email')))",
+          },
+        }),
+      ],
+      folders: [],
+    })
+    const transport = okTransport()
+    const onRequestStart = vi.fn()
+
+    const result = await runCollection(collection, {
+      variables: [{ id: 'v1', key: 'email', value: 'env@example.com', enabled: true }],
+      transport,
+      data: [{ email: 'a@example.com' }, { email: 'b@example.com' }],
+      onRequestStart,
+      scriptExecutor: executeScript,
+    })
+
+    expect(vi.mocked(transport).mock.calls.map(([sent]) => sent.url)).toEqual([
+      'https://api.example.com/signup/a@example.com',
+      'https://api.example.com/signup/b@example.com',
+    ])
+    expect(result.iterations).toBe(2)
+    expect(result.results.map((r) => r.iteration)).toEqual([0, 1])
+    expect(result.results.flatMap((r) => r.testResults)).toEqual([
+      { name: 'row 0', passed: true },
+      { name: 'row 1', passed: true },
+    ])
+    expect(onRequestStart).toHaveBeenLastCalledWith(expect.anything(), 1, 2)
+  })
+
+  it('should repeat the run for an iteration count', async () => {
+    const transport = okTransport()
+
+    const result = await runCollection(createCollection(), { variables, transport, iterations: 2 })
+
+    expect(transport).toHaveBeenCalledTimes(6)
+    expect(result.summary.total).toBe(6)
+  })
+
+  it('should record proxy errors', async () => {
+    const transport: RequestTransport = async () => ({
+      response: { status: 0, statusText: 'Network Error', headers: [], body: 'boom', time: 0, size: 0 },
+      error: 'boom',
+    })
+
+    const result = await runCollection(createCollection(), { variables, transport })
+
+    expect(result.summary.errors).toBe(3)
+    expect(result.results[0].error).toBe('boom')
+  })
+
+  it('should skip requests without a URL', async () => {
+    const collection = createCollection({ requests: [createRequest({ url: '' })], folders: [] })
+    const transport = okTransport()
+
+    const result = await runCollection(collection, { variables: [], transport })
+
+    expect(transport).not.toHaveBeenCalled()
+    expect(result.results[0].error).toBe('Request has no URL')
+  })
+
+  it('should stop on the first failure when requested', async () => {
+    const transport = okTransport('{}', 500)
+    const collection = createCollection({
+      requests: [
+        createRequest({ id: 'a', testScript: { enabled: true, content: "pm.test('ok', () => pm.expect(pm.response.status).to.equal(200))" } }),
+        createRequest({ id: 'b' }),
+      ],
+      folders: [],
+    })
+
+    const result = await runCollection(collection, { variables: [], transport, stopOnFailure: true })
+
+    expect(result.results).toHaveLength(1)
+  })
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController()
+    const transport = okTransport()
+
+    const result = await runCollection(createCollection(), {
+      variables,
+      transport,
+      signal: controller.signal,
+      onRequestComplete: () => controller.abort(),
+    })
+
+    expect(result.results).toHaveLength(1)
+    expect(result.aborted).toBe(true)
+  })
+
+  it('should abort the request in flight when stopped', async () => {
+    const controller = new AbortController()
+    const transport: RequestTransport = vi.fn(async (request, signal) => {
+      controller.abort()
+      return signal?.aborted ? cancelledResult() : { response: { status: 200, statusText: 'OK', headers: [], body: '', time: 1, size: 0 } }
+    })
+
+    const result = await runCollection(createCollection(), { variables, transport, signal: controller.signal })
+
+    expect(transport).toHaveBeenCalledTimes(1)
+    expect(result.results).toHaveLength(0)
+    expect(result.aborted).toBe(true)
+  })
+
+  it('should report progress', async () => {
+    const onRequestStart = vi.fn()
+    const onRequestComplete = vi.fn()
+
+    await runCollection(createCollection(), { variables, transport: okTransport(), onRequestStart, onRequestComplete })
+
+    expect(onRequestStart).toHaveBeenCalledTimes(3)
+    expect(onRequestComplete).toHaveBeenLastCalledWith(expect.objectContaining({ requestId: 'delete' }), 2, 3)
+  })
+})
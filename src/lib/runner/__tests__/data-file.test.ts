@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, parseDataFile, parseJsonData } from '../data-file'
+
+describe('parseCsv', () => {
+  it('should map each row to the header columns', () => {
+    expect(parseCsv('email,password\r\na@example.com,one\r\nb@example.com,two\r\n')).toEqual([
+      { email: 'a@example.com', password: 'one' },
+      { email: 'b@example.com', password: 'two' },
+    ])
+  })
+
+  it('should handle quoted fields with commas, quotes and newlines', () => {
+    expect(parseCsv('name,note\n"Doe, Jane","said ""hi""\nthen left"')).toEqual([
+      { name: 'Doe, Jane', note: 'said "hi"\nthen left' },
+    ])
+  })
+
+  it('should skip blank lines and fill missing columns', () => {
+    expect(parseCsv('a,b\n\n1\n')).toEqual([{ a: '1', b: '' }])
+  })
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseCsv('a\n"open')).toThrow('Unterminated quoted field')
+  })
+})
+
+describe('parseJsonData', () => {
+  it('should stringify non-string values', () => {
+    expect(parseJsonData('[{"id":1,"active":true,"tags":["x"],"name":"a"}]')).toEqual([
+      { id: '1', active: 'true', tags: '["x"]', name: 'a' },
+    ])
+  })
+
+  it('should require an array of objects', () => {
+    expect(() => parseJsonData('{"id":1}')).toThrow('array of objects')
+    expect(() => parseJsonData('[1, 2]')).toThrow('array of objects')
+  })
+})
+
+describe('parseDataFile', () => {
+  it('should pick the format from the file name, then the content', () => {
+    expect(parseDataFile('[{"a":"1"}]', 'rows.json')).toEqual([{ a: '1' }])
+    expect(parseDataFile('a\n1', 'rows.csv')).toEqual([{ a: '1' }])
+    expect(parseDataFile('  [{"a":"1"}]')).toEqual([{ a: '1' }])
+    expect(parseDataFile('a\n1')).toEqual([{ a: '1' }])
+  })
+})
@@ -0,0 +1,457 @@
+import { describe, it, expect, vi } from 'vitest'
+import { executeRequest, prepareRequest } from '../execute-request'
+import type { RequestTransport } from '@/lib/request-sender'
+import { executeScript, type ScriptExecutor } from '@/lib/scripting'
+import { createMemoryTokenStore, DEFAULT_OAUTH2_CONFIG, oauth2TokenKey } from '@/lib/auth'
+import { createMemoryCookieStore } from '@/lib/cookies'
+import type { ApiRequest, Collection } from '@/types'
+
+const createRequest = (overrides: Partial<ApiRequest> = {}): ApiRequest => ({
+  id: 'req-1',
+  name: 'Request',
+  method: 'POST',
+  url: 'https://api.example.com/{{path}}',
+  headers: [],
+  params: [],
+  body: { type: 'json', content: '{"ts":"{{timestamp}}"}' },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const createCollection = (overrides: Partial<Collection> = {}): Collection => ({
+  id: 'col-1',
+  name: 'Collection',
+  requests: [],
+  folders: [],
+  variables: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const createTransport = (): RequestTransport =>
+  vi.fn(async () => ({
+    response: { status: 200, statusText: 'OK', headers: [], body: '{}', time: 1, size: 2 },
+  }))
+
+const variables = [{ id: 'v1', key: 'path', value: 'users', enabled: true }]
+
+describe('prepareRequest', () => {
+  it('should substitute variables into URL, headers and body', () => {
+    const prepared = prepareRequest(
+      createRequest({ headers: [{ id: 'h1', key: 'X-Path', value: '{{path}}', enabled: true }] }),
+      variables
+    )
+    expect(prepared.url).toBe('https://api.example.com/users')
+    expect(prepared.headers['X-Path']).toBe('users')
+    expect(prepared.headers['Content-Type']).toBe('application/json')
+  })
+
+  it('should substitute variables into form-data text fields but not files', () => {
+    const file = { name: '{{path}}.txt', contentType: 'text/plain', size: 2, data: 'aGk=' }
+    const prepared = prepareRequest(
+      createRequest({
+        body: {
+          type: 'form-data',
+          formData: [
+            { id: 'f1', key: 'name', value: '{{path}}', enabled: true },
+            { id: 'f2', key: 'upload', value: '', enabled: true, type: 'file', file },
+          ],
+        },
+      }),
+      variables
+    )
+    expect(prepared.body).toBeUndefined()
+    expect(prepared.formData).toEqual([{ key: 'name', value: 'users' }, { key: 'upload', value: '', file }])
+  })
+
+  it('should send binary bodies as base64 with the file type', () => {
+    const prepared = prepareRequest(
+      createRequest({ body: { type: 'binary', file: { name: 'a.png', contentType: 'image/png', size: 3, data: 'e3twYXRofX0=' } } }),
+      variables
+    )
+    expect(prepared).toMatchObject({ body: 'e3twYXRofX0=', bodyEncoding: 'base64' })
+    expect(prepared.headers['Content-Type']).toBe('image/png')
+  })
+})
+
+describe('executeRequest', () => {
+  describe('pre-request scripts', () => {
+    it('should set variables before substitution', async () => {
+      const transport = createTransport()
+      const request = createRequest({
+        preRequestScript: { enabled: true, content: "pm.environment.set('timestamp', 12345)" },
+      })
+
+      const result = await executeRequest(request, { variables, transport, scriptExecutor: executeScript })
+
+      expect(vi.mocked(transport).mock.calls[0][0].body).toBe('{"ts":"12345"}')
+      expect(result.variables).toContainEqual(expect.objectContaining({ key: 'timestamp', value: '12345' }))
+    })
+
+    it('should mutate headers, URL and body of the outgoing request', async () => {
+      const transport = createTransport()
+      const request = createRequest({
+        headers: [{ id: 'h1', key: 'X-Remove', value: 'x', enabled: true }],
+        preRequestScript: {
+          enabled: true,
+          content: [
+            "pm.request.headers.add({ key: 'X-Signature', value: 'sig-{{path}}' })",
+            "pm.request.headers.upsert({ key: 'content-type', value: 'text/plain' })",
+            "pm.request.headers.remove('x-remove')",
+            "pm.request.url = pm.request.url + '?page=2'",
+            "pm.request.body.raw = 'hello'",
+          ].join('\n'),
+        },
+      })
+
+      await executeRequest(request, { variables, transport, scriptExecutor: executeScript })
+
+      const sent = vi.mocked(transport).mock.calls[0][0]
+      expect(sent.url).toBe('https://api.example.com/users?page=2')
+      expect(sent.headers).toEqual({ 'Content-Type': 'text/plain', 'X-Signature': 'sig-users' })
+      expect(sent.body).toBe('hello')
+    })
+
+    it('should run the collection script before the request script', async () => {
+      const transport = createTransport()
+      const collection = createCollection({
+        preRequestScript: { enabled: true, content: "pm.environment.set('order', 'collection')" },
+      })
+      const request = createRequest({
+        preRequestScript: {
+          enabled: true,
+          content: "pm.environment.set('order', pm.environment.get('order') + ',request')",
+        },
+      })
+
+      const result = await executeRequest(request, { variables: [], collection, transport, scriptExecutor: executeScript })
+
+      expect(result.variables.find((v) => v.key === 'order')?.value).toBe('collection,request')
+    })
+
+    it('should skip disabled scripts', async () => {
+      const transport = createTransport()
+      const request = createRequest({
+        preRequestScript: { enabled: false, content: "pm.request.url = 'https://other.example.com'" },
+      })
+
+      await executeRequest(request, { variables, transport })
+
+      expect(vi.mocked(transport).mock.calls[0][0].url).toBe('https://api.example.com/users')
+    })
+
+    it('should not send the request when the script throws', async () => {
+      const transport = createTransport()
+      const request = createRequest({
+        preRequestScript: { enabled: true, content: "throw new Error('bad signature')" },
+      })
+
+      const result = await executeRequest(request, { variables, transport, scriptExecutor: executeScript })
+
+      expect(transport).not.toHaveBeenCalled()
+      expect(result.error).toBe('Pre-request script error: bad signature')
+      expect(result.response.statusText).toBe('Pre-request Script Error')
+    })
+  })
+
+  describe('collection variables', () => {
+    it('should substitute collection variables', async () => {
+      const transport = createTransport()
+      const collection = createCollection({
+        variables: [{ id: 'c1', key: 'path', value: 'orders', enabled: true }],
+      })
+
+      await executeRequest(createRequest(), { variables: [], collection, transport })
+
+      expect(vi.mocked(transport).mock.calls[0][0].url).toBe('https://api.example.com/orders')
+    })
+
+    it('should let environment variables override collection variables', async () => {
+      const transport = createTransport()
+      const collection = createCollection({
+        variables: [
+          { id: 'c1', key: 'path', value: 'orders', enabled: true },
+          { id: 'c2', key: 'timestamp', value: 'from-collection', enabled: true },
+        ],
+      })
+
+      await executeRequest(createRequest(), { variables, collection, transport })
+
+      const sent = vi.mocked(transport).mock.calls[0][0]
+      expect(sent.url).toBe('https://api.example.com/users')
+      expect(sent.body).toBe('{"ts":"from-collection"}')
+    })
+
+    it('should ignore disabled collection variables', async () => {
+      const transport = createTransport()
+      const collection = createCollection({
+        variables: [{ id: 'c1', key: 'path', value: 'orders', enabled: false }],
+      })
+
+      await executeRequest(createRequest(), { variables: [], collection, transport })
+
+      expect(vi.mocked(transport).mock.calls[0][0].url).toBe('https://api.example.com/{{path}}')
+    })
+  })
+
+  describe('variable scopes', () => {
+    it('should resolve globals below collection variables', async () => {
+      const transport = createTransport()
+      const collection = createCollection({
+        variables: [{ id: 'c1', key: 'timestamp', value: 'collection', enabled: true }],
+      })
+
+      await executeRequest(createRequest(), {
+        variables: [],
+        globals: [
+          { id: 'g1', key: 'path', value: 'global', enabled: true },
+          { id: 'g2', key: 'timestamp', value: 'global', enabled: true },
+        ],
+        collection,
+        transport,
+      })
+
+      const sent = vi.mocked(transport).mock.calls[0][0]
+      expect(sent.url).toBe('https://api.example.com/global')
+      expect(sent.body).toBe('{"ts":"collection"}')
+    })
+
+    it('should return updated globals, collection and local variables', async () => {
+      const collection = createCollection()
+      const request = createRequest({
+        preRequestScript: {
+          enabled: true,
+          content: "pm.globals.set('g', '1'); pm.collectionVariables.set('c', '2'); pm.variables.set('timestamp', 'local')",
+        },
+      })
+      const transport = createTransport()
+
+      const result = await executeRequest(request, { variables, collection, transport, scriptExecutor: executeScript })
+
+      expect(result.globals).toEqual([expect.objectContaining({ key: 'g', value: '1' })])
+      expect(result.collectionVariables).toEqual([expect.objectContaining({ key: 'c', value: '2' })])
+      expect(result.localVariables).toEqual([expect.objectContaining({ key: 'timestamp', value: 'local' })])
+      expect(result.variables).toBe(variables)
+      expect(vi.mocked(transport).mock.calls[0][0].body).toBe('{"ts":"local"}')
+    })
+
+    it('should remove unset variables', async () => {
+      const request = createRequest({
+        testScript: { enabled: true, content: "pm.environment.unset('path')" },
+      })
+
+      const result = await executeRequest(request, { variables, transport: createTransport(), scriptExecutor: executeScript })
+
+      expect(result.variables).toEqual([])
+    })
+  })
+
+  it('should send pm.sendRequest calls through the transport', async () => {
+    const transport = createTransport()
+    const request = createRequest({
+      preRequestScript: { enabled: true, content: "await pm.sendRequest('https://auth.example.com/token')" },
+    })
+
+    await executeRequest(request, { variables, transport, scriptExecutor: executeScript })
+
+    expect(vi.mocked(transport).mock.calls.map(([sent]) => sent.url)).toEqual([
+      'https://auth.example.com/token',
+      'https://api.example.com/users',
+    ])
+  })
+
+  it('should set extracted values before the test scripts run', async () => {
+    const transport: RequestTransport = vi.fn(async () => ({
+      response: { status: 200, statusText: 'OK', headers: [{ key: 'Location', value: '/next' }], body: '{"data":{"token":"t1"}}', time: 1, size: 23 },
+    }))
+    const onSetVariable = vi.fn()
+    const request = createRequest({
+      extractors: [
+        { id: 'e1', enabled: true, source: 'json', expression: '$.data.token', variable: 'authToken' },
+        { id: 'e2', enabled: true, source: 'header', expression: 'location', variable: 'nextUrl' },
+      ],
+      testScript: { enabled: true, content: "pm.test('token', () => pm.expect(pm.environment.get('authToken')).to.equal('t1'))" },
+    })
+
+    const result = await executeRequest(request, { variables, transport, onSetVariable, scriptExecutor: executeScript })
+
+    expect(result.testResults).toEqual([{ name: 'token', passed: true }])
+    expect(result.variables).toEqual(expect.arrayContaining([
+      expect.objectContaining({ key: 'authToken', value: 't1' }),
+      expect.objectContaining({ key: 'nextUrl', value: '/next' }),
+    ]))
+    expect(onSetVariable).toHaveBeenCalledWith('authToken', 't1')
+  })
+
+  it('should report assertions before test script results', async () => {
+    const request = createRequest({
+      assertions: [{ id: 'a1', enabled: true, type: 'status', target: '', operator: 'equals', expected: '200' }],
+      testScript: { enabled: true, content: "pm.test('script', () => {})" },
+    })
+
+    const result = await executeRequest(request, { variables, transport: createTransport(), scriptExecutor: executeScript })
+
+    expect(result.testResults).toEqual([
+      { name: 'Status code equals 200', passed: true },
+      { name: 'script', passed: true },
+    ])
+  })
+
+  it('should run the collection test script before the request test script', async () => {
+    const collection = createCollection({
+      testScript: { enabled: true, content: "pm.test('collection', () => pm.expect(pm.response.status).to.equal(200))" },
+    })
+    const request = createRequest({
+      testScript: { enabled: true, content: "pm.test('request', () => pm.expect(pm.response.status).to.equal(201))" },
+    })
+
+    const result = await executeRequest(request, { variables, collection, transport: createTransport(), scriptExecutor: executeScript })
+
+    expect(result.testResults).toEqual([
+      { name: 'collection', passed: true },
+      expect.objectContaining({ name: 'request', passed: false }),
+    ])
+  })
+
+  describe('auth', () => {
+    it('should apply auth inherited from the folder, with variables', async () => {
+      const transport = createTransport()
+      const request = createRequest({ id: 'req-9' })
+      const collection = createCollection({
+        auth: { type: 'basic', basic: { username: 'collection', password: 'x' } },
+        folders: [{
+          id: 'f1',
+          name: 'Folder',
+          auth: { type: 'bearer', bearer: { token: '{{path}}-token' } },
+          requests: [request],
+          folders: [],
+        }],
+      })
+
+      const result = await executeRequest(request, { variables, collection, transport })
+
+      expect(result.sentRequest.headers.Authorization).toBe('Bearer users-token')
+    })
+
+    it('should fetch an OAuth 2.0 token through the transport and send it', async () => {
+      const transport: RequestTransport = vi.fn()
+        .mockResolvedValueOnce({
+          response: { status: 200, statusText: 'OK', headers: [], body: '{"access_token":"a1","token_type":"bearer"}', time: 1, size: 0 },
+        })
+        .mockResolvedValueOnce({
+          response: { status: 200, statusText: 'OK', headers: [], body: '{}', time: 1, size: 2 },
+        })
+      const request = createRequest({
+        auth: {
+          type: 'oauth2',
+          oauth2: { ...DEFAULT_OAUTH2_CONFIG, accessTokenUrl: 'https://auth.example.com/{{path}}', clientId: 'app' },
+        },
+      })
+      const oauth2Tokens = createMemoryTokenStore()
+
+      const result = await executeRequest(request, { variables, transport, oauth2Tokens })
+
+      expect(vi.mocked(transport).mock.calls[0][0].url).toBe('https://auth.example.com/users')
+      expect(result.sentRequest.headers.Authorization).toBe('Bearer a1')
+      expect(oauth2Tokens.get(oauth2TokenKey({ ...DEFAULT_OAUTH2_CONFIG, accessTokenUrl: 'https://auth.example.com/users', clientId: 'app' })))
+        .toMatchObject({ accessToken: 'a1' })
+    })
+
+    it('should not send the request when the token request fails', async () => {
+      const transport: RequestTransport = vi.fn(async () => ({
+        response: { status: 401, statusText: 'Unauthorized', headers: [], body: '{"error":"invalid_client"}', time: 1, size: 0 },
+      }))
+      const request = createRequest({
+        auth: { type: 'oauth2', oauth2: { ...DEFAULT_OAUTH2_CONFIG, accessTokenUrl: 'https://auth.example.com/token', clientId: 'app' } },
+      })
+
+      const result = await executeRequest(request, { variables, transport })
+
+      expect(transport).toHaveBeenCalledTimes(1)
+      expect(result.error).toBe('OAuth 2.0 token request failed: invalid_client')
+      expect(result.response.statusText).toBe('OAuth 2.0 Error')
+    })
+
+    it('should answer a digest challenge with one retry', async () => {
+      const transport: RequestTransport = vi.fn()
+        .mockResolvedValueOnce({
+          response: { status: 401, statusText: 'Unauthorized', headers: [{ key: 'www-authenticate', value: 'Digest realm="api", nonce="n1", qop="auth"' }], body: '', time: 1, size: 0 },
+        })
+        .mockResolvedValueOnce({
+          response: { status: 200, statusText: 'OK', headers: [], body: '{}', time: 1, size: 2 },
+        })
+      const request = createRequest({ auth: { type: 'digest', digest: { username: 'ada', password: 'secret' } } })
+
+      const result = await executeRequest(request, { variables, transport })
+
+      expect(transport).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(transport).mock.calls[0][0].headers.Authorization).toBeUndefined()
+      expect(result.sentRequest.headers.Authorization).toMatch(/^Digest username="ada", realm="api", nonce="n1", uri="\/users"/)
+      expect(result.response.status).toBe(200)
+    })
+  })
+
+  it('should run the test script against the response', async () => {
+    const request = createRequest({
+      testScript: { enabled: true, content: "pm.test('ok', () => pm.expect(pm.response.status).to.equal(200))" },
+    })
+
+    const result = await executeRequest(request, { variables, transport: createTransport(), scriptExecutor: executeScript })
+
+    expect(result.testResults).toEqual([{ name: 'ok', passed: true }])
+  })
+
+  it('should send with the request settings over the collection ones, and the abort signal', async () => {
+    const transport = createTransport()
+    const controller = new AbortController()
+
+    const result = await executeRequest(createRequest({ settings: { timeout: 500 } }), {
+      variables,
+      collection: createCollection({ settings: { timeout: 5000, followRedirects: false } }),
+      transport,
+      signal: controller.signal,
+    })
+
+    expect(result.sentRequest.settings).toEqual({ timeout: 500, followRedirects: false })
+    expect(transport).toHaveBeenCalledWith(result.sentRequest, controller.signal)
+  })
+
+  it('should not send a request cancelled while its scripts ran', async () => {
+    const transport = createTransport()
+    const controller = new AbortController()
+    const scriptExecutor = vi.fn(async (input: Parameters<ScriptExecutor>[0]) => {
+      controller.abort()
+      return { request: input.request, variableChanges: [], testResults: [] }
+    })
+
+    const result = await executeRequest(createRequest({ preRequestScript: { enabled: true, content: 'wait()' } }), {
+      variables,
+      transport,
+      scriptExecutor,
+      signal: controller.signal,
+    })
+
+    expect(transport).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ cancelled: true, error: 'Request cancelled', response: { statusText: 'Cancelled' } })
+  })
+
+  it('should send the cookie jar and store the cookies the response sets', async () => {
+    const session = { name: 'session', value: 's1', domain: 'api.example.com', path: '/' }
+    const transport = vi.fn<RequestTransport>(async () => ({
+      response: { status: 200, statusText: 'OK', headers: [], body: '{}', time: 1, size: 2, cookies: [session] },
+    }))
+    const cookies = createMemoryCookieStore([{ name: 'id', value: '7', domain: 'api.example.com', path: '/' }])
+    const request = createRequest({
+      testScript: { enabled: true, content: "pm.test('cookie', () => pm.expect(pm.cookies.get('session')).to.equal('s1'))" },
+    })
+
+    const result = await executeRequest(request, { variables, transport, cookies, scriptExecutor: executeScript })
+
+    expect(transport.mock.calls[0][0].cookies).toEqual([{ name: 'id', value: '7', domain: 'api.example.com', path: '/' }])
+    expect(result.sentRequest.cookies).toBeUndefined()
+    expect(cookies.get()).toEqual([{ name: 'id', value: '7', domain: 'api.example.com', path: '/' }, session])
+    expect(result.testResults).toEqual([{ name: 'cookie', passed: true }])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { reportFilename, toHtmlReport, toJsonReport, toJUnitReport } from '../reporters'
+import { summarizeRun, type CollectionRunResult, type RequestRunResult } from '../collection-runner'
+
+const response = { status: 200, statusText: 'OK', headers: [], body: '<ok>', time: 120, size: 4 }
+
+const results: RequestRunResult[] = [
+  {
+    requestId: 'login',
+    name: 'Login',
+    method: 'POST',
+    url: 'https://api.example.com/login',
+    path: [],
+    iteration: 0,
+    request: { method: 'POST', url: 'https://api.example.com/login', headers: {}, body: '{}' },
+    response,
+    testResults: [
+      { name: 'status is 200', passed: true },
+      { name: 'has "token"', passed: false, error: 'expected {} to have property \'token\'' },
+    ],
+    passed: false,
+  },
+  {
+    requestId: 'list',
+    name: 'List <all>',
+    method: 'GET',
+    url: 'https://down.example.com/users',
+    path: ['Users'],
+    iteration: 0,
+    testResults: [],
+    error: 'Could not connect',
+    passed: false,
+  },
+]
+
+const run: CollectionRunResult = {
+  collectionId: 'col-1',
+  name: 'Flow / Users',
+  startedAt: '2024-01-01T00:00:00.000Z',
+  finishedAt: '2024-01-01T00:00:01.000Z',
+  aborted: false,
+  iterations: 1,
+  results,
+  summary: summarizeRun(results),
+}
+
+describe('reporters', () => {
+  it('should serialize the whole run as JSON', () => {
+    const report = JSON.parse(toJsonReport(run))
+
+    expect(report.results[0].request.body).toBe('{}')
+    expect(report.results[0].response).toEqual(response)
+    expect(report.summary).toMatchObject({ total: 2, failed: 2, tests: 2, testsFailed: 1, errors: 1 })
+  })
+
+  it('should write one JUnit test suite per request with escaped names', () => {
+    const xml = toJUnitReport(run)
+
+    expect(xml).toContain('<testsuites name="Flow / Users" tests="3" failures="1" errors="1" time="0.120">')
+    expect(xml).toContain('<testcase name="status is 200" classname="Login" time="0.120"/>')
+    expect(xml).toContain('<testcase name="has &quot;token&quot;" classname="Login" time="0.120">')
+    expect(xml).toContain('<failure type="AssertionFailure" message="expected {} to have property &apos;token&apos;"/>')
+    expect(xml).toContain('<testsuite name="Users / List &lt;all&gt;" tests="1" failures="0" errors="1"')
+    expect(xml).toContain('<error type="RequestError" message="Could not connect"/>')
+  })
+
+  it('should name test suites by iteration when there are several', () => {
+    const xml = toJUnitReport({ ...run, iterations: 2, results: [results[0], { ...results[0], iteration: 1 }] })
+
+    expect(xml).toContain('<testsuite name="Login (iteration 1)"')
+    expect(xml).toContain('<testsuite name="Login (iteration 2)"')
+  })
+
+  it('should produce a self-contained HTML page', () => {
+    const html = toHtmlReport(run)
+
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('<style>')
+    expect(html).toContain('Users / List &lt;all&gt;')
+    expect(html).toContain('<pre>&lt;ok&gt;</pre>')
+    expect(html).not.toContain('<script')
+  })
+
+  it('should summarize binary bodies in the HTML page', () => {
+    const binary = { ...response, body: 'iVBORw0=', bodyEncoding: 'base64' as const, size: 5 }
+    const html = toHtmlReport({ ...run, results: [{ ...results[0], response: binary }] })
+
+    expect(html).toContain('<pre>(binary, 5 bytes)</pre>')
+  })
+
+  it('should build a file name for each format', () => {
+    expect(reportFilename(run, 'junit')).toBe('Flow_Users_report.xml')
+    expect(reportFilename(run, 'html')).toBe('Flow_Users_report.html')
+  })
+})
@@ -0,0 +1,268 @@
+import type { Collection, Folder, KeyValue } from '@/types'
+import { parseImportedEnvironment, parseImportedFile } from '@/lib/import-export'
+import { mergeVariables, sendDirect, type RequestTransport } from '@/lib/request-sender'
+import { DEFAULT_SCRIPT_TIMEOUT, type ScriptExecutor } from '@/lib/scripting'
+import { v4 as uuidv4 } from 'uuid'
+import { runCollection, type CollectionRunResult, type RequestRunResult } from './collection-runner'
+import { parseDataFile, type DataRow } from './data-file'
+import { createReport, REPORT_FORMATS, type ReportFormat } from './reporters'
+
+export const CLI_USAGE = `Usage: run-collection <collection.json> [options]
+
+Runs every request in a native or Postman collection file and its test scripts.
+Exits with code 1 when a request or test fails.
+
+Options:
+  -e, --environment <file>     Environment file (native or Postman export)
+  -g, --globals <file>         Globals file (native or Postman export)
+  --env-var <key=value>        Set an environment variable; may be repeated
+  --folder <name or id>        Only run this folder
+  -d, --iteration-data <file>  CSV or JSON data file; the run repeats once per row
+  -n, --iteration-count <n>    Repeat the run n times (ignored with a data file)
+  --bail                       Stop after the first failing request
+  --delay-request <ms>         Wait between requests
+  --script-timeout <ms>        Stop scripts that run longer (default ${DEFAULT_SCRIPT_TIMEOUT})
+  --report-json <file>         Write a JSON report of the run
+  --report-junit <file>        Write a JUnit XML report of the run
+  --report-html <file>         Write an HTML report of the run
+  -h, --help                   Show this message`
+
+export interface CliOptions {
+  collection: string // Path to the collection file
+  environment?: string
+  globals?: string
+  envVars: KeyValue[]
+  folder?: string
+  iterationData?: string
+  iterationCount?: number
+  bail: boolean
+  delay?: number
+  scriptTimeout?: number
+  reports: Partial<Record<ReportFormat, string>> // Report format -> output path
+  help: boolean
+}
+
+export interface CliIO {
+  readFile: (path: string) => Promise<string>
+  write: (text: string) => void
+  writeFile: (path: string, content: string) => Promise<void>
+  transport?: RequestTransport
+  createScriptExecutor: (timeout: number) => ScriptExecutor // Given the script timeout in ms
+}
+
+/**
+ * Parse command-line arguments (without the node and script paths)
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { collection: '', envVars: [], bail: false, reports: {}, help: false }
+
+  const valueFor = (flag: string, index: number) => {
+    const value = argv[index + 1]
+    if (value === undefined || value.startsWith('-')) {
+      throw new Error(`Missing value for ${flag}`)
+    }
+    return value
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    switch (arg) {
+      case '-e':
+      case '--environment':
+        options.environment = valueFor(arg, i++)
+        break
+      case '-g':
+      case '--globals':
+        options.globals = valueFor(arg, i++)
+        break
+      case '--env-var': {
+        const pair = valueFor(arg, i++)
+        const separator = pair.indexOf('=')
+        if (separator <= 0) throw new Error(`Expected key=value for ${arg}, got "${pair}"`)
+        options.envVars.push({ id: uuidv4(), key: pair.slice(0, separator), value: pair.slice(separator + 1), enabled: true })
+        break
+      }
+      case '--folder':
+        options.folder = valueFor(arg, i++)
+        break
+      case '-d':
+      case '--iteration-data':
+        options.iterationData = valueFor(arg, i++)
+        break
+      case '-n':
+      case '--iteration-count': {
+        const count = Number(valueFor(arg, i++))
+        if (!Number.isInteger(count) || count < 1) throw new Error(`Invalid count for ${arg}`)
+        options.iterationCount = count
+        break
+      }
+      case '--bail':
+        options.bail = true
+        break
+      case '--delay-request': {
+        const delay = Number(valueFor(arg, i++))
+        if (!Number.isFinite(delay) || delay < 0) throw new Error(`Invalid delay for ${arg}`)
+        options.delay = delay
+        break
+      }
+      case '--script-timeout': {
+        const timeout = Number(valueFor(arg, i++))
+        if (!Number.isInteger(timeout) || timeout < 1) throw new Error(`Invalid timeout for ${arg}`)
+        options.scriptTimeout = timeout
+        break
+      }
+      case '--report-json':
+      case '--report-junit':
+      case '--report-html':
+        options.reports[arg.slice('--report-'.length) as ReportFormat] = valueFor(arg, i++)
+        break
+      case '-h':
+      case '--help':
+        options.help = true
+        break
+      default:
+        if (arg.startsWith('-')) throw new Error(`Unknown option ${arg}`)
+        if (options.collection) throw new Error(`Unexpected argument ${arg}`)
+        options.collection = arg
+    }
+  }
+
+  if (!options.collection && !options.help) {
+    throw new Error('A collection file is required')
+  }
+  return options
+}
+
+/**
+ * Find a folder by id or, failing that, by name
+ */
+function findFolderId(folders: Folder[], folder: string): string | undefined {
+  for (const f of folders) {
+    if (f.id === folder || f.name === folder) return f.id
+    const found = findFolderId(f.folders, folder)
+    if (found) return found
+  }
+  return undefined
+}
+
+export function formatRequestResult(result: RequestRunResult): string {
+  const name = [...result.path, result.name].join(' / ')
+  const lines = [`→ ${name}`]
+
+  if (result.response && !result.error) {
+    const { status, statusText, time, size } = result.response
+    lines.push(`  ${result.method} ${result.url} [${status} ${statusText}, ${size}B, ${time}ms]`)
+  } else {
+    lines.push(`  ${result.method} ${result.url || '(no URL)'}`)
+  }
+  if (result.error) {
+    lines.push(`  ✗ ${result.error}`)
+  }
+  result.testResults.forEach((test) => {
+    lines.push(test.passed ? `  ✓ ${test.name}` : `  ✗ ${test.name}${test.error ? `: ${test.error}` : ''}`)
+  })
+
+  return lines.join('\n')
+}
+
+export function formatRunSummary(run: CollectionRunResult): string {
+  const { summary } = run
+  const lines = [
+    `Requests: ${summary.total} run, ${summary.passed} passed, ${summary.failed} failed, ${summary.errors} errors`,
+    `Tests:    ${summary.tests} run, ${summary.testsPassed} passed, ${summary.testsFailed} failed`,
+    `Time:     ${summary.totalTime}ms total response time`,
+  ]
+
+  const failures = run.results.filter((r) => !r.passed)
+  if (failures.length > 0) {
+    lines.push('', 'Failures:')
+    failures.forEach((r, i) => {
+      const name = [...r.path, r.name].join(' / ')
+      const reason = r.error || r.testResults.filter((t) => !t.passed).map((t) => t.name).join(', ')
+      lines.push(`  ${i + 1}. ${name}: ${reason}`)
+    })
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Run a collection file from the command line, sending requests directly.
+ * Returns the process exit code: 0 when everything passed, 1 on failures,
+ * 2 for invalid arguments or unreadable files.
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  let options: CliOptions
+  let collection: Collection
+  let variables: KeyValue[] = []
+  let globals: KeyValue[] = []
+  let data: DataRow[] | undefined
+  let folderId: string | undefined
+
+  try {
+    options = parseCliArgs(argv)
+    if (options.help) {
+      io.write(CLI_USAGE)
+      return 0
+    }
+
+    collection = parseImportedFile(await io.readFile(options.collection))
+    if (options.environment) {
+      variables = parseImportedEnvironment(await io.readFile(options.environment)).variables
+    }
+    if (options.globals) {
+      globals = parseImportedEnvironment(await io.readFile(options.globals)).variables
+    }
+    variables = mergeVariables(variables, options.envVars)
+    if (options.iterationData) {
+      data = parseDataFile(await io.readFile(options.iterationData), options.iterationData)
+      if (data.length === 0) throw new Error(`No rows in ${options.iterationData}`)
+    }
+
+    if (options.folder) {
+      folderId = findFolderId(collection.folders, options.folder)
+      if (!folderId) throw new Error(`Folder "${options.folder}" not found in collection "${collection.name}"`)
+    }
+  } catch (error) {
+    io.write(`error: ${error instanceof Error ? error.message : String(error)}\n\n${CLI_USAGE}`)
+    return 2
+  }
+
+  io.write(`${collection.name}\n`)
+
+  const iterations = data?.length ?? options.iterationCount ?? 1
+  let currentIteration = -1
+
+  const run = await runCollection(collection, {
+    variables,
+    globals,
+    folderId,
+    data,
+    iterations: options.iterationCount,
+    transport: io.transport ?? sendDirect,
+    scriptExecutor: io.createScriptExecutor(options.scriptTimeout ?? DEFAULT_SCRIPT_TIMEOUT),
+    delay: options.delay,
+    stopOnFailure: options.bail,
+    onRequestComplete: (result) => {
+      if (iterations > 1 && result.iteration !== currentIteration) {
+        currentIteration = result.iteration
+        io.write(`Iteration ${currentIteration + 1}/${iterations}\n`)
+      }
+      io.write(`${formatRequestResult(result)}\n`)
+    },
+  })
+
+  io.write(formatRunSummary(run))
+
+  for (const [format, path] of Object.entries(options.reports) as [ReportFormat, string][]) {
+    try {
+      await io.writeFile(path, createReport(run, format))
+      io.write(`${REPORT_FORMATS[format].label} report written to ${path}`)
+    } catch (error) {
+      io.write(`error: could not write ${path}: ${error instanceof Error ? error.message : String(error)}`)
+      return 2
+    }
+  }
+
+  return run.summary.failed > 0 ? 1 : 0
+}
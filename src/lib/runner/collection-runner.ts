@@ -0,0 +1,258 @@
+import type { ApiRequest, ApiResponse, Collection, Folder, KeyValue, TestResult } from '@/types'
+import type { SendRequestBody } from '@/app/api/request/route'
+import type { RequestTransport } from '@/lib/request-sender'
+import type { ScriptExecutor } from '@/lib/scripting'
+import { createMemoryTokenStore, type OAuth2TokenStore } from '@/lib/auth'
+import { createMemoryCookieStore, type CookieStore } from '@/lib/cookies'
+import { executeRequest } from './execute-request'
+import type { DataRow } from './data-file'
+
+export interface RunnableRequest {
+  request: ApiRequest
+  path: string[] // Folder names from the collection root
+}
+
+export interface RequestRunResult {
+  requestId: string
+  name: string
+  method: ApiRequest['method']
+  url: string // Resolved URL that was sent
+  path: string[]
+  iteration: number // Zero-based
+  request?: SendRequestBody // What was sent, after scripts and variable substitution
+  response?: ApiResponse
+  testResults: TestResult[]
+  error?: string
+  passed: boolean
+}
+
+export interface CollectionRunSummary {
+  total: number
+  passed: number
+  failed: number
+  errors: number
+  tests: number
+  testsPassed: number
+  testsFailed: number
+  totalTime: number // Sum of response times in ms
+}
+
+export interface CollectionRunResult {
+  collectionId: string
+  name: string
+  startedAt: string
+  finishedAt: string
+  aborted: boolean
+  iterations: number
+  results: RequestRunResult[]
+  summary: CollectionRunSummary
+}
+
+export interface CollectionRunOptions {
+  variables: KeyValue[] // Environment variables
+  globals?: KeyValue[]
+  folderId?: string // Only run this folder (and its subfolders)
+  data?: DataRow[] // One iteration per row
+  iterations?: number // Iteration count when there is no data; defaults to 1
+  transport?: RequestTransport
+  scriptExecutor?: ScriptExecutor
+  oauth2Tokens?: OAuth2TokenStore // Defaults to a store shared by the requests of this run
+  cookies?: CookieStore // Defaults to an empty jar shared by the requests of this run
+  delay?: number // Delay between requests in ms
+  stopOnFailure?: boolean
+  signal?: AbortSignal
+  // index and total count every request across all iterations
+  onRequestStart?: (item: RunnableRequest, index: number, total: number) => void
+  onRequestComplete?: (result: RequestRunResult, index: number, total: number) => void
+  onVariablesChange?: (variables: KeyValue[]) => void
+  onGlobalsChange?: (globals: KeyValue[]) => void
+  onCollectionVariablesChange?: (variables: KeyValue[]) => void
+}
+
+/**
+ * Flatten a collection or folder into run order: requests first, then each folder in turn.
+ * WebSocket connections are left out, as they have no response to test.
+ */
+export function collectRequests(source: Collection | Folder, path: string[] = []): RunnableRequest[] {
+  return [
+    ...source.requests.filter((request) => request.protocol !== 'websocket').map((request) => ({ request, path })),
+    ...source.folders.flatMap((folder) => collectRequests(folder, [...path, folder.name])),
+  ]
+}
+
+/**
+ * Find a folder anywhere in the tree, returning it with its path
+ */
+export function findFolder(folders: Folder[], folderId: string, path: string[] = []): { folder: Folder; path: string[] } | null {
+  for (const folder of folders) {
+    const folderPath = [...path, folder.name]
+    if (folder.id === folderId) return { folder, path: folderPath }
+    const found = findFolder(folder.folders, folderId, folderPath)
+    if (found) return found
+  }
+  return null
+}
+
+export function summarizeRun(results: RequestRunResult[]): CollectionRunSummary {
+  const tests = results.flatMap((r) => r.testResults)
+  return {
+    total: results.length,
+    passed: results.filter((r) => r.passed).length,
+    failed: results.filter((r) => !r.passed).length,
+    errors: results.filter((r) => r.error).length,
+    tests: tests.length,
+    testsPassed: tests.filter((t) => t.passed).length,
+    testsFailed: tests.filter((t) => !t.passed).length,
+    totalTime: results.reduce((sum, r) => sum + (r.response?.time || 0), 0),
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId)
+      resolve()
+    }, { once: true })
+  })
+}
+
+/**
+ * Run every request in a collection (or one of its folders) in sequence,
+ * once per data row or iteration. Variables set by a request's scripts
+ * (in any scope, including pm.variables) are visible to the requests after it.
+ */
+export async function runCollection(
+  collection: Collection,
+  options: CollectionRunOptions
+): Promise<CollectionRunResult> {
+  const startedAt = new Date().toISOString()
+
+  let items: RunnableRequest[]
+  let name = collection.name
+  if (options.folderId) {
+    const found = findFolder(collection.folders, options.folderId)
+    if (!found) {
+      throw new Error(`Folder ${options.folderId} not found in collection "${collection.name}"`)
+    }
+    items = collectRequests(found.folder, found.path)
+    name = `${collection.name} / ${found.path.join(' / ')}`
+  } else {
+    items = collectRequests(collection)
+  }
+
+  const data = options.data && options.data.length > 0 ? options.data : undefined
+  const iterations = data ? data.length : Math.max(1, options.iterations || 1)
+  const total = items.length * iterations
+
+  let variables = options.variables
+  let globals = options.globals || []
+  let localVariables: KeyValue[] = []
+  let currentCollection = collection
+  const oauth2Tokens = options.oauth2Tokens || createMemoryTokenStore()
+  const cookies = options.cookies || createMemoryCookieStore()
+  const results: RequestRunResult[] = []
+  let aborted = false
+  let stopped = false
+
+  for (let iteration = 0; iteration < iterations && !stopped; iteration++) {
+    for (let i = 0; i < items.length; i++) {
+      if (options.signal?.aborted) {
+        aborted = true
+        stopped = true
+        break
+      }
+
+      const index = iteration * items.length + i
+      const item = items[i]
+      options.onRequestStart?.(item, index, total)
+
+      let result: RequestRunResult
+      if (!item.request.url) {
+        result = {
+          requestId: item.request.id,
+          name: item.request.name,
+          method: item.request.method,
+          url: '',
+          path: item.path,
+          iteration,
+          testResults: [],
+          error: 'Request has no URL',
+          passed: false,
+        }
+      } else {
+        const execution = await executeRequest(item.request, {
+          variables,
+          globals,
+          localVariables,
+          collection: currentCollection,
+          iteration: { index: iteration, count: iterations },
+          iterationData: data?.[iteration],
+          transport: options.transport,
+          scriptExecutor: options.scriptExecutor,
+          oauth2Tokens,
+          cookies,
+          signal: options.signal,
+        })
+
+        // Stopped mid-request; the run ends without a result for it
+        if (execution.cancelled) {
+          aborted = true
+          stopped = true
+          break
+        }
+
+        if (execution.variables !== variables) {
+          variables = execution.variables
+          options.onVariablesChange?.(variables)
+        }
+        if (execution.globals !== globals) {
+          globals = execution.globals
+          options.onGlobalsChange?.(globals)
+        }
+        if (execution.collectionVariables !== currentCollection.variables) {
+          currentCollection = { ...currentCollection, variables: execution.collectionVariables }
+          options.onCollectionVariablesChange?.(currentCollection.variables)
+        }
+        localVariables = execution.localVariables
+
+        result = {
+          requestId: item.request.id,
+          name: item.request.name,
+          method: item.request.method,
+          url: execution.sentRequest.url,
+          path: item.path,
+          iteration,
+          request: execution.sentRequest,
+          response: execution.response,
+          testResults: execution.testResults,
+          error: execution.error,
+          passed: !execution.error && execution.testResults.every((t) => t.passed),
+        }
+      }
+
+      results.push(result)
+      options.onRequestComplete?.(result, index, total)
+
+      if (!result.passed && options.stopOnFailure) {
+        stopped = true
+        break
+      }
+
+      if (options.delay && index < total - 1) {
+        await wait(options.delay, options.signal)
+      }
+    }
+  }
+
+  return {
+    collectionId: collection.id,
+    name,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    aborted,
+    iterations,
+    results,
+    summary: summarizeRun(results),
+  }
+}
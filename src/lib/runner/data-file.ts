@@ -0,0 +1,95 @@
+import type { KeyValue } from '@/types'
+
+// One iteration's worth of data: column name -> value
+export type DataRow = Record<string, string>
+
+/**
+ * Parse CSV with a header row. Supports quoted fields containing commas,
+ * newlines and doubled quotes ("").
+ */
+export function parseCsv(content: string): DataRow[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const text = content.replace(/^﻿/, '')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) throw new Error('Unterminated quoted field in CSV data')
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((value) => value !== ''))
+  if (nonEmpty.length === 0) return []
+
+  const [header, ...records] = nonEmpty
+  const columns = header.map((column) => column.trim())
+  return records.map((record) => {
+    const dataRow: DataRow = {}
+    columns.forEach((column, index) => {
+      if (column) dataRow[column] = record[index] ?? ''
+    })
+    return dataRow
+  })
+}
+
+/**
+ * Parse a JSON array of flat objects; non-string values are stringified
+ */
+export function parseJsonData(content: string): DataRow[] {
+  const parsed = JSON.parse(content)
+  if (!Array.isArray(parsed) || parsed.some((item) => typeof item !== 'object' || item === null || Array.isArray(item))) {
+    throw new Error('JSON data must be an array of objects')
+  }
+
+  return parsed.map((item: Record<string, unknown>) => {
+    const dataRow: DataRow = {}
+    Object.entries(item).forEach(([key, value]) => {
+      dataRow[key] = typeof value === 'string' ? value : JSON.stringify(value)
+    })
+    return dataRow
+  })
+}
+
+/**
+ * Parse a data file, choosing CSV or JSON from the file name, or the content when there is no name
+ */
+export function parseDataFile(content: string, filename = ''): DataRow[] {
+  const lowerName = filename.toLowerCase()
+  if (lowerName.endsWith('.json')) return parseJsonData(content)
+  if (lowerName.endsWith('.csv')) return parseCsv(content)
+  return content.trimStart().startsWith('[') ? parseJsonData(content) : parseCsv(content)
+}
+
+export function dataRowToVariables(row: DataRow): KeyValue[] {
+  return Object.entries(row).map(([key, value]) => ({ id: `data-${key}`, key, value, enabled: true }))
+}
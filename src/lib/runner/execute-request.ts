@@ -0,0 +1,285 @@
+import type { ApiRequest, ApiResponse, Collection, KeyValue, TestResult } from '@/types'
+import type { SendRequestBody } from '@/app/api/request/route'
+import {
+  buildBody,
+  buildFormData,
+  buildHeaders,
+  buildUrl,
+  cancelledResult,
+  mergeVariables,
+  removeVariable,
+  replaceVariables,
+  sendViaProxy,
+  upsertVariable,
+  type RequestTransport,
+} from '@/lib/request-sender'
+import { applyExtractors } from '@/lib/extractors'
+import { mergeCookies, type CookieStore } from '@/lib/cookies'
+import { resolveSendSettings } from '@/lib/send-settings'
+import { evaluateAssertions } from '@/lib/assertions'
+import {
+  answerDigestChallenge,
+  applyAuth,
+  applyOAuth2Token,
+  createMemoryTokenStore,
+  ensureToken,
+  resolveAuthVariables,
+  resolveRequestAuth,
+  type OAuth2TokenStore,
+} from '@/lib/auth'
+import {
+  runScript,
+  type ScriptExecutor,
+  type ScriptInfo,
+  type ScriptKind,
+  type ScriptOutput,
+  type ScriptScopes,
+} from '@/lib/scripting'
+import { dataRowToVariables, type DataRow } from './data-file'
+
+export interface ExecuteRequestOptions {
+  variables: KeyValue[] // Environment variables
+  globals?: KeyValue[]
+  localVariables?: KeyValue[] // pm.variables.set values carried over from earlier requests in a run
+  collection?: Collection // Collection the request belongs to, for its variables, scripts and inherited auth
+  iteration?: { index: number; count: number }
+  iterationData?: DataRow // Current data file row, exposed as variables and pm.iterationData
+  onSetVariable?: (key: string, value: string) => void // Called for environment sets
+  oauth2Tokens?: OAuth2TokenStore // Cached OAuth 2.0 tokens; without one, a token is fetched for every request
+  cookies?: CookieStore // Cookie jar sent with requests and updated from responses; without one, no cookies are kept
+  transport?: RequestTransport
+  scriptExecutor?: ScriptExecutor
+  signal?: AbortSignal // Aborts sending the request
+}
+
+export interface ExecuteRequestResult {
+  sentRequest: SendRequestBody
+  response: ApiResponse
+  testResults: TestResult[]
+  // Each scope after all scripts ran; unchanged scopes keep their original reference
+  variables: KeyValue[]
+  globals: KeyValue[]
+  collectionVariables: KeyValue[]
+  localVariables: KeyValue[]
+  error?: string
+  cancelled?: boolean // Aborted through options.signal; error is set too
+}
+
+/**
+ * Build the outgoing request without substituting variables
+ */
+export function buildRequest(request: ApiRequest): SendRequestBody {
+  const file = request.body?.type === 'binary' ? request.body.file : undefined
+  return {
+    method: request.method,
+    url: buildUrl(request.url, request.params),
+    headers: buildHeaders(request.headers, request.body?.type, file?.contentType),
+    body: buildBody(request),
+    bodyEncoding: file ? 'base64' : undefined,
+    formData: buildFormData(request),
+  }
+}
+
+/**
+ * Substitute variables into the URL, header values, body and form-data text fields.
+ * Binary bodies and files are sent as they are.
+ */
+export function resolveRequestVariables(request: SendRequestBody, variables: KeyValue[]): SendRequestBody {
+  const headers: Record<string, string> = {}
+  Object.keys(request.headers).forEach((key) => {
+    headers[key] = replaceVariables(request.headers[key], variables)
+  })
+
+  return {
+    method: request.method,
+    url: replaceVariables(request.url, variables),
+    headers,
+    body: request.body && request.bodyEncoding !== 'base64' ? replaceVariables(request.body, variables) : request.body,
+    bodyEncoding: request.bodyEncoding,
+    formData: request.formData?.map((field) => ({
+      ...field,
+      key: replaceVariables(field.key, variables),
+      value: field.file ? field.value : replaceVariables(field.value, variables),
+    })),
+    settings: request.settings,
+  }
+}
+
+/**
+ * Build the outgoing request with variable substitution
+ */
+export function prepareRequest(request: ApiRequest, variables: KeyValue[]): SendRequestBody {
+  return resolveRequestVariables(buildRequest(request), variables)
+}
+
+/**
+ * Run pre-request scripts (collection first, then request), add the request's
+ * (or inherited) auth, send the request, apply the request's extractors, evaluate its assertions and run the test
+ * scripts in the same order.
+ * Variables resolve globals < collection < environment < iteration data < local.
+ */
+export async function executeRequest(
+  request: ApiRequest,
+  options: ExecuteRequestOptions
+): Promise<ExecuteRequestResult> {
+  const baseTransport = options.transport || sendViaProxy
+  const cookieStore = options.cookies
+
+  // Requests, including pm.sendRequest ones, carry the jar and store the cookies they get back
+  const transport: RequestTransport = async (outgoingRequest, signal) => {
+    if (!cookieStore) return baseTransport(outgoingRequest, signal)
+    const proxyResult = await baseTransport({ ...outgoingRequest, cookies: cookieStore.get() }, signal)
+    if (proxyResult.response.cookies?.length) {
+      cookieStore.set(mergeCookies(cookieStore.get(), proxyResult.response.cookies))
+    }
+    return proxyResult
+  }
+  const scriptExecutor = options.scriptExecutor || runScript
+  const scopes: ScriptScopes = {
+    globals: options.globals || [],
+    collection: options.collection?.variables || [],
+    environment: options.variables,
+    data: options.iterationData ? dataRowToVariables(options.iterationData) : [],
+    local: options.localVariables || [],
+  }
+
+  const applyScriptOutput = (output: ScriptOutput) => {
+    if (output.cookies) cookieStore?.set(output.cookies)
+    output.variableChanges.forEach(({ scope, key, value }) => {
+      scopes[scope] = value === undefined
+        ? removeVariable(scopes[scope], key)
+        : upsertVariable(scopes[scope], key, value)
+      if (scope === 'environment' && value !== undefined) {
+        options.onSetVariable?.(key, value)
+      }
+    })
+  }
+
+  const resolveVariables = () => mergeVariables(scopes.globals, scopes.collection, scopes.environment, scopes.data || [], scopes.local)
+
+  const info = (kind: ScriptKind): ScriptInfo => ({
+    eventName: kind === 'pre-request' ? 'prerequest' : 'test',
+    requestName: request.name,
+    requestId: request.id,
+    iteration: options.iteration?.index ?? 0,
+    iterationCount: options.iteration?.count ?? 1,
+  })
+
+  const result = (fields: Pick<ExecuteRequestResult, 'sentRequest' | 'response' | 'testResults' | 'error' | 'cancelled'>): ExecuteRequestResult => ({
+    ...fields,
+    variables: scopes.environment,
+    globals: scopes.globals,
+    collectionVariables: scopes.collection,
+    localVariables: scopes.local,
+  })
+
+  let outgoing: SendRequestBody = { ...buildRequest(request), settings: resolveSendSettings(request, options.collection) }
+  const preRequestScripts = [options.collection?.preRequestScript, request.preRequestScript]
+
+  for (const script of preRequestScripts) {
+    if (!script?.enabled || !script.content) continue
+    const output = await scriptExecutor(
+      {
+        kind: 'pre-request',
+        script: script.content,
+        scopes,
+        info: info('pre-request'),
+        request: outgoing,
+        cookies: cookieStore?.get(),
+      },
+      { sendRequest: transport }
+    )
+    applyScriptOutput(output)
+    outgoing = output.request
+
+    if (output.error) {
+      return result({
+        sentRequest: resolveRequestVariables(outgoing, resolveVariables()),
+        response: {
+          status: 0,
+          statusText: 'Pre-request Script Error',
+          headers: [],
+          body: output.error,
+          time: 0,
+          size: 0,
+        },
+        testResults: [],
+        error: `Pre-request script error: ${output.error}`,
+      })
+    }
+  }
+
+  const variables = resolveVariables()
+  const auth = resolveAuthVariables(resolveRequestAuth(request, options.collection).auth, variables)
+  let sentRequest = applyAuth(resolveRequestVariables(outgoing, variables), auth)
+
+  if (auth.type === 'oauth2' && auth.oauth2) {
+    try {
+      const token = await ensureToken(auth.oauth2, options.oauth2Tokens || createMemoryTokenStore(), transport)
+      if (token) sentRequest = applyOAuth2Token(sentRequest, token)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Token request failed'
+      return result({
+        sentRequest,
+        response: {
+          status: 0,
+          statusText: 'OAuth 2.0 Error',
+          headers: [],
+          body: message,
+          time: 0,
+          size: 0,
+        },
+        testResults: [],
+        error: `OAuth 2.0 token request failed: ${message}`,
+      })
+    }
+  }
+
+  // Cancelled while scripts ran or a token was fetched
+  if (options.signal?.aborted) {
+    return result({ sentRequest, ...cancelledResult(), testResults: [] })
+  }
+
+  let { response, error, cancelled } = await transport(sentRequest, options.signal)
+
+  // Digest auth needs the server's nonce, so the first attempt is answered with a single retry
+  const digestRetry = error ? undefined : await answerDigestChallenge(sentRequest, auth, response)
+  if (digestRetry) {
+    sentRequest = digestRetry
+    ;({ response, error, cancelled } = await transport(sentRequest, options.signal))
+  }
+
+  if (error) {
+    return result({ sentRequest, response, testResults: [], error, cancelled })
+  }
+
+  // Extracted values land in the environment before tests run, so tests can check them
+  applyExtractors(request.extractors || [], response).forEach(({ extractor, value }) => {
+    if (value === undefined) return
+    scopes.environment = upsertVariable(scopes.environment, extractor.variable, value)
+    options.onSetVariable?.(extractor.variable, value)
+  })
+
+  const testResults: TestResult[] = evaluateAssertions(request.assertions || [], response)
+  const testScripts = [options.collection?.testScript, request.testScript]
+
+  for (const script of testScripts) {
+    if (!script?.enabled || !script.content) continue
+    const output = await scriptExecutor(
+      {
+        kind: 'test',
+        script: script.content,
+        scopes,
+        info: info('test'),
+        request: sentRequest,
+        response,
+        cookies: cookieStore?.get(),
+      },
+      { sendRequest: transport }
+    )
+    applyScriptOutput(output)
+    testResults.push(...output.testResults)
+  }
+
+  return result({ sentRequest, response, testResults })
+}
@@ -0,0 +1,16 @@
+export { executeRequest, prepareRequest, buildRequest, resolveRequestVariables } from './execute-request'
+export type { ExecuteRequestOptions, ExecuteRequestResult } from './execute-request'
+export { runCollection, collectRequests, findFolder, summarizeRun } from './collection-runner'
+export type {
+  CollectionRunOptions,
+  CollectionRunResult,
+  CollectionRunSummary,
+  RequestRunResult,
+  RunnableRequest,
+} from './collection-runner'
+export { runCli, parseCliArgs, formatRequestResult, formatRunSummary, CLI_USAGE } from './cli'
+export type { CliIO, CliOptions } from './cli'
+export { toJsonReport, toJUnitReport, toHtmlReport, createReport, reportFilename, downloadReport, REPORT_FORMATS } from './reporters'
+export type { ReportFormat } from './reporters'
+export { parseCsv, parseJsonData, parseDataFile, dataRowToVariables } from './data-file'
+export type { DataRow } from './data-file'
@@ -0,0 +1,165 @@
+import type { CollectionRunResult, RequestRunResult } from './collection-runner'
+
+export type ReportFormat = 'json' | 'junit' | 'html'
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  junit: { label: 'JUnit XML', extension: 'xml', mimeType: 'application/xml' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+}
+
+/** Escape text for XML and HTML attributes and content */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function requestName(result: RequestRunResult, iterations = 1): string {
+  const name = [...result.path, result.name].join(' / ')
+  return iterations > 1 ? `${name} (iteration ${result.iteration + 1})` : name
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3)
+}
+
+/**
+ * The full run: every request as sent, its response and its test results
+ */
+export function toJsonReport(run: CollectionRunResult): string {
+  return JSON.stringify(run, null, 2)
+}
+
+/**
+ * JUnit XML with one test suite per request and one test case per test.
+ * A request that failed to send is reported as an error test case.
+ */
+export function toJUnitReport(run: CollectionRunResult): string {
+  const { summary } = run
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(run.name)}" tests="${summary.tests + summary.errors}" failures="${summary.testsFailed}" errors="${summary.errors}" time="${seconds(summary.totalTime)}">`,
+  ]
+
+  run.results.forEach((result) => {
+    const name = requestName(result, run.iterations)
+    const time = seconds(result.response?.time || 0)
+    const failures = result.testResults.filter((t) => !t.passed).length
+    const errors = result.error ? 1 : 0
+    const tests = result.testResults.length + errors
+
+    lines.push(`  <testsuite name="${escapeXml(name)}" tests="${tests}" failures="${failures}" errors="${errors}" time="${time}" timestamp="${run.startedAt}">`)
+    if (result.error) {
+      lines.push(`    <testcase name="${escapeXml(`${result.method} ${result.url}`)}" classname="${escapeXml(name)}" time="${time}">`)
+      lines.push(`      <error type="RequestError" message="${escapeXml(result.error)}"/>`)
+      lines.push('    </testcase>')
+    }
+    result.testResults.forEach((test) => {
+      const testcase = `<testcase name="${escapeXml(test.name)}" classname="${escapeXml(name)}" time="${time}"`
+      if (test.passed) {
+        lines.push(`    ${testcase}/>`)
+      } else {
+        lines.push(`    ${testcase}>`)
+        lines.push(`      <failure type="AssertionFailure" message="${escapeXml(test.error || 'Test failed')}"/>`)
+        lines.push('    </testcase>')
+      }
+    })
+    lines.push('  </testsuite>')
+  })
+
+  lines.push('</testsuites>')
+  return lines.join('\n')
+}
+
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+.meta { color: #666; font-size: 0.875rem; }
+.summary { display: flex; gap: 1.5rem; margin: 1rem 0; padding: 0.75rem 0; border-top: 1px solid #ddd; border-bottom: 1px solid #ddd; }
+.request { border: 1px solid #ddd; border-radius: 6px; margin-bottom: 0.75rem; }
+.request > summary { padding: 0.5rem 0.75rem; cursor: pointer; display: flex; gap: 0.75rem; align-items: center; }
+.request > div { padding: 0 0.75rem 0.75rem; }
+.method { font-family: monospace; font-weight: 600; width: 4rem; }
+.name { flex: 1; }
+.passed { color: #15803d; }
+.failed { color: #b91c1c; }
+.muted { color: #666; }
+ul { margin: 0.5rem 0; padding-left: 1.25rem; }
+pre { background: #f5f5f5; padding: 0.5rem; overflow: auto; max-height: 20rem; font-size: 0.75rem; }
+`
+
+function htmlRequest(result: RequestRunResult, iterations: number): string {
+  const statusClass = result.passed ? 'passed' : 'failed'
+  const response = result.response
+  const tests = result.testResults
+    .map((t) => `<li class="${t.passed ? 'passed' : 'failed'}">${t.passed ? '✓' : '✗'} ${escapeXml(t.name)}${t.error ? `: ${escapeXml(t.error)}` : ''}</li>`)
+    .join('')
+
+  return `<details class="request">
+<summary><span class="${statusClass}">${result.passed ? '✓' : '✗'}</span><span class="method">${escapeXml(result.method)}</span><span class="name">${escapeXml(requestName(result, iterations))}</span>${response ? `<span class="muted">${response.status} ${escapeXml(response.statusText)} · ${response.time} ms</span>` : ''}</summary>
+<div>
+<p class="muted">${escapeXml(result.url || '(no URL)')}</p>
+${result.error ? `<p class="failed">${escapeXml(result.error)}</p>` : ''}
+${tests ? `<ul>${tests}</ul>` : ''}
+${response?.body ? `<pre>${response.bodyEncoding === 'base64' ? `(binary, ${response.size} bytes)` : escapeXml(response.body)}</pre>` : ''}
+</div>
+</details>`
+}
+
+/**
+ * A self-contained HTML page summarizing the run
+ */
+export function toHtmlReport(run: CollectionRunResult): string {
+  const { summary } = run
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(run.name)} - Run Report</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeXml(run.name)}</h1>
+<p class="meta">Started ${escapeXml(run.startedAt)} · Finished ${escapeXml(run.finishedAt)}${run.aborted ? ' · Stopped early' : ''}</p>
+<div class="summary">
+${run.iterations > 1 ? `<span>Iterations: ${run.iterations}</span>\n` : ''}<span>Requests: ${summary.total}</span>
+<span class="passed">Passed: ${summary.passed}</span>
+<span class="failed">Failed: ${summary.failed}</span>
+<span>Tests: ${summary.testsPassed}/${summary.tests}</span>
+<span>Time: ${summary.totalTime} ms</span>
+</div>
+${run.results.map((result) => htmlRequest(result, run.iterations)).join('\n')}
+</body>
+</html>
+`
+}
+
+export function createReport(run: CollectionRunResult, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return toJsonReport(run)
+    case 'junit':
+      return toJUnitReport(run)
+    case 'html':
+      return toHtmlReport(run)
+  }
+}
+
+export function reportFilename(run: CollectionRunResult, format: ReportFormat): string {
+  return `${run.name.replace(/[\s/]+/g, '_')}_report.${REPORT_FORMATS[format].extension}`
+}
+
+// Download a run report as a file
+export function downloadReport(run: CollectionRunResult, format: ReportFormat) {
+  const blob = new Blob([createReport(run, format)], { type: REPORT_FORMATS[format].mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = reportFilename(run, format)
+  a.click()
+  URL.revokeObjectURL(url)
+}
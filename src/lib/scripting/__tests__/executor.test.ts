@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createWorkerExecutor, runScript } from '../executor'
+import { executeScript } from '../sandbox'
+import type { ScriptInput, ScriptRequestMessage, ScriptResponseMessage } from '../types'
+
+const input: ScriptInput = {
+  kind: 'test',
+  script: "pm.test('ok', () => pm.expect(pm.response.status).to.equal(200))",
+  scopes: { globals: [], collection: [], environment: [], local: [] },
+  info: { eventName: 'test', requestName: 'Request', requestId: 'req-1', iteration: 0, iterationCount: 1 },
+  request: { method: 'GET', url: 'https://api.example.com', headers: {} },
+  response: { status: 200, statusText: 'OK', headers: [], body: '', time: 1, size: 0 },
+}
+
+// Minimal stand-in for a Worker; `respond` decides how the fake worker answers
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  terminate = vi.fn()
+
+  constructor(private respond: (worker: FakeWorker, message: ScriptRequestMessage) => void) {}
+
+  postMessage(message: ScriptRequestMessage) {
+    this.respond(this, message)
+  }
+
+  reply(message: ScriptResponseMessage) {
+    queueMicrotask(() => this.onmessage?.({ data: message } as MessageEvent))
+  }
+}
+
+// Runs the sandbox the way script.worker.ts does, relaying pm.sendRequest over messages
+const createSandboxWorker = () => {
+  const pending = new Map<number, (result: unknown) => void>()
+  return new FakeWorker((w, message) => {
+    if (message.type === 'sendRequestResult') {
+      pending.get(message.requestId)?.(message.result)
+      return
+    }
+    executeScript(message.input, {
+      sendRequest: (request) =>
+        new Promise((resolve) => {
+          pending.set(1, resolve as (result: unknown) => void)
+          w.reply({ type: 'sendRequest', id: message.id, requestId: 1, request })
+        }),
+    }).then((output) => w.reply({ type: 'done', id: message.id, output }))
+  })
+}
+
+const asWorker = (worker: FakeWorker) => worker as unknown as Worker
+
+describe('createWorkerExecutor', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should run the script through the message bridge and terminate the worker', async () => {
+    const worker = createSandboxWorker()
+    const execute = createWorkerExecutor({ createWorker: () => asWorker(worker) })
+
+    const output = await execute(input)
+
+    expect(output.testResults).toEqual([{ name: 'ok', passed: true }])
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+
+  it('should relay pm.sendRequest to the host', async () => {
+    const sendRequest = vi.fn(async () => ({
+      response: { status: 204, statusText: 'No Content', headers: [], body: '', time: 1, size: 0 },
+    }))
+    const execute = createWorkerExecutor({ createWorker: () => asWorker(createSandboxWorker()) })
+
+    const output = await execute({
+      ...input,
+      script: "const res = await pm.sendRequest('https://other.example.com'); pm.test('relayed', () => pm.expect(res.code).to.equal(204))",
+    }, { sendRequest })
+
+    expect(sendRequest).toHaveBeenCalledWith({ method: 'GET', url: 'https://other.example.com', headers: {} })
+    expect(output.testResults).toEqual([{ name: 'relayed', passed: true }])
+  })
+
+  it('should terminate a script that runs past the timeout', async () => {
+    vi.useFakeTimers()
+    const worker = new FakeWorker(() => {})
+    const execute = createWorkerExecutor({ timeout: 100, createWorker: () => asWorker(worker) })
+
+    const pending = execute(input)
+    await vi.advanceTimersByTimeAsync(100)
+    const output = await pending
+
+    expect(worker.terminate).toHaveBeenCalled()
+    expect(output.testResults).toEqual([
+      { name: 'Script Execution', passed: false, error: 'Script timed out after 100ms' },
+    ])
+  })
+
+  it('should return an error for a timed out pre-request script', async () => {
+    vi.useFakeTimers()
+    const execute = createWorkerExecutor({ timeout: 50, createWorker: () => asWorker(new FakeWorker(() => {})) })
+
+    const pending = execute({ ...input, kind: 'pre-request' })
+    await vi.advanceTimersByTimeAsync(50)
+
+    expect((await pending).error).toBe('Script timed out after 50ms')
+  })
+
+  it('should report worker errors', async () => {
+    const worker = new FakeWorker((w) => {
+      queueMicrotask(() => w.onerror?.({ message: 'boom', preventDefault: () => {} } as ErrorEvent))
+    })
+    const execute = createWorkerExecutor({ createWorker: () => asWorker(worker) })
+
+    const output = await execute({ ...input, kind: 'pre-request' })
+
+    expect(output.error).toBe('boom')
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+})
+
+describe('runScript', () => {
+  it('should not run scripts in-process when Web Workers are unavailable', async () => {
+    const output = await runScript({ ...input, kind: 'pre-request', script: "pm.environment.set('ran', 'yes')" })
+
+    expect(output.error).toBe('Scripts cannot run here: no isolated script executor is available')
+    expect(output.variableChanges).toEqual([])
+  })
+})
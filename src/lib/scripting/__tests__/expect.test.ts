@@ -0,0 +1,206 @@
+import { describe, it, expect as vitestExpect } from 'vitest'
+import { expect, deepEqual, AssertionError } from '../expect'
+
+const passes = (fn: () => unknown) => vitestExpect(fn).not.toThrow()
+const fails = (fn: () => unknown, message?: string | RegExp) =>
+  message ? vitestExpect(fn).toThrow(message) : vitestExpect(fn).toThrow(AssertionError)
+
+const response = {
+  status: 201,
+  statusText: 'Created',
+  headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'abc-123' },
+  body: '{"data":{"items":[{"id":1},{"id":2}]},"ok":true}',
+  time: 12,
+  size: 48,
+}
+
+describe('deepEqual', () => {
+  it('should compare nested structures', () => {
+    vitestExpect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+    vitestExpect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+    vitestExpect(deepEqual([1, 2], { 0: 1, 1: 2 })).toBe(false)
+    vitestExpect(deepEqual(new Date(0), new Date(0))).toBe(true)
+    vitestExpect(deepEqual(NaN, NaN)).toBe(true)
+  })
+})
+
+describe('expect', () => {
+  describe('equality', () => {
+    it('should compare strictly with equal and deeply with eql', () => {
+      passes(() => expect(1).to.equal(1))
+      fails(() => expect({ a: 1 }).to.equal({ a: 1 }), "expected {\"a\":1} to equal {\"a\":1}")
+      passes(() => expect({ a: 1 }).to.eql({ a: 1 }))
+      passes(() => expect({ a: [1] }).to.deep.equal({ a: [1] }))
+      fails(() => expect([1, 2]).to.eql([2, 1]))
+    })
+
+    it('should support oneOf', () => {
+      passes(() => expect(200).to.be.oneOf([200, 201]))
+      fails(() => expect(404).to.be.oneOf([200, 201]), 'expected 404 to be one of [200,201]')
+      passes(() => expect({ a: 1 }).to.be.deep.oneOf([{ a: 1 }]))
+    })
+  })
+
+  describe('negation and chaining', () => {
+    it('should negate with not', () => {
+      passes(() => expect(1).to.not.equal(2))
+      fails(() => expect(1).to.not.equal(1), 'expected 1 to not equal 1')
+      passes(() => expect('abc').not.to.include('z'))
+    })
+
+    it('should chain assertions with and', () => {
+      passes(() => expect([1, 2, 3]).to.be.an('array').that.includes(2).and.has.lengthOf(3))
+      fails(() => expect([1, 2, 3]).to.be.an('array').and.have.lengthOf(2))
+    })
+
+    it('should prefix the custom message', () => {
+      fails(() => expect(1, 'status check').to.equal(2), 'status check: expected 1 to equal 2')
+    })
+  })
+
+  describe('value checks', () => {
+    it('should work as properties and as calls', () => {
+      passes(() => expect(true).to.be.true)
+      passes(() => expect(true).to.be.true())
+      fails(() => expect(false).to.be.true)
+      passes(() => expect(null).to.be.null)
+      passes(() => expect(undefined).to.be.undefined)
+      passes(() => expect('x').to.be.ok)
+      fails(() => expect(0).to.be.ok)
+      passes(() => expect(0).to.exist)
+      fails(() => expect(null).to.exist)
+      passes(() => expect([]).to.be.empty)
+      passes(() => expect({}).to.be.empty)
+      fails(() => expect('a').to.be.empty)
+      passes(() => expect(NaN).to.be.NaN)
+    })
+  })
+
+  describe('types', () => {
+    it('should detect arrays, objects and primitives', () => {
+      passes(() => expect([]).to.be.an('array'))
+      fails(() => expect([]).to.be.an('object'), 'expected [] to be an object')
+      passes(() => expect({}).to.be.an('object'))
+      passes(() => expect('s').to.be.a('string'))
+      passes(() => expect(null).to.be.a('null'))
+      passes(() => expect(new Date()).to.be.instanceOf(Date))
+    })
+  })
+
+  describe('numbers', () => {
+    it('should compare numbers', () => {
+      passes(() => expect(5).to.be.above(4).and.below(6))
+      passes(() => expect(5).to.be.at.least(5).and.at.most(5))
+      passes(() => expect(5).to.be.within(1, 10))
+      passes(() => expect(1.05).to.be.closeTo(1, 0.1))
+      fails(() => expect(3).to.be.greaterThan(3), 'expected 3 to be above 3')
+      fails(() => expect('5').to.be.above(1))
+    })
+
+    it('should compare lengths after length', () => {
+      passes(() => expect([1, 2, 3]).to.have.length.above(2))
+      passes(() => expect('abc').to.have.length(3))
+      fails(() => expect([1]).to.have.length.of.at.least(2), 'expected [1] to have a length at least 2 but got 1')
+      passes(() => expect(new Set([1, 2])).to.have.lengthOf(2))
+    })
+  })
+
+  describe('strings', () => {
+    it('should match patterns and substrings', () => {
+      passes(() => expect('abc-123').to.match(/^abc-\d+$/))
+      fails(() => expect('abc').to.match(/\d/))
+      passes(() => expect('hello world').to.have.string('world'))
+    })
+  })
+
+  describe('include', () => {
+    it('should check strings, arrays and objects', () => {
+      passes(() => expect('hello').to.include('ell'))
+      passes(() => expect([1, 2]).to.contain(2))
+      fails(() => expect([{ a: 1 }]).to.include({ a: 1 }))
+      passes(() => expect([{ a: 1 }]).to.deep.include({ a: 1 }))
+      passes(() => expect({ a: 1, b: 2 }).to.include({ a: 1 }))
+      fails(() => expect({ a: 1 }).to.include({ a: 2 }))
+    })
+
+    it('should check members', () => {
+      passes(() => expect([1, 2, 3]).to.have.members([3, 2, 1]))
+      fails(() => expect([1, 2, 3]).to.have.members([1, 2]))
+      passes(() => expect([1, 2, 3]).to.include.members([1, 2]))
+      passes(() => expect([{ id: 1 }]).to.have.deep.members([{ id: 1 }]))
+    })
+  })
+
+  describe('keys and properties', () => {
+    it('should check keys', () => {
+      passes(() => expect({ a: 1, b: 2 }).to.have.all.keys('a', 'b'))
+      fails(() => expect({ a: 1, b: 2 }).to.have.keys(['a']))
+      passes(() => expect({ a: 1, b: 2 }).to.include.keys('a'))
+      passes(() => expect({ a: 1, b: 2 }).to.have.any.keys('a', 'z'))
+    })
+
+    it('should check properties and move the subject to the value', () => {
+      passes(() => expect({ a: { b: 1 } }).to.have.property('a').that.has.property('b', 1))
+      fails(() => expect({ a: 1 }).to.have.property('a', 2), "expected {\"a\":1} to have property 'a' of 2, but got 1")
+      passes(() => expect({ a: { b: [1] } }).to.have.deep.property('a', { b: [1] }))
+      passes(() => expect({ a: { b: [{ c: 3 }] } }).to.have.nested.property('a.b[0].c', 3))
+      passes(() => expect({ a: 1 }).to.not.have.property('b'))
+      passes(() => expect({ a: 1 }).to.have.ownProperty('a'))
+    })
+  })
+
+  describe('functions', () => {
+    it('should check thrown errors', () => {
+      const thrower = () => {
+        throw new TypeError('bad input')
+      }
+      passes(() => expect(thrower).to.throw())
+      passes(() => expect(thrower).to.throw(TypeError))
+      passes(() => expect(thrower).to.throw(/bad/))
+      passes(() => expect(thrower).to.throw(TypeError, 'input'))
+      fails(() => expect(thrower).to.throw(RangeError))
+      passes(() => expect(() => {}).to.not.throw())
+    })
+
+    it('should check satisfy', () => {
+      passes(() => expect(4).to.satisfy((n: unknown) => (n as number) % 2 === 0))
+    })
+  })
+
+  describe('response assertions', () => {
+    it('should check status by code and reason', () => {
+      passes(() => expect(response).to.have.status(201))
+      passes(() => expect(response).to.have.status('Created'))
+      fails(() => expect(response).to.have.status(200), 'expected response to have status code 200 but got 201')
+      passes(() => expect(response).to.be.success)
+      fails(() => expect(response).to.be.ok)
+      passes(() => expect({ ...response, status: 404 }).to.be.clientError)
+    })
+
+    it('should check headers case-insensitively', () => {
+      passes(() => expect(response).to.have.header('content-type'))
+      passes(() => expect(response).to.have.header('X-Request-Id', 'abc-123'))
+      passes(() => expect({ ...response, headers: [{ key: 'Set-Cookie', value: 'a=1' }] }).to.have.header('set-cookie', 'a=1'))
+      fails(() => expect(response).to.have.header('X-Missing'), "expected response to have header with key 'X-Missing'")
+      fails(() => expect(response).to.have.header('Content-Type', 'text/plain'))
+    })
+
+    it('should check the JSON body', () => {
+      passes(() => expect(response).to.have.jsonBody())
+      passes(() => expect(response).to.be.json)
+      passes(() => expect(response).to.have.jsonBody('data.items[1].id', 2))
+      passes(() => expect(response).to.have.jsonBody('ok'))
+      fails(() => expect(response).to.have.jsonBody('data.missing'))
+      passes(() => expect(response).to.not.have.jsonBody('data.missing'))
+      fails(() => expect({ ...response, body: 'not json' }).to.have.jsonBody())
+    })
+
+    it('should reject non-response subjects', () => {
+      fails(() => expect({ a: 1 }).to.have.status(200), /to be a response/)
+    })
+  })
+
+  it('should fail explicitly', () => {
+    fails(() => expect.fail('boom'), 'boom')
+  })
+})
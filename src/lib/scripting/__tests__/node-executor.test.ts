@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { createNodeExecutor } from '../node-executor'
+import type { ScriptInput } from '../types'
+
+const input = (script: string): ScriptInput => ({
+  kind: 'test',
+  script,
+  scopes: { globals: [], collection: [], environment: [], local: [] },
+  info: { eventName: 'test', requestName: 'Request', requestId: 'req-1', iteration: 0, iterationCount: 1 },
+  request: { method: 'GET', url: 'https://api.example.com', headers: {} },
+  response: { status: 200, statusText: 'OK', headers: [], body: '', time: 1, size: 0 },
+})
+
+// These start real worker threads
+describe('createNodeExecutor', () => {
+  it('should run scripts in a worker thread', async () => {
+    const output = await createNodeExecutor()(input("pm.test('ok', () => pm.expect(pm.response.status).to.equal(200))"))
+
+    expect(output.testResults).toEqual([{ name: 'ok', passed: true }])
+  })
+
+  it('should terminate a script that never finishes', async () => {
+    const output = await createNodeExecutor({ timeout: 1000 })(input('while (true) {}'))
+
+    expect(output.testResults).toEqual([
+      { name: 'Script Execution', passed: false, error: 'Script timed out after 1000ms' },
+    ])
+  })
+
+  it('should keep Node APIs out of reach', async () => {
+    const execute = createNodeExecutor()
+
+    const globals = await execute(input(
+      "const root = (function () {}).constructor('return this')(); pm.test(typeof process + ' ' + typeof root.process + ' ' + typeof require, () => {})"
+    ))
+    const imported = await execute(input("await import('node:fs')"))
+
+    expect(globals.testResults[0].name).toBe('undefined undefined undefined')
+    expect(imported.testResults[0]).toMatchObject({ passed: false })
+  })
+
+  it('should relay pm.sendRequest to the host', async () => {
+    const output = await createNodeExecutor()(
+      input("const res = await pm.sendRequest('https://other.example.com'); pm.test('code ' + res.code, () => {})"),
+      { sendRequest: async () => ({ response: { status: 204, statusText: 'No Content', headers: [], body: '', time: 1, size: 0 } }) }
+    )
+
+    expect(output.testResults).toEqual([{ name: 'code 204', passed: true }])
+  })
+})
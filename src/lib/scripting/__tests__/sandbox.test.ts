@@ -0,0 +1,365 @@
+import { describe, it, expect, vi } from 'vitest'
+import { executeScript, toSendRequestBody } from '../sandbox'
+import type { ScriptInput } from '../types'
+
+const variable = (key: string, value: string) => ({ id: key, key, value, enabled: true })
+
+const createInput = (overrides: Partial<ScriptInput> = {}): ScriptInput => ({
+  kind: 'test',
+  script: '',
+  scopes: {
+    globals: [],
+    collection: [],
+    environment: [variable('token', 'abc')],
+    local: [],
+  },
+  info: { eventName: 'test', requestName: 'Get users', requestId: 'req-1', iteration: 0, iterationCount: 1 },
+  request: { method: 'GET', url: 'https://api.example.com/users', headers: { Accept: 'application/json' } },
+  response: {
+    status: 200,
+    statusText: 'OK',
+    headers: [{ key: 'Content-Type', value: 'application/json' }],
+    body: '{"id":1}',
+    time: 10,
+    size: 8,
+  },
+  ...overrides,
+})
+
+const testsPassed = async (script: string, overrides: Partial<ScriptInput> = {}) => {
+  const output = await executeScript(createInput({ script, ...overrides }))
+  return output.testResults
+}
+
+describe('executeScript', () => {
+  describe('test scripts', () => {
+    it('should collect test results', async () => {
+      const output = await executeScript(createInput({
+        script: [
+          "pm.test('status', () => pm.expect(pm.response.status).to.equal(200))",
+          "pm.test('body', () => pm.expect(pm.response.json()).to.have.property('name'))",
+        ].join('\n'),
+      }))
+
+      expect(output.testResults).toEqual([
+        { name: 'status', passed: true },
+        { name: 'body', passed: false, error: 'expected {"id":1} to have property \'name\'' },
+      ])
+    })
+
+    it('should report script errors as a failed test', async () => {
+      const output = await executeScript(createInput({ script: "pm.test('a', () => {}); undefinedFn()" }))
+
+      expect(output.testResults).toHaveLength(2)
+      expect(output.testResults[1]).toMatchObject({ name: 'Script Execution', passed: false })
+      expect(output.error).toBeUndefined()
+    })
+  })
+
+  describe('pm.response', () => {
+    it('should expose Postman response fields and assertions', async () => {
+      const results = await testsPassed([
+        "pm.test('code', () => pm.expect(pm.response.code).to.equal(200))",
+        "pm.test('reason', () => pm.expect(pm.response.reason()).to.equal('OK'))",
+        "pm.test('time', () => pm.expect(pm.response.responseTime).to.equal(10))",
+        "pm.test('header', () => pm.expect(pm.response.headers.get('content-type')).to.equal('application/json'))",
+        "pm.test('header object', () => pm.expect(pm.response.headers['Content-Type']).to.equal('application/json'))",
+        "pm.test('to.have.status', () => pm.response.to.have.status(200))",
+        "pm.test('to.be.ok', () => pm.response.to.be.ok)",
+        "pm.test('to.not.be.error', () => pm.response.to.not.be.error)",
+        "pm.test('text', () => pm.expect(pm.response.text()).to.equal('{\"id\":1}'))",
+      ].join('\n'))
+
+      expect(results.filter((t) => !t.passed)).toEqual([])
+      expect(results).toHaveLength(9)
+    })
+
+    it('should keep repeated headers separate', async () => {
+      const response = {
+        ...createInput().response!,
+        headers: [
+          { key: 'Set-Cookie', value: 'a=1' },
+          { key: 'Set-Cookie', value: 'b=2' },
+        ],
+      }
+      const results = await testsPassed([
+        "pm.test('count', () => pm.expect(pm.response.headers.count()).to.equal(2))",
+        "pm.test('all', () => pm.expect(pm.response.headers.all().map((h) => h.value)).to.deep.equal(['a=1', 'b=2']))",
+        "pm.test('get', () => pm.expect(pm.response.headers.get('set-cookie')).to.equal('a=1, b=2'))",
+      ].join('\n'), { response })
+
+      expect(results.filter((t) => !t.passed)).toEqual([])
+      expect(results).toHaveLength(3)
+    })
+  })
+
+  describe('pre-request scripts', () => {
+    it('should return the mutated request without changing the input', async () => {
+      const input = createInput({
+        kind: 'pre-request',
+        script: "pm.request.headers.upsert('accept', 'text/plain'); pm.request.url += '?page=2'",
+      })
+
+      const output = await executeScript(input)
+
+      expect(output.request.url).toBe('https://api.example.com/users?page=2')
+      expect(output.request.headers).toEqual({ Accept: 'text/plain' })
+      expect(input.request.headers).toEqual({ Accept: 'application/json' })
+    })
+
+    it('should replace a multipart body with a raw one', async () => {
+      const output = await executeScript(createInput({
+        kind: 'pre-request',
+        script: "pm.request.body.raw = 'plain'",
+        request: { method: 'POST', url: 'https://api.example.com/users', headers: {}, formData: [{ key: 'a', value: '1' }] },
+      }))
+
+      expect(output.request).toEqual({ method: 'POST', url: 'https://api.example.com/users', headers: {}, body: 'plain' })
+    })
+
+    it('should return an error when the script throws', async () => {
+      const output = await executeScript(createInput({ kind: 'pre-request', script: "throw new Error('nope')" }))
+
+      expect(output.error).toBe('nope')
+      expect(output.testResults).toEqual([])
+    })
+
+    it('should not expose pm.test', async () => {
+      const output = await executeScript(createInput({ kind: 'pre-request', script: "pm.test('x', () => {})" }))
+
+      expect(output.error).toBeDefined()
+    })
+  })
+
+  describe('variable scopes', () => {
+    it('should record environment changes in order and read back earlier sets', async () => {
+      const output = await executeScript(createInput({
+        script: [
+          "pm.environment.set('count', 1)",
+          "pm.environment.set('count', Number(pm.environment.get('count')) + 1)",
+          "pm.environment.set('copy', pm.environment.get('token'))",
+          "pm.environment.unset('token')",
+        ].join('\n'),
+      }))
+
+      expect(output.variableChanges).toEqual([
+        { scope: 'environment', key: 'count', value: '1' },
+        { scope: 'environment', key: 'count', value: '2' },
+        { scope: 'environment', key: 'copy', value: 'abc' },
+        { scope: 'environment', key: 'token' },
+      ])
+    })
+
+    it('should record globals and collection variable changes', async () => {
+      const output = await executeScript(createInput({
+        script: "pm.globals.set('g', { a: 1 }); pm.collectionVariables.set('c', 'x'); pm.globals.clear()",
+        scopes: { globals: [variable('old', '1')], collection: [], environment: [], local: [] },
+      }))
+
+      expect(output.variableChanges).toEqual([
+        { scope: 'globals', key: 'g', value: '{"a":1}' },
+        { scope: 'collection', key: 'c', value: 'x' },
+        { scope: 'globals', key: 'old' },
+        { scope: 'globals', key: 'g' },
+      ])
+    })
+
+    it('should resolve pm.variables by precedence and set local variables', async () => {
+      const output = await executeScript(createInput({
+        scopes: {
+          globals: [variable('a', 'global'), variable('b', 'global'), variable('c', 'global'), variable('d', 'global')],
+          collection: [variable('b', 'collection'), variable('c', 'collection'), variable('d', 'collection')],
+          environment: [variable('c', 'environment'), variable('d', 'environment')],
+          local: [variable('d', 'local')],
+        },
+        script: [
+          "pm.test('precedence', () => pm.expect([pm.variables.get('a'), pm.variables.get('b'), pm.variables.get('c'), pm.variables.get('d')]).to.eql(['global', 'collection', 'environment', 'local']))",
+          "pm.test('replaceIn', () => pm.expect(pm.variables.replaceIn('{{a}}-{{missing}}')).to.equal('global-{{missing}}'))",
+          "pm.variables.set('e', 'local')",
+        ].join('\n'),
+      }))
+
+      expect(output.testResults.every((t) => t.passed)).toBe(true)
+      expect(output.variableChanges).toEqual([{ scope: 'local', key: 'e', value: 'local' }])
+    })
+  })
+
+  it('should expose iteration data between environment and local variables', async () => {
+    const output = await executeScript(createInput({
+      scopes: {
+        globals: [],
+        collection: [],
+        environment: [variable('user', 'env'), variable('token', 'abc')],
+        data: [variable('user', 'row'), variable('pass', 'secret')],
+        local: [variable('pass', 'local')],
+      },
+      script: [
+        "pm.test('get', () => pm.expect(pm.iterationData.get('user')).to.equal('row'))",
+        "pm.test('toObject', () => pm.expect(pm.iterationData.toObject()).to.eql({ user: 'row', pass: 'secret' }))",
+        "pm.test('precedence', () => pm.expect([pm.variables.get('user'), pm.variables.get('pass')]).to.eql(['row', 'local']))",
+        "pm.test('read-only', () => pm.expect(pm.iterationData.set).to.be.undefined)",
+      ].join('\n'),
+    }))
+
+    expect(output.testResults.filter((t) => !t.passed)).toEqual([])
+  })
+
+  it('should expose pm.info', async () => {
+    const results = await testsPassed(
+      "pm.test('info', () => pm.expect(pm.info).to.include({ requestName: 'Get users', eventName: 'test', iteration: 0 }))"
+    )
+
+    expect(results).toEqual([{ name: 'info', passed: true }])
+  })
+
+  describe('pm.sendRequest', () => {
+    const host = {
+      sendRequest: vi.fn(async () => ({
+        response: { status: 201, statusText: 'Created', headers: [], body: '{"token":"t1"}', time: 5, size: 14 },
+      })),
+    }
+
+    it('should wait for callbacks before finishing', async () => {
+      const output = await executeScript(createInput({
+        kind: 'pre-request',
+        script: [
+          "pm.sendRequest({ url: 'https://auth.example.com/token', method: 'post', header: [{ key: 'X-Id', value: '1' }] }, (err, res) => {",
+          "  pm.environment.set('token', res.json().token)",
+          '})',
+        ].join('\n'),
+      }), host)
+
+      expect(host.sendRequest).toHaveBeenCalledWith({
+        method: 'POST',
+        url: 'https://auth.example.com/token',
+        headers: { 'X-Id': '1' },
+        body: undefined,
+      })
+      expect(output.variableChanges).toEqual([{ scope: 'environment', key: 'token', value: 't1' }])
+    })
+
+    it('should support await', async () => {
+      const results = await testsPassed(
+        "const res = await pm.sendRequest('https://api.example.com'); pm.test('code', () => pm.expect(res.code).to.equal(201))"
+      )
+
+      // No host: the request fails and the awaited promise rejects
+      expect(results).toEqual([
+        expect.objectContaining({ name: 'Script Execution', passed: false, error: 'pm.sendRequest is not available here' }),
+      ])
+
+      const output = await executeScript(createInput({
+        script: "const res = await pm.sendRequest('https://api.example.com'); pm.test('code', () => pm.expect(res.code).to.equal(201))",
+      }), host)
+      expect(output.testResults).toEqual([{ name: 'code', passed: true }])
+    })
+
+    it('should report errors thrown in callbacks', async () => {
+      const output = await executeScript(createInput({
+        kind: 'pre-request',
+        script: "pm.sendRequest('https://api.example.com', () => { throw new Error('in callback') })",
+      }), host)
+
+      expect(output.error).toBe('in callback')
+    })
+  })
+
+  describe('pm.cookies', () => {
+    const cookies = [
+      { name: 'session', value: 'abc', domain: 'api.example.com', path: '/', hostOnly: true },
+      { name: 'other', value: '1', domain: 'other.com', path: '/' },
+    ]
+
+    it('should read the cookies for the request URL', async () => {
+      const results = await testsPassed(
+        [
+          "pm.test('get', () => pm.expect(pm.cookies.get('session')).to.equal('abc'))",
+          "pm.test('has', () => pm.expect(pm.cookies.has('other')).to.equal(false))",
+          "pm.test('toObject', () => pm.expect(pm.cookies.toObject()).to.eql({ session: 'abc' }))",
+        ].join('\n'),
+        { cookies }
+      )
+
+      expect(results.filter((t) => !t.passed)).toEqual([])
+    })
+
+    it('should change the jar through pm.cookies.jar()', async () => {
+      const output = await executeScript(createInput({
+        cookies,
+        script: [
+          'const jar = pm.cookies.jar()',
+          "jar.set('https://api.example.com', 'theme', 'dark', (error, cookie) => pm.test('set', () => pm.expect(cookie.value).to.equal('dark')))",
+          "jar.unset('https://other.com/', 'other')",
+          "jar.get('https://api.example.com/x', 'theme', (error, value) => pm.test('get', () => pm.expect(value).to.equal('dark')))",
+          "jar.set('not a url', 'a', 'b', (error) => pm.test('error', () => pm.expect(error).to.be.an('error')))",
+        ].join('\n'),
+      }))
+
+      expect(output.testResults.filter((t) => !t.passed)).toEqual([])
+      expect(output.cookies).toEqual([
+        cookies[0],
+        { name: 'theme', value: 'dark', domain: 'api.example.com', path: '/', hostOnly: true },
+      ])
+    })
+
+    it('should not report an unchanged jar', async () => {
+      const output = await executeScript(createInput({ cookies, script: "pm.cookies.get('session')" }))
+      expect(output.cookies).toBeUndefined()
+    })
+  })
+
+  it('should hide app and network globals from scripts', async () => {
+    const results = await testsPassed([
+      "pm.test('window', () => pm.expect(typeof window).to.equal('undefined'))",
+      "pm.test('localStorage', () => pm.expect(typeof localStorage).to.equal('undefined'))",
+      "pm.test('fetch', () => pm.expect(typeof fetch).to.equal('undefined'))",
+      "pm.test('globalThis', () => pm.expect(typeof globalThis).to.equal('undefined'))",
+      "pm.test('this', () => pm.expect(this === undefined || Object.keys(this).length === 0).to.be.true())",
+    ].join('\n'))
+
+    expect(results.every((t) => t.passed)).toBe(true)
+  })
+})
+
+describe('toSendRequestBody', () => {
+  it('should accept a URL string', () => {
+    expect(toSendRequestBody('https://api.example.com')).toEqual({ method: 'GET', url: 'https://api.example.com', headers: {} })
+  })
+
+  it('should encode urlencoded bodies', () => {
+    const body = toSendRequestBody({
+      url: { raw: 'https://auth.example.com/token' },
+      method: 'POST',
+      header: { Accept: 'application/json' },
+      body: { mode: 'urlencoded', urlencoded: [{ key: 'grant_type', value: 'client credentials' }, { key: 'x', value: '1', disabled: true }] },
+    })
+
+    expect(body).toEqual({
+      method: 'POST',
+      url: 'https://auth.example.com/token',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'grant_type=client%20credentials',
+    })
+  })
+
+  it('should send formdata bodies as multipart fields', () => {
+    const body = toSendRequestBody({
+      url: 'https://api.example.com/upload',
+      method: 'post',
+      body: { mode: 'formdata', formdata: [{ key: 'name', value: 'Ada' }, { key: 'x', value: '1', disabled: true }] },
+    })
+
+    expect(body).toEqual({ method: 'POST', url: 'https://api.example.com/upload', headers: {}, formData: [{ key: 'name', value: 'Ada' }] })
+  })
+
+  it('should send graphql bodies as JSON', () => {
+    const body = toSendRequestBody({
+      url: 'https://api.example.com/graphql',
+      method: 'POST',
+      body: { mode: 'graphql', graphql: { query: '{ me { id } }', variables: { team: 'a' } } },
+    })
+
+    expect(body).toMatchObject({ headers: { 'Content-Type': 'application/json' } })
+    expect(JSON.parse(body.body!)).toEqual({ query: '{ me { id } }', variables: { team: 'a' } })
+  })
+})
@@ -0,0 +1,91 @@
+import { scriptError } from './sandbox'
+import type { ProxyResult } from '@/lib/request-sender'
+import type { ScriptExecutor, ScriptOutput, ScriptRequestMessage, ScriptResponseMessage } from './types'
+
+export const DEFAULT_SCRIPT_TIMEOUT = 5000
+
+export interface WorkerExecutorOptions {
+  timeout?: number // ms before the worker is terminated
+  createWorker?: () => Worker
+}
+
+function createScriptWorker(): Worker {
+  return new Worker(new URL('./script.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Run each script in a fresh Web Worker, away from the page's globals.
+ * A script that does not finish within the timeout has its worker terminated.
+ * pm.sendRequest calls are relayed back here and sent with the host's transport.
+ */
+export function createWorkerExecutor(options: WorkerExecutorOptions = {}): ScriptExecutor {
+  const timeout = options.timeout ?? DEFAULT_SCRIPT_TIMEOUT
+  const createWorker = options.createWorker ?? createScriptWorker
+  let nextId = 0
+
+  return (input, host = {}) =>
+    new Promise((resolve) => {
+      const id = ++nextId
+      const worker = createWorker()
+      let finished = false
+
+      const finish = (output: ScriptOutput) => {
+        if (finished) return
+        finished = true
+        clearTimeout(timeoutId)
+        worker.terminate()
+        resolve(output)
+      }
+
+      const send = (message: ScriptRequestMessage) => {
+        try {
+          worker.postMessage(message)
+        } catch (error) {
+          finish(scriptError(input, error instanceof Error ? error.message : 'Failed to start script'))
+        }
+      }
+
+      const timeoutId = setTimeout(() => {
+        finish(scriptError(input, `Script timed out after ${timeout}ms`))
+      }, timeout)
+
+      worker.onmessage = async (event: MessageEvent<ScriptResponseMessage>) => {
+        const message = event.data
+        if (message.id !== id) return
+
+        if (message.type === 'done') {
+          finish(message.output)
+          return
+        }
+
+        let result: ProxyResult
+        if (host.sendRequest) {
+          result = await host.sendRequest(message.request)
+        } else {
+          result = { response: { status: 0, statusText: 'Error', headers: [], body: '', time: 0, size: 0 }, error: 'pm.sendRequest is not available here' }
+        }
+        if (!finished) send({ type: 'sendRequestResult', id, requestId: message.requestId, result })
+      }
+      worker.onerror = (event) => {
+        event.preventDefault()
+        finish(scriptError(input, event.message || 'Script worker failed'))
+      }
+
+      send({ type: 'run', id, input })
+    })
+}
+
+let workerExecutor: ScriptExecutor | null = null
+
+/**
+ * Default executor: a Web Worker in the browser. Where Web Workers are
+ * unavailable the script is not run and comes back as a script error; Node
+ * hosts such as the CLI runner pass createNodeExecutor instead.
+ */
+export const runScript: ScriptExecutor = async (input, host) => {
+  if (typeof Worker === 'undefined') {
+    return scriptError(input, 'Scripts cannot run here: no isolated script executor is available')
+  }
+  workerExecutor ??= createWorkerExecutor()
+  return workerExecutor(input, host)
+}
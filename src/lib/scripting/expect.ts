@@ -0,0 +1,790 @@
+// Chai-style assertions for pm.expect, including the Postman response assertions
+// (status, header, jsonBody, ok, ...) used by imported collections
+
+export class AssertionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AssertionError'
+  }
+}
+
+interface AssertionFlags {
+  negate: boolean
+  deep: boolean
+  nested: boolean
+  own: boolean
+  any: boolean
+  all: boolean
+  contains: boolean
+  doLength: boolean
+}
+
+interface AssertionState {
+  actual: unknown
+  flags: AssertionFlags
+  message?: string
+}
+
+type AnyObject = Record<string, unknown>
+type CallableAssertion<Args extends unknown[] = []> = Assertion & ((...args: Args) => Assertion)
+
+/**
+ * Render a value for an assertion message
+ */
+export function inspect(value: unknown): string {
+  if (typeof value === 'string') return `'${value}'`
+  if (value === undefined) return 'undefined'
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'boolean') return String(value)
+  if (typeof value === 'function') return `[Function${value.name ? ` ${value.name}` : ''}]`
+  if (value instanceof RegExp || value instanceof Error) return String(value)
+  if (value instanceof Map) return `Map(${value.size})`
+  if (value instanceof Set) return `Set(${value.size})`
+  try {
+    const json = JSON.stringify(value)
+    return json.length > 120 ? `${json.slice(0, 117)}...` : json
+  } catch {
+    return String(value)
+  }
+}
+
+/**
+ * Structural equality for primitives, arrays, plain objects, dates, regexps, maps and sets
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime()
+  if (a instanceof RegExp) return String(a) === String(b)
+  if (Array.isArray(a)) {
+    const other = b as unknown[]
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]))
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>
+    return a.size === other.size && Array.from(a.entries()).every(([k, v]) => other.has(k) && deepEqual(v, other.get(k)))
+  }
+  if (a instanceof Set) {
+    const other = Array.from(b as Set<unknown>)
+    return a.size === other.length && Array.from(a).every((item) => other.some((o) => deepEqual(item, o)))
+  }
+
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  return aKeys.length === bKeys.length &&
+    aKeys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual((a as AnyObject)[key], (b as AnyObject)[key]))
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (value instanceof RegExp) return 'regexp'
+  if (value instanceof Date) return 'date'
+  if (value instanceof Error) return 'error'
+  if (value instanceof Map) return 'map'
+  if (value instanceof Set) return 'set'
+  if (value instanceof Promise) return 'promise'
+  return typeof value
+}
+
+function parsePath(path: string): string[] {
+  return path.replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean)
+}
+
+/**
+ * Resolve a path like `data.items[0].id`
+ */
+export function getPath(target: unknown, path: string): { exists: boolean; value: unknown } {
+  let current = target
+  for (const segment of parsePath(path)) {
+    if (current === null || current === undefined || !(segment in Object(current))) {
+      return { exists: false, value: undefined }
+    }
+    current = (current as AnyObject)[segment]
+  }
+  return { exists: true, value: current }
+}
+
+function getLength(value: unknown): number | undefined {
+  if (value instanceof Map || value instanceof Set) return value.size
+  if (typeof value === 'string' || Array.isArray(value)) return value.length
+  if (value !== null && typeof value === 'object' && typeof (value as AnyObject).length === 'number') {
+    return (value as AnyObject).length as number
+  }
+  return undefined
+}
+
+// Response assertions accept pm.response or a plain ApiResponse
+function isResponseLike(value: unknown): value is AnyObject {
+  if (value === null || typeof value !== 'object') return false
+  const obj = value as AnyObject
+  return (typeof obj.code === 'number' || typeof obj.status === 'number') &&
+    'headers' in obj && (typeof obj.body === 'string' || typeof obj.json === 'function' || typeof obj.text === 'function')
+}
+
+function responseCode(response: AnyObject): number {
+  return typeof response.code === 'number' ? response.code : (response.status as number)
+}
+
+function responseReason(response: AnyObject): string | undefined {
+  if (typeof response.status === 'string') return response.status
+  return typeof response.statusText === 'string' ? response.statusText : undefined
+}
+
+function responseText(response: AnyObject): string {
+  if (typeof response.text === 'function') return String((response.text as () => unknown)())
+  return typeof response.body === 'string' ? response.body : ''
+}
+
+/**
+ * Look up a header in an object map, a list of key/value pairs or a pm header list
+ */
+export function findHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined
+  const lower = name.toLowerCase()
+
+  if (typeof (headers as AnyObject).get === 'function' && !(headers instanceof Map)) {
+    const value = ((headers as AnyObject).get as (key: string) => unknown)(name)
+    return value === undefined || value === null ? undefined : String(value)
+  }
+  if (Array.isArray(headers)) {
+    const match = headers.find((h) => typeof h?.key === 'string' && h.key.toLowerCase() === lower)
+    return match ? String(match.value) : undefined
+  }
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === lower)
+  return key ? String((headers as AnyObject)[key]) : undefined
+}
+
+// Turn an assertion into a function that returns it, so `.include` and `.include(x)`
+// (or `.to.be.true` and the older `.to.be.true()`) both work
+function callable<Args extends unknown[]>(assertion: Assertion, fn: (...args: Args) => Assertion): CallableAssertion<Args> {
+  const wrapper = (...args: Args) => fn(...args)
+  Reflect.deleteProperty(wrapper, 'length')
+  Reflect.deleteProperty(wrapper, 'name')
+  Object.setPrototypeOf(wrapper, assertion)
+  return wrapper as unknown as CallableAssertion<Args>
+}
+
+export class Assertion {
+  private readonly state: AssertionState
+
+  constructor(actual: unknown, message?: string) {
+    this.state = {
+      actual,
+      message,
+      flags: { negate: false, deep: false, nested: false, own: false, any: false, all: false, contains: false, doLength: false },
+    }
+  }
+
+  private get actual(): unknown {
+    return this.state.actual
+  }
+
+  private get flags(): AssertionFlags {
+    return this.state.flags
+  }
+
+  private assert(pass: boolean, message: string, negatedMessage: string): this {
+    const negate = this.flags.negate
+    if (negate ? pass : !pass) {
+      const text = negate ? negatedMessage : message
+      throw new AssertionError(this.state.message ? `${this.state.message}: ${text}` : text)
+    }
+    return this
+  }
+
+  private isMatch(a: unknown, b: unknown): boolean {
+    return this.flags.deep ? deepEqual(a, b) : a === b
+  }
+
+  // Language chains
+
+  get to(): this { return this }
+  get be(): this { return this }
+  get been(): this { return this }
+  get is(): this { return this }
+  get that(): this { return this }
+  get which(): this { return this }
+  get and(): this { return this }
+  get has(): this { return this }
+  get have(): this { return this }
+  get with(): this { return this }
+  get at(): this { return this }
+  get of(): this { return this }
+  get same(): this { return this }
+  get but(): this { return this }
+  get does(): this { return this }
+  get still(): this { return this }
+  get also(): this { return this }
+
+  // Flags
+
+  get not(): this {
+    this.flags.negate = !this.flags.negate
+    return this
+  }
+
+  get deep(): this {
+    this.flags.deep = true
+    return this
+  }
+
+  get nested(): this {
+    this.flags.nested = true
+    return this
+  }
+
+  get own(): this {
+    this.flags.own = true
+    return this
+  }
+
+  get any(): this {
+    this.flags.any = true
+    this.flags.all = false
+    return this
+  }
+
+  get all(): this {
+    this.flags.all = true
+    this.flags.any = false
+    return this
+  }
+
+  // Equality
+
+  equal(expected: unknown): Assertion {
+    if (this.flags.deep) return this.eql(expected)
+    return this.assert(
+      this.actual === expected,
+      `expected ${inspect(this.actual)} to equal ${inspect(expected)}`,
+      `expected ${inspect(this.actual)} to not equal ${inspect(expected)}`
+    )
+  }
+
+  equals(expected: unknown): Assertion { return this.equal(expected) }
+  eq(expected: unknown): Assertion { return this.equal(expected) }
+
+  eql(expected: unknown): Assertion {
+    return this.assert(
+      deepEqual(this.actual, expected),
+      `expected ${inspect(this.actual)} to deeply equal ${inspect(expected)}`,
+      `expected ${inspect(this.actual)} to not deeply equal ${inspect(expected)}`
+    )
+  }
+
+  eqls(expected: unknown): Assertion { return this.eql(expected) }
+
+  oneOf(list: unknown[]): Assertion {
+    return this.assert(
+      list.some((item) => this.isMatch(this.actual, item)),
+      `expected ${inspect(this.actual)} to be one of ${inspect(list)}`,
+      `expected ${inspect(this.actual)} to not be one of ${inspect(list)}`
+    )
+  }
+
+  // Value checks
+
+  private check(pass: boolean, description: string): CallableAssertion {
+    this.assert(
+      pass,
+      `expected ${inspect(this.actual)} to be ${description}`,
+      `expected ${inspect(this.actual)} to not be ${description}`
+    )
+    return callable(this, () => this)
+  }
+
+  get true(): CallableAssertion { return this.check(this.actual === true, 'true') }
+  get false(): CallableAssertion { return this.check(this.actual === false, 'false') }
+  get null(): CallableAssertion { return this.check(this.actual === null, 'null') }
+  get undefined(): CallableAssertion { return this.check(this.actual === undefined, 'undefined') }
+  get NaN(): CallableAssertion { return this.check(Number.isNaN(this.actual), 'NaN') }
+  get finite(): CallableAssertion { return this.check(typeof this.actual === 'number' && Number.isFinite(this.actual), 'a finite number') }
+
+  get exist(): CallableAssertion {
+    this.assert(
+      this.actual !== null && this.actual !== undefined,
+      `expected ${inspect(this.actual)} to exist`,
+      `expected ${inspect(this.actual)} to not exist`
+    )
+    return callable(this, () => this)
+  }
+
+  get exists(): CallableAssertion { return this.exist }
+
+  get empty(): CallableAssertion {
+    const actual = this.actual
+    let isEmpty: boolean
+    const length = getLength(actual)
+    if (length !== undefined) {
+      isEmpty = length === 0
+    } else if (actual !== null && typeof actual === 'object') {
+      isEmpty = Object.keys(actual).length === 0
+    } else {
+      throw new AssertionError(`.empty was passed non-string primitive ${inspect(actual)}`)
+    }
+    return this.check(isEmpty, 'empty')
+  }
+
+  get ok(): CallableAssertion {
+    if (isResponseLike(this.actual)) return this.responseStatus((code) => code === 200, 'ok (200)')
+    return this.check(Boolean(this.actual), 'truthy')
+  }
+
+  // Types
+
+  a(type: string): Assertion {
+    const expected = type.toLowerCase()
+    const article = /^[aeiou]/.test(expected) ? 'an' : 'a'
+    return this.assert(
+      typeOf(this.actual) === expected,
+      `expected ${inspect(this.actual)} to be ${article} ${expected}`,
+      `expected ${inspect(this.actual)} to not be ${article} ${expected}`
+    )
+  }
+
+  an(type: string): Assertion { return this.a(type) }
+
+  instanceOf(constructor: new (...args: never[]) => unknown): Assertion {
+    return this.assert(
+      this.actual instanceof constructor,
+      `expected ${inspect(this.actual)} to be an instance of ${constructor.name}`,
+      `expected ${inspect(this.actual)} to not be an instance of ${constructor.name}`
+    )
+  }
+
+  instanceof(constructor: new (...args: never[]) => unknown): Assertion { return this.instanceOf(constructor) }
+
+  // Numbers (or lengths after `.length`)
+
+  private compare(pass: (n: number) => boolean, description: string): Assertion {
+    if (this.flags.doLength) {
+      const length = getLength(this.actual)
+      return this.assert(
+        length !== undefined && pass(length),
+        `expected ${inspect(this.actual)} to have a length ${description} but got ${length}`,
+        `expected ${inspect(this.actual)} to not have a length ${description}`
+      )
+    }
+    return this.assert(
+      typeof this.actual === 'number' && pass(this.actual),
+      `expected ${inspect(this.actual)} to be ${description}`,
+      `expected ${inspect(this.actual)} to not be ${description}`
+    )
+  }
+
+  above(n: number): Assertion { return this.compare((v) => v > n, `above ${n}`) }
+  gt(n: number): Assertion { return this.above(n) }
+  greaterThan(n: number): Assertion { return this.above(n) }
+  least(n: number): Assertion { return this.compare((v) => v >= n, `at least ${n}`) }
+  gte(n: number): Assertion { return this.least(n) }
+  below(n: number): Assertion { return this.compare((v) => v < n, `below ${n}`) }
+  lt(n: number): Assertion { return this.below(n) }
+  lessThan(n: number): Assertion { return this.below(n) }
+  most(n: number): Assertion { return this.compare((v) => v <= n, `at most ${n}`) }
+  lte(n: number): Assertion { return this.most(n) }
+  within(start: number, finish: number): Assertion { return this.compare((v) => v >= start && v <= finish, `within ${start}..${finish}`) }
+
+  closeTo(expected: number, delta: number): Assertion {
+    return this.assert(
+      typeof this.actual === 'number' && Math.abs(this.actual - expected) <= delta,
+      `expected ${inspect(this.actual)} to be close to ${expected} +/- ${delta}`,
+      `expected ${inspect(this.actual)} not to be close to ${expected} +/- ${delta}`
+    )
+  }
+
+  approximately(expected: number, delta: number): Assertion { return this.closeTo(expected, delta) }
+
+  // Length
+
+  private assertLength(n: number): Assertion {
+    const length = getLength(this.actual)
+    return this.assert(
+      length === n,
+      `expected ${inspect(this.actual)} to have a length of ${n} but got ${length}`,
+      `expected ${inspect(this.actual)} to not have a length of ${n}`
+    )
+  }
+
+  get length(): CallableAssertion<[number]> {
+    this.flags.doLength = true
+    return callable(this, (n: number) => this.assertLength(n))
+  }
+
+  lengthOf(n: number): Assertion { return this.assertLength(n) }
+
+  // Strings
+
+  match(pattern: RegExp): Assertion {
+    return this.assert(
+      pattern.test(String(this.actual)),
+      `expected ${inspect(this.actual)} to match ${pattern}`,
+      `expected ${inspect(this.actual)} not to match ${pattern}`
+    )
+  }
+
+  matches(pattern: RegExp): Assertion { return this.match(pattern) }
+
+  string(substring: string): Assertion {
+    return this.assert(
+      typeof this.actual === 'string' && this.actual.includes(substring),
+      `expected ${inspect(this.actual)} to contain ${inspect(substring)}`,
+      `expected ${inspect(this.actual)} to not contain ${inspect(substring)}`
+    )
+  }
+
+  // Inclusion
+
+  private assertInclude(value: unknown): Assertion {
+    const actual = this.actual
+    let pass: boolean
+
+    if (typeof actual === 'string') {
+      pass = actual.includes(String(value))
+    } else if (Array.isArray(actual)) {
+      pass = actual.some((item) => this.isMatch(item, value))
+    } else if (actual instanceof Set) {
+      pass = this.flags.deep ? Array.from(actual).some((item) => deepEqual(item, value)) : actual.has(value)
+    } else if (actual instanceof Map) {
+      pass = Array.from(actual.values()).some((item) => this.isMatch(item, value))
+    } else if (actual !== null && typeof actual === 'object' && value !== null && typeof value === 'object') {
+      pass = Object.entries(value).every(
+        ([key, expected]) => key in actual && this.isMatch((actual as AnyObject)[key], expected)
+      )
+    } else {
+      throw new AssertionError(`the given combination of arguments (${typeOf(actual)} and ${typeOf(value)}) is invalid for this assertion`)
+    }
+
+    return this.assert(
+      pass,
+      `expected ${inspect(actual)} to include ${inspect(value)}`,
+      `expected ${inspect(actual)} to not include ${inspect(value)}`
+    )
+  }
+
+  get include(): CallableAssertion<[unknown]> {
+    this.flags.contains = true
+    return callable(this, (value: unknown) => this.assertInclude(value))
+  }
+
+  get includes(): CallableAssertion<[unknown]> { return this.include }
+  get contain(): CallableAssertion<[unknown]> { return this.include }
+  get contains(): CallableAssertion<[unknown]> { return this.include }
+
+  members(expected: unknown[]): Assertion {
+    const actual = Array.isArray(this.actual) ? this.actual : []
+    const has = (list: unknown[], item: unknown) => list.some((candidate) => this.isMatch(candidate, item))
+    const subset = expected.every((item) => has(actual, item))
+    const pass = this.flags.contains
+      ? subset
+      : subset && actual.length === expected.length && actual.every((item) => has(expected, item))
+    const description = this.flags.contains ? 'be a superset of' : 'have the same members as'
+
+    return this.assert(
+      pass,
+      `expected ${inspect(this.actual)} to ${description} ${inspect(expected)}`,
+      `expected ${inspect(this.actual)} to not ${description} ${inspect(expected)}`
+    )
+  }
+
+  keys(...args: unknown[]): Assertion {
+    const first = args[0]
+    const expected = args.length === 1 && Array.isArray(first)
+      ? first.map(String)
+      : args.length === 1 && first !== null && typeof first === 'object'
+        ? Object.keys(first)
+        : args.map(String)
+    const actual = this.actual instanceof Map || this.actual instanceof Set
+      ? Array.from(this.actual.keys()).map(String)
+      : Object.keys(Object(this.actual))
+
+    let pass: boolean
+    let description: string
+    if (this.flags.any) {
+      pass = expected.some((key) => actual.includes(key))
+      description = 'have any of the keys'
+    } else if (this.flags.contains) {
+      pass = expected.every((key) => actual.includes(key))
+      description = 'contain keys'
+    } else {
+      pass = expected.every((key) => actual.includes(key)) && actual.length === expected.length
+      description = 'have keys'
+    }
+
+    return this.assert(
+      pass,
+      `expected ${inspect(this.actual)} to ${description} ${inspect(expected)}`,
+      `expected ${inspect(this.actual)} to not ${description} ${inspect(expected)}`
+    )
+  }
+
+  key(...args: unknown[]): Assertion { return this.keys(...args) }
+
+  // Properties; like chai, the property value becomes the subject of the chain
+
+  property(name: string, ...rest: unknown[]): Assertion {
+    const actual = this.actual
+    let exists: boolean
+    let value: unknown
+
+    if (this.flags.nested) {
+      ({ exists, value } = getPath(actual, name))
+    } else if (actual === null || actual === undefined) {
+      exists = false
+    } else if (this.flags.own) {
+      exists = Object.prototype.hasOwnProperty.call(actual, name)
+      value = exists ? (actual as AnyObject)[name] : undefined
+    } else {
+      exists = name in Object(actual)
+      value = exists ? (actual as AnyObject)[name] : undefined
+    }
+
+    const kind = `${this.flags.deep ? 'deep ' : ''}${this.flags.nested ? 'nested ' : ''}${this.flags.own ? 'own ' : ''}property`
+    if (rest.length > 0) {
+      const expected = rest[0]
+      this.assert(
+        exists && this.isMatch(value, expected),
+        `expected ${inspect(actual)} to have ${kind} '${name}' of ${inspect(expected)}, but got ${inspect(value)}`,
+        `expected ${inspect(actual)} to not have ${kind} '${name}' of ${inspect(expected)}`
+      )
+    } else {
+      this.assert(
+        exists,
+        `expected ${inspect(actual)} to have ${kind} '${name}'`,
+        `expected ${inspect(actual)} to not have ${kind} '${name}'`
+      )
+    }
+
+    this.state.actual = value
+    return this
+  }
+
+  ownProperty(name: string, ...rest: unknown[]): Assertion {
+    this.flags.own = true
+    return this.property(name, ...rest)
+  }
+
+  haveOwnProperty(name: string, ...rest: unknown[]): Assertion { return this.ownProperty(name, ...rest) }
+
+  nestedProperty(path: string, ...rest: unknown[]): Assertion {
+    this.flags.nested = true
+    return this.property(path, ...rest)
+  }
+
+  // Functions
+
+  throw(expected?: unknown, messageMatcher?: string | RegExp): Assertion {
+    if (typeof this.actual !== 'function') {
+      throw new AssertionError(`expected ${inspect(this.actual)} to be a function`)
+    }
+
+    let thrown: unknown
+    let didThrow = false
+    try {
+      (this.actual as () => unknown)()
+    } catch (error) {
+      didThrow = true
+      thrown = error
+    }
+
+    const message = thrown instanceof Error ? thrown.message : String(thrown)
+    const matchesMessage = (matcher: unknown) =>
+      matcher instanceof RegExp ? matcher.test(message) : typeof matcher === 'string' ? message.includes(matcher) : true
+
+    let pass = didThrow
+    let description = 'to throw an error'
+    if (typeof expected === 'function') {
+      pass = pass && thrown instanceof (expected as new () => unknown)
+      description = `to throw ${expected.name || 'the expected error'}`
+    } else if (expected instanceof Error) {
+      pass = pass && thrown === expected
+      description = `to throw ${inspect(expected)}`
+    } else if (expected !== undefined) {
+      pass = pass && matchesMessage(expected)
+      description = `to throw error matching ${inspect(expected)}`
+    }
+    if (messageMatcher !== undefined) {
+      pass = pass && matchesMessage(messageMatcher)
+      description += ` with message matching ${inspect(messageMatcher)}`
+    }
+
+    return this.assert(
+      pass,
+      `expected ${inspect(this.actual)} ${description}${didThrow ? ` but got ${inspect(message)}` : ''}`,
+      `expected ${inspect(this.actual)} not ${description}`
+    )
+  }
+
+  throws(expected?: unknown, messageMatcher?: string | RegExp): Assertion { return this.throw(expected, messageMatcher) }
+  Throw(expected?: unknown, messageMatcher?: string | RegExp): Assertion { return this.throw(expected, messageMatcher) }
+
+  satisfy(matcher: (value: unknown) => boolean): Assertion {
+    return this.assert(
+      Boolean(matcher(this.actual)),
+      `expected ${inspect(this.actual)} to satisfy ${inspect(matcher)}`,
+      `expected ${inspect(this.actual)} to not satisfy ${inspect(matcher)}`
+    )
+  }
+
+  satisfies(matcher: (value: unknown) => boolean): Assertion { return this.satisfy(matcher) }
+
+  // Postman response assertions
+
+  private response(): AnyObject {
+    if (!isResponseLike(this.actual)) {
+      throw new AssertionError(`expected ${inspect(this.actual)} to be a response`)
+    }
+    return this.actual
+  }
+
+  private responseStatus(test: (code: number) => boolean, description: string): CallableAssertion {
+    const code = responseCode(this.response())
+    this.assert(
+      test(code),
+      `expected response to be ${description} but got ${code}`,
+      `expected response to not be ${description} but got ${code}`
+    )
+    return callable(this, () => this)
+  }
+
+  status(expected: number | string): Assertion {
+    const response = this.response()
+    if (typeof expected === 'string') {
+      const reason = responseReason(response)
+      return this.assert(
+        reason === expected,
+        `expected response to have status reason '${expected}' but got '${reason}'`,
+        `expected response to not have status reason '${expected}'`
+      )
+    }
+    const code = responseCode(response)
+    return this.assert(
+      code === expected,
+      `expected response to have status code ${expected} but got ${code}`,
+      `expected response to not have status code ${expected}`
+    )
+  }
+
+  header(name: string, ...rest: unknown[]): Assertion {
+    const value = findHeader(this.response().headers, name)
+    if (rest.length > 0) {
+      const expected = rest[0]
+      return this.assert(
+        value !== undefined && (expected instanceof RegExp ? expected.test(value) : value === String(expected)),
+        `expected '${name}' response header to be ${inspect(expected)} but got ${inspect(value)}`,
+        `expected '${name}' response header to not be ${inspect(expected)}`
+      )
+    }
+    return this.assert(
+      value !== undefined,
+      `expected response to have header with key '${name}'`,
+      `expected response to not have header with key '${name}'`
+    )
+  }
+
+  jsonBody(...args: unknown[]): Assertion {
+    const response = this.response()
+    let body: unknown
+    let isJson = true
+    try {
+      body = typeof response.json === 'function' ? (response.json as () => unknown)() : JSON.parse(responseText(response))
+      if (body === null && responseText(response).trim() !== 'null') isJson = false
+    } catch {
+      isJson = false
+    }
+
+    if (args.length === 0) {
+      return this.assert(isJson, 'expected response body to be a valid json', 'expected response body to not be a valid json')
+    }
+
+    const [path, ...rest] = args
+    if (typeof path !== 'string') {
+      return this.assert(
+        isJson && deepEqual(body, path),
+        `expected response body json to equal ${inspect(path)} but got ${inspect(body)}`,
+        `expected response body json to not equal ${inspect(path)}`
+      )
+    }
+
+    const { exists, value } = isJson ? getPath(body, path) : { exists: false, value: undefined }
+    if (rest.length > 0) {
+      return this.assert(
+        exists && deepEqual(value, rest[0]),
+        `expected response body json at '${path}' to contain ${inspect(rest[0])} but got ${inspect(value)}`,
+        `expected response body json at '${path}' to not contain ${inspect(rest[0])}`
+      )
+    }
+    return this.assert(
+      exists,
+      `expected response body json to contain path '${path}'`,
+      `expected response body json to not contain path '${path}'`
+    )
+  }
+
+  body(expected?: unknown): Assertion {
+    const text = responseText(this.response())
+    if (expected === undefined) {
+      return this.assert(text.length > 0, 'expected response to have content in body', 'expected response to not have content in body')
+    }
+    const pass = expected instanceof RegExp ? expected.test(text) : typeof expected === 'string' ? text === expected : deepEqual(safeParse(text), expected)
+    return this.assert(
+      pass,
+      `expected response body to equal ${inspect(expected)} but got ${inspect(text)}`,
+      `expected response body to not equal ${inspect(expected)}`
+    )
+  }
+
+  get success(): CallableAssertion { return this.responseStatus((c) => c >= 200 && c < 300, 'success (2xx)') }
+  get accepted(): CallableAssertion { return this.responseStatus((c) => c === 202, 'accepted (202)') }
+  get info(): CallableAssertion { return this.responseStatus((c) => c >= 100 && c < 200, 'info (1xx)') }
+  get redirection(): CallableAssertion { return this.responseStatus((c) => c >= 300 && c < 400, 'redirection (3xx)') }
+  get clientError(): CallableAssertion { return this.responseStatus((c) => c >= 400 && c < 500, 'client error (4xx)') }
+  get serverError(): CallableAssertion { return this.responseStatus((c) => c >= 500 && c < 600, 'server error (5xx)') }
+  get error(): CallableAssertion { return this.responseStatus((c) => c >= 400 && c < 600, 'error (4xx or 5xx)') }
+  get badRequest(): CallableAssertion { return this.responseStatus((c) => c === 400, 'bad request (400)') }
+  get unauthorized(): CallableAssertion { return this.responseStatus((c) => c === 401, 'unauthorized (401)') }
+  get unauthorised(): CallableAssertion { return this.unauthorized }
+  get forbidden(): CallableAssertion { return this.responseStatus((c) => c === 403, 'forbidden (403)') }
+  get notFound(): CallableAssertion { return this.responseStatus((c) => c === 404, 'not found (404)') }
+  get rateLimited(): CallableAssertion { return this.responseStatus((c) => c === 429, 'rate limited (429)') }
+
+  get json(): CallableAssertion {
+    const text = responseText(this.response())
+    let isJson = true
+    try {
+      JSON.parse(text)
+    } catch {
+      isJson = false
+    }
+    this.assert(isJson, 'expected response body to be a valid json', 'expected response body to not be a valid json')
+    return callable(this, () => this)
+  }
+
+  get withBody(): CallableAssertion {
+    this.body()
+    return callable(this, () => this)
+  }
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+export interface ExpectStatic {
+  (value: unknown, message?: string): Assertion
+  fail: (message?: string) => never
+}
+
+export const expect: ExpectStatic = Object.assign(
+  (value: unknown, message?: string) => new Assertion(value, message),
+  {
+    fail: (message?: string): never => {
+      throw new AssertionError(message || 'expect.fail()')
+    },
+  }
+)
@@ -0,0 +1,19 @@
+export { executeScript, scriptError, toSendRequestBody, SHADOWED_GLOBALS } from './sandbox'
+export type { ScriptCompiler } from './sandbox'
+export { expect, Assertion, AssertionError, deepEqual, getPath, findHeader } from './expect'
+export { createWorkerExecutor, runScript, DEFAULT_SCRIPT_TIMEOUT } from './executor'
+export type { WorkerExecutorOptions } from './executor'
+// createNodeExecutor lives in ./node-executor, outside this index, to keep worker_threads out of the browser bundle
+export type {
+  ScriptKind,
+  VariableScope,
+  ScriptScopes,
+  ScriptInfo,
+  ScriptHost,
+  ScriptInput,
+  ScriptOutput,
+  ScriptExecutor,
+  VariableChange,
+  ScriptRequestMessage,
+  ScriptResponseMessage,
+} from './types'
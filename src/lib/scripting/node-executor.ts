@@ -0,0 +1,51 @@
+import { createRequire } from 'node:module'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { Worker as NodeWorker } from 'node:worker_threads'
+import { createWorkerExecutor } from './executor'
+import type { ScriptExecutor } from './types'
+
+export interface NodeExecutorOptions {
+  timeout?: number // ms before the worker thread is terminated
+  createWorker?: () => NodeWorker
+}
+
+// Kept small; a script that needs more is almost certainly stuck
+const RESOURCE_LIMITS = { maxOldGenerationSizeMb: 128, maxYoungGenerationSizeMb: 32 }
+
+// Worker threads do not inherit tsx, so the entry registers it before loading the TypeScript worker
+function createScriptThread(): NodeWorker {
+  const tsx = createRequire(import.meta.url).resolve('tsx/cjs/api')
+  const entry = join(dirname(fileURLToPath(import.meta.url)), 'script.node-worker.ts')
+  return new NodeWorker(`require(${JSON.stringify(tsx)}).register(); require(${JSON.stringify(entry)})`, {
+    eval: true,
+    env: {},
+    resourceLimits: RESOURCE_LIMITS,
+  })
+}
+
+// The parts of the Web Worker interface createWorkerExecutor uses, backed by a worker thread
+function asWebWorker(thread: NodeWorker): Worker {
+  const worker = {
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    onerror: null as ((event: ErrorEvent) => void) | null,
+    postMessage: (message: unknown) => thread.postMessage(message),
+    terminate: () => void thread.terminate(),
+  }
+  const fail = (message: string) => worker.onerror?.({ message, preventDefault: () => {} } as ErrorEvent)
+
+  thread.on('message', (data) => worker.onmessage?.({ data } as MessageEvent))
+  thread.on('error', (error) => fail(error.message))
+  thread.on('exit', (code) => fail(`Script worker exited with code ${code}`))
+  return worker as unknown as Worker
+}
+
+/**
+ * Node counterpart of createWorkerExecutor, for the CLI runner and other hosts
+ * without Web Workers. Each script runs in a fresh worker thread without
+ * process, require or dynamic import, and is terminated after the timeout.
+ */
+export function createNodeExecutor(options: NodeExecutorOptions = {}): ScriptExecutor {
+  const createWorker = options.createWorker ?? createScriptThread
+  return createWorkerExecutor({ timeout: options.timeout, createWorker: () => asWebWorker(createWorker()) })
+}
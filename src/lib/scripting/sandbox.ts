@@ -0,0 +1,470 @@
+import type { ApiResponse, Cookie, KeyValue, ResponseHeader, TestResult } from '@/types'
+import type { SendRequestBody } from '@/app/api/request/route'
+import { getCookiesForUrl, mergeCookies } from '@/lib/cookies'
+import { serializeGraphQLBody } from '@/lib/graphql'
+import { getHeader, headersToObject } from '@/lib/response-headers'
+import { expect } from './expect'
+import type { ScriptHost, ScriptInput, ScriptOutput, VariableChange, VariableScope } from './types'
+
+// App and network globals hidden from scripts by shadowing them with undefined
+export const SHADOWED_GLOBALS = [
+  'window',
+  'self',
+  'globalThis',
+  'document',
+  'localStorage',
+  'sessionStorage',
+  'indexedDB',
+  'caches',
+  'navigator',
+  'location',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'importScripts',
+  'postMessage',
+  'Worker',
+]
+
+// Scripts run as async functions so they can `await pm.sendRequest(...)`
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+  ...args: string[]
+) => (...args: unknown[]) => Promise<unknown>
+
+/** Turns a script body into an async function taking the given parameters */
+export type ScriptCompiler = (params: string[], body: string) => (...args: unknown[]) => Promise<unknown>
+
+const compileAsyncFunction: ScriptCompiler = (params, body) => new AsyncFunction(...params, body)
+
+function stringifyValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)
+}
+
+function toValueMap(variables: KeyValue[]): Map<string, string> {
+  return new Map(variables.filter((v) => v.enabled && v.key).map((v) => [v.key, v.value]))
+}
+
+// pm.environment, pm.globals, pm.collectionVariables; backed by a working copy so gets see earlier sets
+function createScopeApi(scope: VariableScope, values: Map<string, string>, changes: VariableChange[]) {
+  const unset = (key: string) => {
+    values.delete(key)
+    changes.push({ scope, key })
+  }
+
+  return {
+    get: (key: string): string | undefined => values.get(key),
+    set: (key: string, value: unknown) => {
+      const stringValue = stringifyValue(value)
+      values.set(key, stringValue)
+      changes.push({ scope, key, value: stringValue })
+    },
+    has: (key: string): boolean => values.has(key),
+    unset,
+    clear: () => Array.from(values.keys()).forEach(unset),
+    toObject: (): Record<string, string> => Object.fromEntries(values),
+  }
+}
+
+// pm.variables; reads resolve through every scope, writes go to the local scope
+function createVariablesApi(scopes: Map<string, string>[], local: ReturnType<typeof createScopeApi>) {
+  const resolve = (key: string): string | undefined => {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      if (scopes[i].has(key)) return scopes[i].get(key)
+    }
+    return undefined
+  }
+
+  return {
+    get: resolve,
+    set: local.set,
+    has: (key: string): boolean => resolve(key) !== undefined,
+    unset: local.unset,
+    toObject: (): Record<string, string> =>
+      Object.assign({}, ...scopes.map((scope) => Object.fromEntries(scope))),
+    replaceIn: (template: string): string =>
+      String(template).replace(/\{\{([^{}]+)\}\}/g, (match, key: string) => resolve(key) ?? match),
+  }
+}
+
+// pm.iterationData; the current data file row, read-only
+function createIterationDataApi(values: Map<string, string>) {
+  return {
+    get: (key: string): string | undefined => values.get(key),
+    has: (key: string): boolean => values.has(key),
+    toObject: (): Record<string, string> => Object.fromEntries(values),
+    toJSON: (): Record<string, string> => Object.fromEntries(values),
+  }
+}
+
+type CookieCallback = (error: Error | null, result?: unknown) => void
+
+// Postman's jar methods report through a callback rather than throwing
+function withCallback(callback: CookieCallback | undefined, fn: () => unknown) {
+  let result: unknown
+  try {
+    result = fn()
+  } catch (error) {
+    callback?.(error instanceof Error ? error : new Error(String(error)))
+    return
+  }
+  callback?.(null, result)
+}
+
+// pm.cookies; the jar's cookies for the request URL, and pm.cookies.jar() to read and change any URL's
+function createCookiesApi(jar: { cookies: Cookie[]; changed: boolean }, requestUrl: () => string) {
+  const forUrl = (url: string) => getCookiesForUrl(jar.cookies, url)
+  const find = (url: string, name: string) => forUrl(url).find((cookie) => cookie.name === name)
+  const update = (cookies: Cookie[]) => {
+    jar.cookies = cookies
+    jar.changed = true
+  }
+
+  // jar.set(url, name, value, callback) or jar.set(url, { name, value, ...attributes }, callback)
+  const set = (url: string, name: string | Partial<Cookie>, value?: unknown, callback?: CookieCallback) => {
+    const attributes = typeof name === 'object' ? name : { name, value: stringifyValue(value) }
+    const done = typeof name === 'object' ? (value as CookieCallback | undefined) : callback
+    withCallback(done, () => {
+      if (!attributes.name) throw new Error('A cookie needs a name')
+      const cookie: Cookie = {
+        name: attributes.name,
+        value: String(attributes.value ?? ''),
+        domain: attributes.domain?.replace(/^\./, '') || new URL(url).hostname,
+        path: attributes.path || '/',
+        hostOnly: !attributes.domain,
+        expires: attributes.expires,
+        secure: attributes.secure,
+        httpOnly: attributes.httpOnly,
+      }
+      update(mergeCookies(jar.cookies, [cookie]))
+      return { ...cookie }
+    })
+  }
+
+  return {
+    get: (name: string): string | undefined => find(requestUrl(), name)?.value,
+    has: (name: string): boolean => find(requestUrl(), name) !== undefined,
+    all: (): Cookie[] => forUrl(requestUrl()).map((cookie) => ({ ...cookie })),
+    toObject: (): Record<string, string> => {
+      const values: Record<string, string> = {}
+      // The longest path comes first and wins, as it would in the Cookie header
+      forUrl(requestUrl()).forEach((cookie) => {
+        values[cookie.name] ??= cookie.value
+      })
+      return values
+    },
+    jar: () => ({
+      get: (url: string, name: string, callback?: CookieCallback) => withCallback(callback, () => find(url, name)?.value),
+      getAll: (url: string, callback?: CookieCallback) =>
+        withCallback(callback, () => forUrl(url).map((cookie) => ({ ...cookie }))),
+      set,
+      unset: (url: string, name: string, callback?: CookieCallback) =>
+        withCallback(callback, () => {
+          const removed = forUrl(url).filter((cookie) => cookie.name === name)
+          update(jar.cookies.filter((cookie) => !removed.includes(cookie)))
+        }),
+      clear: (url: string, callback?: CookieCallback) =>
+        withCallback(callback, () => {
+          const removed = forUrl(url)
+          update(jar.cookies.filter((cookie) => !removed.includes(cookie)))
+        }),
+    }),
+  }
+}
+
+function findHeaderKey(headers: Record<string, string>, key: string): string | undefined {
+  return Object.keys(headers).find((k) => k.toLowerCase() === key.toLowerCase())
+}
+
+type HeaderInput = { key: string; value: string } | string
+
+// pm.request; mutations are applied to the outgoing request
+function createRequestApi(request: SendRequestBody) {
+  // A raw body replaces a binary or multipart one
+  const setRawBody = (value: string | undefined) => {
+    request.body = value
+    delete request.bodyEncoding
+    delete request.formData
+  }
+
+  const toPair = (header: HeaderInput, value?: string) =>
+    typeof header === 'string' ? { key: header, value: String(value ?? '') } : { key: header.key, value: String(header.value) }
+
+  return {
+    get method() {
+      return request.method
+    },
+    set method(value: string) {
+      request.method = String(value).toUpperCase()
+    },
+    get url() {
+      return request.url
+    },
+    set url(value: string) {
+      request.url = String(value)
+    },
+    headers: {
+      get: (key: string): string | undefined => {
+        const existing = findHeaderKey(request.headers, key)
+        return existing ? request.headers[existing] : undefined
+      },
+      has: (key: string): boolean => findHeaderKey(request.headers, key) !== undefined,
+      add: (header: HeaderInput, value?: string) => {
+        const pair = toPair(header, value)
+        request.headers[pair.key] = pair.value
+      },
+      upsert: (header: HeaderInput, value?: string) => {
+        const pair = toPair(header, value)
+        const existing = findHeaderKey(request.headers, pair.key)
+        request.headers[existing || pair.key] = pair.value
+      },
+      remove: (key: string) => {
+        const existing = findHeaderKey(request.headers, key)
+        if (existing) delete request.headers[existing]
+      },
+      toObject: (): Record<string, string> => ({ ...request.headers }),
+    },
+    body: {
+      get raw() {
+        return request.body
+      },
+      set raw(value: string | undefined) {
+        setRawBody(value === undefined ? undefined : String(value))
+      },
+      update: (value: string) => {
+        setRawBody(String(value))
+      },
+    },
+  }
+}
+
+// Response headers stay a plain object (`headers['content-type']`) with Postman's
+// get/has/toObject/all/each/count added as non-enumerable helpers. all() and each()
+// see repeated headers once per value; the rest join them.
+function createHeaderList(headers: ResponseHeader[]) {
+  const list: Record<string, unknown> = headersToObject(headers)
+  Object.defineProperties(list, {
+    get: { value: (name: string) => getHeader(headers, name) },
+    has: { value: (name: string) => getHeader(headers, name) !== undefined },
+    toObject: { value: () => headersToObject(headers) },
+    all: { value: () => headers.map((header) => ({ ...header })) },
+    each: { value: (fn: (header: ResponseHeader) => void) => headers.forEach((header) => fn({ ...header })) },
+    count: { value: () => headers.length },
+  })
+  return list
+}
+
+// pm.response and the response passed to pm.sendRequest callbacks.
+// `status` stays the numeric code for existing scripts; `code` is the Postman name.
+function createResponseApi(response: ApiResponse) {
+  const pmResponse = {
+    code: response.status,
+    status: response.status,
+    statusText: response.statusText,
+    reason: () => response.statusText,
+    headers: createHeaderList(response.headers),
+    body: response.body,
+    responseTime: response.time,
+    responseSize: response.size,
+    text: () => response.body,
+    json: () => {
+      try {
+        return JSON.parse(response.body)
+      } catch {
+        return null
+      }
+    },
+    get to() {
+      return expect(pmResponse).to
+    },
+  }
+  return pmResponse
+}
+
+function createTestApi(results: TestResult[]) {
+  return (name: string, fn: () => boolean | void) => {
+    try {
+      const result = fn()
+      results.push({
+        name,
+        passed: result !== false,
+      })
+    } catch (error) {
+      results.push({
+        name,
+        passed: false,
+        error: error instanceof Error ? error.message : 'Test failed',
+      })
+    }
+  }
+}
+
+type SendRequestInput =
+  | string
+  | {
+      url: string | { raw?: string }
+      method?: string
+      header?: Array<{ key: string; value: string; disabled?: boolean }> | Record<string, string>
+      body?: {
+        mode?: string
+        raw?: string
+        urlencoded?: Array<{ key: string; value: string; disabled?: boolean }>
+        formdata?: Array<{ key: string; value: string; disabled?: boolean }> // Text fields only
+        graphql?: { query: string; variables?: string | Record<string, unknown> }
+      }
+    }
+
+/**
+ * Convert the request accepted by pm.sendRequest (a URL or a Postman request object)
+ */
+export function toSendRequestBody(input: SendRequestInput): SendRequestBody {
+  if (typeof input === 'string') {
+    return { method: 'GET', url: input, headers: {} }
+  }
+
+  const headers: Record<string, string> = {}
+  if (Array.isArray(input.header)) {
+    input.header.filter((h) => !h.disabled).forEach((h) => {
+      headers[h.key] = String(h.value)
+    })
+  } else if (input.header) {
+    Object.entries(input.header).forEach(([key, value]) => {
+      headers[key] = String(value)
+    })
+  }
+
+  let body: string | undefined
+  let formData: SendRequestBody['formData']
+  if (input.body?.mode === 'formdata' && input.body.formdata) {
+    formData = input.body.formdata.filter((f) => !f.disabled).map((f) => ({ key: f.key, value: String(f.value) }))
+  } else if (input.body?.mode === 'urlencoded' && input.body.urlencoded) {
+    body = input.body.urlencoded
+      .filter((f) => !f.disabled)
+      .map((f) => `${encodeURIComponent(f.key)}=${encodeURIComponent(f.value)}`)
+      .join('&')
+    if (!findHeaderKey(headers, 'Content-Type')) headers['Content-Type'] = 'application/x-www-form-urlencoded'
+  } else if (input.body?.mode === 'graphql' && input.body.graphql) {
+    const { query, variables } = input.body.graphql
+    body = serializeGraphQLBody({ query, variables: typeof variables === 'object' ? JSON.stringify(variables) : variables })
+    if (!findHeaderKey(headers, 'Content-Type')) headers['Content-Type'] = 'application/json'
+  } else if (input.body?.raw !== undefined) {
+    body = input.body.raw
+  }
+
+  return {
+    method: (input.method || 'GET').toUpperCase(),
+    url: typeof input.url === 'string' ? input.url : input.url.raw || '',
+    headers,
+    body,
+    formData,
+  }
+}
+
+/**
+ * Run a script against the pm API and report what it changed.
+ * Resolves once the script and any pm.sendRequest callbacks have finished.
+ * Runs wherever it is called; isolation comes from the executor (a Web Worker,
+ * or a worker thread in Node).
+ */
+export async function executeScript(
+  input: ScriptInput,
+  host: ScriptHost = {},
+  compile: ScriptCompiler = compileAsyncFunction
+): Promise<ScriptOutput> {
+  const request: SendRequestBody = { ...input.request, headers: { ...input.request.headers } }
+  const variableChanges: VariableChange[] = []
+  const testResults: TestResult[] = []
+  const pending = new Set<Promise<unknown>>()
+  let callbackError: unknown
+
+  const values = {
+    globals: toValueMap(input.scopes.globals),
+    collection: toValueMap(input.scopes.collection),
+    environment: toValueMap(input.scopes.environment),
+    data: toValueMap(input.scopes.data || []),
+    local: toValueMap(input.scopes.local),
+  }
+  const local = createScopeApi('local', values.local, variableChanges)
+  const jar = { cookies: input.cookies || [], changed: false }
+
+  const sendRequest = (requestInput: SendRequestInput, callback?: (error: Error | null, response: unknown) => void) => {
+    const promise = (async () => {
+      const result = host.sendRequest
+        ? await host.sendRequest(toSendRequestBody(requestInput))
+        : { response: undefined, error: 'pm.sendRequest is not available here' }
+      const error = result.error ? new Error(result.error) : null
+      const response = !error && result.response ? createResponseApi(result.response) : null
+
+      if (callback) {
+        try {
+          callback(error, response)
+        } catch (e) {
+          callbackError ??= e
+        }
+        return response
+      }
+      if (error) throw error
+      return response
+    })()
+
+    pending.add(promise)
+    promise.then(() => pending.delete(promise), () => pending.delete(promise))
+    return promise
+  }
+
+  const pm: Record<string, unknown> = {
+    globals: createScopeApi('globals', values.globals, variableChanges),
+    collectionVariables: createScopeApi('collection', values.collection, variableChanges),
+    environment: createScopeApi('environment', values.environment, variableChanges),
+    variables: createVariablesApi([values.globals, values.collection, values.environment, values.data, values.local], local),
+    iterationData: createIterationDataApi(values.data),
+    info: { ...input.info },
+    request: createRequestApi(request),
+    cookies: createCookiesApi(jar, () => request.url),
+    sendRequest,
+    expect,
+  }
+  if (input.kind === 'test') {
+    pm.response = createResponseApi(input.response ?? { status: 0, statusText: '', headers: [], body: '', time: 0, size: 0 })
+    pm.test = createTestApi(testResults)
+  }
+
+  try {
+    const fn = compile(['pm', ...SHADOWED_GLOBALS], input.script)
+    // An empty receiver keeps sloppy-mode `this` from resolving to the global object
+    await fn.call({}, pm, ...SHADOWED_GLOBALS.map(() => undefined))
+
+    // Callbacks may send further requests, so wait until nothing is left
+    while (pending.size > 0) {
+      await Promise.all(Array.from(pending).map((p) => p.catch(() => undefined)))
+    }
+    if (callbackError) throw callbackError
+  } catch (error) {
+    return scriptError(input, error instanceof Error ? error.message : 'Script failed to execute', {
+      request,
+      variableChanges,
+      testResults,
+      cookies: jar.changed ? jar.cookies : undefined,
+    })
+  }
+
+  return { request, variableChanges, testResults, cookies: jar.changed ? jar.cookies : undefined }
+}
+
+/**
+ * Build the output for a script that failed or never finished.
+ * Test scripts report the failure as a test result, like they always have.
+ */
+export function scriptError(
+  input: ScriptInput,
+  message: string,
+  partial: Omit<ScriptOutput, 'error'> = { request: input.request, variableChanges: [], testResults: [] }
+): ScriptOutput {
+  if (input.kind === 'test') {
+    return {
+      ...partial,
+      testResults: [...partial.testResults, { name: 'Script Execution', passed: false, error: message }],
+    }
+  }
+  return { ...partial, error: message }
+}
@@ -0,0 +1,44 @@
+import { compileFunction } from 'node:vm'
+import { parentPort } from 'node:worker_threads'
+import { executeScript, type ScriptCompiler } from './sandbox'
+import type { ProxyResult } from '@/lib/request-sender'
+import type { ScriptRequestMessage } from './types'
+
+// Worker thread entry for createNodeExecutor, the Node counterpart of script.worker.ts
+const port = parentPort!
+
+// Remove Node's process, module loading and network APIs before any script runs
+for (const name of ['process', 'require', 'module', 'global', 'Buffer', 'fetch', 'WebSocket', 'BroadcastChannel', 'Worker']) {
+  try {
+    Object.defineProperty(globalThis, name, { value: undefined, configurable: false, writable: false })
+  } catch {
+    // Not configurable here; shadowing in the sandbox still applies
+  }
+}
+
+// Compiled without a dynamic import callback, so import('node:fs') fails inside scripts
+const compile: ScriptCompiler = (params, body) =>
+  compileFunction(`return (async () => {\n${body}\n})()`, params) as (...args: unknown[]) => Promise<unknown>
+
+// pm.sendRequest calls waiting on the parent to send them
+const pendingRequests = new Map<number, (result: ProxyResult) => void>()
+let nextRequestId = 0
+
+port.on('message', async (message: ScriptRequestMessage) => {
+  if (message.type === 'sendRequestResult') {
+    pendingRequests.get(message.requestId)?.(message.result)
+    pendingRequests.delete(message.requestId)
+    return
+  }
+
+  const { id, input } = message
+  const output = await executeScript(input, {
+    sendRequest: (request) =>
+      new Promise((resolve) => {
+        const requestId = ++nextRequestId
+        pendingRequests.set(requestId, resolve)
+        port.postMessage({ type: 'sendRequest', id, requestId, request })
+      }),
+  }, compile)
+  port.postMessage({ type: 'done', id, output })
+})
@@ -0,0 +1,44 @@
+import { executeScript } from './sandbox'
+import type { ProxyResult } from '@/lib/request-sender'
+import type { ScriptRequestMessage, ScriptResponseMessage } from './types'
+
+const scope = self as unknown as {
+  postMessage: (message: ScriptResponseMessage) => void
+  onmessage: ((event: MessageEvent<ScriptRequestMessage>) => void) | null
+} & Record<string, unknown>
+
+const post = scope.postMessage.bind(scope)
+
+// Remove network and loading APIs so scripts cannot reach them through the constructor chain either
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel']) {
+  try {
+    Object.defineProperty(scope, name, { value: undefined, configurable: false, writable: false })
+  } catch {
+    // Some engines expose these as non-configurable; shadowing in the sandbox still applies
+  }
+}
+
+// pm.sendRequest calls waiting on the page to send them
+const pendingRequests = new Map<number, (result: ProxyResult) => void>()
+let nextRequestId = 0
+
+scope.onmessage = async (event) => {
+  const message = event.data
+
+  if (message.type === 'sendRequestResult') {
+    pendingRequests.get(message.requestId)?.(message.result)
+    pendingRequests.delete(message.requestId)
+    return
+  }
+
+  const { id, input } = message
+  const output = await executeScript(input, {
+    sendRequest: (request) =>
+      new Promise((resolve) => {
+        const requestId = ++nextRequestId
+        pendingRequests.set(requestId, resolve)
+        post({ type: 'sendRequest', id, requestId, request })
+      }),
+  })
+  post({ type: 'done', id, output })
+}
@@ -0,0 +1,65 @@
+import type { ApiResponse, Cookie, KeyValue, TestResult } from '@/types'
+import type { SendRequestBody } from '@/app/api/request/route'
+import type { ProxyResult, RequestTransport } from '@/lib/request-sender'
+
+export type ScriptKind = 'pre-request' | 'test'
+
+export type VariableScope = 'globals' | 'collection' | 'environment' | 'local'
+
+// Variables visible to a script, lowest precedence first
+export interface ScriptScopes {
+  globals: KeyValue[]
+  collection: KeyValue[]
+  environment: KeyValue[]
+  data?: KeyValue[] // The current data file row; read-only (pm.iterationData)
+  local: KeyValue[]
+}
+
+// pm.info
+export interface ScriptInfo {
+  eventName: 'prerequest' | 'test'
+  requestName: string
+  requestId: string
+  iteration: number
+  iterationCount: number
+}
+
+// Everything a script can see; must be structured-cloneable to cross the worker boundary
+export interface ScriptInput {
+  kind: ScriptKind
+  script: string
+  scopes: ScriptScopes
+  info: ScriptInfo
+  request: SendRequestBody
+  response?: ApiResponse // Only for test scripts
+  cookies?: Cookie[] // The cookie jar, behind pm.cookies
+}
+
+export interface VariableChange {
+  scope: VariableScope
+  key: string
+  value?: string // undefined when the variable was unset
+}
+
+export interface ScriptOutput {
+  request: SendRequestBody // Outgoing request after pre-request mutations
+  variableChanges: VariableChange[] // set/unset calls, in order
+  testResults: TestResult[]
+  cookies?: Cookie[] // The cookie jar, when pm.cookies.jar() changed it
+  error?: string
+}
+
+// Capabilities the caller lends to a script
+export interface ScriptHost {
+  sendRequest?: RequestTransport // Backs pm.sendRequest
+}
+
+export type ScriptExecutor = (input: ScriptInput, host?: ScriptHost) => Promise<ScriptOutput>
+
+export type ScriptRequestMessage =
+  | { type: 'run'; id: number; input: ScriptInput }
+  | { type: 'sendRequestResult'; id: number; requestId: number; result: ProxyResult }
+
+export type ScriptResponseMessage =
+  | { type: 'done'; id: number; output: ScriptOutput }
+  | { type: 'sendRequest'; id: number; requestId: number; request: SendRequestBody }
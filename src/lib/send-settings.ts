@@ -0,0 +1,23 @@
+import type { ApiRequest, Collection, SendSettings } from '@/types'
+
+export const DEFAULT_SEND_SETTINGS: Required<SendSettings> = {
+  timeout: 0,
+  followRedirects: true,
+  maxRedirects: 20, // The limit fetch itself applies
+  verifyTls: true,
+}
+
+const KEYS = Object.keys(DEFAULT_SEND_SETTINGS) as (keyof SendSettings)[]
+
+/**
+ * The settings a request is sent with: each one set on the request, else on its
+ * collection. Returns undefined when neither sets anything, so defaults apply.
+ */
+export function resolveSendSettings(request: ApiRequest, collection?: Collection): SendSettings | undefined {
+  const settings: Record<string, unknown> = {}
+  KEYS.forEach((key) => {
+    const value = request.settings?.[key] ?? collection?.settings?.[key]
+    if (value !== undefined) settings[key] = value
+  })
+  return Object.keys(settings).length > 0 ? (settings as SendSettings) : undefined
+}
@@ -142,7 +142,7 @@ describe.skipIf(!isIntegrationTest)('S3 Storage Integration Tests', () => {
       response: {
         status: 200,
         statusText: 'OK',
-        headers: { 'content-type': 'application/json' },
+        headers: [{ key: 'content-type', value: 'application/json' }],
         body: '{"success": true}',
         time: 150,
         size: 18,
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { createInMemoryStorage, InMemoryStorageClient } from '../in-memory-storage'
 import { createStorageClient } from '../storage-client'
-import type { Collection, Environment, HistoryEntry } from '@/types'
+import type { Collection, CookieJar, Environment, Globals, HistoryEntry, WorkspaceSettings } from '@/types'
 
 describe('InMemoryStorageClient', () => {
   let storage: InMemoryStorageClient
@@ -80,6 +80,27 @@ describe('InMemoryStorageClient', () => {
       const result = await storage.getCollection('user-123', 'col-123')
       expect(result?.name).toBe('Updated Name')
     })
+
+    it('should keep request extractors', async () => {
+      const withExtractors: Collection = {
+        ...mockCollection,
+        requests: [{
+          id: 'req-1',
+          name: 'Login',
+          method: 'POST',
+          url: 'https://api.example.com/login',
+          headers: [],
+          params: [],
+          extractors: [{ id: 'e1', enabled: true, source: 'json', expression: '$.token', variable: 'authToken' }],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:00:00Z',
+        }],
+      }
+      await storage.saveCollection('user-123', withExtractors)
+
+      const result = await storage.getCollection('user-123', 'col-123')
+      expect(result).toEqual(withExtractors)
+    })
   })
 
   describe('Environment operations', () => {
@@ -126,6 +147,65 @@ describe('InMemoryStorageClient', () => {
     })
   })
 
+  describe('Globals operations', () => {
+    const mockGlobals: Globals = {
+      variables: [{ id: 'var-1', key: 'API_KEY', value: 'secret', enabled: true }],
+      updatedAt: '2024-01-01T00:00:00Z',
+    }
+
+    it('should generate correct S3 key for globals', () => {
+      const key = storage.getGlobalsKey('user-123')
+      expect(key).toBe('users/user-123/globals.json')
+    })
+
+    it('should save and get globals', async () => {
+      const result = await storage.saveGlobals('user-123', mockGlobals)
+      expect(result).toEqual({ success: true })
+
+      expect(await storage.getGlobals('user-123')).toEqual(mockGlobals)
+    })
+
+    it('should return null when no globals are saved', async () => {
+      await storage.saveGlobals('user-123', mockGlobals)
+      expect(await storage.getGlobals('user-456')).toBeNull()
+    })
+  })
+
+  describe('Cookie jar operations', () => {
+    const mockJar: CookieJar = {
+      cookies: [{ name: 'session', value: 'abc', domain: 'example.com', path: '/' }],
+      updatedAt: '2024-01-01T00:00:00Z',
+    }
+
+    it('should generate correct S3 key for cookies', () => {
+      expect(storage.getCookiesKey('user-123')).toBe('users/user-123/cookies.json')
+    })
+
+    it('should save and get the cookie jar', async () => {
+      expect(await storage.saveCookies('user-123', mockJar)).toEqual({ success: true })
+      expect(await storage.getCookies('user-123')).toEqual(mockJar)
+      expect(await storage.getCookies('user-456')).toBeNull()
+    })
+  })
+
+  describe('Workspace settings operations', () => {
+    const mockSettings: WorkspaceSettings = {
+      transport: 'agent',
+      agentUrl: 'http://127.0.0.1:6000',
+      updatedAt: '2024-01-01T00:00:00Z',
+    }
+
+    it('should generate correct S3 key for settings', () => {
+      expect(storage.getSettingsKey('user-123')).toBe('users/user-123/settings.json')
+    })
+
+    it('should save and get the settings', async () => {
+      expect(await storage.saveSettings('user-123', mockSettings)).toEqual({ success: true })
+      expect(await storage.getSettings('user-123')).toEqual(mockSettings)
+      expect(await storage.getSettings('user-456')).toBeNull()
+    })
+  })
+
   describe('History operations', () => {
     const mockHistoryEntry: HistoryEntry = {
       id: 'hist-123',
@@ -142,7 +222,7 @@ describe('InMemoryStorageClient', () => {
       response: {
         status: 200,
         statusText: 'OK',
-        headers: {},
+        headers: [],
         body: '{}',
         time: 100,
         size: 2,
@@ -175,6 +255,19 @@ describe('InMemoryStorageClient', () => {
       expect(result[2].id).toBe('hist-1') // Oldest last
     })
 
+    it('should convert headers stored as an object into a list', async () => {
+      const legacy = {
+        ...mockHistoryEntry,
+        response: { ...mockHistoryEntry.response!, headers: { 'Content-Type': 'application/json' } },
+      }
+      await storage.saveHistoryEntry('user-123', legacy as unknown as HistoryEntry)
+
+      const entry = await storage.getHistoryEntry('user-123', 'hist-123')
+      expect(entry?.response?.headers).toEqual([{ key: 'Content-Type', value: 'application/json' }])
+      const [listed] = await storage.listHistory('user-123')
+      expect(listed.response?.headers).toEqual([{ key: 'Content-Type', value: 'application/json' }])
+    })
+
     it('should limit history entries', async () => {
       for (let i = 0; i < 10; i++) {
         await storage.saveHistoryEntry('user-123', {
@@ -1,4 +1,5 @@
-import type { Collection, Environment, HistoryEntry, Team, UserProfile } from '@/types'
+import type { Collection, CookieJar, Environment, Globals, HistoryEntry, Team, UserProfile, WorkspaceSettings } from '@/types'
+import { migrateHistoryEntry } from '@/lib/response-headers'
 import type { StorageClient, StorageResult } from './storage-client'
 
 export interface InMemoryStorageClient extends StorageClient {
@@ -25,6 +26,18 @@ class InMemoryStorage implements InMemoryStorageClient {
     return `users/${this.sanitizeId(userId)}/environments/${environmentId}.json`
   }
 
+  getGlobalsKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/globals.json`
+  }
+
+  getCookiesKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/cookies.json`
+  }
+
+  getSettingsKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/settings.json`
+  }
+
   getHistoryKey(userId: string, entryId: string): string {
     return `users/${this.sanitizeId(userId)}/history/${entryId}.json`
   }
@@ -111,6 +124,48 @@ class InMemoryStorage implements InMemoryStorageClient {
     return environments
   }
 
+  // Global variable operations
+  async saveGlobals(userId: string, globals: Globals): Promise<StorageResult> {
+    const key = this.getGlobalsKey(userId)
+    this.data.set(key, JSON.stringify(globals))
+    return { success: true }
+  }
+
+  async getGlobals(userId: string): Promise<Globals | null> {
+    const key = this.getGlobalsKey(userId)
+    const data = this.data.get(key)
+    if (!data) return null
+    return JSON.parse(data) as Globals
+  }
+
+  // Cookie jar operations
+  async saveCookies(userId: string, jar: CookieJar): Promise<StorageResult> {
+    const key = this.getCookiesKey(userId)
+    this.data.set(key, JSON.stringify(jar))
+    return { success: true }
+  }
+
+  async getCookies(userId: string): Promise<CookieJar | null> {
+    const key = this.getCookiesKey(userId)
+    const data = this.data.get(key)
+    if (!data) return null
+    return JSON.parse(data) as CookieJar
+  }
+
+  // Workspace settings operations
+  async saveSettings(userId: string, settings: WorkspaceSettings): Promise<StorageResult> {
+    const key = this.getSettingsKey(userId)
+    this.data.set(key, JSON.stringify(settings))
+    return { success: true }
+  }
+
+  async getSettings(userId: string): Promise<WorkspaceSettings | null> {
+    const key = this.getSettingsKey(userId)
+    const data = this.data.get(key)
+    if (!data) return null
+    return JSON.parse(data) as WorkspaceSettings
+  }
+
   // History operations
   async saveHistoryEntry(userId: string, entry: HistoryEntry): Promise<StorageResult> {
     const key = this.getHistoryKey(userId, entry.id)
@@ -122,7 +177,7 @@ class InMemoryStorage implements InMemoryStorageClient {
     const key = this.getHistoryKey(userId, entryId)
     const data = this.data.get(key)
     if (!data) return null
-    return JSON.parse(data) as HistoryEntry
+    return migrateHistoryEntry(JSON.parse(data) as HistoryEntry)
   }
 
   async deleteHistoryEntry(userId: string, entryId: string): Promise<StorageResult> {
@@ -137,7 +192,7 @@ class InMemoryStorage implements InMemoryStorageClient {
 
     for (const [key, value] of this.data.entries()) {
       if (key.startsWith(prefix)) {
-        entries.push(JSON.parse(value) as HistoryEntry)
+        entries.push(migrateHistoryEntry(JSON.parse(value) as HistoryEntry))
       }
     }
 
@@ -1,4 +1,5 @@
 import type { Collection, Environment, HistoryEntry } from '@/types'
+import { migrateHistoryEntry } from '@/lib/response-headers'
 
 const STORAGE_KEYS = {
   COLLECTIONS: 'endpnt_collections',
@@ -6,6 +7,7 @@ const STORAGE_KEYS = {
   HISTORY: 'endpnt_history',
   ACTIVE_COLLECTION_ID: 'endpnt_active_collection_id',
   ACTIVE_ENVIRONMENT_ID: 'endpnt_active_environment_id',
+  OAUTH2_TOKENS: 'endpnt_oauth2_tokens', // Only written by earlier versions
 }
 
 function isLocalStorageAvailable(): boolean {
@@ -38,6 +40,9 @@ export interface LocalStorageClient {
   saveActiveEnvironmentId(id: string | null): void
   loadActiveEnvironmentId(): string | null
 
+  // OAuth 2.0 tokens are kept in memory for the session; this removes ones earlier versions saved
+  removeOAuth2Tokens(): void
+
   // Clear
   clear(): void
 }
@@ -96,7 +101,7 @@ class LocalStorage implements LocalStorageClient {
   }
 
   loadHistory(): HistoryEntry[] {
-    return this.getItem<HistoryEntry[]>(STORAGE_KEYS.HISTORY, [])
+    return this.getItem<HistoryEntry[]>(STORAGE_KEYS.HISTORY, []).map(migrateHistoryEntry)
   }
 
   // Active IDs
@@ -116,6 +121,12 @@ class LocalStorage implements LocalStorageClient {
     return this.getItem<string | null>(STORAGE_KEYS.ACTIVE_ENVIRONMENT_ID, null)
   }
 
+  // OAuth 2.0 tokens
+  removeOAuth2Tokens(): void {
+    if (!this.available) return
+    window.localStorage.removeItem(STORAGE_KEYS.OAUTH2_TOKENS)
+  }
+
   // Clear all data
   clear(): void {
     if (!this.available) return
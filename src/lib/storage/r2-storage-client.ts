@@ -1,4 +1,5 @@
-import type { Collection, Environment, HistoryEntry, Team, UserProfile } from '@/types'
+import type { Collection, CookieJar, Environment, Globals, HistoryEntry, Team, UserProfile, WorkspaceSettings } from '@/types'
+import { migrateHistoryEntry } from '@/lib/response-headers'
 import type { StorageClient, StorageResult } from './storage-client'
 
 // R2 bucket binding type for Cloudflare Workers
@@ -45,6 +46,18 @@ export class R2StorageClient implements StorageClient {
     return `users/${this.sanitizeId(userId)}/environments/${environmentId}.json`
   }
 
+  getGlobalsKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/globals.json`
+  }
+
+  getCookiesKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/cookies.json`
+  }
+
+  getSettingsKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/settings.json`
+  }
+
   getHistoryKey(userId: string, entryId: string): string {
     return `users/${this.sanitizeId(userId)}/history/${entryId}.json`
   }
@@ -178,6 +191,39 @@ export class R2StorageClient implements StorageClient {
     return environments
   }
 
+  // Global variable operations
+  async saveGlobals(userId: string, globals: Globals): Promise<StorageResult> {
+    const key = this.getGlobalsKey(userId)
+    return this.saveObject(key, globals)
+  }
+
+  async getGlobals(userId: string): Promise<Globals | null> {
+    const key = this.getGlobalsKey(userId)
+    return this.getObject<Globals>(key)
+  }
+
+  // Cookie jar operations
+  async saveCookies(userId: string, jar: CookieJar): Promise<StorageResult> {
+    const key = this.getCookiesKey(userId)
+    return this.saveObject(key, jar)
+  }
+
+  async getCookies(userId: string): Promise<CookieJar | null> {
+    const key = this.getCookiesKey(userId)
+    return this.getObject<CookieJar>(key)
+  }
+
+  // Workspace settings operations
+  async saveSettings(userId: string, settings: WorkspaceSettings): Promise<StorageResult> {
+    const key = this.getSettingsKey(userId)
+    return this.saveObject(key, settings)
+  }
+
+  async getSettings(userId: string): Promise<WorkspaceSettings | null> {
+    const key = this.getSettingsKey(userId)
+    return this.getObject<WorkspaceSettings>(key)
+  }
+
   // History operations
   async saveHistoryEntry(userId: string, entry: HistoryEntry): Promise<StorageResult> {
     const key = this.getHistoryKey(userId, entry.id)
@@ -186,7 +232,8 @@ export class R2StorageClient implements StorageClient {
 
   async getHistoryEntry(userId: string, entryId: string): Promise<HistoryEntry | null> {
     const key = this.getHistoryKey(userId, entryId)
-    return this.getObject<HistoryEntry>(key)
+    const entry = await this.getObject<HistoryEntry>(key)
+    return entry && migrateHistoryEntry(entry)
   }
 
   async deleteHistoryEntry(userId: string, entryId: string): Promise<StorageResult> {
@@ -5,7 +5,8 @@ import {
   DeleteObjectCommand,
   ListObjectsV2Command,
 } from '@aws-sdk/client-s3'
-import type { Collection, Environment, HistoryEntry, Team, UserProfile } from '@/types'
+import type { Collection, CookieJar, Environment, Globals, HistoryEntry, Team, UserProfile, WorkspaceSettings } from '@/types'
+import { migrateHistoryEntry } from '@/lib/response-headers'
 
 export interface StorageConfig {
   endpoint: string
@@ -35,6 +36,21 @@ export interface StorageClient {
   listEnvironments(userId: string): Promise<Environment[]>
   getEnvironmentKey(userId: string, environmentId: string): string
 
+  // Global variable operations
+  saveGlobals(userId: string, globals: Globals): Promise<StorageResult>
+  getGlobals(userId: string): Promise<Globals | null>
+  getGlobalsKey(userId: string): string
+
+  // Cookie jar operations
+  saveCookies(userId: string, jar: CookieJar): Promise<StorageResult>
+  getCookies(userId: string): Promise<CookieJar | null>
+  getCookiesKey(userId: string): string
+
+  // Workspace settings operations
+  saveSettings(userId: string, settings: WorkspaceSettings): Promise<StorageResult>
+  getSettings(userId: string): Promise<WorkspaceSettings | null>
+  getSettingsKey(userId: string): string
+
   // History operations
   saveHistoryEntry(userId: string, entry: HistoryEntry): Promise<StorageResult>
   getHistoryEntry(userId: string, entryId: string): Promise<HistoryEntry | null>
@@ -100,6 +116,18 @@ class S3StorageClient implements StorageClient {
     return `users/${this.sanitizeId(userId)}/environments/${environmentId}.json`
   }
 
+  getGlobalsKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/globals.json`
+  }
+
+  getCookiesKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/cookies.json`
+  }
+
+  getSettingsKey(userId: string): string {
+    return `users/${this.sanitizeId(userId)}/settings.json`
+  }
+
   getHistoryKey(userId: string, entryId: string): string {
     return `users/${this.sanitizeId(userId)}/history/${entryId}.json`
   }
@@ -254,6 +282,39 @@ class S3StorageClient implements StorageClient {
     return environments
   }
 
+  // Global variable operations
+  async saveGlobals(userId: string, globals: Globals): Promise<StorageResult> {
+    const key = this.getGlobalsKey(userId)
+    return this.saveObject(key, globals)
+  }
+
+  async getGlobals(userId: string): Promise<Globals | null> {
+    const key = this.getGlobalsKey(userId)
+    return this.getObject<Globals>(key)
+  }
+
+  // Cookie jar operations
+  async saveCookies(userId: string, jar: CookieJar): Promise<StorageResult> {
+    const key = this.getCookiesKey(userId)
+    return this.saveObject(key, jar)
+  }
+
+  async getCookies(userId: string): Promise<CookieJar | null> {
+    const key = this.getCookiesKey(userId)
+    return this.getObject<CookieJar>(key)
+  }
+
+  // Workspace settings operations
+  async saveSettings(userId: string, settings: WorkspaceSettings): Promise<StorageResult> {
+    const key = this.getSettingsKey(userId)
+    return this.saveObject(key, settings)
+  }
+
+  async getSettings(userId: string): Promise<WorkspaceSettings | null> {
+    const key = this.getSettingsKey(userId)
+    return this.getObject<WorkspaceSettings>(key)
+  }
+
   // History operations
   async saveHistoryEntry(userId: string, entry: HistoryEntry): Promise<StorageResult> {
     const key = this.getHistoryKey(userId, entry.id)
@@ -262,7 +323,8 @@ class S3StorageClient implements StorageClient {
 
   async getHistoryEntry(userId: string, entryId: string): Promise<HistoryEntry | null> {
     const key = this.getHistoryKey(userId, entryId)
-    return this.getObject<HistoryEntry>(key)
+    const entry = await this.getObject<HistoryEntry>(key)
+    return entry && migrateHistoryEntry(entry)
   }
 
   async deleteHistoryEntry(userId: string, entryId: string): Promise<StorageResult> {
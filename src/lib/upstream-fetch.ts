@@ -0,0 +1,149 @@
+import type { ApiResponse, Cookie, Redirect, ResponseTimings, SendSettings } from '@/types'
+import type { UpstreamRequest } from '@/lib/request-body'
+import { addCookieHeader, getCookiesForUrl, mergeCookies, parseSetCookie } from '@/lib/cookies'
+import { checkUrl, type NetworkPolicy } from '@/lib/network-policy'
+import { readResponseBody } from '@/lib/response-body'
+import { readResponseHeaders } from '@/lib/response-headers'
+import { DEFAULT_SEND_SETTINGS } from '@/lib/send-settings'
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+// Headers describing the body, dropped along with it when a redirect switches to GET
+const BODY_HEADERS = ['content-type', 'content-length', 'content-encoding', 'content-language', 'content-location']
+
+export interface UpstreamFetchRequest extends UpstreamRequest {
+  method: string
+  url: string
+}
+
+// verifyTls is up to the caller, which has to pass a fetch that skips verification
+export interface UpstreamFetchOptions extends SendSettings {
+  signal?: AbortSignal
+  fetch?: typeof fetch
+  cookies?: Cookie[] // The cookie jar; matching cookies are sent with each hop
+  policy?: NetworkPolicy // The proxy's; checked for each hop and limits the response size
+}
+
+// Connection phases of a response, from fetches that see the socket (createNodeFetch)
+export type ConnectionTimings = Pick<ResponseTimings, 'dns' | 'connect' | 'tls'>
+export type ResponseWithConnectionTimings = Response & { connectionTimings?: ConnectionTimings }
+
+export class RequestTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout} ms`)
+    this.name = 'RequestTimeoutError'
+  }
+}
+
+function withoutHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([key]) => !names.includes(key.toLowerCase())))
+}
+
+/**
+ * The request to send after a redirect, following the fetch standard: 303, and 301/302
+ * after a POST, switch to GET without a body, and credentials are not sent to another origin
+ */
+export function redirectRequest(request: UpstreamFetchRequest, status: number, location: string): UpstreamFetchRequest {
+  const url = new URL(location, request.url)
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Redirected to unsupported URL ${url}`)
+  }
+
+  let { method, headers, body } = request
+  const upper = method.toUpperCase()
+  if ((status === 303 && upper !== 'GET' && upper !== 'HEAD') || ((status === 301 || status === 302) && upper === 'POST')) {
+    method = 'GET'
+    body = undefined
+    headers = withoutHeaders(headers, BODY_HEADERS)
+  }
+  if (url.origin !== new URL(request.url).origin) {
+    headers = withoutHeaders(headers, ['authorization'])
+  }
+
+  return { method, url: url.toString(), headers, body }
+}
+
+/**
+ * Send a prepared request and read the response, following redirects by hand so
+ * each hop can be reported. Times the redirects, the wait for the first byte of
+ * the final response and its download, and its connection when the fetch measured it.
+ * The timeout covers all of them.
+ * Cookies set along the way are sent to later hops and reported on the response.
+ * With a network policy, a hop it does not allow throws a NetworkPolicyError.
+ */
+export async function fetchUpstream(request: UpstreamFetchRequest, options: UpstreamFetchOptions = {}): Promise<ApiResponse> {
+  const timeout = options.timeout ?? DEFAULT_SEND_SETTINGS.timeout
+  const followRedirects = options.followRedirects ?? DEFAULT_SEND_SETTINGS.followRedirects
+  const maxRedirects = options.maxRedirects ?? DEFAULT_SEND_SETTINGS.maxRedirects
+  const send = options.fetch ?? fetch
+
+  const timeoutSignal = timeout > 0 ? AbortSignal.timeout(timeout) : undefined
+  const signals = [options.signal, timeoutSignal].filter((signal) => signal !== undefined)
+  const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0]
+
+  const startTime = Date.now()
+  const redirects: Redirect[] = []
+  const setCookies: Cookie[] = []
+  let jar = options.cookies ?? []
+  let current = request
+  let hopStart = startTime
+  let response: Response
+
+  try {
+    for (;;) {
+      if (options.policy) checkUrl(current.url, options.policy)
+      hopStart = Date.now()
+      response = await send(current.url, {
+        method: current.method || 'GET',
+        headers: addCookieHeader(current.headers, getCookiesForUrl(jar, current.url)),
+        body: current.body,
+        redirect: 'manual',
+        signal,
+      })
+
+      const received = response.headers
+        .getSetCookie()
+        .map((header) => parseSetCookie(header, current.url))
+        .filter((cookie) => cookie !== null)
+      setCookies.push(...received)
+      jar = mergeCookies(jar, received)
+
+      const location = response.headers.get('location')
+      if (!followRedirects || !REDIRECT_STATUSES.includes(response.status) || location === null) break
+      if (redirects.length >= maxRedirects) throw new Error(`Stopped after ${maxRedirects} redirects`)
+
+      // Free the connection; the redirect body is never shown
+      await response.body?.cancel()
+      redirects.push({ url: current.url, status: response.status })
+      current = redirectRequest(current, response.status, location)
+    }
+
+    const headersTime = Date.now()
+    const { body, bodyEncoding, size } = await readResponseBody(response, options.policy?.maxResponseSize)
+    const endTime = Date.now()
+    const connection = (response as ResponseWithConnectionTimings).connectionTimings ?? {}
+    const connecting = (connection.dns ?? 0) + (connection.connect ?? 0) + (connection.tls ?? 0)
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: readResponseHeaders(response),
+      body,
+      bodyEncoding,
+      time: endTime - startTime,
+      size,
+      url: response.url || current.url, // Differs when the fetch followed redirects itself
+      redirects,
+      cookies: setCookies.length > 0 ? setCookies : undefined,
+      timings: {
+        redirect: hopStart - startTime,
+        ...connection,
+        firstByte: headersTime - hopStart - connecting,
+        download: endTime - headersTime,
+      },
+    }
+  } catch (error) {
+    if (timeoutSignal?.aborted) throw new RequestTimeoutError(timeout)
+    throw error
+  }
+}
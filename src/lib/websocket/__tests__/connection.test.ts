@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  MAX_LOG_ENTRIES,
+  appendLogEntry,
+  connectFromBrowser,
+  connectViaAgent,
+  createLogEntry,
+  describeCloseCode,
+  encodeWebSocketMessage,
+  messageLogEntry,
+  prepareWebSocketTarget,
+  type WebSocketHandlers,
+} from '../connection'
+import { parseRelayTarget } from '../relay'
+import type { ApiRequest, Collection } from '@/types'
+
+const request = (overrides: Partial<ApiRequest> = {}): ApiRequest => ({
+  id: 'ws-1',
+  name: 'Live',
+  protocol: 'websocket',
+  method: 'GET',
+  url: 'wss://{{host}}/live',
+  headers: [
+    { id: 'h1', key: 'X-Team', value: '{{team}}', enabled: true },
+    { id: 'h2', key: 'X-Off', value: 'a', enabled: false },
+  ],
+  params: [{ id: 'p1', key: 'room', value: 'lobby', enabled: true }],
+  websocket: { protocols: ['chat.{{version}}', ' '], message: '', messageFormat: 'text' },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+// A WebSocket the tests drive by hand
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = []
+  binaryType = 'blob'
+  protocol = ''
+  sent: unknown[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror: (() => void) | null = null
+  onclose: ((event: { code: number; reason: string }) => void) | null = null
+
+  constructor(public url: string, public protocols?: string[]) {
+    FakeWebSocket.instances.push(this)
+  }
+
+  send(data: unknown) {
+    this.sent.push(data)
+  }
+
+  close = vi.fn()
+}
+
+const handlers = () => ({
+  onOpen: vi.fn(),
+  onMessage: vi.fn(),
+  onError: vi.fn(),
+  onClose: vi.fn(),
+}) satisfies WebSocketHandlers
+
+describe('prepareWebSocketTarget', () => {
+  it('should substitute variables into the URL, headers and subprotocols', async () => {
+    const target = await prepareWebSocketTarget(request(), {
+      variables: [{ id: 'v1', key: 'host', value: 'rt.example.com', enabled: true }, { id: 'v2', key: 'team', value: 'core', enabled: true }],
+      globals: [{ id: 'g1', key: 'version', value: 'v2', enabled: true }],
+    })
+
+    expect(target).toEqual({
+      url: 'wss://rt.example.com/live?room=lobby',
+      headers: { 'X-Team': 'core' },
+      protocols: ['chat.v2'],
+      verifyTls: true,
+    })
+  })
+
+  it('should add inherited auth, matching cookies and settings', async () => {
+    const collection = {
+      id: 'c1',
+      name: 'Realtime',
+      requests: [],
+      folders: [],
+      variables: [],
+      auth: { type: 'bearer', bearer: { token: 'abc' } },
+      settings: { verifyTls: false },
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    } satisfies Collection
+
+    const target = await prepareWebSocketTarget(request({ url: 'https://rt.example.com/live', headers: [], params: [] }), {
+      variables: [],
+      collection,
+      cookies: [
+        { name: 'session', value: 's1', domain: 'rt.example.com', path: '/', secure: true },
+        { name: 'other', value: 'o', domain: 'other.example.com', path: '/' },
+      ],
+    })
+
+    expect(target).toMatchObject({
+      url: 'wss://rt.example.com/live',
+      headers: { Authorization: 'Bearer abc', Cookie: 'session=s1' },
+      verifyTls: false,
+    })
+  })
+})
+
+describe('encodeWebSocketMessage', () => {
+  it('should send text and JSON as written', () => {
+    expect(encodeWebSocketMessage('text', 'hello {')).toBe('hello {')
+    expect(encodeWebSocketMessage('json', '{ "a": 1 }')).toBe('{ "a": 1 }')
+  })
+
+  it('should decode binary messages from base64', () => {
+    expect(encodeWebSocketMessage('binary', 'AQID\nBA==')).toEqual(new Uint8Array([1, 2, 3, 4]))
+  })
+
+  it('should reject messages that do not match their format', () => {
+    expect(() => encodeWebSocketMessage('json', '{ a: 1 }')).toThrow(/^The message is not valid JSON/)
+    expect(() => encodeWebSocketMessage('binary', 'not base64!')).toThrow('Binary messages are written as base64')
+  })
+})
+
+describe('message log', () => {
+  it('should record message sizes in bytes', () => {
+    expect(messageLogEntry('sent', 'héllo')).toMatchObject({ type: 'sent', data: 'héllo', size: 6 })
+    expect(messageLogEntry('received', new Uint8Array([1, 2, 3]))).toMatchObject({ type: 'received', data: 'AQID', binary: true, size: 3 })
+  })
+
+  it('should drop the oldest entries past the limit', () => {
+    let log = Array.from({ length: MAX_LOG_ENTRIES }, (_, i) => createLogEntry('info', { message: String(i) }))
+    log = appendLogEntry(log, createLogEntry('info', { message: 'last' }))
+
+    expect(log).toHaveLength(MAX_LOG_ENTRIES)
+    expect(log[0].message).toBe('1')
+    expect(log[log.length - 1].message).toBe('last')
+  })
+
+  it('should describe close codes', () => {
+    expect(describeCloseCode(1000)).toBe('Normal closure')
+    expect(describeCloseCode(4002)).toBe('Closed by the application')
+  })
+})
+
+describe('connectors', () => {
+  afterEach(() => {
+    FakeWebSocket.instances = []
+    vi.unstubAllGlobals()
+  })
+
+  const target = { url: 'ws://localhost:8080/live', headers: { 'X-Team': 'core' }, protocols: ['chat'] }
+
+  it('should connect from the browser with the subprotocols', () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    const events = handlers()
+
+    const connection = connectFromBrowser(target, events)
+    const socket = FakeWebSocket.instances[0]
+    socket.protocol = 'chat'
+    socket.onopen?.()
+    socket.onmessage?.({ data: new Uint8Array([7]).buffer })
+    connection.send('hi')
+    socket.onclose?.({ code: 1000, reason: 'bye' })
+
+    expect(socket).toMatchObject({ url: target.url, protocols: ['chat'], binaryType: 'arraybuffer', sent: ['hi'] })
+    expect(events.onOpen).toHaveBeenCalledWith({ protocol: 'chat' })
+    expect(events.onMessage).toHaveBeenCalledWith(new Uint8Array([7]))
+    expect(events.onClose).toHaveBeenCalledWith(1000, 'bye')
+  })
+
+  it('should relay through the agent and report how the server closed', () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    const events = handlers()
+
+    const connection = connectViaAgent('http://127.0.0.1:5004')(target, events)
+    const socket = FakeWebSocket.instances[0]
+    socket.onopen?.()
+    socket.onmessage?.({ data: JSON.stringify({ type: 'open', protocol: 'chat', headers: [{ key: 'Upgrade', value: 'websocket' }] }) })
+    socket.onmessage?.({ data: JSON.stringify({ type: 'message', data: 'AQI=', binary: true }) })
+    connection.send(new Uint8Array([3]))
+    socket.onmessage?.({ data: JSON.stringify({ type: 'close', code: 4001, reason: 'done' }) })
+    socket.onclose?.({ code: 1000, reason: 'done' })
+
+    expect(parseRelayTarget(socket.url)).toMatchObject({ url: target.url, headers: target.headers })
+    expect(events.onOpen).toHaveBeenCalledWith({ protocol: 'chat', headers: [{ key: 'Upgrade', value: 'websocket' }] })
+    expect(events.onMessage).toHaveBeenCalledWith(new Uint8Array([1, 2]))
+    expect(socket.sent).toEqual([JSON.stringify({ type: 'message', data: 'Aw==', binary: true })])
+    expect(events.onClose).toHaveBeenCalledWith(4001, 'done')
+  })
+
+  it('should explain an agent that cannot be reached', () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    const events = handlers()
+
+    connectViaAgent('http://127.0.0.1:5004')(target, events)
+    FakeWebSocket.instances[0].onerror?.()
+
+    expect(events.onError).toHaveBeenCalledWith(expect.stringMatching(/^Could not reach the local agent at http:\/\/127\.0\.0\.1:5004/))
+  })
+})
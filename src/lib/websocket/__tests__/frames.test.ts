@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { OPCODES, WebSocketFrameReader, encodeCloseFrame, encodeFrame } from '../frames'
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+describe('encodeFrame', () => {
+  it('should encode short unmasked frames', () => {
+    expect(Array.from(encodeFrame(OPCODES.text, 'Hi'))).toEqual([0x81, 2, 0x48, 0x69])
+  })
+
+  it('should use extended lengths for longer payloads', () => {
+    const medium = encodeFrame(OPCODES.binary, new Uint8Array(300))
+    expect(Array.from(medium.subarray(0, 4))).toEqual([0x82, 126, 0x01, 0x2c])
+
+    const large = encodeFrame(OPCODES.binary, new Uint8Array(70000))
+    expect(large[1]).toBe(127)
+    expect(large.length).toBe(10 + 70000)
+  })
+
+  it('should mask frames from clients', () => {
+    const frame = encodeFrame(OPCODES.text, 'Hi', true)
+
+    expect(frame[1]).toBe(0x80 | 2)
+    const key = frame.subarray(2, 6)
+    expect([frame[6] ^ key[0], frame[7] ^ key[1]]).toEqual([0x48, 0x69])
+  })
+})
+
+describe('encodeCloseFrame', () => {
+  it('should carry the code and reason', () => {
+    expect(Array.from(encodeCloseFrame(1000, 'ok'))).toEqual([0x88, 4, 0x03, 0xe8, 0x6f, 0x6b])
+  })
+
+  it('should leave out codes that are never sent', () => {
+    expect(Array.from(encodeCloseFrame(1006))).toEqual([0x88, 0])
+  })
+})
+
+describe('WebSocketFrameReader', () => {
+  it('should read masked and unmasked messages', () => {
+    const reader = new WebSocketFrameReader()
+
+    expect(reader.push(concat(encodeFrame(OPCODES.text, 'héllo', true), encodeFrame(OPCODES.binary, new Uint8Array([1, 2]))))).toEqual([
+      { type: 'text', data: 'héllo' },
+      { type: 'binary', data: new Uint8Array([1, 2]) },
+    ])
+  })
+
+  it('should wait for frames split across chunks', () => {
+    const reader = new WebSocketFrameReader()
+    const frame = encodeFrame(OPCODES.text, 'x'.repeat(200), true)
+
+    expect(reader.push(frame.subarray(0, 3))).toEqual([])
+    expect(reader.push(frame.subarray(3, 100))).toEqual([])
+    expect(reader.push(frame.subarray(100))).toEqual([{ type: 'text', data: 'x'.repeat(200) }])
+  })
+
+  it('should put fragmented messages together around control frames', () => {
+    const reader = new WebSocketFrameReader()
+
+    expect(reader.push(concat(
+      encodeFrame(OPCODES.text, 'one ', false, false),
+      encodeFrame(OPCODES.ping, 'p'),
+      encodeFrame(OPCODES.continuation, 'two', false, true),
+    ))).toEqual([
+      { type: 'ping', data: new Uint8Array([0x70]) },
+      { type: 'text', data: 'one two' },
+    ])
+  })
+
+  it('should read close frames with and without a code', () => {
+    const reader = new WebSocketFrameReader()
+
+    expect(reader.push(concat(encodeCloseFrame(4001, 'done'), encodeCloseFrame()))).toEqual([
+      { type: 'close', code: 4001, reason: 'done' },
+      { type: 'close', reason: '' },
+    ])
+  })
+
+  it('should reject frames that break the protocol', () => {
+    expect(() => new WebSocketFrameReader().push(encodeFrame(OPCODES.continuation, 'x'))).toThrow('Unexpected continuation frame')
+    expect(() => new WebSocketFrameReader().push(encodeFrame(0x3, 'x'))).toThrow('Unknown opcode 3')
+    expect(() => new WebSocketFrameReader().push(encodeFrame(OPCODES.text, new Uint8Array([0xff])))).toThrow(
+      expect.objectContaining({ message: 'Text is not valid UTF-8', code: 1007 })
+    )
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { encodeRelayMessage, parseRelayMessage, parseRelayTarget, relayUrl } from '../relay'
+
+describe('relayUrl', () => {
+  it('should carry the target to the agent', () => {
+    const target = { url: 'ws://localhost:8080/chat', headers: { Authorization: 'Bearer a' }, protocols: ['chat'], verifyTls: true }
+    const url = relayUrl('http://127.0.0.1:5004', target)
+
+    expect(url).toMatch(/^ws:\/\/127\.0\.0\.1:5004\/websocket\?target=/)
+    expect(parseRelayTarget(url)).toEqual(target)
+  })
+
+  it('should connect securely to agents served over HTTPS', () => {
+    expect(relayUrl('https://agent.local', { url: 'wss://a.example.com', headers: {}, protocols: [] })).toMatch(/^wss:\/\/agent\.local\/websocket/)
+  })
+})
+
+describe('parseRelayTarget', () => {
+  const withTarget = (target: unknown) => `/websocket?target=${encodeURIComponent(JSON.stringify(target))}`
+
+  it('should fill in what the target leaves out', () => {
+    expect(parseRelayTarget(withTarget({ url: 'wss://a.example.com/live' }))).toEqual({
+      url: 'wss://a.example.com/live',
+      headers: {},
+      protocols: [],
+      verifyTls: true,
+    })
+  })
+
+  it('should reject missing targets and other protocols', () => {
+    expect(() => parseRelayTarget('/websocket')).toThrow('Expected the connection to open in the target parameter')
+    expect(() => parseRelayTarget(withTarget({ url: 'http://a.example.com' }))).toThrow('Expected a ws: or wss: URL, got http:')
+  })
+})
+
+describe('parseRelayMessage', () => {
+  it('should read messages from the agent', () => {
+    const message = { type: 'message' as const, data: 'AQI=', binary: true }
+
+    expect(parseRelayMessage(encodeRelayMessage(message))).toEqual(message)
+  })
+
+  it('should ignore anything else', () => {
+    expect(parseRelayMessage('{"type":"ping"}')).toBeNull()
+    expect(parseRelayMessage('hello')).toBeNull()
+  })
+})
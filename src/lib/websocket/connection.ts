@@ -0,0 +1,242 @@
+import type { ApiRequest, Collection, Cookie, KeyValue, ResponseHeader, WebSocketMessageFormat, WorkspaceSettings } from '@/types'
+import { DEFAULT_AGENT_URL } from '@/lib/agent'
+import {
+  applyAuth,
+  applyOAuth2Token,
+  createMemoryTokenStore,
+  ensureToken,
+  resolveAuthVariables,
+  resolveRequestAuth,
+  type OAuth2TokenStore,
+} from '@/lib/auth'
+import { addCookieHeader, getCookiesForUrl } from '@/lib/cookies'
+import { base64ToBytes, bytesToBase64 } from '@/lib/request-body'
+import { buildHeaders, buildUrl, mergeVariables, replaceVariables, sendViaProxy, type RequestTransport } from '@/lib/request-sender'
+import { resolveSendSettings } from '@/lib/send-settings'
+import { encodeRelayMessage, parseRelayMessage, relayUrl, type WebSocketTarget } from './relay'
+import { v4 as uuidv4 } from 'uuid'
+
+/** One line of a connection's message log */
+export interface WebSocketLogEntry {
+  id: string
+  type: 'sent' | 'received' | 'connected' | 'disconnected' | 'error' | 'info'
+  timestamp: string
+  data?: string // Message text, or base64 for binary messages
+  binary?: boolean
+  size?: number // Message size in bytes
+  message?: string // What happened, for entries about the connection
+  headers?: ResponseHeader[] // Handshake response headers, when the transport sees them
+}
+
+// Older entries are dropped, so a chatty server cannot fill the page's memory
+export const MAX_LOG_ENTRIES = 1000
+
+const CLOSE_CODES: Record<number, string> = {
+  1000: 'Normal closure',
+  1001: 'Going away',
+  1002: 'Protocol error',
+  1003: 'Unsupported data',
+  1005: 'No status received',
+  1006: 'Abnormal closure',
+  1007: 'Invalid message data',
+  1008: 'Policy violation',
+  1009: 'Message too big',
+  1010: 'Missing extension',
+  1011: 'Internal error',
+  1012: 'Service restart',
+  1013: 'Try again later',
+  1015: 'TLS handshake failed',
+}
+
+export interface WebSocketTargetOptions {
+  variables: KeyValue[] // Environment variables
+  globals?: KeyValue[]
+  collection?: Collection // Collection the request belongs to, for its variables, inherited auth and settings
+  cookies?: Cookie[] // Cookie jar; matching cookies are sent with the handshake
+  oauth2Tokens?: OAuth2TokenStore
+  transport?: RequestTransport // For fetching OAuth 2.0 tokens
+}
+
+/** Called as the connection changes; onClose is always last */
+export interface WebSocketHandlers {
+  onOpen: (info: { protocol: string; headers?: ResponseHeader[] }) => void
+  onMessage: (data: string | Uint8Array) => void
+  onError: (message: string) => void
+  onClose: (code: number, reason: string) => void
+}
+
+export interface WebSocketConnection {
+  send: (data: string | Uint8Array) => void
+  close: (code?: number, reason?: string) => void
+}
+
+export type WebSocketConnector = (target: WebSocketTarget, handlers: WebSocketHandlers) => WebSocketConnection
+
+export function isWebSocketUrl(url: string): boolean {
+  return /^wss?:\/\//i.test(url.trim())
+}
+
+/**
+ * Build the connection to open for a WebSocket request: substitute variables,
+ * add the request's (or inherited) auth and the jar's cookies. Basic, bearer,
+ * API key and OAuth 2.0 auth apply; digest and AWS signatures have no handshake
+ * to answer or sign. HTTP URLs are switched to ws: and wss:.
+ */
+export async function prepareWebSocketTarget(request: ApiRequest, options: WebSocketTargetOptions): Promise<WebSocketTarget> {
+  const variables = mergeVariables(options.globals || [], options.collection?.variables || [], options.variables)
+  const url = replaceVariables(buildUrl(request.url.trim(), request.params), variables).replace(/^http(s?):/i, 'ws$1:')
+  const headers = Object.fromEntries(
+    Object.entries(buildHeaders(request.headers)).map(([key, value]) => [key, replaceVariables(value, variables)])
+  )
+
+  const auth = resolveAuthVariables(resolveRequestAuth(request, options.collection).auth, variables)
+  let handshake = applyAuth({ method: 'GET', url, headers }, auth)
+  if (auth.type === 'oauth2' && auth.oauth2) {
+    const token = await ensureToken(auth.oauth2, options.oauth2Tokens || createMemoryTokenStore(), options.transport || sendViaProxy)
+    if (token) handshake = applyOAuth2Token(handshake, token)
+  }
+
+  const cookieUrl = handshake.url.replace(/^ws/i, 'http')
+  return {
+    url: handshake.url,
+    headers: addCookieHeader(handshake.headers, getCookiesForUrl(options.cookies || [], cookieUrl)),
+    protocols: (request.websocket?.protocols || []).map((protocol) => replaceVariables(protocol, variables).trim()).filter(Boolean),
+    verifyTls: resolveSendSettings(request, options.collection)?.verifyTls !== false,
+  }
+}
+
+/**
+ * Turn what was written in the message editor into what is sent: JSON is
+ * checked, and binary messages are written as base64
+ */
+export function encodeWebSocketMessage(format: WebSocketMessageFormat, content: string): string | Uint8Array {
+  if (format === 'json') {
+    try {
+      JSON.parse(content)
+    } catch (e) {
+      throw new Error(`The message is not valid JSON: ${e instanceof Error ? e.message : e}`)
+    }
+  }
+  if (format === 'binary') {
+    const base64 = content.replace(/\s+/g, '')
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.length % 4 === 1) {
+      throw new Error('Binary messages are written as base64')
+    }
+    return base64ToBytes(base64)
+  }
+  return content
+}
+
+export function describeCloseCode(code: number): string {
+  return CLOSE_CODES[code] ?? (code >= 4000 ? 'Closed by the application' : 'Closed')
+}
+
+export function createLogEntry(type: WebSocketLogEntry['type'], fields: Partial<WebSocketLogEntry> = {}): WebSocketLogEntry {
+  return { id: uuidv4(), type, timestamp: new Date().toISOString(), ...fields }
+}
+
+/**
+ * A log entry for a message sent or received
+ */
+export function messageLogEntry(type: 'sent' | 'received', data: string | Uint8Array): WebSocketLogEntry {
+  return typeof data === 'string'
+    ? createLogEntry(type, { data, size: new TextEncoder().encode(data).length })
+    : createLogEntry(type, { data: bytesToBase64(data), binary: true, size: data.length })
+}
+
+export function appendLogEntry(log: WebSocketLogEntry[], entry: WebSocketLogEntry): WebSocketLogEntry[] {
+  return [...log.slice(Math.max(0, log.length - MAX_LOG_ENTRIES + 1)), entry]
+}
+
+// For a socket that could not even be created; the handlers hear of it once the caller has the connection
+function failedConnection(handlers: WebSocketHandlers, message: string): WebSocketConnection {
+  setTimeout(() => {
+    handlers.onError(message)
+    handlers.onClose(1006, '')
+  })
+  return { send: () => {}, close: () => {} }
+}
+
+/**
+ * Connect from the browser itself. Browsers send only the subprotocols with
+ * the handshake: headers, auth and cookies from the jar are left out, and the
+ * reason a connection failed is not given.
+ */
+export const connectFromBrowser: WebSocketConnector = (target, handlers) => {
+  let socket: WebSocket
+  try {
+    socket = new WebSocket(target.url, target.protocols)
+  } catch (error) {
+    return failedConnection(handlers, error instanceof Error ? error.message : 'Invalid WebSocket URL')
+  }
+  socket.binaryType = 'arraybuffer'
+
+  socket.onopen = () => handlers.onOpen({ protocol: socket.protocol })
+  socket.onmessage = (event) => handlers.onMessage(typeof event.data === 'string' ? event.data : new Uint8Array(event.data as ArrayBuffer))
+  socket.onerror = () => handlers.onError('The connection failed. The server may be unreachable or have refused the handshake.')
+  socket.onclose = (event) => handlers.onClose(event.code, event.reason)
+
+  return {
+    send: (data) => socket.send(data),
+    close: (code, reason) => socket.close(code, reason),
+  }
+}
+
+/**
+ * A connector that opens connections through the local agent (`pnpm agent`),
+ * which sends the headers too and can reach localhost and private networks
+ */
+export function connectViaAgent(agentUrl = DEFAULT_AGENT_URL): WebSocketConnector {
+  return (target, handlers) => {
+    let socket: WebSocket
+    try {
+      socket = new WebSocket(relayUrl(agentUrl, target))
+    } catch (error) {
+      return failedConnection(handlers, error instanceof Error ? error.message : 'Invalid agent URL')
+    }
+
+    let reached = false
+    let serverClose: { code: number; reason: string } | undefined
+    socket.onopen = () => {
+      reached = true
+    }
+    socket.onmessage = (event) => {
+      const message = parseRelayMessage(String(event.data))
+      switch (message?.type) {
+        case 'open':
+          handlers.onOpen({ protocol: message.protocol, headers: message.headers })
+          break
+        case 'message':
+          handlers.onMessage(message.binary ? base64ToBytes(message.data) : message.data)
+          break
+        case 'error':
+          handlers.onError(message.message)
+          break
+        case 'close':
+          serverClose = { code: message.code, reason: message.reason }
+          break
+      }
+    }
+    socket.onerror = () => {
+      if (!reached) {
+        handlers.onError(`Could not reach the local agent at ${agentUrl}. Start it with "pnpm agent", or connect from the browser instead.`)
+      }
+    }
+    socket.onclose = (event) => handlers.onClose(serverClose?.code ?? event.code, serverClose?.reason ?? event.reason)
+
+    return {
+      send: (data) => socket.send(encodeRelayMessage(
+        typeof data === 'string' ? { type: 'message', data } : { type: 'message', data: bytesToBase64(data), binary: true }
+      )),
+      close: (code, reason) => socket.close(code, reason),
+    }
+  }
+}
+
+/**
+ * How a workspace's connections are opened. The proxy cannot hold connections
+ * open, so only the agent differs from connecting from the browser.
+ */
+export function getWebSocketConnector(settings?: Pick<WorkspaceSettings, 'transport' | 'agentUrl'>): WebSocketConnector {
+  return settings?.transport === 'agent' ? connectViaAgent(settings.agentUrl || DEFAULT_AGENT_URL) : connectFromBrowser
+}
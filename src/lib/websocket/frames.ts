@@ -0,0 +1,201 @@
+// WebSocket framing (RFC 6455), for the local agent, which relays connections
+// between the page and the server itself
+
+export const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+} as const
+
+// Larger messages are refused rather than buffered
+export const MAX_MESSAGE_SIZE = 64 * 1024 * 1024
+
+export interface WebSocketFrame {
+  fin: boolean
+  opcode: number
+  payload: Uint8Array
+}
+
+/** A whole message, put together from its frames, or a control frame */
+export type WebSocketEvent =
+  | { type: 'text'; data: string }
+  | { type: 'binary'; data: Uint8Array }
+  | { type: 'ping' | 'pong'; data: Uint8Array }
+  | { type: 'close'; code?: number; reason: string }
+
+export class WebSocketProtocolError extends Error {
+  constructor(message: string, public code = 1002) {
+    super(message)
+    this.name = 'WebSocketProtocolError'
+  }
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * Encode one frame. Frames from a client must be masked, frames from a server must not.
+ */
+export function encodeFrame(opcode: number, payload: Uint8Array | string = new Uint8Array(0), mask = false, fin = true): Uint8Array {
+  const data = typeof payload === 'string' ? encoder.encode(payload) : payload
+  const lengthBytes = data.length < 126 ? 0 : data.length <= 0xffff ? 2 : 8
+  const headerLength = 2 + lengthBytes + (mask ? 4 : 0)
+  const frame = new Uint8Array(headerLength + data.length)
+  const view = new DataView(frame.buffer)
+
+  frame[0] = (fin ? 0x80 : 0) | opcode
+  frame[1] = (mask ? 0x80 : 0) | (lengthBytes === 0 ? data.length : lengthBytes === 2 ? 126 : 127)
+  if (lengthBytes === 2) view.setUint16(2, data.length)
+  if (lengthBytes === 8) view.setBigUint64(2, BigInt(data.length))
+
+  if (!mask) {
+    frame.set(data, headerLength)
+    return frame
+  }
+  const key = crypto.getRandomValues(new Uint8Array(4))
+  frame.set(key, headerLength - 4)
+  for (let i = 0; i < data.length; i++) {
+    frame[headerLength + i] = data[i] ^ key[i % 4]
+  }
+  return frame
+}
+
+/**
+ * Encode a close frame. Codes 1005 and 1006 only describe a close locally and are never sent.
+ */
+export function encodeCloseFrame(code?: number, reason = '', mask = false): Uint8Array {
+  if (code === undefined || code === 1005 || code === 1006) return encodeFrame(OPCODES.close, undefined, mask)
+  // The reason has to fit in a control frame with the code
+  const reasonBytes = encoder.encode(reason).slice(0, 123)
+  const payload = new Uint8Array(2 + reasonBytes.length)
+  new DataView(payload.buffer).setUint16(0, code)
+  payload.set(reasonBytes, 2)
+  return encodeFrame(OPCODES.close, payload, mask)
+}
+
+/**
+ * Reads frames from a stream of bytes as they arrive and puts fragmented
+ * messages back together
+ */
+export class WebSocketFrameReader {
+  private buffer = new Uint8Array(0)
+  private fragments: Uint8Array[] = []
+  private fragmentsSize = 0
+  private fragmentOpcode: number | null = null
+
+  /**
+   * Add received bytes, returning the messages and control frames they completed.
+   * Throws a WebSocketProtocolError for data that breaks the protocol.
+   */
+  push(chunk: Uint8Array): WebSocketEvent[] {
+    const buffer = new Uint8Array(this.buffer.length + chunk.length)
+    buffer.set(this.buffer)
+    buffer.set(chunk, this.buffer.length)
+    this.buffer = buffer
+
+    const events: WebSocketEvent[] = []
+    let frame: WebSocketFrame | null
+    while ((frame = this.readFrame())) {
+      const event = this.handleFrame(frame)
+      if (event) events.push(event)
+    }
+    return events
+  }
+
+  private readFrame(): WebSocketFrame | null {
+    const buffer = this.buffer
+    if (buffer.length < 2) return null
+
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    const masked = (buffer[1] & 0x80) !== 0
+    let length = buffer[1] & 0x7f
+    let offset = 2
+    if (length === 126) {
+      if (buffer.length < 4) return null
+      length = view.getUint16(2)
+      offset = 4
+    } else if (length === 127) {
+      if (buffer.length < 10) return null
+      const longLength = view.getBigUint64(2)
+      if (longLength > BigInt(MAX_MESSAGE_SIZE)) throw new WebSocketProtocolError('Message too large', 1009)
+      length = Number(longLength)
+      offset = 10
+    }
+    if (length > MAX_MESSAGE_SIZE) throw new WebSocketProtocolError('Message too large', 1009)
+
+    const payloadStart = offset + (masked ? 4 : 0)
+    if (buffer.length < payloadStart + length) return null
+
+    const payload = buffer.slice(payloadStart, payloadStart + length)
+    if (masked) {
+      const key = buffer.subarray(offset, offset + 4)
+      for (let i = 0; i < payload.length; i++) payload[i] ^= key[i % 4]
+    }
+    this.buffer = buffer.slice(payloadStart + length)
+    return { fin: (buffer[0] & 0x80) !== 0, opcode: buffer[0] & 0x0f, payload }
+  }
+
+  private handleFrame({ fin, opcode, payload }: WebSocketFrame): WebSocketEvent | null {
+    switch (opcode) {
+      case OPCODES.close: {
+        if (payload.length === 0) return { type: 'close', reason: '' }
+        if (payload.length === 1) throw new WebSocketProtocolError('Invalid close frame')
+        const code = new DataView(payload.buffer, payload.byteOffset).getUint16(0)
+        return { type: 'close', code, reason: decodeText(payload.subarray(2)) }
+      }
+      case OPCODES.ping:
+        return { type: 'ping', data: payload }
+      case OPCODES.pong:
+        return { type: 'pong', data: payload }
+      case OPCODES.text:
+      case OPCODES.binary:
+        if (this.fragmentOpcode !== null) throw new WebSocketProtocolError('Expected the rest of a fragmented message')
+        if (!fin) {
+          this.fragmentOpcode = opcode
+          this.addFragment(payload)
+          return null
+        }
+        return toMessage(opcode, payload)
+      case OPCODES.continuation: {
+        if (this.fragmentOpcode === null) throw new WebSocketProtocolError('Unexpected continuation frame')
+        this.addFragment(payload)
+        if (!fin) return null
+
+        const message = new Uint8Array(this.fragmentsSize)
+        let offset = 0
+        for (const fragment of this.fragments) {
+          message.set(fragment, offset)
+          offset += fragment.length
+        }
+        const messageOpcode = this.fragmentOpcode
+        this.fragments = []
+        this.fragmentsSize = 0
+        this.fragmentOpcode = null
+        return toMessage(messageOpcode, message)
+      }
+      default:
+        throw new WebSocketProtocolError(`Unknown opcode ${opcode}`)
+    }
+  }
+
+  private addFragment(payload: Uint8Array) {
+    this.fragmentsSize += payload.length
+    if (this.fragmentsSize > MAX_MESSAGE_SIZE) throw new WebSocketProtocolError('Message too large', 1009)
+    this.fragments.push(payload)
+  }
+}
+
+function decodeText(bytes: Uint8Array): string {
+  try {
+    return decoder.decode(bytes)
+  } catch {
+    throw new WebSocketProtocolError('Text is not valid UTF-8', 1007)
+  }
+}
+
+function toMessage(opcode: number, payload: Uint8Array): WebSocketEvent {
+  return opcode === OPCODES.text ? { type: 'text', data: decodeText(payload) } : { type: 'binary', data: payload }
+}
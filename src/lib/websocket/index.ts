@@ -0,0 +1,31 @@
+export {
+  OPCODES,
+  MAX_MESSAGE_SIZE,
+  encodeFrame,
+  encodeCloseFrame,
+  WebSocketFrameReader,
+  WebSocketProtocolError,
+} from './frames'
+export type { WebSocketFrame, WebSocketEvent } from './frames'
+export { RELAY_PATH, relayUrl, parseRelayTarget, encodeRelayMessage, parseRelayMessage } from './relay'
+export type { WebSocketTarget, RelayMessage } from './relay'
+export {
+  MAX_LOG_ENTRIES,
+  isWebSocketUrl,
+  prepareWebSocketTarget,
+  encodeWebSocketMessage,
+  describeCloseCode,
+  createLogEntry,
+  messageLogEntry,
+  appendLogEntry,
+  connectFromBrowser,
+  connectViaAgent,
+  getWebSocketConnector,
+} from './connection'
+export type {
+  WebSocketLogEntry,
+  WebSocketTargetOptions,
+  WebSocketHandlers,
+  WebSocketConnection,
+  WebSocketConnector,
+} from './connection'
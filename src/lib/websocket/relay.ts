@@ -0,0 +1,74 @@
+import type { ResponseHeader } from '@/types'
+
+// Browsers cannot set headers on a WebSocket, so connections that need them go
+// through the local agent: the page connects to the agent's /websocket, which
+// connects to the server and relays messages both ways. Everything the agent
+// sends the page is a RelayMessage, so messages from the server cannot be
+// mistaken for news about the connection.
+
+export const RELAY_PATH = '/websocket'
+
+/** The connection the page asks the agent to open */
+export interface WebSocketTarget {
+  url: string // ws: or wss:
+  headers: Record<string, string>
+  protocols: string[]
+  verifyTls?: boolean // Off accepts any server certificate
+}
+
+export type RelayMessage =
+  | { type: 'open'; protocol: string; headers: ResponseHeader[] } // The server accepted the handshake
+  | { type: 'message'; data: string; binary?: boolean } // Binary data is base64
+  | { type: 'error'; message: string }
+  | { type: 'close'; code: number; reason: string } // How the server closed, just before the agent closes too
+
+/**
+ * The agent URL a page connects to for a target. The target travels in the
+ * query since the browser cannot send anything else with the handshake.
+ */
+export function relayUrl(agentUrl: string, target: WebSocketTarget): string {
+  const url = new URL(RELAY_PATH, agentUrl)
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+  url.searchParams.set('target', JSON.stringify(target))
+  return url.toString()
+}
+
+/**
+ * Read the target from the URL of a page's connection to the agent
+ */
+export function parseRelayTarget(requestUrl: string): WebSocketTarget {
+  const encoded = new URL(requestUrl, 'http://localhost').searchParams.get('target')
+  let target: Partial<WebSocketTarget>
+  try {
+    target = JSON.parse(encoded ?? '')
+  } catch {
+    throw new Error('Expected the connection to open in the target parameter')
+  }
+
+  const url = new URL(String(target.url))
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error(`Expected a ws: or wss: URL, got ${url.protocol}`)
+  }
+  return {
+    url: url.toString(),
+    headers: Object.fromEntries(Object.entries(target.headers ?? {}).map(([key, value]) => [key, String(value)])),
+    protocols: (target.protocols ?? []).map(String),
+    verifyTls: target.verifyTls !== false,
+  }
+}
+
+export function encodeRelayMessage(message: RelayMessage): string {
+  return JSON.stringify(message)
+}
+
+/**
+ * Parse a message from the agent; anything else gives null
+ */
+export function parseRelayMessage(text: string): RelayMessage | null {
+  try {
+    const message = JSON.parse(text) as RelayMessage
+    return ['open', 'message', 'error', 'close'].includes(message?.type) ? message : null
+  } catch {
+    return null
+  }
+}
@@ -6,7 +6,11 @@ const isPublicRoute = createRouteMatcher([
   '/sign-up(.*)',
   '/api/collections(.*)',
   '/api/environments(.*)',
+  '/api/globals(.*)',
+  '/api/cookies(.*)',
+  '/api/settings(.*)',
   '/api/request(.*)',
+  '/oauth2/callback',
   '/',
 ])
 
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { createAppStore, AppStore } from '../app-store'
+import { createAppStore, findRequestCollection, AppStore } from '../app-store'
 import type { Collection, Environment, ApiRequest, HistoryEntry } from '@/types'
 
 describe('AppStore', () => {
@@ -137,6 +137,58 @@ describe('AppStore', () => {
     })
   })
 
+  describe('Globals', () => {
+    it('should start with empty globals', () => {
+      expect(store.getState().globals).toEqual([])
+    })
+
+    it('should set globals', () => {
+      const globals = [{ id: 'g1', key: 'API_KEY', value: 'secret', enabled: true }]
+      store.setGlobals(globals)
+      expect(store.getState().globals).toEqual(globals)
+    })
+  })
+
+  describe('Cookies', () => {
+    it('should set the cookie jar', () => {
+      const cookies = [{ name: 'session', value: 'abc', domain: 'example.com', path: '/' }]
+      store.setCookies(cookies)
+      expect(store.getState().cookies).toEqual(cookies)
+    })
+  })
+
+  describe('Workspace settings', () => {
+    it('should send through the proxy by default', () => {
+      expect(store.getState().settings).toEqual({ transport: 'proxy' })
+    })
+
+    it('should update the settings', () => {
+      store.updateSettings({ transport: 'agent', agentUrl: 'http://127.0.0.1:6000' })
+      store.updateSettings({ transport: 'browser' })
+      expect(store.getState().settings).toEqual({ transport: 'browser', agentUrl: 'http://127.0.0.1:6000' })
+    })
+  })
+
+  describe('OAuth 2.0 tokens', () => {
+    const token = { accessToken: 'a1', tokenType: 'Bearer', obtainedAt: '2024-01-01T00:00:00Z' }
+
+    it('should keep tokens per environment', () => {
+      store.setOAuth2Token('env-1', 'key', token)
+      store.setOAuth2Token(null, 'key', { ...token, accessToken: 'a2' })
+
+      expect(store.getState().oauth2Tokens).toEqual({
+        'env-1': { key: token },
+        '': { key: { ...token, accessToken: 'a2' } },
+      })
+    })
+
+    it('should remove a token', () => {
+      store.setOAuth2Token('env-1', 'key', token)
+      store.setOAuth2Token('env-1', 'key', null)
+      expect(store.getState().oauth2Tokens['env-1']).toEqual({})
+    })
+  })
+
   describe('Active Request', () => {
     const mockRequest: ApiRequest = {
       id: 'req-123',
@@ -183,7 +235,7 @@ describe('AppStore', () => {
       response: {
         status: 200,
         statusText: 'OK',
-        headers: {},
+        headers: [],
         body: '{}',
         time: 100,
         size: 2,
@@ -220,7 +272,7 @@ describe('AppStore', () => {
       const response = {
         status: 200,
         statusText: 'OK',
-        headers: { 'content-type': 'application/json' },
+        headers: [{ key: 'content-type', value: 'application/json' }],
         body: '{"message": "success"}',
         time: 150,
         size: 23,
@@ -233,7 +285,7 @@ describe('AppStore', () => {
       store.setResponse({
         status: 200,
         statusText: 'OK',
-        headers: {},
+        headers: [],
         body: '',
         time: 0,
         size: 0,
@@ -274,3 +326,41 @@ describe('AppStore', () => {
     })
   })
 })
+
+describe('findRequestCollection', () => {
+  const request = (id: string): ApiRequest => ({
+    id,
+    name: id,
+    method: 'GET',
+    url: 'https://api.example.com',
+    headers: [],
+    params: [],
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  })
+  const collection = (id: string, overrides: Partial<Collection> = {}): Collection => ({
+    id,
+    name: id,
+    requests: [],
+    folders: [],
+    variables: [],
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  })
+  const collections = [
+    collection('top', { requests: [request('req-top')] }),
+    collection('nested', {
+      folders: [{ id: 'f1', name: 'Outer', requests: [], folders: [{ id: 'f2', name: 'Inner', requests: [request('req-deep')], folders: [] }] }],
+    }),
+  ]
+
+  it('should find requests at the top level and in nested folders', () => {
+    expect(findRequestCollection(collections, 'req-top')?.id).toBe('top')
+    expect(findRequestCollection(collections, 'req-deep')?.id).toBe('nested')
+  })
+
+  it('should return null for requests no collection holds', () => {
+    expect(findRequestCollection(collections, 'req-from-history')).toBeNull()
+  })
+})
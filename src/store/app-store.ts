@@ -1,14 +1,22 @@
-import type { Collection, Environment, ApiRequest, HistoryEntry, ApiResponse, Folder } from '@/types'
+import type { Collection, Environment, ApiRequest, HistoryEntry, ApiResponse, Folder, KeyValue, OAuth2Token, Cookie, WorkspaceSettings } from '@/types'
+
+// OAuth 2.0 tokens by environment ID ('' when no environment is active), then by token key.
+// Kept in memory only, so they last for the session and are never written to storage.
+export type OAuth2TokenCache = Record<string, Record<string, OAuth2Token>>
 
 export interface AppState {
   collections: Collection[]
   environments: Environment[]
+  globals: KeyValue[] // Global variables, shared by every environment
   activeCollectionId: string | null
   activeEnvironmentId: string | null
   activeRequest: ApiRequest | null
   response: ApiResponse | null
   responses: Record<string, ApiResponse> // Responses stored per request ID
   history: HistoryEntry[]
+  oauth2Tokens: OAuth2TokenCache
+  cookies: Cookie[] // The workspace's cookie jar
+  settings: Omit<WorkspaceSettings, 'updatedAt'>
   isLoading: boolean
 }
 
@@ -41,6 +49,18 @@ export interface AppStore {
   deleteEnvironment(id: string): void
   setActiveEnvironment(id: string | null): void
 
+  // Globals
+  setGlobals(globals: KeyValue[]): void
+
+  // OAuth 2.0 tokens
+  setOAuth2Token(environmentId: string | null, key: string, token: OAuth2Token | null): void
+
+  // Cookies
+  setCookies(cookies: Cookie[]): void
+
+  // Workspace settings
+  updateSettings(updates: Partial<AppState['settings']>): void
+
   // Active request
   setActiveRequest(request: ApiRequest | null): void
   updateActiveRequest(updates: Partial<ApiRequest>): void
@@ -74,12 +94,16 @@ class AppStoreImpl implements AppStore {
     this.state = {
       collections: [],
       environments: [],
+      globals: [],
       activeCollectionId: null,
       activeEnvironmentId: null,
       activeRequest: null,
       response: null,
       responses: {},
       history: [],
+      oauth2Tokens: {},
+      cookies: [],
+      settings: { transport: 'proxy' },
       isLoading: false,
     }
   }
@@ -392,6 +416,33 @@ class AppStoreImpl implements AppStore {
     this.setState({ activeEnvironmentId: id })
   }
 
+  // Globals
+  setGlobals(globals: KeyValue[]): void {
+    this.setState({ globals })
+  }
+
+  // OAuth 2.0 tokens
+  setOAuth2Token(environmentId: string | null, key: string, token: OAuth2Token | null): void {
+    const scope = environmentId ?? ''
+    const tokens = { ...this.state.oauth2Tokens[scope] }
+    if (token) {
+      tokens[key] = token
+    } else {
+      delete tokens[key]
+    }
+    this.setState({ oauth2Tokens: { ...this.state.oauth2Tokens, [scope]: tokens } })
+  }
+
+  // Cookies
+  setCookies(cookies: Cookie[]): void {
+    this.setState({ cookies })
+  }
+
+  // Workspace settings
+  updateSettings(updates: Partial<AppState['settings']>): void {
+    this.setState({ settings: { ...this.state.settings, ...updates } })
+  }
+
   // Active request
   setActiveRequest(request: ApiRequest | null): void {
     // When switching requests, load the stored response for that request
@@ -470,6 +521,17 @@ class AppStoreImpl implements AppStore {
   }
 }
 
+/**
+ * The collection holding a request, at the top level or in any folder. This
+ * need not be the collection selected in the sidebar. Null when no collection
+ * holds it, e.g. for a request opened from history after it was deleted.
+ */
+export function findRequestCollection(collections: Collection[], requestId: string): Collection | null {
+  const inFolders = (folders: Folder[]): boolean =>
+    folders.some((f) => f.requests.some((r) => r.id === requestId) || inFolders(f.folders))
+  return collections.find((c) => c.requests.some((r) => r.id === requestId) || inFolders(c.folders)) ?? null
+}
+
 export function createAppStore(): AppStore {
   return new AppStoreImpl()
 }
@@ -2,10 +2,13 @@
 
 import { createContext, useContext, useEffect, useState, ReactNode, useMemo, useRef, useCallback } from 'react'
 import { useAuth } from '@clerk/nextjs'
-import { createAppStore, AppStore, AppState } from './app-store'
-import { createInMemoryStorage, InMemoryStorageClient } from '@/lib/storage'
+import { createAppStore, findRequestCollection, AppStore, AppState } from './app-store'
+import { createInMemoryStorage, getLocalStorage, InMemoryStorageClient } from '@/lib/storage'
 import { getDeviceId } from '@/lib/device-id'
-import type { Collection, Environment, ApiRequest, HistoryEntry, ApiResponse } from '@/types'
+import type { OAuth2TokenStore } from '@/lib/auth'
+import type { CookieStore } from '@/lib/cookies'
+import { getTransport } from '@/lib/request-sender'
+import type { Collection, Environment, ApiRequest, HistoryEntry, ApiResponse, Globals, KeyValue, OAuth2Token, Cookie, CookieJar, WorkspaceSettings } from '@/types'
 import { v4 as uuidv4 } from 'uuid'
 
 // Debounce helper for sync function
@@ -41,6 +44,18 @@ interface StoreContextValue {
   deleteEnvironment: (id: string) => void
   setActiveEnvironment: (id: string | null) => void
 
+  // Globals actions
+  setGlobals: (globals: KeyValue[]) => void
+
+  // OAuth 2.0 token actions
+  setOAuth2Token: (environmentId: string | null, key: string, token: OAuth2Token | null) => void
+
+  // Cookie actions
+  setCookies: (cookies: Cookie[]) => void
+
+  // Workspace settings actions
+  updateSettings: (updates: Partial<AppState['settings']>) => void
+
   // Response actions
   setResponse: (response: ApiResponse, requestId?: string) => void
   getResponseForRequest: (requestId: string) => ApiResponse | null
@@ -70,7 +85,7 @@ export function StoreProvider({ children }: StoreProviderProps) {
   const debouncedSync = useRef(createDebouncedSync(1000))
 
   // Sync to API (always - using device ID for anonymous users)
-  const syncToApi = useCallback(async (collections: Collection[], environments: Environment[]) => {
+  const syncToApi = useCallback(async (collections: Collection[], environments: Environment[], globals: KeyValue[], cookies: Cookie[], settings: AppState['settings']) => {
     if (isSyncing.current) return
 
     const deviceId = getDeviceId()
@@ -95,6 +110,21 @@ export function StoreProvider({ children }: StoreProviderProps) {
           headers,
           body: JSON.stringify({ environments }),
         }),
+        fetch('/api/globals', {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ globals: { variables: globals, updatedAt: new Date().toISOString() } }),
+        }),
+        fetch('/api/cookies', {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ cookies: { cookies, updatedAt: new Date().toISOString() } }),
+        }),
+        fetch('/api/settings', {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ settings: { ...settings, updatedAt: new Date().toISOString() } }),
+        }),
       ])
     } catch (error) {
       console.error('Failed to sync to API:', error)
@@ -110,6 +140,8 @@ export function StoreProvider({ children }: StoreProviderProps) {
     const loadData = async () => {
       isInitialized.current = true
 
+      getLocalStorage().removeOAuth2Tokens()
+
       const deviceId = getDeviceId()
       if (!deviceId) {
         setState(store.getState())
@@ -122,9 +154,12 @@ export function StoreProvider({ children }: StoreProviderProps) {
           'x-device-id': deviceId,
         }
 
-        const [collectionsRes, environmentsRes] = await Promise.all([
+        const [collectionsRes, environmentsRes, globalsRes, cookiesRes, settingsRes] = await Promise.all([
           fetch('/api/collections', { headers }),
           fetch('/api/environments', { headers }),
+          fetch('/api/globals', { headers }),
+          fetch('/api/cookies', { headers }),
+          fetch('/api/settings', { headers }),
         ])
 
         if (collectionsRes.ok) {
@@ -141,6 +176,27 @@ export function StoreProvider({ children }: StoreProviderProps) {
           }
         }
 
+        if (globalsRes.ok) {
+          const data = await globalsRes.json() as { globals: Globals | null }
+          if (data.globals && data.globals.variables.length > 0) {
+            store.setGlobals(data.globals.variables)
+          }
+        }
+
+        if (cookiesRes.ok) {
+          const data = await cookiesRes.json() as { cookies: CookieJar | null }
+          if (data.cookies && data.cookies.cookies.length > 0) {
+            store.setCookies(data.cookies.cookies)
+          }
+        }
+
+        if (settingsRes.ok) {
+          const data = await settingsRes.json() as { settings: WorkspaceSettings | null }
+          if (data.settings) {
+            store.updateSettings({ transport: data.settings.transport, agentUrl: data.settings.agentUrl })
+          }
+        }
+
         // Force state update since subscription might not be set up yet
         setState(store.getState())
       } catch (error) {
@@ -160,7 +216,7 @@ export function StoreProvider({ children }: StoreProviderProps) {
 
       // Always sync to API (S3/R2) - debounced
       debouncedSync.current(() => {
-        syncToApi(newState.collections, newState.environments)
+        syncToApi(newState.collections, newState.environments, newState.globals, newState.cookies, newState.settings)
       })
     })
     return unsubscribe
@@ -240,6 +296,18 @@ export function StoreProvider({ children }: StoreProviderProps) {
       deleteEnvironment: store.deleteEnvironment.bind(store),
       setActiveEnvironment: store.setActiveEnvironment.bind(store),
 
+      // Globals actions
+      setGlobals: store.setGlobals.bind(store),
+
+      // OAuth 2.0 token actions
+      setOAuth2Token: store.setOAuth2Token.bind(store),
+
+      // Cookie actions
+      setCookies: store.setCookies.bind(store),
+
+      // Workspace settings actions
+      updateSettings: store.updateSettings.bind(store),
+
       // Response actions
       setResponse: store.setResponse.bind(store),
       getResponseForRequest: store.getResponseForRequest.bind(store),
@@ -292,6 +360,54 @@ export function useEnvironments() {
   }
 }
 
+export function useGlobals() {
+  const { state, setGlobals } = useStore()
+  return {
+    globals: state.globals,
+    setGlobals,
+  }
+}
+
+export function useOAuth2Tokens() {
+  const { state, store, setOAuth2Token } = useStore()
+  const environmentId = state.activeEnvironmentId
+  // Reads the store directly so a token refreshed mid-run is seen by the next request
+  const tokenStore = useMemo<OAuth2TokenStore>(() => ({
+    get: (key) => store.getState().oauth2Tokens[environmentId ?? '']?.[key],
+    set: (key, token) => store.setOAuth2Token(environmentId, key, token),
+  }), [store, environmentId])
+  return {
+    tokens: state.oauth2Tokens[environmentId ?? ''] || {},
+    tokenStore,
+    setToken: (key: string, token: OAuth2Token | null) => setOAuth2Token(environmentId, key, token),
+  }
+}
+
+export function useCookies() {
+  const { state, store, setCookies } = useStore()
+  // Reads the store directly so a cookie set by one request of a run is sent with the next
+  const cookieStore = useMemo<CookieStore>(() => ({
+    get: () => store.getState().cookies,
+    set: (cookies) => store.setCookies(cookies),
+  }), [store])
+  return {
+    cookies: state.cookies,
+    cookieStore,
+    setCookies,
+  }
+}
+
+export function useTransport() {
+  const { state, updateSettings } = useStore()
+  const { transport, agentUrl } = state.settings
+  const send = useMemo(() => getTransport({ transport, agentUrl }), [transport, agentUrl])
+  return {
+    settings: state.settings,
+    transport: send,
+    updateSettings,
+  }
+}
+
 export function useActiveRequest() {
   const { state, setActiveRequest, updateActiveRequest } = useStore()
   return {
@@ -301,6 +417,16 @@ export function useActiveRequest() {
   }
 }
 
+// The collection the active request belongs to, whose variables, scripts, auth and settings apply to it
+export function useRequestCollection(): Collection | null {
+  const { state } = useStore()
+  const requestId = state.activeRequest?.id
+  return useMemo(
+    () => (requestId ? findRequestCollection(state.collections, requestId) : null),
+    [state.collections, requestId]
+  )
+}
+
 export function useResponse() {
   const { state, setResponse, clearResponse } = useStore()
   return {
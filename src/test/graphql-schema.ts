@@ -0,0 +1,90 @@
+import { buildSchema, type GraphQLTypeRef } from '@/lib/graphql'
+
+// A small schema, as a server would return it from introspection, for the GraphQL tests
+
+const named = (name: string, kind: GraphQLTypeRef['kind'] = 'OBJECT'): GraphQLTypeRef => ({ kind, name, ofType: null })
+const nonNull = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({ kind: 'NON_NULL', name: null, ofType })
+const list = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({ kind: 'LIST', name: null, ofType })
+const scalar = (name: string) => named(name, 'SCALAR')
+
+const field = (name: string, type: GraphQLTypeRef, args: { name: string; type: GraphQLTypeRef; defaultValue?: string }[] = [], extra = {}) => ({
+  name,
+  description: null,
+  args: args.map((arg) => ({ description: null, defaultValue: null, ...arg })),
+  type,
+  isDeprecated: false,
+  deprecationReason: null,
+  ...extra,
+})
+
+export const introspectionResult = {
+  data: {
+    __schema: {
+      queryType: { name: 'Query' },
+      mutationType: { name: 'Mutation' },
+      subscriptionType: null,
+      types: [
+        {
+          kind: 'OBJECT',
+          name: 'Query',
+          fields: [
+            field('user', named('User'), [{ name: 'id', type: nonNull(scalar('ID')) }]),
+            field('users', nonNull(list(nonNull(named('User')))), [
+              { name: 'role', type: named('Role', 'ENUM') },
+              { name: 'first', type: scalar('Int'), defaultValue: '10' },
+            ]),
+            field('search', nonNull(list(nonNull(named('SearchResult', 'UNION')))), [{ name: 'text', type: nonNull(scalar('String')) }]),
+          ],
+          interfaces: [],
+        },
+        {
+          kind: 'OBJECT',
+          name: 'Mutation',
+          fields: [field('createUser', nonNull(named('User')), [{ name: 'input', type: nonNull(named('CreateUserInput', 'INPUT_OBJECT')) }])],
+          interfaces: [],
+        },
+        {
+          kind: 'OBJECT',
+          name: 'User',
+          description: 'A person with an account',
+          fields: [
+            field('id', nonNull(scalar('ID'))),
+            field('name', scalar('String')),
+            field('role', named('Role', 'ENUM')),
+            field('friends', nonNull(list(nonNull(named('User')))), [{ name: 'first', type: scalar('Int') }]),
+            field('email', scalar('String'), [], { isDeprecated: true, deprecationReason: 'Use contact' }),
+          ],
+          interfaces: [],
+        },
+        { kind: 'OBJECT', name: 'Post', fields: [field('id', nonNull(scalar('ID'))), field('title', scalar('String'))], interfaces: [] },
+        { kind: 'UNION', name: 'SearchResult', possibleTypes: [named('User'), named('Post')] },
+        {
+          kind: 'ENUM',
+          name: 'Role',
+          enumValues: [
+            { name: 'ADMIN', description: null, isDeprecated: false, deprecationReason: null },
+            { name: 'MEMBER', description: null, isDeprecated: false, deprecationReason: null },
+          ],
+        },
+        {
+          kind: 'INPUT_OBJECT',
+          name: 'CreateUserInput',
+          inputFields: [
+            { name: 'name', description: null, type: nonNull(scalar('String')), defaultValue: null },
+            { name: 'role', description: null, type: named('Role', 'ENUM'), defaultValue: 'MEMBER' },
+          ],
+        },
+        { kind: 'SCALAR', name: 'ID' },
+        { kind: 'SCALAR', name: 'String' },
+        { kind: 'SCALAR', name: 'Int' },
+        { kind: 'SCALAR', name: 'Boolean' },
+      ],
+      directives: [
+        { name: 'include', description: null, args: [{ name: 'if', description: null, type: nonNull(scalar('Boolean')), defaultValue: null }] },
+        { name: 'skip', description: null, args: [{ name: 'if', description: null, type: nonNull(scalar('Boolean')), defaultValue: null }] },
+      ],
+    },
+  },
+}
+
+export const testSchema = buildSchema(introspectionResult)
@@ -15,14 +15,39 @@ export const KeyValueSchema = z.object({
 export type KeyValue = z.infer<typeof KeyValueSchema>
 
 // Request body types
-export const BodyTypeSchema = z.enum(['none', 'json', 'form-data', 'x-www-form-urlencoded', 'raw', 'binary'])
+export const BodyTypeSchema = z.enum(['none', 'json', 'form-data', 'x-www-form-urlencoded', 'raw', 'binary', 'graphql'])
 export type BodyType = z.infer<typeof BodyTypeSchema>
 
+// File picked for a form-data field or a binary body; stored inline so the request can be sent again
+export const FileAttachmentSchema = z.object({
+  name: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  data: z.string(), // Base64
+})
+export type FileAttachment = z.infer<typeof FileAttachmentSchema>
+
+// Form-data row; URL-encoded bodies only use the text fields
+export const FormFieldSchema = KeyValueSchema.extend({
+  type: z.enum(['text', 'file']).optional(), // Text when absent
+  file: FileAttachmentSchema.optional(),
+})
+export type FormField = z.infer<typeof FormFieldSchema>
+
+// GraphQL query; variables are JSON text so they can hold {{variables}}
+export const GraphQLBodySchema = z.object({
+  query: z.string(),
+  variables: z.string().optional(),
+})
+export type GraphQLBody = z.infer<typeof GraphQLBodySchema>
+
 // Request body
 export const RequestBodySchema = z.object({
   type: BodyTypeSchema,
   content: z.string().optional(),
-  formData: z.array(KeyValueSchema).optional(),
+  formData: z.array(FormFieldSchema).optional(),
+  file: FileAttachmentSchema.optional(), // Binary body
+  graphql: GraphQLBodySchema.optional(),
 })
 export type RequestBody = z.infer<typeof RequestBodySchema>
 
@@ -33,17 +58,130 @@ export const ScriptSchema = z.object({
 })
 export type Script = z.infer<typeof ScriptSchema>
 
+// Authorization; requests and folders without auth (or with 'inherit') use their parent's
+export const AuthTypeSchema = z.enum(['inherit', 'none', 'basic', 'bearer', 'apikey', 'digest', 'oauth2', 'awsv4'])
+export type AuthType = z.infer<typeof AuthTypeSchema>
+
+export const OAuth2GrantTypeSchema = z.enum(['client_credentials', 'password', 'authorization_code'])
+export type OAuth2GrantType = z.infer<typeof OAuth2GrantTypeSchema>
+
+export const OAuth2ConfigSchema = z.object({
+  grantType: OAuth2GrantTypeSchema,
+  accessTokenUrl: z.string(),
+  authUrl: z.string().default(''), // Authorization code only
+  usePkce: z.boolean().default(true),
+  clientId: z.string(),
+  clientSecret: z.string().default(''),
+  clientAuthentication: z.enum(['header', 'body']).default('header'), // Basic auth header, or client_id/client_secret form fields
+  scope: z.string().default(''),
+  username: z.string().default(''), // Password grant only
+  password: z.string().default(''),
+})
+export type OAuth2Config = z.infer<typeof OAuth2ConfigSchema>
+
+// Access token from a token endpoint, cached per environment for the session
+export const OAuth2TokenSchema = z.object({
+  accessToken: z.string(),
+  tokenType: z.string().default('Bearer'),
+  refreshToken: z.string().optional(),
+  scope: z.string().optional(),
+  expiresAt: z.string().optional(), // ISO timestamp; absent when the server gave no expires_in
+  obtainedAt: z.string(),
+})
+export type OAuth2Token = z.infer<typeof OAuth2TokenSchema>
+
+// AWS Signature Version 4; the request is signed by whichever side sends it upstream
+export const AwsSigV4ConfigSchema = z.object({
+  accessKeyId: z.string(),
+  secretAccessKey: z.string(),
+  sessionToken: z.string().default(''), // Temporary credentials only
+  region: z.string(),
+  service: z.string(),
+})
+export type AwsSigV4Config = z.infer<typeof AwsSigV4ConfigSchema>
+
+export const AuthSchema = z.object({
+  type: AuthTypeSchema,
+  basic: z.object({ username: z.string(), password: z.string() }).optional(),
+  bearer: z.object({ token: z.string() }).optional(),
+  apikey: z.object({ key: z.string(), value: z.string(), in: z.enum(['header', 'query']) }).optional(),
+  digest: z.object({ username: z.string(), password: z.string() }).optional(),
+  oauth2: OAuth2ConfigSchema.optional(),
+  awsv4: AwsSigV4ConfigSchema.optional(),
+})
+export type Auth = z.infer<typeof AuthSchema>
+
+// Declarative rule that copies a value from the response into an environment variable
+export const ExtractorSourceSchema = z.enum(['json', 'header', 'regex'])
+export type ExtractorSource = z.infer<typeof ExtractorSourceSchema>
+
+export const ExtractorSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean().default(true),
+  source: ExtractorSourceSchema,
+  expression: z.string(), // JSONPath, header name, or regex (first capture group) over the body
+  variable: z.string(),
+})
+export type Extractor = z.infer<typeof ExtractorSchema>
+
+// Declarative check on the response, evaluated into a TestResult
+export const AssertionTypeSchema = z.enum(['status', 'responseTime', 'header', 'jsonPath', 'jsonSchema'])
+export type AssertionType = z.infer<typeof AssertionTypeSchema>
+
+export const AssertionOperatorSchema = z.enum(['equals', 'notEquals', 'contains', 'matches', 'exists', 'below', 'above'])
+export type AssertionOperator = z.infer<typeof AssertionOperatorSchema>
+
+export const ResponseAssertionSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean().default(true),
+  type: AssertionTypeSchema,
+  target: z.string().default(''), // Header name or JSONPath; unused for other types
+  operator: AssertionOperatorSchema,
+  expected: z.string().default(''), // Expected value, pattern, or JSON Schema text
+})
+export type ResponseAssertion = z.infer<typeof ResponseAssertionSchema>
+
+// How a request is sent. Unset fields fall back to the collection's settings, then the defaults.
+export const SendSettingsSchema = z.object({
+  timeout: z.number().optional(), // ms for the whole request, 0 for none
+  followRedirects: z.boolean().optional(),
+  maxRedirects: z.number().optional(),
+  verifyTls: z.boolean().optional(), // Can only be turned off where requests are sent from Node, e.g. the CLI runner
+})
+export type SendSettings = z.infer<typeof SendSettingsSchema>
+
+// What a request speaks: one HTTP exchange, or a WebSocket connection that stays open for messages
+export const RequestProtocolSchema = z.enum(['http', 'websocket'])
+export type RequestProtocol = z.infer<typeof RequestProtocolSchema>
+
+export const WebSocketMessageFormatSchema = z.enum(['text', 'json', 'binary'])
+export type WebSocketMessageFormat = z.infer<typeof WebSocketMessageFormatSchema>
+
+// WebSocket connection; the message being written is saved with it
+export const WebSocketSettingsSchema = z.object({
+  protocols: z.array(z.string()).default([]), // Subprotocols offered in the handshake, preferred first
+  message: z.string().default(''),
+  messageFormat: WebSocketMessageFormatSchema.default('text'), // Binary messages are written as base64
+})
+export type WebSocketSettings = z.infer<typeof WebSocketSettingsSchema>
+
 // API Request
 export const ApiRequestSchema = z.object({
   id: z.string(),
   name: z.string(),
-  method: HttpMethodSchema,
+  protocol: RequestProtocolSchema.optional(), // HTTP when absent
+  method: HttpMethodSchema, // GET for WebSocket connections, whose handshake is a GET
   url: z.string(),
   headers: z.array(KeyValueSchema).default([]),
   params: z.array(KeyValueSchema).default([]),
   body: RequestBodySchema.optional(),
+  auth: AuthSchema.optional(),
   preRequestScript: ScriptSchema.optional(),
   testScript: ScriptSchema.optional(),
+  extractors: z.array(ExtractorSchema).optional(),
+  assertions: z.array(ResponseAssertionSchema).optional(),
+  settings: SendSettingsSchema.optional(),
+  websocket: WebSocketSettingsSchema.optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 })
@@ -55,6 +193,7 @@ export const FolderSchema: z.ZodType<Folder> = z.lazy(() =>
     id: z.string(),
     name: z.string(),
     description: z.string().optional(),
+    auth: AuthSchema.optional(),
     requests: z.array(ApiRequestSchema).default([]),
     folders: z.array(FolderSchema).default([]),
   })
@@ -63,6 +202,7 @@ export interface Folder {
   id: string
   name: string
   description?: string
+  auth?: Auth
   requests: ApiRequest[]
   folders: Folder[]
 }
@@ -75,8 +215,10 @@ export const CollectionSchema = z.object({
   requests: z.array(ApiRequestSchema).default([]),
   folders: z.array(FolderSchema).default([]),
   variables: z.array(KeyValueSchema).default([]),
+  auth: AuthSchema.optional(),
   preRequestScript: ScriptSchema.optional(),
   testScript: ScriptSchema.optional(),
+  settings: SendSettingsSchema.optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 })
@@ -92,14 +234,90 @@ export const EnvironmentSchema = z.object({
 })
 export type Environment = z.infer<typeof EnvironmentSchema>
 
+// Global variables (one set per user, available in every environment)
+export const GlobalsSchema = z.object({
+  variables: z.array(KeyValueSchema).default([]),
+  updatedAt: z.string(),
+})
+export type Globals = z.infer<typeof GlobalsSchema>
+
+// Cookie, as stored in the cookie jar
+export const CookieSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+  domain: z.string(),
+  path: z.string().default('/'),
+  expires: z.string().optional(), // ISO date; session cookies have none and last until cleared
+  hostOnly: z.boolean().optional(), // Set without a Domain attribute, so subdomains do not get it
+  secure: z.boolean().optional(),
+  httpOnly: z.boolean().optional(),
+  sameSite: z.string().optional(),
+})
+export type Cookie = z.infer<typeof CookieSchema>
+
+// Cookie jar (one per workspace, filled from responses and sent with matching requests)
+export const CookieJarSchema = z.object({
+  cookies: z.array(CookieSchema).default([]),
+  updatedAt: z.string(),
+})
+export type CookieJar = z.infer<typeof CookieJarSchema>
+
+// How requests leave the app: through the hosted proxy, a local agent on the
+// user's machine, or straight from the browser, which CORS limits
+export const TransportModeSchema = z.enum(['proxy', 'agent', 'browser'])
+export type TransportMode = z.infer<typeof TransportModeSchema>
+
+// Workspace settings (one per workspace)
+export const WorkspaceSettingsSchema = z.object({
+  transport: TransportModeSchema.default('proxy'),
+  agentUrl: z.string().optional(), // Where the local agent listens, when not the default
+  updatedAt: z.string(),
+})
+export type WorkspaceSettings = z.infer<typeof WorkspaceSettingsSchema>
+
 // Response
+// Phases of a request in ms. Only the agent and CLI, which see the socket, measure
+// DNS, connect and TLS times, and only for new connections. Fetch has none, so in
+// the proxy and browser they count towards firstByte instead.
+export const ResponseTimingsSchema = z.object({
+  redirect: z.number().optional(), // Following redirects, before the final request
+  dns: z.number().optional(),
+  connect: z.number().optional(), // TCP, after the DNS lookup
+  tls: z.number().optional(),
+  firstByte: z.number(), // From sending the final request to its response headers
+  download: z.number(),
+})
+export type ResponseTimings = z.infer<typeof ResponseTimingsSchema>
+
+export const RedirectSchema = z.object({
+  url: z.string(),
+  status: z.number(),
+})
+export type Redirect = z.infer<typeof RedirectSchema>
+
+// A header sent more than once appears once per value
+export const ResponseHeaderSchema = z.object({
+  key: z.string(),
+  value: z.string(),
+})
+export type ResponseHeader = z.infer<typeof ResponseHeaderSchema>
+
 export const ApiResponseSchema = z.object({
   status: z.number(),
   statusText: z.string(),
-  headers: z.record(z.string(), z.string()),
+  // As received through the agent or CLI; the proxy can only keep Set-Cookie repeats (see readResponseHeaders)
+  headers: z.array(ResponseHeaderSchema),
   body: z.string(),
+  bodyEncoding: z.enum(['base64']).optional(), // Binary bodies, e.g. images and PDFs, are base64
   time: z.number(), // Response time in ms
   size: z.number(), // Response size in bytes
+  timings: ResponseTimingsSchema.optional(),
+  url: z.string().optional(), // Final URL, after redirects
+  redirects: z.array(RedirectSchema).optional(), // Each URL that redirected, in order
+  cookies: z.array(CookieSchema).optional(), // Set by the response and its redirects; expired ones delete
+  // Only known to transports that see the connection itself
+  httpVersion: z.string().optional(),
+  remoteAddress: z.string().optional(),
 })
 export type ApiResponse = z.infer<typeof ApiResponseSchema>
 
@@ -108,6 +326,7 @@ export const HistoryEntrySchema = z.object({
   id: z.string(),
   request: ApiRequestSchema,
   response: ApiResponseSchema.optional(),
+  cancelled: z.boolean().optional(), // Cancelled before the response arrived
   timestamp: z.string(),
 })
 export type HistoryEntry = z.infer<typeof HistoryEntrySchema>